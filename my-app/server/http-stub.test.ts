@@ -0,0 +1,126 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createHttpStub } from './http-stub';
+import { WorkflowExecutionEngine } from '../src/workflow-engine-core';
+import type { ActionNodeConfig, NodeConfig, NodeData, NodeExecutionContext, Workflow } from '../src/workflow-engine-core';
+import { HttpProcessor, HttpStatusError } from '../src/engine/http-action';
+import { NodeRegistry } from '../src/engine/node-registry';
+import { registerBuiltinNodes } from '../src/engine/builtin-nodes';
+
+const registry = new NodeRegistry();
+registerBuiltinNodes(registry);
+
+const stub = createHttpStub();
+let baseUrl = '';
+let requests = 0;
+
+beforeAll(async () => {
+  const { port } = await stub.listen(0, '127.0.0.1');
+  baseUrl = `http://127.0.0.1:${port}`;
+  stub.server.on('request', () => requests++);
+});
+
+afterAll(() => stub.close());
+
+const action = (config: Partial<ActionNodeConfig>): NodeConfig =>
+  ({ id: 'call', name: 'call', type: 'action', position: { x: 0, y: 0 }, enabled: true, ...config }) as NodeConfig;
+
+const context = (): NodeExecutionContext => ({
+  nodeId: 'call',
+  workflowId: 'wf',
+  executionId: 'run',
+  inputData: {},
+  outputData: {},
+  status: 'running',
+  logs: [],
+  attempts: [],
+});
+
+const send = (config: Partial<ActionNodeConfig>, run = context()) => new HttpProcessor(action(config)).execute(run);
+
+const echoed = async (config: Partial<ActionNodeConfig>) => (await send(config)).response as NodeData;
+
+const decodeBasic = (header: unknown) => Buffer.from(String(header).replace(/^Basic /, ''), 'base64').toString('utf8');
+
+describe('HttpProcessor against the HTTP stub', () => {
+  it('sends the method, query parameters, headers and JSON body', async () => {
+    const echo = await echoed({
+      apiEndpoint: `${baseUrl}/orders`,
+      method: 'POST',
+      queryParams: { page: 2, tags: ['a', 'b'] },
+      headers: { 'X-Request-Id': 'r-1' },
+      payload: { total: 12.5 },
+    });
+
+    expect(echo).toMatchObject({ method: 'POST', path: '/orders', query: { page: '2', tags: '["a","b"]' } });
+    expect(echo.headers).toMatchObject({ 'x-request-id': 'r-1', 'content-type': 'application/json' });
+    expect(JSON.parse(echo.body as string)).toEqual({ total: 12.5 });
+  });
+
+  it('sends form and raw bodies with their content types', async () => {
+    const form = await echoed({ apiEndpoint: baseUrl, method: 'PUT', bodyType: 'form', payload: { name: 'Zoë', qty: 2 } });
+    expect(form.body).toBe('name=Zo%C3%AB&qty=2');
+    expect(form.headers).toMatchObject({ 'content-type': 'application/x-www-form-urlencoded' });
+
+    const raw = await echoed({ apiEndpoint: baseUrl, method: 'PATCH', bodyType: 'raw', rawBody: 'plain words' });
+    expect(raw.body).toBe('plain words');
+    expect(raw.headers).toMatchObject({ 'content-type': 'text/plain' });
+  });
+
+  it('authenticates with bearer, basic and API-key auth', async () => {
+    const bearer = await echoed({ apiEndpoint: baseUrl, authType: 'bearer', authToken: 'abc' });
+    expect(bearer.headers).toMatchObject({ authorization: 'Bearer abc' });
+
+    const basic = await echoed({ apiEndpoint: baseUrl, authType: 'basic', authUsername: 'zoë', authPassword: 'pässwörd€' });
+    expect(decodeBasic((basic.headers as NodeData).authorization)).toBe('zoë:pässwörd€');
+
+    const header = await echoed({ apiEndpoint: baseUrl, authType: 'apiKey', apiKeyName: 'X-API-Key', apiKeyValue: 'k1' });
+    expect(header.headers).toMatchObject({ 'x-api-key': 'k1' });
+
+    const run = context();
+    const query = await send({ apiEndpoint: baseUrl, authType: 'apiKey', apiKeyIn: 'query', apiKeyName: 'key', apiKeyValue: 'k2' }, run);
+    expect((query.response as NodeData).query).toEqual({ key: 'k2' });
+    expect(run.logs.join('\n')).not.toContain('k2');
+  });
+
+  it('reads text and binary responses', async () => {
+    expect((await send({ apiEndpoint: `${baseUrl}/text` })).response).toBe('GET /text');
+
+    const bytes = await send({ apiEndpoint: `${baseUrl}/bytes/3` });
+    expect(bytes.response).toEqual({ contentType: 'application/octet-stream', size: 3, base64: 'q6ur' });
+  });
+
+  it('fails on an error status unless told to output it', async () => {
+    const error = await send({ apiEndpoint: `${baseUrl}/status/404` }).catch((caught: unknown) => caught);
+    expect(error).toBeInstanceOf(HttpStatusError);
+    expect(error).toMatchObject({ status: 404, message: `${baseUrl}/status/404 responded 404 Not Found` });
+
+    const output = await send({ apiEndpoint: `${baseUrl}/status/404`, errorMode: 'output' });
+    expect(output.status).toBe(404);
+    expect(output.response).toMatchObject({ path: '/status/404' });
+  });
+
+  it('retries failed requests as the node settings ask', async () => {
+    const workflow: Workflow = {
+      id: 'wf',
+      name: 'Calls',
+      version: '1',
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      isActive: false,
+      nodes: [
+        { id: 'trigger', name: 'trigger', type: 'trigger', triggerType: 'manual', position: { x: 0, y: 0 }, enabled: true } as NodeConfig,
+        action({ apiEndpoint: `${baseUrl}/status/503`, retryCount: 2, retryBackoff: 'fixed', retryDelay: 1 }),
+      ],
+      connections: [{ id: 'c', sourceNodeId: 'trigger', targetNodeId: 'call', sourceOutput: 'output', targetInput: 'input' }],
+      settings: { errorHandling: 'stop' },
+    };
+    const before = requests;
+
+    const execution = await new WorkflowExecutionEngine({ registry }).executeWorkflow(workflow, {});
+
+    expect(requests - before).toBe(3);
+    expect(execution.status).toBe('failed');
+    expect(execution.nodeExecutions.find(exec => exec.nodeId === 'call')?.attempts).toHaveLength(3);
+    expect(execution.error).toContain('responded 503 Service Unavailable');
+  });
+});
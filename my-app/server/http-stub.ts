@@ -0,0 +1,84 @@
+/**
+ * File: http-stub.ts
+ *
+ * A stand-in API for trying Action nodes without a real service. Every
+ * request is answered with a JSON echo of what was received, except:
+ *
+ *   /status/<code>   answers with that status code (and the echo as body)
+ *   /text            answers with plain text
+ *   /bytes/<n>       answers with n bytes of binary data
+ */
+
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server } from 'node:http';
+import type { AddressInfo } from 'node:net';
+
+export interface HttpStub {
+  server: Server;
+  listen(port: number, host?: string): Promise<AddressInfo>;
+  close(): Promise<void>;
+}
+
+const readBody = (request: IncomingMessage): Promise<string> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('end', () => resolve(Buffer.concat(chunks).toString('utf8')));
+    request.on('error', reject);
+  });
+
+export const createHttpStub = (): HttpStub => {
+  const server = createServer((request, response) => {
+    void readBody(request).then(body => {
+      const url = new URL(request.url ?? '/', 'http://localhost');
+      const cors = { 'Access-Control-Allow-Origin': '*', 'Access-Control-Allow-Headers': '*', 'Access-Control-Allow-Methods': '*' };
+
+      if (request.method === 'OPTIONS') {
+        response.writeHead(204, cors);
+        response.end();
+        return;
+      }
+
+      const bytes = /^\/bytes\/(\d+)$/.exec(url.pathname);
+      if (bytes) {
+        const data = Buffer.alloc(Math.min(Number(bytes[1]), 1024 * 1024), 0xab);
+        response.writeHead(200, { ...cors, 'Content-Type': 'application/octet-stream' });
+        response.end(data);
+        return;
+      }
+      if (url.pathname === '/text') {
+        response.writeHead(200, { ...cors, 'Content-Type': 'text/plain; charset=utf-8' });
+        response.end(`${request.method} ${url.pathname}`);
+        return;
+      }
+
+      const status = /^\/status\/(\d{3})$/.exec(url.pathname);
+      response.writeHead(status ? Number(status[1]) : 200, { ...cors, 'Content-Type': 'application/json' });
+      response.end(
+        JSON.stringify({
+          method: request.method,
+          path: url.pathname,
+          query: Object.fromEntries(url.searchParams),
+          headers: request.headers,
+          body,
+        })
+      );
+    });
+  });
+
+  return {
+    server,
+    listen: (port, host) =>
+      new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, host, () => {
+          server.off('error', reject);
+          resolve(server.address() as AddressInfo);
+        });
+      }),
+    close: () =>
+      new Promise((resolve, reject) => {
+        server.close(error => (error ? reject(error) : resolve()));
+      }),
+  };
+};
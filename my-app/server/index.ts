@@ -0,0 +1,66 @@
+/**
+ * File: index.ts
+ *
+ * Starts the local webhook receiver: npm run webhooks. It listens on WEBHOOK_HOST (default
+ * 127.0.0.1, so only this machine can reach it) and WEBHOOK_PORT (default 8787). The builder's
+ * routes need the token in WEBHOOK_ADMIN_TOKEN, which the builder sends from
+ * VITE_WEBHOOK_ADMIN_TOKEN, and answer browsers only at WEBHOOK_ALLOWED_ORIGIN (default
+ * http://localhost:5173, the dev server); without a token they stay closed and only /webhooks/
+ * paths are served. Set WEBHOOK_SIMULATION=1 to run nodes without a real processor as mocks, the
+ * same as the builder's simulation mode. Table nodes keep their data in the JSON file named by
+ * WEBHOOK_TABLES_FILE (default data/tables.json).
+ *
+ * Email nodes send through the SMTP server at SMTP_HOST, on SMTP_PORT, with SMTP_SECURE=1 for
+ * TLS from the start and SMTP_USER / SMTP_PASSWORD to log in; SMTP_FROM is the default sender.
+ * Without SMTP_HOST messages stay in an in-memory outbox.
+ *
+ * Stored credentials are read from the encrypted vault in CREDENTIALS_FILE (default
+ * data/credentials.json) and unlocked with CREDENTIALS_MASTER_KEY; without it, nodes that use a
+ * stored credential fail. Email nodes given an SMTP credential send through that server.
+ */
+
+import { WorkflowExecutionEngine } from '../src/workflow-engine-core';
+import { nodeRegistry } from '../src/engine/node-registry';
+import { registerBuiltinNodes } from '../src/engine/builtin-nodes';
+import { TableDatabase } from '../src/engine/table-store';
+import { OutboxTransport } from '../src/engine/email-transport';
+import { CredentialVault } from '../src/engine/credentials';
+import { createWebhookServer } from './webhook-server';
+import { JsonFileTableStorage } from './json-file-table-storage';
+import { SmtpTransport } from './smtp-transport';
+import { JsonFileCredentialStorage } from './json-file-credential-storage';
+
+registerBuiltinNodes(nodeRegistry);
+
+const port = Number(process.env.WEBHOOK_PORT ?? 8787);
+const host = process.env.WEBHOOK_HOST ?? '127.0.0.1';
+const tables = new TableDatabase(new JsonFileTableStorage(process.env.WEBHOOK_TABLES_FILE ?? 'data/tables.json'));
+const mailer = process.env.SMTP_HOST
+  ? new SmtpTransport({
+      host: process.env.SMTP_HOST,
+      port: process.env.SMTP_PORT ? Number(process.env.SMTP_PORT) : undefined,
+      secure: process.env.SMTP_SECURE === '1',
+      username: process.env.SMTP_USER,
+      password: process.env.SMTP_PASSWORD,
+      from: process.env.SMTP_FROM,
+    })
+  : new OutboxTransport({ from: process.env.SMTP_FROM });
+const credentials = new CredentialVault(new JsonFileCredentialStorage(process.env.CREDENTIALS_FILE ?? 'data/credentials.json'));
+if (process.env.CREDENTIALS_MASTER_KEY) await credentials.unlock(process.env.CREDENTIALS_MASTER_KEY);
+
+const receiver = createWebhookServer({
+  engine: new WorkflowExecutionEngine({ tables, mailer, credentials, smtpTransport: settings => new SmtpTransport(settings) }),
+  executionOptions: { simulation: process.env.WEBHOOK_SIMULATION === '1' },
+  adminToken: process.env.WEBHOOK_ADMIN_TOKEN || undefined,
+  allowedOrigin: process.env.WEBHOOK_ALLOWED_ORIGIN,
+});
+
+const address = await receiver.listen(port, host);
+console.log(`Webhook receiver listening on http://${host}:${address.port}`);
+if (!process.env.WEBHOOK_ADMIN_TOKEN) {
+  console.log('WEBHOOK_ADMIN_TOKEN is not set, so the builder cannot sync workflows or read deliveries');
+}
+
+process.on('SIGINT', () => {
+  void receiver.close().then(() => process.exit(0));
+});
@@ -0,0 +1,37 @@
+/**
+ * File: json-file-credential-storage.ts
+ *
+ * Keeps the encrypted credentials vault in a JSON file, for running workflows under Node. The
+ * file holds only ciphertext; the master password that opens it is given separately. Writes go
+ * through a temporary file, like JsonFileTableStorage, and the file is readable by its owner only.
+ *
+ *   const credentials = new CredentialVault(new JsonFileCredentialStorage('data/credentials.json'));
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { CredentialStorage, VaultFile } from '../src/engine/credentials';
+
+export class JsonFileCredentialStorage implements CredentialStorage {
+  private path: string;
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async load(): Promise<VaultFile | undefined> {
+    try {
+      return JSON.parse(await readFile(this.path, 'utf8')) as VaultFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return undefined;
+      throw error;
+    }
+  }
+
+  async save(file: VaultFile): Promise<void> {
+    const temporary = `${this.path}.tmp`;
+    await mkdir(dirname(this.path), { recursive: true });
+    await writeFile(temporary, JSON.stringify(file, null, 2), { mode: 0o600 });
+    await rename(temporary, this.path);
+  }
+}
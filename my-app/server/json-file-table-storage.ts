@@ -0,0 +1,71 @@
+/**
+ * File: json-file-table-storage.ts
+ *
+ * Keeps tables in one JSON file, for running workflows under Node. The file is read once, on
+ * first use, and rewritten after every change through a temporary file, so a crash mid-write
+ * leaves the previous contents in place.
+ *
+ *   const tables = new TableDatabase(new JsonFileTableStorage('data/tables.json'));
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'node:fs/promises';
+import { dirname } from 'node:path';
+import type { TableData, TableStorage } from '../src/engine/table-store';
+
+interface TableFile {
+  tables: Record<string, TableData>;
+}
+
+export class JsonFileTableStorage implements TableStorage {
+  private path: string;
+  private contents?: Promise<TableFile>;
+  private flushing: Promise<void> = Promise.resolve(); // writes of different tables share the file
+
+  constructor(path: string) {
+    this.path = path;
+  }
+
+  async listTables(): Promise<string[]> {
+    return Object.keys((await this.read()).tables).sort();
+  }
+
+  async loadTable(name: string): Promise<TableData | undefined> {
+    const data = (await this.read()).tables[name];
+    return data && structuredClone(data);
+  }
+
+  async saveTable(name: string, data: TableData): Promise<void> {
+    const file = await this.read();
+    file.tables[name] = structuredClone(data);
+    await this.flush(file);
+  }
+
+  async dropTable(name: string): Promise<void> {
+    const file = await this.read();
+    delete file.tables[name];
+    await this.flush(file);
+  }
+
+  private read(): Promise<TableFile> {
+    this.contents ??= readFile(this.path, 'utf8').then(
+      text => JSON.parse(text) as TableFile,
+      (error: NodeJS.ErrnoException) => {
+        if (error.code === 'ENOENT') return { tables: {} };
+        throw error;
+      }
+    );
+    return this.contents;
+  }
+
+  private flush(file: TableFile): Promise<void> {
+    const temporary = `${this.path}.tmp`;
+    this.flushing = this.flushing
+      .catch(() => undefined)
+      .then(async () => {
+        await mkdir(dirname(this.path), { recursive: true });
+        await writeFile(temporary, JSON.stringify(file, null, 2));
+        await rename(temporary, this.path);
+      });
+    return this.flushing;
+  }
+}
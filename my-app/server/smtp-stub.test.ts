@@ -0,0 +1,118 @@
+import { afterAll, beforeAll, describe, expect, it } from 'vitest';
+import { createServer } from 'node:net';
+import type { AddressInfo } from 'node:net';
+import { createSmtpStub } from './smtp-stub';
+import { SmtpError, SmtpTransport } from './smtp-transport';
+import type { SmtpOptions } from './smtp-transport';
+import type { EmailMessage } from '../src/engine/email-transport';
+
+const stub = createSmtpStub();
+let port = 0;
+
+beforeAll(async () => {
+  ({ port } = await stub.listen(0, '127.0.0.1'));
+});
+
+afterAll(() => stub.close());
+
+const message = (extra: Partial<EmailMessage> = {}): EmailMessage => ({
+  from: 'Orders <orders@example.com>',
+  to: ['Ann <ann@example.com>'],
+  cc: [],
+  bcc: [],
+  subject: 'Your order',
+  html: '<p>Thanks</p>',
+  text: 'Thanks',
+  attachments: [],
+  ...extra,
+});
+
+const transport = (options: Partial<SmtpOptions> = {}) =>
+  new SmtpTransport({ host: '127.0.0.1', port, clientName: 'test', timeout: 2000, ...options });
+
+const received = (messageId: string) => stub.getMessages().find(sent => sent.data.includes(`Message-ID: ${messageId}`))!;
+
+const header = (data: string, name: string) => new RegExp(`^${name}: (.*)$`, 'm').exec(data)?.[1];
+
+const decodeParts = (data: string) =>
+  [...data.matchAll(/\r\n\r\n([A-Za-z0-9+/=\r\n]+?)\r\n--/g)].map(([, base64]) => Buffer.from(base64, 'base64').toString('utf8'));
+
+describe('SmtpTransport against the SMTP stub', () => {
+  it('sends the envelope to every recipient but lists only To and Cc in the headers', async () => {
+    const result = await transport().send(
+      message({ cc: ['bob@example.com'], bcc: ['Hidden <hidden@example.com>'], replyTo: 'help@example.com' })
+    );
+
+    const { from, recipients, data } = received(result.messageId);
+    expect(from).toBe('orders@example.com');
+    expect(recipients).toEqual(['ann@example.com', 'bob@example.com', 'hidden@example.com']);
+    expect(result.accepted).toEqual(['Ann <ann@example.com>', 'bob@example.com', 'Hidden <hidden@example.com>']);
+    expect(result.rejected).toEqual([]);
+
+    expect(header(data, 'From')).toBe('Orders <orders@example.com>');
+    expect(header(data, 'To')).toBe('Ann <ann@example.com>');
+    expect(header(data, 'Cc')).toBe('bob@example.com');
+    expect(header(data, 'Reply-To')).toBe('help@example.com');
+    expect(header(data, 'Subject')).toBe('Your order');
+    expect(header(data, 'MIME-Version')).toBe('1.0');
+    expect(data).not.toMatch(/^Bcc:/m);
+    expect(data).not.toContain('hidden@example.com');
+  });
+
+  it('encodes non-ASCII headers and sends text, HTML and attachments as MIME parts', async () => {
+    const result = await transport({ username: 'user', password: 'secret' }).send(
+      message({
+        from: undefined,
+        subject: 'Grüße',
+        text: 'Hallo Zoë',
+        html: '<p>Hallo Zoë</p>',
+        attachments: [{ fileName: 'note.txt', mimeType: 'text/plain', content: new TextEncoder().encode('.first line') }],
+      })
+    );
+
+    const { from, data } = received(result.messageId);
+    expect(from).toBe('workflows@localhost');
+    expect(header(data, 'Subject')).toBe(`=?UTF-8?B?${Buffer.from('Grüße').toString('base64')}?=`);
+    expect(header(data, 'Content-Type')).toMatch(/^multipart\/mixed; boundary="/);
+    expect(data).toContain('Content-Disposition: attachment; filename="note.txt"');
+    expect(decodeParts(data)).toEqual(['Hallo Zoë', '<p>Hallo Zoë</p>', '.first line']);
+  });
+
+  it('reports recipients the server rejects and fails when it rejects them all', async () => {
+    const partial = await transport().send(message({ to: ['ann@example.com', 'nobody@example.invalid'] }));
+    expect(partial.accepted).toEqual(['ann@example.com']);
+    expect(partial.rejected).toEqual(['nobody@example.invalid']);
+    expect(received(partial.messageId).recipients).toEqual(['ann@example.com']);
+
+    const before = stub.getMessages().length;
+    await expect(transport().send(message({ to: ['nobody@example.invalid'] }))).rejects.toThrow(
+      'SMTP server 127.0.0.1 accepted none of the recipients: nobody@example.invalid'
+    );
+    expect(stub.getMessages()).toHaveLength(before);
+  });
+
+  it('refuses to send in the clear when TLS is required', async () => {
+    await expect(transport({ requireTls: true }).send(message())).rejects.toThrow('SMTP server 127.0.0.1 does not offer STARTTLS');
+  });
+
+  it('fails when the server refuses, does not answer or cannot be reached', async () => {
+    const busy = createServer(socket => socket.end('421 Too busy\r\n'));
+    const silent = createServer(() => undefined);
+    const listen = (server: typeof busy) =>
+      new Promise<AddressInfo>(resolve => server.listen(0, '127.0.0.1', () => resolve(server.address() as AddressInfo)));
+    const [{ port: busyPort }, { port: silentPort }] = await Promise.all([listen(busy), listen(silent)]);
+    try {
+      const refused = await transport({ port: busyPort }).send(message()).catch((error: unknown) => error);
+      expect(refused).toBeInstanceOf(SmtpError);
+      expect(refused).toMatchObject({ code: 421, message: 'SMTP greeting failed: 421 Too busy' });
+
+      await expect(transport({ port: silentPort, timeout: 50 }).send(message())).rejects.toThrow(
+        'SMTP server did not answer greeting within 50ms'
+      );
+    } finally {
+      await Promise.all([busy, silent].map(server => new Promise(resolve => server.close(resolve))));
+    }
+
+    await expect(transport({ port: silentPort }).send(message())).rejects.toThrow(/ECONNREFUSED/);
+  });
+});
@@ -0,0 +1,154 @@
+/**
+ * File: smtp-stub.ts
+ *
+ * A stand-in SMTP server for trying Email nodes without a real mail server. It accepts any
+ * login and every recipient, except addresses at the reserved domain 'invalid' (RFC 2606),
+ * which it rejects so partial delivery can be tried too, and keeps the messages it receives.
+ * It speaks plain SMTP only; point an SmtpTransport at it without TLS.
+ */
+
+import { createServer } from 'node:net';
+import type { AddressInfo, Server } from 'node:net';
+
+export interface ReceivedMessage {
+  from: string;
+  recipients: string[];
+  data: string; // the MIME message as received, without the terminating dot
+  receivedAt: string; // ISO timestamp
+}
+
+export interface SmtpStub {
+  server: Server;
+  getMessages(): ReceivedMessage[];
+  onMessage(listener: (message: ReceivedMessage) => void): void;
+  listen(port: number, host?: string): Promise<AddressInfo>;
+  close(): Promise<void>;
+}
+
+export const createSmtpStub = (): SmtpStub => {
+  const messages: ReceivedMessage[] = [];
+  const listeners: Array<(message: ReceivedMessage) => void> = [];
+
+  const server = createServer(socket => {
+    let buffer = '';
+    let from = '';
+    let recipients: string[] = [];
+    let inData = false;
+    let login = 0; // AUTH LOGIN prompts still to answer
+
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+    reply('220 localhost SMTP stub ready');
+
+    const handle = (line: string) => {
+      if (login > 0) {
+        login--;
+        reply(login > 0 ? '334 UGFzc3dvcmQ6' : '235 Authenticated');
+        return;
+      }
+
+      const [verb] = line.split(/[\s:]/);
+      const argument = /<([^>]*)>/.exec(line)?.[1] ?? '';
+      switch (verb.toUpperCase()) {
+        case 'EHLO':
+          reply('250-localhost');
+          reply('250-AUTH PLAIN LOGIN');
+          reply('250 8BITMIME');
+          break;
+        case 'HELO':
+          reply('250 localhost');
+          break;
+        case 'AUTH':
+          if (/^AUTH LOGIN$/i.test(line)) {
+            login = 2;
+            reply('334 VXNlcm5hbWU6');
+          } else {
+            reply('235 Authenticated');
+          }
+          break;
+        case 'MAIL':
+          from = argument;
+          recipients = [];
+          reply('250 OK');
+          break;
+        case 'RCPT':
+          if (argument.toLowerCase().endsWith('.invalid') || argument.toLowerCase().endsWith('@invalid')) {
+            reply(`550 No such user ${argument}`);
+          } else {
+            recipients.push(argument);
+            reply('250 OK');
+          }
+          break;
+        case 'DATA':
+          if (recipients.length === 0) {
+            reply('554 No valid recipients');
+          } else {
+            inData = true;
+            reply('354 End data with <CR><LF>.<CR><LF>');
+          }
+          break;
+        case 'RSET':
+          from = '';
+          recipients = [];
+          reply('250 OK');
+          break;
+        case 'NOOP':
+          reply('250 OK');
+          break;
+        case 'QUIT':
+          reply('221 Bye');
+          socket.end();
+          break;
+        default:
+          reply('502 Command not implemented');
+      }
+    };
+
+    socket.on('data', (chunk: Buffer) => {
+      buffer += chunk.toString('utf8');
+      for (;;) {
+        if (inData) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end < 0) return;
+          const message: ReceivedMessage = {
+            from,
+            recipients,
+            data: buffer.slice(0, end).replace(/^\.\./gm, '.'),
+            receivedAt: new Date().toISOString(),
+          };
+          buffer = buffer.slice(end + 5);
+          inData = false;
+          messages.push(message);
+          listeners.forEach(listener => listener(message));
+          reply(`250 OK queued as ${messages.length}`);
+          continue;
+        }
+        const end = buffer.indexOf('\r\n');
+        if (end < 0) return;
+        const line = buffer.slice(0, end);
+        buffer = buffer.slice(end + 2);
+        handle(line);
+      }
+    });
+    socket.on('error', () => socket.destroy());
+  });
+
+  return {
+    server,
+    getMessages: () => [...messages],
+    onMessage: listener => {
+      listeners.push(listener);
+    },
+    listen: (port, host) =>
+      new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, host, () => {
+          server.off('error', reject);
+          resolve(server.address() as AddressInfo);
+        });
+      }),
+    close: () =>
+      new Promise((resolve, reject) => {
+        server.close(error => (error ? reject(error) : resolve()));
+      }),
+  };
+};
@@ -0,0 +1,327 @@
+/**
+ * File: smtp-transport.ts
+ *
+ * Sends Email node messages to an SMTP server. Each message opens its own connection: the
+ * transport greets the server, upgrades to TLS with STARTTLS when the server offers it (or
+ * connects with TLS from the start when `secure` is set, usually on port 465), logs in with
+ * AUTH PLAIN or LOGIN when a username is given, and submits the message as MIME.
+ *
+ *   const mailer = new SmtpTransport({ host: 'localhost', port: 2525 });
+ */
+
+import { connect as connectTcp } from 'node:net';
+import type { Socket } from 'node:net';
+import { connect as connectTls } from 'node:tls';
+import { hostname } from 'node:os';
+import { DEFAULT_SENDER, createMessageId } from '../src/engine/email-transport';
+import type { EmailMessage, EmailSendResult, EmailTransport } from '../src/engine/email-transport';
+import { parseMailbox } from '../src/engine/validation';
+
+export interface SmtpOptions {
+  host: string;
+  port?: number; // defaults to 465 when secure, else 587
+  secure?: boolean; // TLS from the first byte rather than after STARTTLS
+  requireTls?: boolean; // fail rather than send in the clear when the server lacks STARTTLS
+  username?: string;
+  password?: string;
+  from?: string; // sender of messages that do not name one
+  clientName?: string; // sent with EHLO
+  timeout?: number; // ms to wait for each server reply
+  rejectUnauthorized?: boolean; // set false to accept self-signed certificates
+}
+
+export class SmtpError extends Error {
+  code: number; // the server's reply code
+
+  constructor(command: string, code: number, text: string) {
+    super(`SMTP ${command} failed: ${code} ${text}`);
+    this.name = 'SmtpError';
+    this.code = code;
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[]; // reply text, one entry per line
+}
+
+const DEFAULT_TIMEOUT = 30000;
+
+// Reads the server's replies off one connection, which may be swapped for a TLS one midway
+class SmtpSession {
+  private socket: Socket;
+  private buffer = '';
+  private lines: string[] = [];
+  private replies: SmtpReply[] = [];
+  private waiting?: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void };
+  private failure?: Error;
+  private timeout: number;
+
+  constructor(socket: Socket, timeout: number) {
+    this.timeout = timeout;
+    this.socket = socket;
+    this.attach(socket);
+  }
+
+  // Resolves with the next reply; `expected` codes make any other code an SmtpError
+  read(command: string, ...expected: number[]): Promise<SmtpReply> {
+    return new Promise<SmtpReply>((resolve, reject) => {
+      if (this.failure) return reject(this.failure);
+      const timer = setTimeout(
+        () => this.fail(new Error(`SMTP server did not answer ${command} within ${this.timeout}ms`)),
+        this.timeout
+      );
+      this.waiting = {
+        resolve: reply => {
+          clearTimeout(timer);
+          resolve(reply);
+        },
+        reject: error => {
+          clearTimeout(timer);
+          reject(error);
+        },
+      };
+      this.deliver();
+    }).then(reply => {
+      if (expected.length > 0 && !expected.includes(reply.code)) {
+        throw new SmtpError(command, reply.code, reply.lines.join(' '));
+      }
+      return reply;
+    });
+  }
+
+  command(line: string, ...expected: number[]): Promise<SmtpReply> {
+    this.socket.write(`${line}\r\n`);
+    // Credentials stay out of error messages
+    return this.read(line.startsWith('AUTH') ? 'AUTH' : line.split(/[\s:]/)[0], ...expected);
+  }
+
+  write(data: string): void {
+    this.socket.write(data);
+  }
+
+  async upgrade(host: string, rejectUnauthorized: boolean): Promise<void> {
+    this.detach(this.socket);
+    const secure = connectTls({ socket: this.socket, servername: host, rejectUnauthorized });
+    await new Promise<void>((resolve, reject) => {
+      secure.once('secureConnect', () => {
+        secure.off('error', reject);
+        resolve();
+      });
+      secure.once('error', reject);
+    });
+    this.socket = secure;
+    this.attach(secure);
+  }
+
+  close(): void {
+    this.detach(this.socket);
+    this.socket.destroy();
+  }
+
+  private onData = (chunk: Buffer) => {
+    this.buffer += chunk.toString('utf8');
+    let end: number;
+    while ((end = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, end);
+      this.buffer = this.buffer.slice(end + 2);
+      this.lines.push(line.slice(4));
+      // '250-' continues a reply, '250 ' ends it
+      if (line[3] !== '-') {
+        this.replies.push({ code: Number(line.slice(0, 3)), lines: this.lines });
+        this.lines = [];
+      }
+    }
+    this.deliver();
+  };
+
+  private onError = (error: Error) => this.fail(error);
+
+  private onClose = () => this.fail(new Error('SMTP server closed the connection'));
+
+  private attach(socket: Socket): void {
+    socket.on('data', this.onData);
+    socket.on('error', this.onError);
+    socket.on('close', this.onClose);
+  }
+
+  private detach(socket: Socket): void {
+    socket.off('data', this.onData);
+    socket.off('error', this.onError);
+    socket.off('close', this.onClose);
+  }
+
+  private deliver(): void {
+    if (!this.waiting || this.replies.length === 0) return;
+    const { resolve } = this.waiting;
+    this.waiting = undefined;
+    resolve(this.replies.shift()!);
+  }
+
+  private fail(error: Error): void {
+    this.failure ??= error;
+    const waiting = this.waiting;
+    this.waiting = undefined;
+    waiting?.reject(this.failure);
+  }
+}
+
+const wrap = (text: string, width = 76): string => text.replace(new RegExp(`(.{${width}})`, 'g'), '$1\r\n').replace(/\r\n$/, '');
+
+const toBase64 = (content: string | Uint8Array): string => wrap(Buffer.from(content).toString('base64'));
+
+// Header values may not break lines; non-ASCII text is encoded as RFC 2047 words
+const encodeHeader = (value: string): string => {
+  const flat = value.replace(/[\r\n]+/g, ' ');
+  return /^[\x20-\x7e]*$/.test(flat) ? flat : `=?UTF-8?B?${Buffer.from(flat).toString('base64')}?=`;
+};
+
+const formatMailbox = (value: string): string => {
+  const { name, address } = parseMailbox(value);
+  return name ? `${encodeHeader(name.includes(',') ? `"${name}"` : name)} <${address}>` : address;
+};
+
+const createBoundary = (): string => `----=_Part_${Date.now().toString(36)}_${Math.random().toString(36).slice(2)}`;
+
+// The message as sent after DATA: headers, then text and HTML alternatives and any attachments
+export const buildMimeMessage = (message: EmailMessage & { from: string }, messageId: string, date = new Date()): string => {
+  const headers = [
+    `From: ${formatMailbox(message.from)}`,
+    `To: ${message.to.map(formatMailbox).join(', ')}`,
+    ...(message.cc.length > 0 ? [`Cc: ${message.cc.map(formatMailbox).join(', ')}`] : []),
+    ...(message.replyTo ? [`Reply-To: ${formatMailbox(message.replyTo)}`] : []),
+    `Subject: ${encodeHeader(message.subject)}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: ${messageId}`,
+    'MIME-Version: 1.0',
+  ];
+
+  const alternative = createBoundary();
+  const body = [
+    `--${alternative}`,
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    toBase64(message.text),
+    `--${alternative}`,
+    'Content-Type: text/html; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    toBase64(message.html),
+    `--${alternative}--`,
+  ];
+
+  if (message.attachments.length === 0) {
+    return [...headers, `Content-Type: multipart/alternative; boundary="${alternative}"`, '', ...body, ''].join('\r\n');
+  }
+
+  const mixed = createBoundary();
+  return [
+    ...headers,
+    `Content-Type: multipart/mixed; boundary="${mixed}"`,
+    '',
+    `--${mixed}`,
+    `Content-Type: multipart/alternative; boundary="${alternative}"`,
+    '',
+    ...body,
+    ...message.attachments.flatMap(attachment => {
+      const fileName = encodeHeader(attachment.fileName.replace(/"/g, ''));
+      return [
+        `--${mixed}`,
+        `Content-Type: ${attachment.mimeType}; name="${fileName}"`,
+        'Content-Transfer-Encoding: base64',
+        `Content-Disposition: attachment; filename="${fileName}"`,
+        '',
+        toBase64(attachment.content),
+      ];
+    }),
+    `--${mixed}--`,
+    '',
+  ].join('\r\n');
+};
+
+// Lines starting with a dot get another one, so none of them can end the DATA section early
+const dotStuff = (data: string): string => data.replace(/^\./gm, '..');
+
+export class SmtpTransport implements EmailTransport {
+  private options: SmtpOptions;
+
+  constructor(options: SmtpOptions) {
+    this.options = options;
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const { host, secure = false, username, password = '', timeout = DEFAULT_TIMEOUT } = this.options;
+    const from = message.from ?? this.options.from ?? DEFAULT_SENDER;
+    const messageId = createMessageId(from);
+    const clientName = this.options.clientName ?? hostname();
+    const rejectUnauthorized = this.options.rejectUnauthorized ?? true;
+
+    const session = new SmtpSession(await this.open(), timeout);
+    try {
+      await session.read('greeting', 220);
+      let features = (await session.command(`EHLO ${clientName}`, 250)).lines.map(line => line.toUpperCase());
+
+      if (!secure && features.includes('STARTTLS')) {
+        await session.command('STARTTLS', 220);
+        await session.upgrade(host, rejectUnauthorized);
+        features = (await session.command(`EHLO ${clientName}`, 250)).lines.map(line => line.toUpperCase());
+      } else if (!secure && this.options.requireTls) {
+        throw new Error(`SMTP server ${host} does not offer STARTTLS`);
+      }
+
+      if (username) {
+        const methods = features.find(line => line.startsWith('AUTH'))?.split(/[\s=]+/).slice(1) ?? [];
+        if (methods.includes('PLAIN') || !methods.includes('LOGIN')) {
+          await session.command(`AUTH PLAIN ${Buffer.from(`\0${username}\0${password}`).toString('base64')}`, 235);
+        } else {
+          await session.command('AUTH LOGIN', 334);
+          await session.command(Buffer.from(username).toString('base64'), 334);
+          await session.command(Buffer.from(password).toString('base64'), 235);
+        }
+      }
+
+      await session.command(`MAIL FROM:<${parseMailbox(from).address}>`, 250);
+      const accepted: string[] = [];
+      const rejected: string[] = [];
+      for (const recipient of [...message.to, ...message.cc, ...message.bcc]) {
+        const reply = await session.command(`RCPT TO:<${parseMailbox(recipient).address}>`);
+        (reply.code === 250 || reply.code === 251 ? accepted : rejected).push(recipient);
+      }
+      if (accepted.length === 0) {
+        await session.command('RSET').catch(() => undefined);
+        throw new Error(`SMTP server ${host} accepted none of the recipients: ${rejected.join(', ')}`);
+      }
+
+      await session.command('DATA', 354);
+      session.write(`${dotStuff(buildMimeMessage({ ...message, from }, messageId))}\r\n.\r\n`);
+      await session.read('DATA', 250);
+      await session.command('QUIT').catch(() => undefined);
+      return { messageId, accepted, rejected };
+    } finally {
+      session.close();
+    }
+  }
+
+  private open(): Promise<Socket> {
+    const { host, secure = false, timeout = DEFAULT_TIMEOUT } = this.options;
+    const port = this.options.port ?? (secure ? 465 : 587);
+    return new Promise((resolve, reject) => {
+      const socket = secure
+        ? connectTls({ host, port, servername: host, rejectUnauthorized: this.options.rejectUnauthorized ?? true })
+        : connectTcp({ host, port });
+      const fail = (error: Error) => {
+        clearTimeout(timer);
+        socket.destroy();
+        reject(error);
+      };
+      const timer = setTimeout(() => fail(new Error(`Could not connect to SMTP server ${host}:${port} within ${timeout}ms`)), timeout);
+      socket.once(secure ? 'secureConnect' : 'connect', () => {
+        clearTimeout(timer);
+        socket.off('error', fail);
+        resolve(socket);
+      });
+      socket.once('error', fail);
+    });
+  }
+}
@@ -0,0 +1,16 @@
+/**
+ * File: start-http-stub.ts
+ *
+ * Starts the stand-in API from http-stub.ts: npm run http-stub. The port is read from
+ * HTTP_STUB_PORT (default 8788).
+ */
+
+import { createHttpStub } from './http-stub';
+
+const stub = createHttpStub();
+const address = await stub.listen(Number(process.env.HTTP_STUB_PORT ?? 8788));
+console.log(`HTTP stub listening on http://localhost:${address.port}`);
+
+process.on('SIGINT', () => {
+  void stub.close().then(() => process.exit(0));
+});
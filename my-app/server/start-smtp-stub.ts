@@ -0,0 +1,20 @@
+/**
+ * File: start-smtp-stub.ts
+ *
+ * Starts the stand-in SMTP server from smtp-stub.ts: npm run smtp-stub. The port is read from
+ * SMTP_STUB_PORT (default 2525); every message received is printed.
+ */
+
+import { createSmtpStub } from './smtp-stub';
+
+const stub = createSmtpStub();
+stub.onMessage(message => {
+  console.log(`\n--- Message from ${message.from} to ${message.recipients.join(', ')} ---\n${message.data}`);
+});
+
+const address = await stub.listen(Number(process.env.SMTP_STUB_PORT ?? 2525));
+console.log(`SMTP stub listening on localhost:${address.port}`);
+
+process.on('SIGINT', () => {
+  void stub.close().then(() => process.exit(0));
+});
@@ -0,0 +1,309 @@
+/**
+ * File: webhook-server.ts
+ *
+ * Local HTTP receiver for webhook triggers. Every webhook trigger listens on its own path,
+ * /webhooks/<webhookId>. A GET or POST there runs the trigger's workflow with the request's
+ * method, path, query, headers and parsed body as trigger data, and answers with the execution
+ * ID or, in 'sync' mode, with the trigger's configured response once the run has ended.
+ *
+ * The builder talks to the receiver on /__webhooks/: it pushes the workflows to serve with
+ * PUT /__webhooks/workflows and reads the latest deliveries of a webhook with
+ * GET /__webhooks/<webhookId>/deliveries. Those routes answer only requests carrying the admin
+ * token in the x-webhook-admin-token header, and only to the builder's origin in browsers; a
+ * receiver given no token keeps them closed. It listens on the loopback interface unless told
+ * otherwise.
+ *
+ *   const receiver = createWebhookServer({ workflows, adminToken });
+ *   await receiver.listen(8787);
+ */
+
+import { createServer } from 'node:http';
+import type { IncomingMessage, Server, ServerResponse } from 'node:http';
+import type { AddressInfo } from 'node:net';
+import { createHash, createHmac, timingSafeEqual } from 'node:crypto';
+import { WorkflowExecutionEngine } from '../src/workflow-engine-core';
+import type { DataValue, ExecutionOptions, TriggerNodeConfig, Workflow } from '../src/workflow-engine-core';
+import { buildExpressionScope, renderTemplate } from '../src/engine/expressions';
+import {
+  DEFAULT_SIGNATURE_HEADER,
+  WEBHOOK_ADMIN_PREFIX,
+  WEBHOOK_ADMIN_TOKEN_HEADER,
+  WEBHOOK_PATH_PREFIX,
+  buildWebhookTriggerData,
+  findWebhookTrigger,
+} from '../src/engine/webhooks';
+import type { WebhookDelivery, WebhookRequest } from '../src/engine/webhooks';
+
+export interface WebhookServerOptions {
+  engine?: WorkflowExecutionEngine;
+  workflows?: Workflow[];
+  executionOptions?: ExecutionOptions;
+  signatureHeader?: string;
+  maxBodySize?: number; // in bytes
+  historySize?: number; // deliveries kept per webhook
+  allowedOrigin?: string; // CORS origin allowed on the builder's routes, the dev server's by default
+  adminToken?: string; // required on the builder's routes, which stay closed without one
+}
+
+export interface WebhookServer {
+  server: Server;
+  setWorkflows(workflows: Workflow[]): void;
+  getDeliveries(webhookId: string): WebhookDelivery[];
+  listen(port: number, host?: string): Promise<AddressInfo>;
+  close(): Promise<void>;
+}
+
+const DEFAULT_HOST = '127.0.0.1';
+const DEFAULT_ALLOWED_ORIGIN = 'http://localhost:5173';
+const DEFAULT_MAX_BODY_SIZE = 1024 * 1024;
+const DEFAULT_HISTORY_SIZE = 20;
+
+// Headers that carry credentials are not passed on to the workflow
+const DROPPED_HEADERS = new Set(['authorization', 'cookie']);
+
+class HttpError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = 'HttpError';
+    this.status = status;
+  }
+}
+
+const readBody = (request: IncomingMessage, limit: number): Promise<Buffer> =>
+  new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    request.on('data', (chunk: Buffer) => {
+      size += chunk.length;
+      if (size > limit) {
+        reject(new HttpError(413, `Request body exceeds ${limit} bytes`));
+        request.destroy();
+        return;
+      }
+      chunks.push(chunk);
+    });
+    request.on('end', () => resolve(Buffer.concat(chunks)));
+    request.on('error', reject);
+  });
+
+const parseBody = (raw: Buffer, contentType: string | undefined): DataValue => {
+  if (raw.length === 0) return null;
+  const text = raw.toString('utf8');
+  const type = (contentType ?? '').split(';')[0].trim().toLowerCase();
+
+  if (type === 'application/json' || type.endsWith('+json')) {
+    try {
+      return JSON.parse(text);
+    } catch {
+      throw new HttpError(400, 'Request body is not valid JSON');
+    }
+  }
+  if (type === 'application/x-www-form-urlencoded') {
+    return toRecord(new URLSearchParams(text));
+  }
+  return text;
+};
+
+// Repeated keys become arrays
+const toRecord = (params: URLSearchParams): Record<string, string | string[]> => {
+  const record: Record<string, string | string[]> = {};
+  for (const key of new Set(params.keys())) {
+    const values = params.getAll(key);
+    record[key] = values.length === 1 ? values[0] : values;
+  }
+  return record;
+};
+
+const toHeaders = (request: IncomingMessage): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(request.headers)
+      .filter(([name, value]) => value !== undefined && !DROPPED_HEADERS.has(name))
+      .map(([name, value]) => [name, Array.isArray(value) ? value.join(', ') : String(value)])
+  );
+
+// Accepts 'sha256=<hex>' or the bare hex digest
+export const verifySignature = (raw: Buffer, secret: string, header: string | undefined): boolean => {
+  if (!header) return false;
+  const received = header.replace(/^sha256=/i, '').trim().toLowerCase();
+  const expected = createHmac('sha256', secret).update(raw).digest('hex');
+  return received.length === expected.length && timingSafeEqual(Buffer.from(received), Buffer.from(expected));
+};
+
+export const signPayload = (raw: string | Buffer, secret: string): string =>
+  `sha256=${createHmac('sha256', secret).update(raw).digest('hex')}`;
+
+// Compares digests so neither the token's length nor its content leaks through timing
+const matchesToken = (received: string | string[] | undefined, token: string): boolean => {
+  if (typeof received !== 'string') return false;
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(received), digest(token));
+};
+
+const send = (response: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void => {
+  const text = typeof body === 'string' ? body : JSON.stringify(body);
+  const looksLikeJson = typeof body !== 'string' || /^\s*[[{]/.test(text);
+  response.writeHead(status, {
+    'Content-Type': looksLikeJson ? 'application/json' : 'text/plain; charset=utf-8',
+    ...headers,
+  });
+  response.end(text);
+};
+
+export const createWebhookServer = (options: WebhookServerOptions = {}): WebhookServer => {
+  const engine = options.engine ?? new WorkflowExecutionEngine();
+  const signatureHeader = (options.signatureHeader ?? DEFAULT_SIGNATURE_HEADER).toLowerCase();
+  const maxBodySize = options.maxBodySize ?? DEFAULT_MAX_BODY_SIZE;
+  const historySize = options.historySize ?? DEFAULT_HISTORY_SIZE;
+  const cors = {
+    'Access-Control-Allow-Origin': options.allowedOrigin ?? DEFAULT_ALLOWED_ORIGIN,
+    'Access-Control-Allow-Methods': 'GET, PUT, OPTIONS',
+    'Access-Control-Allow-Headers': `Content-Type, ${WEBHOOK_ADMIN_TOKEN_HEADER}`,
+  };
+  let workflows = options.workflows ?? [];
+  const deliveries = new Map<string, WebhookDelivery[]>();
+
+  const record = (delivery: WebhookDelivery) => {
+    const list = [delivery, ...(deliveries.get(delivery.webhookId) ?? [])].slice(0, historySize);
+    deliveries.set(delivery.webhookId, list);
+  };
+
+  // Runs the trigger's workflow and works out the response the sender gets
+  const runWebhook = async (
+    workflow: Workflow,
+    trigger: TriggerNodeConfig,
+    webhookRequest: WebhookRequest
+  ): Promise<{ status: number; body: unknown; executionId: string; error?: string }> => {
+    const triggerData = buildWebhookTriggerData(webhookRequest);
+    const handle = engine.startWorkflow(workflow, triggerData, {
+      ...options.executionOptions,
+      workflows,
+      triggerNodeId: trigger.id,
+    });
+
+    if (trigger.webhookResponseMode !== 'sync') {
+      return { status: 202, body: { executionId: handle.executionId }, executionId: handle.executionId };
+    }
+
+    const execution = await handle.result;
+    if (execution.status !== 'completed') {
+      const error = execution.error ?? `Execution ${execution.status}`;
+      return { status: 500, body: { executionId: execution.id, status: execution.status, error }, executionId: execution.id, error };
+    }
+
+    const template = trigger.webhookResponseBody?.trim();
+    const body = template
+      ? renderTemplate(template, buildExpressionScope(workflow, execution, triggerData))
+      : { executionId: execution.id, status: execution.status };
+    return { status: trigger.webhookResponseStatus ?? 200, body, executionId: execution.id };
+  };
+
+  const handleWebhook = async (request: IncomingMessage, response: ServerResponse, url: URL) => {
+    const webhookId = decodeURIComponent(url.pathname.slice(WEBHOOK_PATH_PREFIX.length));
+    const method = request.method ?? 'GET';
+    const delivery: WebhookDelivery = {
+      id: `delivery_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      webhookId,
+      receivedAt: new Date().toISOString(),
+      method,
+      path: url.pathname,
+      query: toRecord(url.searchParams),
+      headers: toHeaders(request),
+      body: null,
+      statusCode: 0,
+    };
+
+    try {
+      const target = findWebhookTrigger(workflows, webhookId);
+      if (!target) throw new HttpError(404, `No active workflow listens on ${url.pathname}`);
+      if (method !== 'GET' && method !== 'POST') throw new HttpError(405, `Method ${method} is not allowed`);
+
+      const raw = await readBody(request, maxBodySize);
+      if (target.trigger.webhookSecret) {
+        const signature = request.headers[signatureHeader];
+        if (!verifySignature(raw, target.trigger.webhookSecret, Array.isArray(signature) ? signature[0] : signature)) {
+          throw new HttpError(401, 'Invalid or missing webhook signature');
+        }
+      }
+      delivery.body = parseBody(raw, request.headers['content-type']);
+
+      const result = await runWebhook(target.workflow, target.trigger, delivery);
+      delivery.statusCode = result.status;
+      delivery.executionId = result.executionId;
+      delivery.error = result.error;
+      send(response, result.status, result.body);
+    } catch (error) {
+      const status = error instanceof HttpError ? error.status : 500;
+      const message = error instanceof Error ? error.message : String(error);
+      delivery.statusCode = status;
+      delivery.error = message;
+      send(response, status, { error: message });
+    } finally {
+      record(delivery);
+    }
+  };
+
+  const handleAdmin = async (request: IncomingMessage, response: ServerResponse, url: URL) => {
+    const route = url.pathname.slice(WEBHOOK_ADMIN_PREFIX.length);
+
+    // Preflights carry no token; the request they clear for still needs one
+    if (request.method === 'OPTIONS') {
+      response.writeHead(204, cors);
+      response.end();
+      return;
+    }
+    if (!options.adminToken) throw new HttpError(403, 'The receiver was started without an admin token');
+    if (!matchesToken(request.headers[WEBHOOK_ADMIN_TOKEN_HEADER], options.adminToken)) {
+      throw new HttpError(401, 'Invalid or missing admin token');
+    }
+
+    if (route === 'workflows' && request.method === 'PUT') {
+      const body = parseBody(await readBody(request, maxBodySize * 10), 'application/json');
+      if (!Array.isArray(body)) throw new HttpError(400, 'Expected an array of workflows');
+      workflows = body as Workflow[];
+      send(response, 200, { workflows: workflows.length }, cors);
+    } else if (route.endsWith('/deliveries') && request.method === 'GET') {
+      const webhookId = decodeURIComponent(route.slice(0, -'/deliveries'.length));
+      send(response, 200, deliveries.get(webhookId) ?? [], cors);
+    } else {
+      throw new HttpError(404, `Unknown route ${url.pathname}`);
+    }
+  };
+
+  const server = createServer((request, response) => {
+    const url = new URL(request.url ?? '/', 'http://localhost');
+
+    const handle = url.pathname.startsWith(WEBHOOK_ADMIN_PREFIX)
+      ? handleAdmin(request, response, url)
+      : url.pathname.startsWith(WEBHOOK_PATH_PREFIX)
+        ? handleWebhook(request, response, url)
+        : Promise.reject(new HttpError(404, `Unknown route ${url.pathname}`));
+
+    handle.catch(error => {
+      if (response.headersSent) return;
+      const status = error instanceof HttpError ? error.status : 500;
+      send(response, status, { error: error instanceof Error ? error.message : String(error) }, cors);
+    });
+  });
+
+  return {
+    server,
+    setWorkflows: next => {
+      workflows = next;
+    },
+    getDeliveries: webhookId => deliveries.get(webhookId) ?? [],
+    listen: (port, host = DEFAULT_HOST) =>
+      new Promise((resolve, reject) => {
+        server.once('error', reject);
+        server.listen(port, host, () => {
+          server.off('error', reject);
+          resolve(server.address() as AddressInfo);
+        });
+      }),
+    close: () =>
+      new Promise((resolve, reject) => {
+        server.close(error => (error ? reject(error) : resolve()));
+      }),
+  };
+};
@@ -1,17 +1,92 @@
-import { useSelector } from 'react-redux'
+import { useEffect, useMemo } from 'react'
+import { useDispatch, useSelector } from 'react-redux'
+import { Route, Routes } from 'react-router'
 import type { RootState } from './store/store'
+import { updateExecution } from './store/workflowSlice'
+import type { ExecutionEvent } from './engine/execution-events'
+import type { ExecutionOptions } from './workflow-engine-core'
+import { collectPublishedPages } from './engine/pages'
+import { engine, eventBus, scheduler } from './runtime'
 import Dashboard from './components/Dashboard'
 // Ensure the file exists at the specified path, or update the import if necessary
 import WorkflowBuilder from './components/WorkflowBuilder'
+import TableBrowser from './components/TableBrowser'
+import CredentialsManager from './components/CredentialsManager'
+import PublishedPage from './components/PublishedPage'
 import './App.css'
 
 function App() {
+  const dispatch = useDispatch()
   const currentView = useSelector((state: RootState) => state.ui.currentView)
+  const simulationMode = useSelector((state: RootState) => state.ui.simulationMode)
+  const workflows = useSelector((state: RootState) => state.workflow.workflows)
+  const currentWorkflow = useSelector((state: RootState) => state.workflow.currentWorkflow)
+  const tableBrowserOpen = useSelector((state: RootState) => state.ui.tableBrowserOpen)
+  const credentialsOpen = useSelector((state: RootState) => state.ui.credentialsOpen)
+
+  // Scheduled, event-started and page-started runs use the workflow being edited, including changes not saved yet
+  const served = useMemo(
+    () => workflows.map(workflow => (workflow.id === currentWorkflow?.id ? currentWorkflow : workflow)),
+    [workflows, currentWorkflow]
+  )
+  const executionOptions = useMemo(
+    (): ExecutionOptions => ({
+      simulation: simulationMode,
+      workflows: served,
+      onEvent: (event: ExecutionEvent) => {
+        if (event.type === 'executionEnd') dispatch(updateExecution(event.execution))
+      },
+    }),
+    [served, simulationMode, dispatch]
+  )
+
+  useEffect(() => {
+    scheduler.sync(served, executionOptions)
+    eventBus.sync(served, executionOptions)
+  }, [served, executionOptions])
+
+  // Pages of active workflows are served at their routes; the builder answers everywhere else
+  const published = useMemo(() => collectPublishedPages(served), [served])
+
+  useEffect(() => {
+    for (const conflict of published.conflicts) {
+      console.warn(`Page ${conflict.page.name} of workflow ${conflict.workflow.name} is not served at ${conflict.route}: ${conflict.reason}`)
+    }
+  }, [published])
+
+  // Child executions of sub-workflow nodes are stored so their parents can link to them
+  useEffect(
+    () =>
+      engine.onExecutionEnd(event => {
+        if (event.execution.parent) dispatch(updateExecution(event.execution))
+      }),
+    [dispatch]
+  )
+
+  useEffect(() => () => scheduler.stop(), [])
 
   return (
-    <div className="app">
-      {currentView === 'dashboard' ? <Dashboard /> : <WorkflowBuilder />}
-    </div>
+    <Routes>
+      {published.pages.flatMap(({ workflow, page, routes }) =>
+        routes.map(route => (
+          <Route
+            key={route}
+            path={route}
+            element={<PublishedPage workflow={workflow} page={page} executionOptions={executionOptions} />}
+          />
+        ))
+      )}
+      <Route
+        path="*"
+        element={
+          <div className="app">
+            {currentView === 'dashboard' ? <Dashboard /> : <WorkflowBuilder />}
+            {tableBrowserOpen && <TableBrowser />}
+            {credentialsOpen && <CredentialsManager />}
+          </div>
+        }
+      />
+    </Routes>
   )
 }
 
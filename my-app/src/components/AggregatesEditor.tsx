@@ -0,0 +1,57 @@
+import type { ReportAggregate, ReportAggregateFunction } from '../workflow-engine-core'
+import './AggregatesEditor.css'
+
+interface AggregatesEditorProps {
+  aggregates: ReportAggregate[]
+  onChange: (aggregates: ReportAggregate[]) => void
+  functions: Array<{ value: string; label: string }>
+}
+
+const AggregatesEditor: React.FC<AggregatesEditorProps> = ({ aggregates, onChange, functions }) => {
+  const updateAggregate = (index: number, aggregate: ReportAggregate) => {
+    onChange(aggregates.map((a, i) => (i === index ? aggregate : a)))
+  }
+
+  return (
+    <div className="aggregate-list">
+      {aggregates.map((aggregate, index) => (
+        <div className="aggregate-row" key={index}>
+          <select
+            value={aggregate.function}
+            onChange={(e) => updateAggregate(index, {
+              ...aggregate,
+              function: e.target.value as ReportAggregateFunction,
+            })}
+          >
+            {functions.map(fn => (
+              <option key={fn.value} value={fn.value}>{fn.label}</option>
+            ))}
+          </select>
+          <span>of</span>
+          <input
+            type="text"
+            value={aggregate.field}
+            onChange={(e) => updateAggregate(index, { ...aggregate, field: e.target.value })}
+            placeholder={aggregate.function === 'count' ? 'rows' : 'field'}
+          />
+          <button
+            className="icon-btn"
+            onClick={() => onChange(aggregates.filter((_, i) => i !== index))}
+            title="Remove aggregate"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+
+      <button
+        className="add-btn"
+        onClick={() => onChange([...aggregates, { field: '', function: 'sum' }])}
+      >
+        + Aggregate
+      </button>
+    </div>
+  )
+}
+
+export default AggregatesEditor
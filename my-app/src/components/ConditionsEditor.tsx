@@ -0,0 +1,77 @@
+import type { RouterCondition } from '../workflow-engine-core'
+import './ConditionsEditor.css'
+
+interface ConditionsEditorProps {
+  conditions: RouterCondition[]
+  onChange: (conditions: RouterCondition[]) => void
+  fieldPlaceholder?: string
+}
+
+const operators: Array<{ value: RouterCondition['operator']; label: string }> = [
+  { value: 'equals', label: 'equals' },
+  { value: 'notEquals', label: 'does not equal' },
+  { value: 'contains', label: 'contains' },
+  { value: 'greaterThan', label: 'is greater than' },
+  { value: 'lessThan', label: 'is less than' },
+  { value: 'exists', label: 'exists' },
+  { value: 'notExists', label: 'does not exist' },
+  { value: 'matches', label: 'matches pattern' },
+]
+
+const valuelessOperators: RouterCondition['operator'][] = ['exists', 'notExists']
+
+const ConditionsEditor: React.FC<ConditionsEditorProps> = ({ conditions, onChange, fieldPlaceholder = 'input.status' }) => {
+  const updateCondition = (index: number, condition: RouterCondition) => {
+    onChange(conditions.map((c, i) => (i === index ? condition : c)))
+  }
+
+  return (
+    <div className="condition-list">
+      {conditions.map((condition, index) => (
+        <div className="condition-row" key={index}>
+          <input
+            type="text"
+            value={condition.field}
+            onChange={(e) => updateCondition(index, { ...condition, field: e.target.value })}
+            placeholder={fieldPlaceholder}
+          />
+          <select
+            value={condition.operator}
+            onChange={(e) => updateCondition(index, {
+              ...condition,
+              operator: e.target.value as RouterCondition['operator'],
+            })}
+          >
+            {operators.map(op => (
+              <option key={op.value} value={op.value}>{op.label}</option>
+            ))}
+          </select>
+          {!valuelessOperators.includes(condition.operator) && (
+            <input
+              type="text"
+              value={String(condition.value ?? '')}
+              onChange={(e) => updateCondition(index, { ...condition, value: e.target.value })}
+              placeholder="value"
+            />
+          )}
+          <button
+            className="icon-btn"
+            onClick={() => onChange(conditions.filter((_, i) => i !== index))}
+            title="Remove condition"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+
+      <button
+        className="add-btn"
+        onClick={() => onChange([...conditions, { field: '', operator: 'equals', value: '' }])}
+      >
+        + Condition
+      </button>
+    </div>
+  )
+}
+
+export default ConditionsEditor
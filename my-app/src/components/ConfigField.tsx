@@ -0,0 +1,158 @@
+import type { ConfigFieldSchema } from '../engine/node-registry'
+import type { CredentialType } from '../engine/credentials'
+import type { InvoiceLineItem, ReportAggregate, RouterBranch, RouterCondition } from '../workflow-engine-core'
+import RouterBranchesEditor from './RouterBranchesEditor'
+import ConditionsEditor from './ConditionsEditor'
+import WorkflowPicker from './WorkflowPicker'
+import WebhookEndpoint from './WebhookEndpoint'
+import LineItemsEditor from './LineItemsEditor'
+import TableNodePicker from './TableNodePicker'
+import TableNodeChecklist from './TableNodeChecklist'
+import AggregatesEditor from './AggregatesEditor'
+import CredentialPicker from './CredentialPicker'
+
+interface ConfigFieldProps {
+  field: ConfigFieldSchema
+  value: unknown
+  onChange: (key: string, value: unknown) => void
+  // Changing this remounts uncontrolled editors such as the JSON field
+  resetKey?: string
+}
+
+const ConfigField: React.FC<ConfigFieldProps> = ({ field, value, onChange, resetKey }) => {
+  switch (field.type) {
+    case 'select':
+      return (
+        <select
+          value={String(value ?? '')}
+          onChange={(e) => onChange(field.key, e.target.value === '' ? undefined : e.target.value)}
+        >
+          {field.options?.map(option => (
+            <option key={option.value} value={option.value}>{option.label}</option>
+          ))}
+        </select>
+      )
+    case 'textarea':
+    case 'pageTemplate':
+      return (
+        <textarea
+          value={String(value ?? '')}
+          onChange={(e) => onChange(field.key, e.target.value)}
+          placeholder={field.placeholder}
+          rows={field.rows ?? 3}
+        />
+      )
+    case 'list':
+      return (
+        <textarea
+          value={Array.isArray(value) ? value.join(', ') : ''}
+          onChange={(e) => onChange(field.key, e.target.value.split(',').map(s => s.trim()))}
+          placeholder={field.placeholder}
+          rows={field.rows ?? 2}
+        />
+      )
+    case 'number':
+      return (
+        <input
+          type="number"
+          value={typeof value === 'number' ? value : ''}
+          onChange={(e) => onChange(field.key, e.target.value === '' ? undefined : Number(e.target.value))}
+          placeholder={field.placeholder}
+          min={0}
+        />
+      )
+    case 'boolean':
+      return (
+        <input
+          type="checkbox"
+          checked={Boolean(value)}
+          onChange={(e) => onChange(field.key, e.target.checked)}
+        />
+      )
+    case 'branches':
+      return (
+        <RouterBranchesEditor
+          branches={Array.isArray(value) ? (value as RouterBranch[]) : []}
+          onChange={(branches) => onChange(field.key, branches)}
+        />
+      )
+    case 'conditions':
+      return (
+        <ConditionsEditor
+          conditions={Array.isArray(value) ? (value as RouterCondition[]) : []}
+          onChange={(conditions) => onChange(field.key, conditions)}
+          fieldPlaceholder={field.placeholder}
+        />
+      )
+    case 'workflow':
+      return (
+        <WorkflowPicker
+          value={value}
+          onChange={(workflowId, outputNames) => {
+            onChange(field.key, workflowId)
+            onChange('outputNames', outputNames)
+          }}
+        />
+      )
+    case 'webhook':
+      return <WebhookEndpoint webhookId={value} onChange={(webhookId) => onChange(field.key, webhookId)} />
+    case 'lineItems':
+      return (
+        <LineItemsEditor
+          value={typeof value === 'string' ? value : Array.isArray(value) ? (value as InvoiceLineItem[]) : []}
+          onChange={(items) => onChange(field.key, items)}
+          expressionPlaceholder={field.placeholder}
+        />
+      )
+    case 'tableNode':
+      return <TableNodePicker value={value} onChange={(nodeId) => onChange(field.key, nodeId)} placeholder={field.placeholder} />
+    case 'tableNodes':
+      return <TableNodeChecklist value={value} onChange={(nodeIds) => onChange(field.key, nodeIds)} />
+    case 'credential':
+      return (
+        <CredentialPicker
+          value={value}
+          onChange={(credentialId) => onChange(field.key, credentialId)}
+          types={(field.options ?? []).map(option => option.value as CredentialType)}
+          placeholder={field.placeholder}
+        />
+      )
+    case 'aggregates':
+      return (
+        <AggregatesEditor
+          aggregates={Array.isArray(value) ? (value as ReportAggregate[]) : []}
+          onChange={(aggregates) => onChange(field.key, aggregates)}
+          functions={field.options ?? []}
+        />
+      )
+    case 'json':
+      return (
+        <textarea
+          key={resetKey}
+          defaultValue={value === undefined ? '' : JSON.stringify(value, null, 2)}
+          onBlur={(e) => {
+            try {
+              onChange(field.key, e.target.value.trim() ? JSON.parse(e.target.value) : undefined)
+              e.target.classList.remove('invalid')
+            } catch {
+              e.target.classList.add('invalid')
+            }
+          }}
+          placeholder={field.placeholder}
+          rows={field.rows ?? 4}
+        />
+      )
+    default:
+      return (
+        <input
+          type={field.secret ? 'password' : 'text'}
+          autoComplete={field.secret ? 'new-password' : undefined}
+          value={String(value ?? '')}
+          onChange={(e) => onChange(field.key, e.target.value)}
+          placeholder={field.placeholder}
+        />
+      )
+  }
+}
+
+export default ConfigField
@@ -0,0 +1,46 @@
+import { useEffect, useState } from 'react'
+import { useDispatch } from 'react-redux'
+import { openCredentials } from '../store/uiSlice'
+import { CREDENTIAL_TYPES } from '../engine/credentials'
+import type { CredentialSummary, CredentialType } from '../engine/credentials'
+import { credentials } from '../runtime'
+
+interface CredentialPickerProps {
+  value: unknown
+  onChange: (credentialId: string | undefined) => void
+  types: CredentialType[] // kinds of credential the field accepts
+  placeholder?: string
+}
+
+// Lists the stored credentials of the accepted types; their values stay in the vault
+const CredentialPicker: React.FC<CredentialPickerProps> = ({ value, onChange, types, placeholder = 'Choose a credential' }) => {
+  const dispatch = useDispatch()
+  const [summaries, setSummaries] = useState<CredentialSummary[]>([])
+  const [revision, setRevision] = useState(0)
+
+  useEffect(() => credentials.subscribe(() => setRevision(r => r + 1)), [])
+
+  useEffect(() => {
+    void credentials.list().then(setSummaries)
+  }, [revision])
+
+  const matching = summaries.filter(summary => types.length === 0 || types.includes(summary.type))
+  const known = !value || matching.some(summary => summary.id === value)
+
+  return (
+    <div className="credential-picker">
+      <select value={String(value ?? '')} onChange={(e) => onChange(e.target.value || undefined)}>
+        <option value="">{placeholder}</option>
+        {!known && <option value={String(value)}>Missing credential ({String(value)})</option>}
+        {matching.map(summary => (
+          <option key={summary.id} value={summary.id}>
+            {summary.name} · {CREDENTIAL_TYPES[summary.type].label}
+          </option>
+        ))}
+      </select>
+      <button className="browse-table-btn" onClick={() => dispatch(openCredentials())}>Manage</button>
+    </div>
+  )
+}
+
+export default CredentialPicker
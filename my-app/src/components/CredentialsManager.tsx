@@ -0,0 +1,229 @@
+import { useEffect, useState } from 'react'
+import { useDispatch } from 'react-redux'
+import { closeCredentials } from '../store/uiSlice'
+import { CREDENTIAL_TYPES } from '../engine/credentials'
+import type { CredentialSummary, CredentialType } from '../engine/credentials'
+import { credentials } from '../runtime'
+import './CredentialsManager.css'
+
+interface EditedCredential {
+  id?: string // unset for a new credential
+  name: string
+  type: CredentialType
+  data: Record<string, string> // secrets start empty and keep their stored value unless typed in
+}
+
+const emptyCredential = (type: CredentialType = 'apiKey'): EditedCredential => ({ name: '', type, data: {} })
+
+// Unlocks the credentials vault and lists, adds, edits and deletes what it holds; secret values are never shown
+const CredentialsManager = () => {
+  const dispatch = useDispatch()
+  const [summaries, setSummaries] = useState<CredentialSummary[]>([])
+  const [initialized, setInitialized] = useState(true)
+  const [unlocked, setUnlocked] = useState(credentials.isUnlocked)
+  const [password, setPassword] = useState('')
+  const [confirmation, setConfirmation] = useState('')
+  const [editing, setEditing] = useState<EditedCredential | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  const [busy, setBusy] = useState(false)
+  const [revision, setRevision] = useState(0) // bumped whenever the vault changes
+
+  useEffect(() => credentials.subscribe(() => setRevision(r => r + 1)), [])
+
+  useEffect(() => {
+    setUnlocked(credentials.isUnlocked)
+    void credentials.list().then(setSummaries)
+    void credentials.isInitialized().then(setInitialized)
+  }, [revision])
+
+  const run = async (action: () => Promise<unknown>) => {
+    setBusy(true)
+    try {
+      await action()
+      setError(null)
+    } catch (e) {
+      setError((e as Error).message)
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleUnlock = () => {
+    if (!initialized && password !== confirmation) {
+      setError('The passwords do not match')
+      return
+    }
+    void run(async () => {
+      await credentials.unlock(password)
+      setPassword('')
+      setConfirmation('')
+    })
+  }
+
+  const handleSave = () => {
+    if (!editing) return
+    void run(async () => {
+      await credentials.save(editing)
+      setEditing(null)
+    })
+  }
+
+  const handleDelete = (summary: CredentialSummary) => {
+    if (confirm(`Delete credential ${summary.name}? Nodes using it will fail until they are given another.`)) {
+      void run(() => credentials.remove(summary.id))
+    }
+  }
+
+  // Secrets are not filled in, so they stay masked and are only replaced when typed anew
+  const startEditing = (summary: CredentialSummary) => {
+    const masked = credentials.getMaskedData(summary.id) ?? {}
+    const data = Object.fromEntries(
+      CREDENTIAL_TYPES[summary.type].fields
+        .filter(field => !field.secret && masked[field.key] !== undefined)
+        .map(field => [field.key, masked[field.key]])
+    )
+    setEditing({ id: summary.id, name: summary.name, type: summary.type, data })
+  }
+
+  const editField = (key: string, value: string) => {
+    if (editing) setEditing({ ...editing, data: { ...editing.data, [key]: value } })
+  }
+
+  const describe = (summary: CredentialSummary): string => {
+    const masked = credentials.getMaskedData(summary.id)
+    return masked ? Object.entries(masked).map(([key, value]) => `${key}: ${value}`).join(', ') : ''
+  }
+
+  const renderEditor = (credential: EditedCredential) => (
+    <div className="credential-editor">
+      <label>
+        Name
+        <input
+          autoFocus
+          value={credential.name}
+          onChange={(e) => setEditing({ ...credential, name: e.target.value })}
+          placeholder="Stripe live key"
+        />
+      </label>
+      <label>
+        Type
+        <select
+          value={credential.type}
+          disabled={credential.id !== undefined}
+          onChange={(e) => setEditing({ ...emptyCredential(e.target.value as CredentialType), name: credential.name })}
+        >
+          {Object.entries(CREDENTIAL_TYPES).map(([type, { label }]) => (
+            <option key={type} value={type}>{label}</option>
+          ))}
+        </select>
+      </label>
+      {CREDENTIAL_TYPES[credential.type].fields.map(field => (
+        <label key={field.key}>
+          {field.label}{field.required && ' *'}
+          {field.options ? (
+            <select value={credential.data[field.key] ?? field.options[0].value} onChange={(e) => editField(field.key, e.target.value)}>
+              {field.options.map(option => (
+                <option key={option.value} value={option.value}>{option.label}</option>
+              ))}
+            </select>
+          ) : (
+            <input
+              type={field.secret ? 'password' : 'text'}
+              autoComplete={field.secret ? 'new-password' : 'off'}
+              value={credential.data[field.key] ?? ''}
+              onChange={(e) => editField(field.key, e.target.value)}
+              placeholder={field.secret && credential.id ? 'Leave empty to keep the stored value' : field.placeholder}
+            />
+          )}
+        </label>
+      ))}
+      <div className="credential-editor-actions">
+        <button className="cancel-btn" onClick={() => setEditing(null)}>Cancel</button>
+        <button className="create-btn" onClick={handleSave} disabled={busy || !credential.name.trim()}>
+          Save credential
+        </button>
+      </div>
+    </div>
+  )
+
+  return (
+    <div className="modal-overlay" onClick={() => dispatch(closeCredentials())}>
+      <div className="credentials-manager" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Credentials</h2>
+          <button className="close-btn" onClick={() => dispatch(closeCredentials())}>×</button>
+        </div>
+
+        <div className="credentials-body">
+          {error && <div className="credentials-error">{error}</div>}
+
+          {!unlocked ? (
+            <div className="credentials-unlock">
+              <p>
+                {initialized
+                  ? 'Enter the master password to use and edit stored credentials.'
+                  : 'Choose a master password. Credentials are encrypted with it and cannot be recovered without it.'}
+              </p>
+              <input
+                type="password"
+                autoFocus
+                value={password}
+                onChange={(e) => setPassword(e.target.value)}
+                onKeyDown={(e) => e.key === 'Enter' && initialized && handleUnlock()}
+                placeholder="Master password"
+              />
+              {!initialized && (
+                <input
+                  type="password"
+                  value={confirmation}
+                  onChange={(e) => setConfirmation(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && handleUnlock()}
+                  placeholder="Repeat the master password"
+                />
+              )}
+              <button className="create-btn" onClick={handleUnlock} disabled={busy || !password}>
+                {initialized ? 'Unlock' : 'Set master password'}
+              </button>
+            </div>
+          ) : (
+            <div className="credentials-toolbar">
+              <button className="create-btn" onClick={() => setEditing(emptyCredential())} disabled={editing !== null}>
+                New credential
+              </button>
+              <button className="cancel-btn" onClick={() => { setEditing(null); credentials.lock() }}>Lock</button>
+            </div>
+          )}
+
+          {editing && !editing.id && renderEditor(editing)}
+
+          <ul className="credential-list">
+            {summaries.length === 0 && <li className="credential-list-empty">No credentials stored yet</li>}
+            {summaries.map(summary =>
+              editing?.id === summary.id ? (
+                <li key={summary.id}>{renderEditor(editing)}</li>
+              ) : (
+                <li key={summary.id}>
+                  <div className="credential-summary">
+                    <span className="credential-name">{summary.name}</span>
+                    <span className="credential-type">{CREDENTIAL_TYPES[summary.type].label}</span>
+                    {unlocked && <span className="credential-values">{describe(summary)}</span>}
+                  </div>
+                  {unlocked && (
+                    <div className="credential-actions">
+                      <button className="edit-credential-btn" onClick={() => startEditing(summary)} disabled={editing !== null}>
+                        Edit
+                      </button>
+                      <button className="icon-btn" onClick={() => handleDelete(summary)} title="Delete credential">×</button>
+                    </div>
+                  )}
+                </li>
+              )
+            )}
+          </ul>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default CredentialsManager
@@ -0,0 +1,41 @@
+import { getLocalTimeZone, getNextFireTimes, parseCron } from '../engine/cron'
+import './CronPreview.css'
+
+interface CronPreviewProps {
+  expression: unknown
+  timeZone?: string
+}
+
+const PREVIEW_COUNT = 5
+
+// Lists the next fire times of a cron expression, or why it cannot be parsed
+const CronPreview: React.FC<CronPreviewProps> = ({ expression, timeZone }) => {
+  if (typeof expression !== 'string' || !expression.trim()) return null
+
+  const zone = timeZone || getLocalTimeZone()
+  let times: Date[]
+  try {
+    times = getNextFireTimes(parseCron(expression, zone), new Date(), PREVIEW_COUNT)
+  } catch (err) {
+    return <div className="cron-preview error">{err instanceof Error ? err.message : String(err)}</div>
+  }
+
+  return (
+    <div className="cron-preview">
+      <span className="cron-preview-label">Next runs ({zone})</span>
+      {times.length === 0 ? (
+        <span>This schedule never fires</span>
+      ) : (
+        <ol>
+          {times.map(time => (
+            <li key={time.getTime()}>
+              {time.toLocaleString(undefined, { timeZone: zone, dateStyle: 'medium', timeStyle: 'medium' })}
+            </li>
+          ))}
+        </ol>
+      )}
+    </div>
+  )
+}
+
+export default CronPreview
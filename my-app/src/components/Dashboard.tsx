@@ -1,7 +1,7 @@
 import { useState } from 'react'
 import { useSelector, useDispatch } from 'react-redux'
 import type { RootState } from '../store/store'
-import { setCurrentView } from '../store/uiSlice'
+import { openCredentials, openTableBrowser, setCurrentView } from '../store/uiSlice'
 import { addWorkflow, setCurrentWorkflow, deleteWorkflow } from '../store/workflowSlice'
 import type { Workflow } from '../workflow-engine-core'
 import './Dashboard.css'
@@ -58,12 +58,20 @@ const Dashboard = () => {
     <div className="dashboard">
       <header className="dashboard-header">
         <h1>Workflow Automation Platform</h1>
-        <button 
-          className="create-workflow-btn"
-          onClick={() => setShowCreateModal(true)}
-        >
-          + Create New Workflow
-        </button>
+        <div className="dashboard-header-actions">
+          <button className="tables-btn" onClick={() => dispatch(openTableBrowser())}>
+            Tables
+          </button>
+          <button className="tables-btn" onClick={() => dispatch(openCredentials())}>
+            Credentials
+          </button>
+          <button 
+            className="create-workflow-btn"
+            onClick={() => setShowCreateModal(true)}
+          >
+            + Create New Workflow
+          </button>
+        </div>
       </header>
 
       <div className="dashboard-content">
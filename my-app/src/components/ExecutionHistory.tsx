@@ -0,0 +1,161 @@
+import { useSelector, useDispatch } from 'react-redux'
+import type { RootState } from '../store/store'
+import { setActiveExecution, setCurrentWorkflow } from '../store/workflowSlice'
+import { toggleRightPanel } from '../store/uiSlice'
+import { WorkflowUtils } from '../workflow-engine-core'
+import type { WorkflowExecution } from '../workflow-engine-core'
+import './NodeConfigPanel.css'
+import './ExecutionHistory.css'
+
+interface ExecutionHistoryProps {
+  runningExecutionId: string | null
+  onPause: () => void
+  onResume: (execution: WorkflowExecution) => void
+  onStop: (execution: WorkflowExecution) => void
+  onRetry: (execution: WorkflowExecution, nodeId: string) => void
+  onReplay: (execution: WorkflowExecution) => void
+}
+
+const ExecutionHistory: React.FC<ExecutionHistoryProps> = ({
+  runningExecutionId,
+  onPause,
+  onResume,
+  onStop,
+  onRetry,
+  onReplay,
+}) => {
+  const dispatch = useDispatch()
+  const currentWorkflow = useSelector((state: RootState) => state.workflow.currentWorkflow)
+  const executions = useSelector((state: RootState) => state.workflow.executions)
+  const workflows = useSelector((state: RootState) => state.workflow.workflows)
+  const activeExecution = useSelector((state: RootState) => state.workflow.activeExecution)
+
+  const isRunning = activeExecution?.status === 'running'
+
+  // The running execution is only stored once it settles, so list it separately
+  const history = [
+    ...(isRunning && activeExecution ? [activeExecution] : []),
+    ...executions
+      .filter(e => e.workflowId === currentWorkflow?.id && !(isRunning && e.id === activeExecution?.id))
+      .reverse(),
+  ]
+
+  const formatTime = (date: Date) => new Date(date).toLocaleString()
+
+  const getNodeName = (nodeId?: string) =>
+    currentWorkflow?.nodes.find(n => n.id === nodeId)?.name ?? nodeId
+
+  const describeOrigin = (execution: WorkflowExecution) => {
+    if (!execution.origin) return null
+    return execution.origin.mode === 'retry'
+      ? `Retry of ${execution.origin.executionId} from ${getNodeName(execution.origin.nodeId)}`
+      : `Replay of ${execution.origin.executionId}`
+  }
+
+  // Child executions link back to the execution whose sub-workflow node started them
+  const renderParent = (execution: WorkflowExecution) => {
+    const parent = executions.find(e => e.id === execution.parent?.executionId)
+    const parentWorkflow = workflows.find(w => w.id === execution.parent?.workflowId)
+    return (
+      <div className="execution-history-note">
+        Called by {parentWorkflow?.name ?? execution.parent?.workflowId}
+        {parent && parentWorkflow && (
+          <button
+            className="link-btn"
+            onClick={(e) => {
+              e.stopPropagation()
+              dispatch(setCurrentWorkflow(parentWorkflow))
+              dispatch(setActiveExecution(parent))
+            }}
+          >
+            Open
+          </button>
+        )}
+      </div>
+    )
+  }
+
+  const renderControls = (execution: WorkflowExecution) => {
+    if (execution.status === 'running' && execution.id === runningExecutionId) {
+      return (
+        <>
+          <button className="pause-btn" onClick={onPause}>Pause</button>
+          <button className="stop-btn" onClick={() => onStop(execution)}>Stop</button>
+        </>
+      )
+    }
+    if (execution.status === 'paused') {
+      return (
+        <>
+          <button className="resume-btn" onClick={() => onResume(execution)} disabled={isRunning}>Resume</button>
+          <button className="stop-btn" onClick={() => onStop(execution)}>Cancel</button>
+        </>
+      )
+    }
+    if (execution.status === 'running') return null
+
+    const failedNode = execution.nodeExecutions.find(exec => exec.status === 'failed' || exec.status === 'cancelled')
+    return (
+      <>
+        {failedNode && (
+          <button className="retry-btn" onClick={() => onRetry(execution, failedNode.nodeId)} disabled={isRunning}>
+            Retry from {getNodeName(failedNode.nodeId)}
+          </button>
+        )}
+        <button className="replay-btn" onClick={() => onReplay(execution)} disabled={isRunning}>Replay</button>
+      </>
+    )
+  }
+
+  return (
+    <div className="node-config-panel">
+      <div className="panel-header">
+        <h3>Execution History</h3>
+        <button className="close-btn" onClick={() => dispatch(toggleRightPanel())}>×</button>
+      </div>
+
+      <div className="panel-content">
+        {history.length === 0 ? (
+          <p>No executions yet. Run the workflow to see its history here.</p>
+        ) : (
+          <ul className="execution-history">
+            {history.map(execution => {
+              const duration = execution.endTime
+                ? new Date(execution.endTime).getTime() - new Date(execution.startTime).getTime()
+                : undefined
+
+              return (
+                <li
+                  key={execution.id || 'current'}
+                  className={`execution-history-item ${execution.id === activeExecution?.id ? 'active' : ''}`}
+                  onClick={() => dispatch(setActiveExecution(execution))}
+                >
+                  <div className="execution-history-summary">
+                    <span className={`execution-status ${execution.status}`}>{execution.status}</span>
+                    <span className="execution-history-time">{formatTime(execution.startTime)}</span>
+                    {duration !== undefined && (
+                      <span className="execution-duration">{WorkflowUtils.formatDuration(duration)}</span>
+                    )}
+                  </div>
+                  {execution.origin && <div className="execution-history-note">{describeOrigin(execution)}</div>}
+                  {execution.parent && renderParent(execution)}
+                  {execution.error && <div className="execution-history-error">{execution.error}</div>}
+                  {execution.checkpoint && (
+                    <div className="execution-history-note">
+                      Paused after {execution.checkpoint.settledNodeIds.length} nodes
+                    </div>
+                  )}
+                  <div className="execution-history-controls" onClick={e => e.stopPropagation()}>
+                    {renderControls(execution)}
+                  </div>
+                </li>
+              )
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default ExecutionHistory
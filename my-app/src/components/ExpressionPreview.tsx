@@ -0,0 +1,43 @@
+import type { NodeData, Workflow, WorkflowExecution } from '../workflow-engine-core'
+import { buildExpressionScope, resolveExpressions } from '../engine/expressions'
+import './ExpressionPreview.css'
+
+interface ExpressionPreviewProps {
+  value: unknown
+  workflow: Workflow
+  execution: WorkflowExecution | null
+  inputData?: NodeData
+}
+
+const hasExpression = (value: unknown): boolean => {
+  if (typeof value === 'string') return value.includes('{{')
+  if (Array.isArray(value)) return value.some(hasExpression)
+  if (value && typeof value === 'object') return Object.values(value).some(hasExpression)
+  return false
+}
+
+// Shows what a config value resolves to using the data from the latest run
+const ExpressionPreview: React.FC<ExpressionPreviewProps> = ({ value, workflow, execution, inputData }) => {
+  if (!hasExpression(value)) return null
+
+  let resolved: string
+  let error: string | null = null
+  try {
+    const result = resolveExpressions(value, buildExpressionScope(workflow, execution, inputData), 'value')
+    resolved = typeof result === 'string' ? result : JSON.stringify(result, null, 2) ?? ''
+  } catch (err) {
+    resolved = ''
+    error = err instanceof Error ? err.message : String(err)
+  }
+
+  return (
+    <div className={`expression-preview ${error ? 'error' : ''}`}>
+      <span className="expression-preview-label">
+        Preview{!execution && ' (run the workflow to preview with real data)'}
+      </span>
+      {error ? <span>{error}</span> : <pre>{resolved || '(empty)'}</pre>}
+    </div>
+  )
+}
+
+export default ExpressionPreview
@@ -0,0 +1,53 @@
+import { Fragment } from 'react'
+import { DEFAULT_CURRENCY, DEFAULT_LOCALE, calculateInvoice, readLineItems } from '../engine/invoices'
+import type { InvoiceTotals } from '../engine/invoices'
+import { containsExpression } from '../engine/expressions'
+import type { InvoiceNodeConfig } from '../workflow-engine-core'
+import './InvoiceTotalsPreview.css'
+
+interface InvoiceTotalsPreviewProps {
+  config: InvoiceNodeConfig
+}
+
+// Totals of the configured line items, worked out the way the node will when it runs
+const InvoiceTotalsPreview: React.FC<InvoiceTotalsPreviewProps> = ({ config }) => {
+  const { lineItems, discountType, discountValue } = config
+  if (!Array.isArray(lineItems) || lineItems.length === 0 || containsExpression(JSON.stringify(lineItems))) return null
+
+  const currency = (config.currency?.trim() || DEFAULT_CURRENCY).toUpperCase()
+  let totals: InvoiceTotals
+  let money: Intl.NumberFormat
+  try {
+    const discount =
+      (discountType === 'percent' || discountType === 'amount') && typeof discountValue === 'number'
+        ? { type: discountType, value: discountValue }
+        : undefined
+    totals = calculateInvoice(readLineItems(lineItems), currency, discount)
+    money = new Intl.NumberFormat(config.locale?.trim() || DEFAULT_LOCALE, { style: 'currency', currency })
+  } catch (err) {
+    return <div className="invoice-totals-preview error">{err instanceof Error ? err.message : String(err)}</div>
+  }
+
+  return (
+    <dl className="invoice-totals-preview">
+      <dt>Subtotal</dt>
+      <dd>{money.format(totals.subtotal)}</dd>
+      {totals.discount > 0 && (
+        <>
+          <dt>Discount</dt>
+          <dd>{money.format(-totals.discount)}</dd>
+        </>
+      )}
+      {totals.taxes.map(entry => (
+        <Fragment key={entry.rate}>
+          <dt>Tax {entry.rate}%</dt>
+          <dd>{money.format(entry.tax)}</dd>
+        </Fragment>
+      ))}
+      <dt className="grand">Total</dt>
+      <dd className="grand">{money.format(totals.total)}</dd>
+    </dl>
+  )
+}
+
+export default InvoiceTotalsPreview
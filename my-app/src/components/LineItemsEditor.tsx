@@ -0,0 +1,97 @@
+import type { InvoiceLineItem } from '../workflow-engine-core'
+import './LineItemsEditor.css'
+
+interface LineItemsEditorProps {
+  // A list of items, or an expression yielding one, e.g. from an order upstream
+  value: InvoiceLineItem[] | string
+  onChange: (value: InvoiceLineItem[] | string) => void
+  expressionPlaceholder?: string
+}
+
+type NumberField = 'quantity' | 'unitPrice' | 'taxRate' | 'discount'
+
+const numberFields: Array<{ key: NumberField; label: string; placeholder: string }> = [
+  { key: 'quantity', label: 'Qty', placeholder: '1' },
+  { key: 'unitPrice', label: 'Unit price', placeholder: '0.00' },
+  { key: 'taxRate', label: 'Tax %', placeholder: '0' },
+  { key: 'discount', label: 'Disc. %', placeholder: '0' },
+]
+
+const LineItemsEditor: React.FC<LineItemsEditorProps> = ({ value, onChange, expressionPlaceholder }) => {
+  if (typeof value === 'string') {
+    return (
+      <div className="line-items">
+        <input
+          type="text"
+          value={value}
+          onChange={(e) => onChange(e.target.value)}
+          placeholder={expressionPlaceholder}
+        />
+        <button className="add-btn" onClick={() => onChange([])}>Edit items instead</button>
+      </div>
+    )
+  }
+
+  const updateItem = (index: number, item: InvoiceLineItem) => {
+    onChange(value.map((existing, i) => (i === index ? item : existing)))
+  }
+
+  const updateNumber = (index: number, key: NumberField, text: string) => {
+    updateItem(index, { ...value[index], [key]: text === '' ? undefined : Number(text) })
+  }
+
+  return (
+    <div className="line-items">
+      {value.length > 0 && (
+        <div className="line-item-row line-item-labels">
+          <span className="line-item-description">Description</span>
+          {numberFields.map(field => <span key={field.key}>{field.label}</span>)}
+          <span className="line-item-spacer" />
+        </div>
+      )}
+      {value.map((item, index) => (
+        <div className="line-item-row" key={index}>
+          <input
+            className="line-item-description"
+            type="text"
+            value={item.description}
+            onChange={(e) => updateItem(index, { ...item, description: e.target.value })}
+            placeholder="Description"
+          />
+          {numberFields.map(field => (
+            <input
+              key={field.key}
+              type="number"
+              step="any"
+              min={0}
+              value={typeof item[field.key] === 'number' ? item[field.key] : ''}
+              onChange={(e) => updateNumber(index, field.key, e.target.value)}
+              placeholder={field.placeholder}
+            />
+          ))}
+          <button
+            className="icon-btn"
+            onClick={() => onChange(value.filter((_, i) => i !== index))}
+            title="Remove line"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+
+      <div className="line-items-actions">
+        <button
+          className="add-btn"
+          onClick={() => onChange([...value, { description: '', quantity: 1, unitPrice: 0 }])}
+        >
+          + Line
+        </button>
+        {value.length === 0 && (
+          <button className="add-btn" onClick={() => onChange('')}>Use an expression</button>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default LineItemsEditor
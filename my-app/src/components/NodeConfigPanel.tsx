@@ -1,19 +1,59 @@
 import { useState, useEffect } from 'react'
 import { useSelector, useDispatch } from 'react-redux'
+import { useNavigate } from 'react-router'
 import type { RootState } from '../store/store'
-import { updateNodeInCurrentWorkflow, deleteNodeFromCurrentWorkflow } from '../store/workflowSlice'
-import { setSelectedNodeId } from '../store/uiSlice'
-import type { NodeConfig } from '../workflow-engine-core'
+import {
+  updateNodeInCurrentWorkflow,
+  deleteNodeFromCurrentWorkflow,
+  setCurrentWorkflow,
+  setActiveExecution,
+} from '../store/workflowSlice'
+import { openTableBrowser, setSelectedNodeId } from '../store/uiSlice'
+import { WorkflowUtils } from '../workflow-engine-core'
+import {
+  nodeRegistry,
+  eventConfigSchema,
+  getConfigValue,
+  getInputPorts,
+  isFieldVisible,
+  mergeConfigSchema,
+  reliabilityConfigSchema,
+} from '../engine/node-registry'
+import type { ConfigFieldSchema } from '../engine/node-registry'
+import { getNodeIssues } from '../engine/validation'
+import { isFileReference } from '../engine/file-store'
+import type { FileReference } from '../engine/file-store'
+import { collectPublishedPages } from '../engine/pages'
+import { files } from '../runtime'
+import ConfigField from './ConfigField'
+import ExpressionPreview from './ExpressionPreview'
+import CronPreview from './CronPreview'
+import InvoiceTotalsPreview from './InvoiceTotalsPreview'
+import PagePreview from './PagePreview'
+import type { InvoiceNodeConfig, NodeConfig, PageNodeConfig, TableNodeConfig, Workflow } from '../workflow-engine-core'
 import './NodeConfigPanel.css'
 
-const NodeConfigPanel = () => {
+interface NodeConfigPanelProps {
+  // Re-runs the selected node and its downstream from the execution being shown
+  onRetryFromNode?: (nodeId: string) => void
+}
+
+const NodeConfigPanel: React.FC<NodeConfigPanelProps> = ({ onRetryFromNode }) => {
   const dispatch = useDispatch()
+  const navigate = useNavigate()
   const selectedNodeId = useSelector((state: RootState) => state.ui.selectedNodeId)
   const currentWorkflow = useSelector((state: RootState) => state.workflow.currentWorkflow)
+  const workflows = useSelector((state: RootState) => state.workflow.workflows)
+  const executions = useSelector((state: RootState) => state.workflow.executions)
+  
+  const activeExecution = useSelector((state: RootState) => state.workflow.activeExecution)
   
   const selectedNode = currentWorkflow?.nodes.find(n => n.id === selectedNodeId)
+  const nodeExecution = activeExecution?.nodeExecutions.find(e => e.nodeId === selectedNodeId)
   
   const [config, setConfig] = useState<NodeConfig | null>(null)
+  // The workflow a page preview shows, with the page's edits as they were when it was opened
+  const [previewWorkflow, setPreviewWorkflow] = useState<Workflow | null>(null)
 
   useEffect(() => {
     if (selectedNode) {
@@ -23,11 +63,9 @@ const NodeConfigPanel = () => {
     }
   }, [selectedNode])
 
-  const handleConfigChange = (field: string, value: any) => {
-    if (!config) return
-    
-    const updatedConfig = { ...config, [field]: value }
-    setConfig(updatedConfig)
+  // Updates from the previous draft, so editors that change several fields at once keep them all
+  const handleConfigChange = (field: string, value: unknown) => {
+    setConfig(previous => (previous ? ({ ...previous, [field]: value } as NodeConfig) : previous))
   }
 
   const handleSave = () => {
@@ -49,6 +87,31 @@ const NodeConfigPanel = () => {
     dispatch(setSelectedNodeId(null))
   }
 
+  // Files live in the page's file store, so those of executions from earlier sessions are gone
+  const downloadFile = async (reference: FileReference) => {
+    const file = await files.read(reference.fileId)
+    if (!file) {
+      alert(`${reference.fileName} is no longer available`)
+      return
+    }
+    const url = URL.createObjectURL(new Blob([file.content], { type: file.reference.mimeType }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = file.reference.fileName
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // Shows a sub-workflow node's child execution on the called workflow's canvas
+  const openChildExecution = (executionId: string) => {
+    const child = executions.find(e => e.id === executionId)
+    const childWorkflow = workflows.find(w => w.id === child?.workflowId)
+    if (!child || !childWorkflow) return
+    dispatch(setSelectedNodeId(null))
+    dispatch(setCurrentWorkflow(childWorkflow))
+    dispatch(setActiveExecution(child))
+  }
+
   if (!config || !selectedNode) {
     return (
       <div className="node-config-panel">
@@ -62,178 +125,183 @@ const NodeConfigPanel = () => {
     )
   }
 
+  const plugin = nodeRegistry.get(config.type)
+
+  // Issues are checked against the unsaved edits, so they clear as soon as the field is fixed
+  const issues = currentWorkflow
+    ? getNodeIssues(
+        WorkflowUtils.validateWorkflow(
+          { ...currentWorkflow, nodes: currentWorkflow.nodes.map(n => (n.id === config.id ? config : n)) },
+          { workflows }
+        ).issues,
+        config.id
+      )
+    : []
+  const renderedFields = [
+    ...(plugin?.configSchema ?? []),
+    ...mergeConfigSchema,
+    ...eventConfigSchema,
+    ...reliabilityConfigSchema,
+  ].filter(field => isFieldVisible(config, field)).map(field => field.key)
+  const generalIssues = issues.filter(issue => !issue.field || !renderedFields.includes(issue.field))
+
+  // Whether the saved page is served; the app publishes the edited workflow in place of its stored copy
+  const isPublished =
+    config.type === 'page' &&
+    !!currentWorkflow &&
+    collectPublishedPages(workflows.map(w => (w.id === currentWorkflow.id ? currentWorkflow : w))).pages.some(
+      published => published.page.id === config.id && published.workflow.id === currentWorkflow.id
+    )
+
   const renderConfigFields = () => {
-    switch (config.type) {
-      case 'trigger':
-        const triggerConfig = config as any
-        return (
-          <>
-            <div className="form-group">
-              <label>Trigger Type</label>
-              <select
-                value={triggerConfig.triggerType}
-                onChange={(e) => handleConfigChange('triggerType', e.target.value)}
-              >
-                <option value="manual">Manual</option>
-                <option value="webhook">Webhook</option>
-                <option value="schedule">Schedule</option>
-                <option value="event">Event</option>
-              </select>
-            </div>
-            
-            {triggerConfig.triggerType === 'schedule' && (
-              <div className="form-group">
-                <label>Schedule (Cron)</label>
-                <input
-                  type="text"
-                  value={triggerConfig.schedule || ''}
-                  onChange={(e) => handleConfigChange('schedule', e.target.value)}
-                  placeholder="0 0 * * *"
-                />
-              </div>
-            )}
-            
-            {triggerConfig.triggerType === 'webhook' && (
-              <div className="form-group">
-                <label>Webhook URL</label>
-                <input
-                  type="text"
-                  value={triggerConfig.webhookUrl || ''}
-                  onChange={(e) => handleConfigChange('webhookUrl', e.target.value)}
-                  placeholder="https://api.example.com/webhook"
-                />
-              </div>
-            )}
-          </>
-        )
+    if (!plugin || plugin.configSchema.length === 0) {
+      return <p>Configuration options for {config.type} coming soon...</p>
+    }
 
-      case 'action':
-        const actionConfig = config as any
-        return (
-          <>
-            <div className="form-group">
-              <label>API Endpoint</label>
-              <input
-                type="text"
-                value={actionConfig.apiEndpoint || ''}
-                onChange={(e) => handleConfigChange('apiEndpoint', e.target.value)}
-                placeholder="https://api.example.com/endpoint"
-              />
-            </div>
-            
-            <div className="form-group">
-              <label>HTTP Method</label>
-              <select
-                value={actionConfig.method || 'GET'}
-                onChange={(e) => handleConfigChange('method', e.target.value)}
-              >
-                <option value="GET">GET</option>
-                <option value="POST">POST</option>
-                <option value="PUT">PUT</option>
-                <option value="DELETE">DELETE</option>
-              </select>
-            </div>
-          </>
-        )
+    return renderFields(plugin.configSchema)
+  }
+
+  const renderFields = (schema: ConfigFieldSchema[]) =>
+    schema
+      .filter(field => isFieldVisible(config, field))
+      .map(field => (
+        <div className="form-group" key={field.key}>
+          <label>{field.label}{field.required && ' *'}</label>
+          <ConfigField
+            field={field}
+            value={getConfigValue(config, field.key)}
+            onChange={handleConfigChange}
+            resetKey={config.id}
+          />
+          {issues
+            .filter(issue => issue.field === field.key)
+            .map((issue, index) => (
+              <div key={index} className={`field-issue ${issue.severity}`}>{issue.message}</div>
+            ))}
+          {field.type === 'cron' && (
+            <CronPreview
+              expression={getConfigValue(config, field.key)}
+              timeZone={getConfigValue(config, 'timeZone') as string | undefined}
+            />
+          )}
+          {field.type === 'lineItems' && <InvoiceTotalsPreview config={config as InvoiceNodeConfig} />}
+          {currentWorkflow && field.type !== 'pageTemplate' && !field.secret && (
+            <ExpressionPreview
+              value={getConfigValue(config, field.key)}
+              workflow={currentWorkflow}
+              execution={activeExecution}
+              inputData={nodeExecution?.inputData}
+            />
+          )}
+        </div>
+      ))
 
-      case 'table':
-        const tableConfig = config as any
-        return (
+  const renderExecutionDetails = () => {
+    if (!nodeExecution) return null
+
+    const duration = WorkflowUtils.getNodeDuration(nodeExecution)
+    const outputFiles = Object.values(nodeExecution.outputData ?? {}).filter(isFileReference)
+
+    return (
+      <div className="execution-details">
+        <h4>
+          Last Run
+          <span className={`execution-status ${nodeExecution.status}`}>{nodeExecution.status}</span>
+          {duration !== undefined && (
+            <span className="execution-duration">{WorkflowUtils.formatDuration(duration)}</span>
+          )}
+        </h4>
+        
+        {nodeExecution.error && (
+          <div className="execution-error">{nodeExecution.error}</div>
+        )}
+        
+        {nodeExecution.skipReason && (
+          <p className="execution-empty">{nodeExecution.skipReason}</p>
+        )}
+
+        {nodeExecution.childExecutionId && (
+          <button
+            className="child-execution-btn"
+            onClick={() => openChildExecution(nodeExecution.childExecutionId!)}
+            disabled={!executions.some(e => e.id === nodeExecution.childExecutionId)}
+            title={nodeExecution.childExecutionId}
+          >
+            Open child execution
+          </button>
+        )}
+
+        {onRetryFromNode && activeExecution && activeExecution.status !== 'running' && activeExecution.status !== 'paused' && (
+          <button className="retry-btn" onClick={() => onRetryFromNode(nodeExecution.nodeId)}>
+            Retry from this node
+          </button>
+        )}
+        
+        <label>Input</label>
+        <pre className="execution-data">{JSON.stringify(nodeExecution.inputData, null, 2)}</pre>
+        
+        <label>Output</label>
+        <pre className="execution-data">{JSON.stringify(nodeExecution.outputData, null, 2)}</pre>
+
+        {outputFiles.length > 0 && (
           <>
-            <div className="form-group">
-              <label>Table Name</label>
-              <input
-                type="text"
-                value={tableConfig.tableName}
-                onChange={(e) => handleConfigChange('tableName', e.target.value)}
-                placeholder="table_name"
-              />
-            </div>
-            
-            <div className="form-group">
-              <label>Operation</label>
-              <select
-                value={tableConfig.operation}
-                onChange={(e) => handleConfigChange('operation', e.target.value)}
-              >
-                <option value="create">Create</option>
-                <option value="read">Read</option>
-                <option value="update">Update</option>
-                <option value="delete">Delete</option>
-                <option value="query">Query</option>
-              </select>
-            </div>
+            <label>Files</label>
+            <ul className="execution-files">
+              {outputFiles.map(file => (
+                <li key={file.fileId}>
+                  <button className="download-file-btn" onClick={() => void downloadFile(file)}>
+                    {file.fileName}
+                  </button>
+                  <span>{(file.size / 1024).toFixed(1)} KB</span>
+                </li>
+              ))}
+            </ul>
           </>
-        )
-
-      case 'email':
-        const emailConfig = config as any
-        return (
+        )}
+        
+        {nodeExecution.attempts.length > 1 && (
           <>
-            <div className="form-group">
-              <label>Subject</label>
-              <input
-                type="text"
-                value={emailConfig.subject}
-                onChange={(e) => handleConfigChange('subject', e.target.value)}
-                placeholder="Email subject"
-              />
-            </div>
-            
-            <div className="form-group">
-              <label>Recipients</label>
-              <textarea
-                value={emailConfig.recipients?.join(', ') || ''}
-                onChange={(e) => handleConfigChange('recipients', e.target.value.split(',').map(s => s.trim()))}
-                placeholder="email1@example.com, email2@example.com"
-                rows={2}
-              />
-            </div>
-            
-            <div className="form-group">
-              <label>Template</label>
-              <textarea
-                value={emailConfig.template}
-                onChange={(e) => handleConfigChange('template', e.target.value)}
-                placeholder="Email template with {{variables}}"
-                rows={4}
-              />
-            </div>
+            <label>Attempts</label>
+            <ol className="execution-attempts">
+              {nodeExecution.attempts.map(attempt => (
+                <li key={attempt.attempt} className={attempt.status}>
+                  {attempt.status}
+                  {' · '}
+                  {WorkflowUtils.formatDuration(new Date(attempt.endTime).getTime() - new Date(attempt.startTime).getTime())}
+                  {attempt.error && ` · ${attempt.error}`}
+                </li>
+              ))}
+            </ol>
           </>
-        )
-
-      case 'notification':
-        const notificationConfig = config as any
-        return (
+        )}
+        
+        {nodeExecution.iterations && nodeExecution.iterations.length > 0 && (
           <>
-            <div className="form-group">
-              <label>Type</label>
-              <select
-                value={notificationConfig.notificationType}
-                onChange={(e) => handleConfigChange('notificationType', e.target.value)}
-              >
-                <option value="push">Push Notification</option>
-                <option value="sms">SMS</option>
-                <option value="slack">Slack</option>
-                <option value="discord">Discord</option>
-              </select>
-            </div>
-            
-            <div className="form-group">
-              <label>Message</label>
-              <textarea
-                value={notificationConfig.message}
-                onChange={(e) => handleConfigChange('message', e.target.value)}
-                placeholder="Notification message"
-                rows={3}
-              />
-            </div>
+            <label>Iterations</label>
+            <ol className="execution-iterations" start={0}>
+              {nodeExecution.iterations.map(iteration => (
+                <li key={iteration.index} className={iteration.status}>
+                  <span className={`execution-status ${iteration.status}`}>{iteration.status}</span>
+                  <code>{JSON.stringify(iteration.item)}</code>
+                  {iteration.error && <div className="iteration-error">{iteration.error}</div>}
+                </li>
+              ))}
+            </ol>
           </>
-        )
-
-      default:
-        return <p>Configuration options for {config.type} coming soon...</p>
-    }
+        )}
+        
+        <label>Logs</label>
+        {nodeExecution.logs.length === 0 ? (
+          <p className="execution-empty">No log entries</p>
+        ) : (
+          <ul className="execution-logs">
+            {nodeExecution.logs.map((entry, index) => (
+              <li key={index}>{entry}</li>
+            ))}
+          </ul>
+        )}
+      </div>
+    )
   }
 
   return (
@@ -248,6 +316,14 @@ const NodeConfigPanel = () => {
           <h4>{config.name}</h4>
           <span className="node-type-badge">{config.type}</span>
         </div>
+
+        {generalIssues.length > 0 && (
+          <ul className="node-issues">
+            {generalIssues.map((issue, index) => (
+              <li key={index} className={`field-issue ${issue.severity}`}>{issue.message}</li>
+            ))}
+          </ul>
+        )}
         
         <div className="form-group">
           <label>Name</label>
@@ -283,6 +359,59 @@ const NodeConfigPanel = () => {
         <hr />
         
         {renderConfigFields()}
+
+        {config.type === 'table' && (
+          <button
+            className="browse-table-btn"
+            onClick={() => dispatch(openTableBrowser((config as TableNodeConfig).tableName))}
+          >
+            Browse table
+          </button>
+        )}
+
+        {config.type === 'page' && currentWorkflow && (
+          <div className="page-actions">
+            <button
+              className="browse-table-btn"
+              onClick={() =>
+                setPreviewWorkflow({ ...currentWorkflow, nodes: currentWorkflow.nodes.map(n => (n.id === config.id ? config : n)) })
+              }
+            >
+              Preview page
+            </button>
+            <button
+              className="browse-table-btn"
+              disabled={!isPublished || (selectedNode as PageNodeConfig).routePath.includes(':')}
+              title={
+                !isPublished
+                  ? 'Pages are published while their workflow is active'
+                  : (selectedNode as PageNodeConfig).routePath.includes(':')
+                    ? 'Pages with route parameters are opened from links'
+                    : undefined
+              }
+              onClick={() => navigate((selectedNode as PageNodeConfig).routePath)}
+            >
+              Open page
+            </button>
+          </div>
+        )}
+        {previewWorkflow && (
+          <PagePreview
+            workflow={previewWorkflow}
+            page={previewWorkflow.nodes.find(n => n.id === config.id) as PageNodeConfig}
+            onClose={() => setPreviewWorkflow(null)}
+          />
+        )}
+        
+        <hr />
+        
+        {plugin && getInputPorts(plugin, config).length > 0 ? renderFields(mergeConfigSchema) : null}
+        {renderFields(eventConfigSchema)}
+        
+        <h4 className="section-title">Retries &amp; Timeout</h4>
+        {renderFields(reliabilityConfigSchema)}
+        
+        {renderExecutionDetails()}
         
         <div className="panel-actions">
           <button className="save-btn" onClick={handleSave}>
@@ -1,79 +1,13 @@
 import { useDispatch } from 'react-redux'
 import { setDragNodeType, setIsDragging } from '../store/uiSlice'
-import type { NodeType } from '../workflow-engine-core'
+import { nodeRegistry } from '../engine/node-registry'
+import type { NodeTypeId } from '../workflow-engine-core'
 import './NodeToolbar.css'
 
-interface NodeTypeInfo {
-  type: NodeType
-  name: string
-  icon: string
-  description: string
-  color: string
-}
-
-const nodeTypes: NodeTypeInfo[] = [
-  {
-    type: 'trigger',
-    name: 'Trigger',
-    icon: '⚡',
-    description: 'Start workflow execution',
-    color: '#10b981'
-  },
-  {
-    type: 'action',
-    name: 'Action',
-    icon: '🔧',
-    description: 'Perform API calls and operations',
-    color: '#3b82f6'
-  },
-  {
-    type: 'table',
-    name: 'Database',
-    icon: '🗄️',
-    description: 'Store and retrieve data',
-    color: '#8b5cf6'
-  },
-  {
-    type: 'page',
-    name: 'Page',
-    icon: '📄',
-    description: 'Display data to users',
-    color: '#06b6d4'
-  },
-  {
-    type: 'email',
-    name: 'Email',
-    icon: '✉️',
-    description: 'Send email notifications',
-    color: '#ef4444'
-  },
-  {
-    type: 'notification',
-    name: 'Notification',
-    icon: '🔔',
-    description: 'Send push notifications',
-    color: '#f59e0b'
-  },
-  {
-    type: 'invoice',
-    name: 'Invoice',
-    icon: '🧾',
-    description: 'Generate invoices',
-    color: '#84cc16'
-  },
-  {
-    type: 'report',
-    name: 'Report',
-    icon: '📊',
-    description: 'Generate reports and analytics',
-    color: '#ec4899'
-  }
-]
-
 const NodeToolbar = () => {
   const dispatch = useDispatch()
 
-  const handleDragStart = (nodeType: NodeType) => {
+  const handleDragStart = (nodeType: NodeTypeId) => {
     dispatch(setDragNodeType(nodeType))
     dispatch(setIsDragging(true))
   }
@@ -91,7 +25,7 @@ const NodeToolbar = () => {
       </div>
       
       <div className="node-types">
-        {nodeTypes.map(nodeType => (
+        {nodeRegistry.list().map(nodeType => (
           <div
             key={nodeType.type}
             className="node-type-item"
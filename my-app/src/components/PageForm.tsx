@@ -0,0 +1,89 @@
+import { useState } from 'react'
+import type { NodeData } from '../workflow-engine-core'
+import type { PageFormField } from '../engine/pages'
+import type { TableRow } from '../engine/table-store'
+import { TableSchemaError } from '../engine/table-store'
+import './PageForm.css'
+
+interface PageFormProps {
+  fields: PageFormField[]
+  record?: TableRow // the row being edited; a new row is created without one
+  submitLabel?: string
+  // Writes the values; left out where the form is only shown, as in the builder's preview
+  onSubmit?: (values: NodeData) => Promise<string>
+}
+
+// Inputs hold text, or a flag for boolean columns; the database converts the text to the column's type
+const toInputValue = (field: PageFormField, value: unknown): string | boolean => {
+  if (field.type === 'boolean') return value === true
+  if (value === null || value === undefined) return ''
+  if (field.type === 'date' && typeof value === 'string') return value.slice(0, 10)
+  return String(value)
+}
+
+const INPUT_TYPES: Record<PageFormField['type'], string> = {
+  string: 'text',
+  number: 'number',
+  boolean: 'checkbox',
+  date: 'date',
+}
+
+// The form of a page, creating or editing a row of its form table
+const PageForm: React.FC<PageFormProps> = ({ fields, record, submitLabel, onSubmit }) => {
+  const initialValues = () => Object.fromEntries(fields.map(field => [field.name, toInputValue(field, record?.[field.name])]))
+  const [values, setValues] = useState<Record<string, string | boolean>>(initialValues)
+  const [submitting, setSubmitting] = useState(false)
+  const [message, setMessage] = useState<string | null>(null)
+  const [errors, setErrors] = useState<string[]>([])
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!onSubmit) return
+    setSubmitting(true)
+    setMessage(null)
+    setErrors([])
+    try {
+      setMessage(await onSubmit(values))
+      if (!record) setValues(Object.fromEntries(fields.map(field => [field.name, toInputValue(field, undefined)])))
+    } catch (err) {
+      setErrors(err instanceof TableSchemaError ? err.problems : [err instanceof Error ? err.message : String(err)])
+    } finally {
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <form className="page-form" onSubmit={handleSubmit}>
+      {fields.map(field => (
+        <label key={field.name} className={field.type === 'boolean' ? 'page-form-check' : undefined}>
+          <span>{field.label}</span>
+          {field.type === 'boolean' ? (
+            <input
+              type="checkbox"
+              checked={values[field.name] === true}
+              onChange={(e) => setValues({ ...values, [field.name]: e.target.checked })}
+            />
+          ) : (
+            <input
+              type={INPUT_TYPES[field.type]}
+              value={String(values[field.name] ?? '')}
+              onChange={(e) => setValues({ ...values, [field.name]: e.target.value })}
+            />
+          )}
+        </label>
+      ))}
+      {errors.length > 0 && (
+        <ul className="page-form-errors">
+          {errors.map((error, index) => <li key={index}>{error}</li>)}
+        </ul>
+      )}
+      {message && <p className="page-form-message">{message}</p>}
+      <button type="submit" disabled={!onSubmit || submitting}>
+        {submitting ? 'Saving...' : submitLabel?.trim() || (record ? 'Save' : 'Submit')}
+      </button>
+      {!onSubmit && <p className="page-form-hint">Forms are not submitted in the preview</p>}
+    </form>
+  )
+}
+
+export default PageForm
@@ -0,0 +1,63 @@
+import { useState } from 'react'
+import { matchPath } from 'react-router'
+import type { PageNodeConfig, Workflow } from '../workflow-engine-core'
+import { DETAIL_PARAM, getDetailRoute } from '../engine/pages'
+import type { PageRequest } from '../engine/pages'
+import PageView from './PageView'
+import './PagePreview.css'
+
+interface PagePreviewProps {
+  workflow: Workflow
+  page: PageNodeConfig // as being edited, which may not be saved yet
+  onClose: () => void
+}
+
+// Shows a page the way it will be published, following its links between list and detail views
+const PagePreview: React.FC<PagePreviewProps> = ({ workflow, page, onClose }) => {
+  const [request, setRequest] = useState<PageRequest>({ params: {}, query: {} })
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const handleNavigate = (path: string) => {
+    const [pathname, search = ''] = path.split('?')
+    const query = Object.fromEntries(new URLSearchParams(search))
+    const detail = page.detailTemplate?.trim() ? matchPath(getDetailRoute(page.routePath), pathname) : null
+    const list = matchPath(page.routePath, pathname)
+    if (detail) {
+      const { [DETAIL_PARAM]: recordId, ...params } = detail.params
+      setRequest({ params: params as Record<string, string>, query, recordId })
+    } else if (list) {
+      setRequest({ params: list.params as Record<string, string>, query })
+    } else {
+      setNotice(`${pathname} is outside this page; open it once the workflow is active`)
+      return
+    }
+    setNotice(null)
+  }
+
+  return (
+    <div className="modal-overlay" onClick={onClose}>
+      <div className="page-preview" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>
+            Preview of {page.routePath}
+            {request.recordId !== undefined && <span className="page-preview-route">/{request.recordId}</span>}
+          </h2>
+          <div className="page-preview-actions">
+            {request.recordId !== undefined && (
+              <button className="page-preview-back" onClick={() => setRequest({ params: request.params, query: {} })}>
+                Back to list
+              </button>
+            )}
+            <button className="close-btn" onClick={onClose}>×</button>
+          </div>
+        </div>
+        {notice && <div className="page-preview-notice">{notice}</div>}
+        <div className="page-preview-body">
+          <PageView workflow={workflow} page={page} request={request} onNavigate={handleNavigate} />
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default PagePreview
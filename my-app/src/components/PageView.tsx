@@ -0,0 +1,96 @@
+import { useEffect, useMemo, useState } from 'react'
+import type { NodeData, PageNodeConfig, Workflow } from '../workflow-engine-core'
+import { getPageFormFields, loadPageData, renderPageTemplate } from '../engine/pages'
+import type { PageRequest } from '../engine/pages'
+import type { TableRow } from '../engine/table-store'
+import { tables } from '../runtime'
+import PageForm from './PageForm'
+import './PageView.css'
+
+interface PageViewProps {
+  workflow: Workflow
+  page: PageNodeConfig
+  request: PageRequest
+  // Follows a link of the page to another path of the app
+  onNavigate: (path: string) => void
+  // Writes a form submission and says how it went; left out where forms are only shown
+  onSubmit?: (values: NodeData) => Promise<string>
+}
+
+// A page rendered with the current rows of its data sources; it follows changes to the tables
+const PageView: React.FC<PageViewProps> = ({ workflow, page, request, onNavigate, onSubmit }) => {
+  const [data, setData] = useState<NodeData | null>(null)
+  const [loadError, setLoadError] = useState<string | null>(null)
+  const [revision, setRevision] = useState(0) // bumped whenever any table changes
+  const requestKey = JSON.stringify(request)
+
+  useEffect(() => tables.subscribe(() => setRevision(r => r + 1)), [])
+
+  useEffect(() => {
+    let cancelled = false
+    loadPageData(tables, workflow, page, JSON.parse(requestKey) as PageRequest)
+      .then(loaded => {
+        if (cancelled) return
+        setData(loaded)
+        setLoadError(null)
+      })
+      .catch(err => {
+        if (!cancelled) setLoadError(err instanceof Error ? err.message : String(err))
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [workflow, page, requestKey, revision])
+
+  const isDetail = request.recordId !== undefined
+  const { html, renderError } = useMemo(() => {
+    if (!data) return { html: '', renderError: null }
+    try {
+      return { html: renderPageTemplate((isDetail ? page.detailTemplate : page.template) ?? '', workflow, data), renderError: null }
+    } catch (err) {
+      return { html: '', renderError: err instanceof Error ? err.message : String(err) }
+    }
+  }, [data, isDetail, page, workflow])
+
+  // Links within the app are followed without reloading it
+  const handleClick = (e: React.MouseEvent) => {
+    const anchor = (e.target as HTMLElement).closest('a')
+    if (!anchor || anchor.target || e.button !== 0 || e.metaKey || e.ctrlKey || e.shiftKey) return
+    const url = new URL(anchor.href, window.location.href)
+    if (url.origin !== window.location.origin) return
+    e.preventDefault()
+    onNavigate(`${url.pathname}${url.search}`)
+  }
+
+  const record = data?.record as TableRow | null | undefined
+  const error = loadError ?? renderError
+  // A detail view edits its row when the form writes to the table the row comes from
+  const showForm = !!page.formTable && (!isDetail || (!!record && page.formTable === page.dataSources?.[0]))
+
+  return (
+    <div className="page-view">
+      <h1 className="page-view-title">{page.pageTitle}</h1>
+      {error ? (
+        <div className="page-view-error">{error}</div>
+      ) : !data ? (
+        <div className="page-view-loading">Loading...</div>
+      ) : (
+        <>
+          {/* The template is the page author's markup; every value from the tables in it is escaped */}
+          <div className="page-view-content" onClick={handleClick} dangerouslySetInnerHTML={{ __html: html }} />
+          {showForm && (
+            <PageForm
+              key={isDetail ? record?.id : 'new'}
+              fields={getPageFormFields(workflow, page)}
+              record={record ?? undefined}
+              submitLabel={page.submitLabel}
+              onSubmit={onSubmit}
+            />
+          )}
+        </>
+      )}
+    </div>
+  )
+}
+
+export default PageView
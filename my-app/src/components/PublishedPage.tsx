@@ -0,0 +1,41 @@
+import { useEffect, useMemo } from 'react'
+import { useNavigate, useParams, useSearchParams } from 'react-router'
+import type { ExecutionOptions, NodeData, PageNodeConfig, Workflow } from '../workflow-engine-core'
+import { DETAIL_PARAM, buildPageTriggerData, submitPageForm } from '../engine/pages'
+import type { PageRequest } from '../engine/pages'
+import { engine, tables } from '../runtime'
+import PageView from './PageView'
+
+interface PublishedPageProps {
+  workflow: Workflow
+  page: PageNodeConfig
+  // How runs started by the page's form are executed
+  executionOptions: ExecutionOptions
+}
+
+// A page at its route; its form writes the row and then starts the page's workflow
+const PublishedPage: React.FC<PublishedPageProps> = ({ workflow, page, executionOptions }) => {
+  const navigate = useNavigate()
+  const routeParams = useParams()
+  const [searchParams] = useSearchParams()
+  const paramsKey = JSON.stringify(routeParams)
+
+  const request = useMemo((): PageRequest => {
+    const { [DETAIL_PARAM]: recordId, ...params } = JSON.parse(paramsKey) as Record<string, string>
+    return { params, query: Object.fromEntries(searchParams), ...(recordId !== undefined ? { recordId } : {}) }
+  }, [paramsKey, searchParams])
+
+  useEffect(() => {
+    document.title = page.pageTitle || page.routePath
+  }, [page.pageTitle, page.routePath])
+
+  const handleSubmit = async (values: NodeData) => {
+    const row = await submitPageForm(tables, workflow, page, values, request.recordId)
+    const handle = engine.startWorkflow(workflow, buildPageTriggerData(page, request, row), executionOptions)
+    return `Saved, and ${workflow.name} started (${handle.executionId})`
+  }
+
+  return <PageView workflow={workflow} page={page} request={request} onNavigate={(path) => navigate(path)} onSubmit={handleSubmit} />
+}
+
+export default PublishedPage
@@ -0,0 +1,62 @@
+import type { RouterBranch } from '../workflow-engine-core'
+import ConditionsEditor from './ConditionsEditor'
+import './RouterBranchesEditor.css'
+
+interface RouterBranchesEditorProps {
+  branches: RouterBranch[]
+  onChange: (branches: RouterBranch[]) => void
+}
+
+const RouterBranchesEditor: React.FC<RouterBranchesEditorProps> = ({ branches, onChange }) => {
+  const updateBranch = (index: number, branch: RouterBranch) => {
+    onChange(branches.map((b, i) => (i === index ? branch : b)))
+  }
+
+  const addBranch = () => {
+    onChange([
+      ...branches,
+      { port: `branch${branches.length + 1}`, match: 'all', conditions: [{ field: '', operator: 'equals', value: '' }] },
+    ])
+  }
+
+  return (
+    <div className="router-branches">
+      {branches.map((branch, branchIndex) => (
+        <div className="router-branch" key={branchIndex}>
+          <div className="router-branch-header">
+            <input
+              type="text"
+              value={branch.port}
+              onChange={(e) => updateBranch(branchIndex, { ...branch, port: e.target.value })}
+              placeholder="Output port"
+            />
+            <select
+              value={branch.match}
+              onChange={(e) => updateBranch(branchIndex, { ...branch, match: e.target.value as RouterBranch['match'] })}
+            >
+              <option value="all">all match</option>
+              <option value="any">any matches</option>
+            </select>
+            <button
+              className="icon-btn"
+              onClick={() => onChange(branches.filter((_, i) => i !== branchIndex))}
+              title="Remove branch"
+            >
+              ×
+            </button>
+          </div>
+
+          <ConditionsEditor
+            conditions={branch.conditions}
+            onChange={(conditions) => updateBranch(branchIndex, { ...branch, conditions })}
+          />
+        </div>
+      ))}
+
+      <button className="add-btn" onClick={addBranch}>+ Branch</button>
+      <p className="router-hint">Input that matches no branch leaves through the "else" port.</p>
+    </div>
+  )
+}
+
+export default RouterBranchesEditor
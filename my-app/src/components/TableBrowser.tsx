@@ -0,0 +1,266 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useDispatch, useSelector } from 'react-redux'
+import type { RootState } from '../store/store'
+import { closeTableBrowser } from '../store/uiSlice'
+import type { DataValue, NodeData, TableColumnType, TableNodeConfig } from '../workflow-engine-core'
+import { SYSTEM_FIELDS } from '../engine/table-store'
+import type { TableData, TableRow } from '../engine/table-store'
+import { applyTableQuery, parseTableQuery } from '../engine/table-query'
+import { isDynamic } from '../engine/validation'
+import { tables } from '../runtime'
+import './TableBrowser.css'
+
+interface EditedCell {
+  rowId: string
+  column: string
+  text: string
+}
+
+const formatCell = (value: DataValue): string =>
+  value === null || value === undefined ? '' : typeof value === 'string' ? value : JSON.stringify(value)
+
+// Typed columns get the text as is and the database converts it; untyped ones take JSON where it parses
+const parseCell = (text: string, type?: TableColumnType): DataValue => {
+  if (text === '') return null
+  if (type) return text
+  try {
+    return JSON.parse(text)
+  } catch {
+    return text
+  }
+}
+
+// Shows the rows of the tables Table nodes use, and lets them be filtered, edited, added and deleted
+const TableBrowser = () => {
+  const dispatch = useDispatch()
+  const browsedTable = useSelector((state: RootState) => state.ui.browsedTable)
+  const workflows = useSelector((state: RootState) => state.workflow.workflows)
+  const [storedNames, setStoredNames] = useState<string[]>([])
+  const [selected, setSelected] = useState<string | null>(browsedTable)
+  const [table, setTable] = useState<TableData>({ rows: [] })
+  const [queryText, setQueryText] = useState('')
+  const [appliedQuery, setAppliedQuery] = useState('')
+  const [editing, setEditing] = useState<EditedCell | null>(null)
+  const [newRows, setNewRows] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [revision, setRevision] = useState(0) // bumped whenever any table changes, from here or a workflow
+
+  useEffect(() => tables.subscribe(() => setRevision(r => r + 1)), [])
+
+  useEffect(() => {
+    void tables.listTables().then(setStoredNames)
+  }, [revision])
+
+  useEffect(() => {
+    if (!selected) return
+    let cancelled = false
+    void tables.getTable(selected).then(data => {
+      if (!cancelled) setTable(data)
+    })
+    return () => {
+      cancelled = true
+    }
+  }, [selected, revision])
+
+  // Tables named by Table nodes are listed before anything is stored in them
+  const names = useMemo(() => {
+    const declared = workflows
+      .flatMap(workflow => workflow.nodes)
+      .filter(node => node.type === 'table')
+      .map(node => (node as TableNodeConfig).tableName)
+      .filter(name => name && !isDynamic(name))
+    return [...new Set([...storedNames, ...declared])].sort()
+  }, [workflows, storedNames])
+
+  const { rows, queryError } = useMemo(() => {
+    if (!appliedQuery.trim()) return { rows: table.rows, queryError: null }
+    try {
+      return { rows: applyTableQuery(table.rows, parseTableQuery(appliedQuery)), queryError: null }
+    } catch (e) {
+      return { rows: [], queryError: (e as Error).message }
+    }
+  }, [table, appliedQuery])
+
+  const columns = useMemo(() => {
+    const fields = new Set(Object.keys(table.schema ?? {}))
+    for (const row of table.rows) {
+      Object.keys(row).filter(key => !SYSTEM_FIELDS.includes(key)).forEach(key => fields.add(key))
+    }
+    return [...fields]
+  }, [table])
+
+  const run = async (action: () => Promise<unknown>) => {
+    try {
+      await action()
+      setError(null)
+    } catch (e) {
+      setError((e as Error).message)
+    }
+  }
+
+  const selectTable = (name: string) => {
+    setSelected(name)
+    setTable({ rows: [] })
+    setEditing(null)
+    setError(null)
+  }
+
+  const commitEdit = (row: TableRow) => {
+    if (!editing || !selected) return
+    const { column, text } = editing
+    setEditing(null)
+    if (text === formatCell(row[column])) return
+    void run(() => tables.update(selected, { id: row.id }, { [column]: parseCell(text, table.schema?.[column]) }))
+  }
+
+  const handleInsert = () => {
+    if (!selected) return
+    void run(async () => {
+      const parsed = JSON.parse(newRows) as NodeData | NodeData[]
+      await tables.insert(selected, Array.isArray(parsed) ? parsed : [parsed])
+      setNewRows('')
+    })
+  }
+
+  const handleDrop = () => {
+    if (selected && confirm(`Delete table ${selected} and all of its rows?`)) {
+      void run(() => tables.dropTable(selected))
+    }
+  }
+
+  const renderCell = (row: TableRow, column: string) => {
+    if (editing?.rowId === row.id && editing.column === column) {
+      return (
+        <input
+          autoFocus
+          value={editing.text}
+          onChange={(e) => setEditing({ ...editing, text: e.target.value })}
+          onBlur={() => commitEdit(row)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') commitEdit(row)
+            if (e.key === 'Escape') setEditing(null)
+          }}
+        />
+      )
+    }
+    const text = formatCell(row[column])
+    return (
+      <span
+        className={text ? 'table-cell' : 'table-cell empty'}
+        onClick={() => setEditing({ rowId: row.id, column, text })}
+        title="Click to edit"
+      >
+        {text || 'null'}
+      </span>
+    )
+  }
+
+  return (
+    <div className="modal-overlay" onClick={() => dispatch(closeTableBrowser())}>
+      <div className="table-browser" onClick={e => e.stopPropagation()}>
+        <div className="modal-header">
+          <h2>Tables</h2>
+          <button className="close-btn" onClick={() => dispatch(closeTableBrowser())}>×</button>
+        </div>
+
+        <div className="table-browser-body">
+          <ul className="table-list">
+            {names.length === 0 && <li className="table-list-empty">No Table nodes yet</li>}
+            {names.map(name => (
+              <li
+                key={name}
+                className={name === selected ? 'selected' : ''}
+                onClick={() => selectTable(name)}
+              >
+                {name}
+                {!storedNames.includes(name) && <span className="table-list-hint">empty</span>}
+              </li>
+            ))}
+          </ul>
+
+          {!selected ? (
+            <div className="table-view-empty">Pick a table to see its rows</div>
+          ) : (
+            <div className="table-view">
+              <div className="table-view-header">
+                <h3>{selected}</h3>
+                <span className="table-row-count">
+                  {rows.length === table.rows.length ? `${rows.length} rows` : `${rows.length} of ${table.rows.length} rows`}
+                </span>
+                <button className="drop-table-btn" onClick={handleDrop} disabled={!storedNames.includes(selected)}>
+                  Delete table
+                </button>
+              </div>
+
+              {table.schema && (
+                <div className="table-schema">
+                  {Object.entries(table.schema).map(([column, type]) => (
+                    <span key={column} className="table-schema-column">{column}: {type}</span>
+                  ))}
+                </div>
+              )}
+
+              <div className="table-query">
+                <input
+                  value={queryText}
+                  onChange={(e) => setQueryText(e.target.value)}
+                  onKeyDown={(e) => e.key === 'Enter' && setAppliedQuery(queryText)}
+                  placeholder="status = 'paid' order by createdAt desc limit 20"
+                />
+                <button onClick={() => setAppliedQuery(queryText)}>Filter</button>
+              </div>
+              {queryError && <div className="table-browser-error">{queryError}</div>}
+              {error && <div className="table-browser-error">{error}</div>}
+
+              <div className="table-grid-wrapper">
+                <table className="table-grid">
+                  <thead>
+                    <tr>
+                      <th>id</th>
+                      {columns.map(column => <th key={column}>{column}</th>)}
+                      <th>updatedAt</th>
+                      <th />
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {rows.map(row => (
+                      <tr key={row.id}>
+                        <td><code>{row.id}</code></td>
+                        {columns.map(column => <td key={column}>{renderCell(row, column)}</td>)}
+                        <td className="table-timestamp">{new Date(row.updatedAt).toLocaleString()}</td>
+                        <td>
+                          <button
+                            className="icon-btn"
+                            onClick={() => void run(() => tables.remove(selected, { id: row.id }))}
+                            title="Delete row"
+                          >
+                            ×
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+                {rows.length === 0 && <p className="table-view-empty">No rows</p>}
+              </div>
+
+              <div className="table-insert">
+                <textarea
+                  value={newRows}
+                  onChange={(e) => setNewRows(e.target.value)}
+                  placeholder='{"name": "Ada", "total": 42} or a list of rows'
+                  rows={2}
+                />
+                <button className="create-btn" onClick={handleInsert} disabled={!newRows.trim()}>
+                  Add rows
+                </button>
+              </div>
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default TableBrowser
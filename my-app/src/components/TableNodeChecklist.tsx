@@ -0,0 +1,52 @@
+import { useSelector } from 'react-redux'
+import type { RootState } from '../store/store'
+import type { TableNodeConfig } from '../workflow-engine-core'
+import './TableNodeChecklist.css'
+
+interface TableNodeChecklistProps {
+  value: unknown
+  onChange: (nodeIds: string[]) => void
+}
+
+// Picks table nodes of the workflow being edited, keeping the order they were picked in
+const TableNodeChecklist: React.FC<TableNodeChecklistProps> = ({ value, onChange }) => {
+  const currentWorkflow = useSelector((state: RootState) => state.workflow.currentWorkflow)
+  const tableNodes = (currentWorkflow?.nodes ?? []).filter(node => node.type === 'table') as TableNodeConfig[]
+  const selected = Array.isArray(value) ? value.map(String) : []
+  const missing = selected.filter(nodeId => !tableNodes.some(node => node.id === nodeId))
+
+  const toggle = (nodeId: string, checked: boolean) =>
+    onChange(checked ? [...selected, nodeId] : selected.filter(id => id !== nodeId))
+
+  if (tableNodes.length === 0 && missing.length === 0) {
+    return <p className="table-node-checklist-empty">Add a table node to this workflow to show its rows</p>
+  }
+
+  return (
+    <ul className="table-node-checklist">
+      {tableNodes.map(node => (
+        <li key={node.id}>
+          <label>
+            <input
+              type="checkbox"
+              checked={selected.includes(node.id)}
+              onChange={(e) => toggle(node.id, e.target.checked)}
+            />
+            {node.name}{node.tableName ? ` · ${node.tableName}` : ''}
+            {selected[0] === node.id && selected.length > 1 && <span className="table-node-hint">first</span>}
+          </label>
+        </li>
+      ))}
+      {missing.map(nodeId => (
+        <li key={nodeId}>
+          <label className="missing">
+            <input type="checkbox" checked onChange={() => toggle(nodeId, false)} />
+            Missing node ({nodeId})
+          </label>
+        </li>
+      ))}
+    </ul>
+  )
+}
+
+export default TableNodeChecklist
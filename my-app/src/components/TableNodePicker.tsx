@@ -0,0 +1,30 @@
+import { useSelector } from 'react-redux'
+import type { RootState } from '../store/store'
+import type { TableNodeConfig } from '../workflow-engine-core'
+
+interface TableNodePickerProps {
+  value: unknown
+  onChange: (nodeId: string) => void
+  placeholder?: string
+}
+
+// Lists the table nodes of the workflow being edited
+const TableNodePicker: React.FC<TableNodePickerProps> = ({ value, onChange, placeholder = 'None' }) => {
+  const currentWorkflow = useSelector((state: RootState) => state.workflow.currentWorkflow)
+  const tableNodes = (currentWorkflow?.nodes ?? []).filter(node => node.type === 'table') as TableNodeConfig[]
+  const known = !value || tableNodes.some(node => node.id === value)
+
+  return (
+    <select value={String(value ?? '')} onChange={(e) => onChange(e.target.value)}>
+      <option value="">{placeholder}</option>
+      {!known && <option value={String(value)}>Missing node ({String(value)})</option>}
+      {tableNodes.map(node => (
+        <option key={node.id} value={node.id}>
+          {node.name}{node.tableName ? ` · ${node.tableName}` : ''}
+        </option>
+      ))}
+    </select>
+  )
+}
+
+export default TableNodePicker
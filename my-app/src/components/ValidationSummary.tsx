@@ -0,0 +1,66 @@
+import { useState } from 'react'
+import type { NodeConfig } from '../workflow-engine-core'
+import { countBySeverity, getHighestSeverity, SEVERITY_ORDER } from '../engine/validation'
+import type { ValidationIssue } from '../engine/validation'
+import './ValidationSummary.css'
+
+interface ValidationSummaryProps {
+  issues: ValidationIssue[]
+  nodes: NodeConfig[]
+  onSelectNode: (nodeId: string) => void
+}
+
+// Header badge counting the workflow's issues; opens a list that jumps to the node at fault
+const ValidationSummary: React.FC<ValidationSummaryProps> = ({ issues, nodes, onSelectNode }) => {
+  const [open, setOpen] = useState(false)
+  const counts = countBySeverity(issues)
+  const highest = getHighestSeverity(issues)
+
+  const sorted = [...issues].sort(
+    (a, b) => SEVERITY_ORDER.indexOf(a.severity) - SEVERITY_ORDER.indexOf(b.severity)
+  )
+
+  const handleSelect = (issue: ValidationIssue) => {
+    if (!issue.nodeId) return
+    onSelectNode(issue.nodeId)
+    setOpen(false)
+  }
+
+  return (
+    <div className="validation-summary">
+      <button
+        className={`validation-summary-toggle ${highest ?? 'valid'}`}
+        onClick={() => setOpen(!open)}
+        disabled={issues.length === 0}
+      >
+        {issues.length === 0
+          ? '✓ No issues'
+          : SEVERITY_ORDER.filter(severity => counts[severity] > 0)
+              .map(severity => `${counts[severity]} ${severity}${counts[severity] === 1 ? '' : 's'}`)
+              .join(' · ')}
+      </button>
+
+      {open && issues.length > 0 && (
+        <ul className="validation-summary-list">
+          {sorted.map((issue, index) => (
+            <li
+              key={index}
+              className={`validation-issue ${issue.severity} ${issue.nodeId ? 'linked' : ''}`}
+              onClick={() => handleSelect(issue)}
+            >
+              <span className="validation-issue-severity">{issue.severity}</span>
+              <span className="validation-issue-message">
+                {issue.nodeId && (
+                  <strong>{nodes.find(node => node.id === issue.nodeId)?.name ?? issue.nodeId}: </strong>
+                )}
+                {issue.message}
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  )
+}
+
+export default ValidationSummary
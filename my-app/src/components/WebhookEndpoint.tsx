@@ -0,0 +1,129 @@
+import { useCallback, useEffect, useState } from 'react'
+import { useSelector } from 'react-redux'
+import type { RootState } from '../store/store'
+import { WEBHOOK_ADMIN_PREFIX, WEBHOOK_ADMIN_TOKEN_HEADER, createWebhookId, getWebhookPath } from '../engine/webhooks'
+import type { WebhookDelivery } from '../engine/webhooks'
+import './WebhookEndpoint.css'
+
+interface WebhookEndpointProps {
+  webhookId: unknown
+  onChange: (webhookId: string) => void
+}
+
+// Where the local receiver (npm run webhooks) listens
+const WEBHOOK_BASE_URL = (import.meta.env.VITE_WEBHOOK_BASE_URL as string | undefined) ?? 'http://localhost:8787'
+
+// The receiver's WEBHOOK_ADMIN_TOKEN, which it requires before serving workflows or showing deliveries
+const WEBHOOK_ADMIN_TOKEN = (import.meta.env.VITE_WEBHOOK_ADMIN_TOKEN as string | undefined) ?? ''
+
+const adminHeaders = { [WEBHOOK_ADMIN_TOKEN_HEADER]: WEBHOOK_ADMIN_TOKEN }
+
+const describeRefusal = (response: Response): string =>
+  response.status === 401 || response.status === 403
+    ? 'The receiver refused the admin token; set VITE_WEBHOOK_ADMIN_TOKEN to its WEBHOOK_ADMIN_TOKEN'
+    : `Receiver answered ${response.status}`
+
+// Shows the URL a webhook trigger listens on and the latest requests the receiver got there
+const WebhookEndpoint: React.FC<WebhookEndpointProps> = ({ webhookId, onChange }) => {
+  const workflows = useSelector((state: RootState) => state.workflow.workflows)
+  const currentWorkflow = useSelector((state: RootState) => state.workflow.currentWorkflow)
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [status, setStatus] = useState<string | null>(null)
+
+  const id = typeof webhookId === 'string' ? webhookId : ''
+  const url = `${WEBHOOK_BASE_URL}${getWebhookPath(id)}`
+
+  const refresh = useCallback(async () => {
+    if (!id) return
+    try {
+      const response = await fetch(`${WEBHOOK_BASE_URL}${WEBHOOK_ADMIN_PREFIX}${encodeURIComponent(id)}/deliveries`, {
+        headers: adminHeaders,
+      })
+      if (!response.ok) {
+        setStatus(describeRefusal(response))
+        return
+      }
+      setDeliveries(await response.json())
+      setStatus(null)
+    } catch {
+      setStatus(`Webhook receiver is not reachable at ${WEBHOOK_BASE_URL}`)
+    }
+  }, [id])
+
+  useEffect(() => {
+    void refresh()
+  }, [refresh])
+
+  // The receiver serves the workflows it was last sent, including unsaved edits to this one
+  const handleSync = async () => {
+    const served = workflows.map(workflow => (workflow.id === currentWorkflow?.id ? currentWorkflow : workflow))
+    if (currentWorkflow && !served.some(workflow => workflow.id === currentWorkflow.id)) served.push(currentWorkflow)
+    try {
+      const response = await fetch(`${WEBHOOK_BASE_URL}${WEBHOOK_ADMIN_PREFIX}workflows`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json', ...adminHeaders },
+        body: JSON.stringify(served),
+      })
+      setStatus(response.ok ? `Receiver now serves ${served.length} workflow(s)` : `Sync failed: ${describeRefusal(response)}`)
+    } catch {
+      setStatus(`Webhook receiver is not reachable at ${WEBHOOK_BASE_URL}`)
+    }
+  }
+
+  if (!id) {
+    return (
+      <div className="webhook-endpoint">
+        <button type="button" onClick={() => onChange(createWebhookId())}>Generate URL</button>
+      </div>
+    )
+  }
+
+  return (
+    <div className="webhook-endpoint">
+      <div className="webhook-url">
+        <code>{url}</code>
+        <button type="button" onClick={() => void navigator.clipboard.writeText(url)}>Copy</button>
+      </div>
+      <div className="webhook-actions">
+        <button type="button" onClick={() => void handleSync()}>Sync to receiver</button>
+        <button type="button" onClick={() => void refresh()}>Refresh</button>
+        <button
+          type="button"
+          onClick={() => {
+            if (confirm('Senders using the current URL will stop reaching this workflow. Continue?')) {
+              onChange(createWebhookId())
+            }
+          }}
+        >
+          New URL
+        </button>
+      </div>
+      {status && <div className="webhook-status">{status}</div>}
+      <div className="webhook-deliveries">
+        <span className="webhook-deliveries-label">Recent deliveries</span>
+        {deliveries.length === 0 ? (
+          <span>No requests received yet</span>
+        ) : (
+          <ul>
+            {deliveries.map(delivery => (
+              <li key={delivery.id}>
+                <details>
+                  <summary>
+                    <span className={`delivery-status ${delivery.statusCode < 400 ? 'ok' : 'error'}`}>
+                      {delivery.statusCode}
+                    </span>
+                    {delivery.method} {new Date(delivery.receivedAt).toLocaleTimeString()}
+                    {delivery.error && ` – ${delivery.error}`}
+                  </summary>
+                  <pre>{JSON.stringify({ query: delivery.query, headers: delivery.headers, body: delivery.body }, null, 2)}</pre>
+                </details>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default WebhookEndpoint
@@ -1,20 +1,141 @@
+import { useMemo, useRef, useState } from 'react'
 import { useSelector, useDispatch } from 'react-redux'
 import type { RootState } from '../store/store'
-import { setCurrentView } from '../store/uiSlice'
+import {
+  setCurrentView,
+  setSimulationMode,
+  openWorkflowSettings,
+  openExecutionHistory,
+  openTableBrowser,
+  openCredentials,
+  toggleRightPanel,
+  setSelectedNodeId,
+} from '../store/uiSlice'
+import { addExecution, cancelPausedExecution, recordExecutionEvent, setWorkflowActive } from '../store/workflowSlice'
+import { WorkflowUtils } from '../workflow-engine-core'
+import type { ExecutionHandle, ExecutionOptions, WorkflowExecution } from '../workflow-engine-core'
 import NodeToolbar from './NodeToolbar'
 import WorkflowCanvas from './WorkflowCanvas'
 import NodeConfigPanel from './NodeConfigPanel'
+import WorkflowSettingsPanel from './WorkflowSettingsPanel'
+import ExecutionHistory from './ExecutionHistory'
+import ValidationSummary from './ValidationSummary'
+import { nodeRegistry } from '../engine/node-registry'
+import { createWorkflowExport } from '../engine/workflow-export'
+import { credentials, engine } from '../runtime'
 import './WorkflowBuilder.css'
 
 const WorkflowBuilder = () => {
   const dispatch = useDispatch()
   const currentWorkflow = useSelector((state: RootState) => state.workflow.currentWorkflow)
-  const { sidebarOpen, rightPanelOpen } = useSelector((state: RootState) => state.ui)
+  const activeExecution = useSelector((state: RootState) => state.workflow.activeExecution)
+  const workflows = useSelector((state: RootState) => state.workflow.workflows)
+  const { sidebarOpen, rightPanelOpen, rightPanelView, selectedNodeId, simulationMode } = useSelector(
+    (state: RootState) => state.ui
+  )
+  const handleRef = useRef<ExecutionHandle | null>(null)
+  const [runningExecutionId, setRunningExecutionId] = useState<string | null>(null)
+  const [isPausing, setIsPausing] = useState(false)
+  const [selectedTriggerId, setSelectedTriggerId] = useState('')
+
+  const issues = useMemo(
+    () => (currentWorkflow ? WorkflowUtils.validateWorkflow(currentWorkflow, { workflows }).issues : []),
+    [currentWorkflow, workflows]
+  )
+
+  const isRunning = activeExecution?.status === 'running'
+  const isPaused = activeExecution?.status === 'paused'
+  // With several triggers the user picks which one fires; the engine runs only its sub-graph
+  const triggers = currentWorkflow?.nodes.filter(node => node.type === 'trigger' && node.enabled) ?? []
+  const triggerNodeId = triggers.some(node => node.id === selectedTriggerId) ? selectedTriggerId : undefined
 
   const handleBackToDashboard = () => {
     dispatch(setCurrentView('dashboard'))
   }
 
+  const handleTogglePanel = (view: 'settings' | 'history') => {
+    if (rightPanelOpen && !selectedNodeId && rightPanelView === view) {
+      dispatch(toggleRightPanel())
+    } else {
+      dispatch(view === 'settings' ? openWorkflowSettings() : openExecutionHistory())
+    }
+  }
+
+  // Secrets are left out; stored credentials travel as references only
+  const handleExport = async () => {
+    if (!currentWorkflow) return
+    const exported = createWorkflowExport(currentWorkflow, nodeRegistry, await credentials.list())
+    const url = URL.createObjectURL(new Blob([JSON.stringify(exported, null, 2)], { type: 'application/json' }))
+    const link = document.createElement('a')
+    link.href = url
+    link.download = `${currentWorkflow.name.replace(/[^\w-]+/g, '-') || 'workflow'}.json`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const executionOptions: ExecutionOptions = {
+    simulation: simulationMode,
+    onEvent: event => dispatch(recordExecutionEvent(event)),
+    // Sub-workflow nodes may call back into the workflow being edited, unsaved changes included
+    workflows: currentWorkflow
+      ? [currentWorkflow, ...workflows.filter(workflow => workflow.id !== currentWorkflow.id)]
+      : workflows,
+  }
+
+  // The store follows the execution through its events and keeps the final record; the handle is kept for the controls
+  const trackExecution = async (handle: ExecutionHandle) => {
+    handleRef.current = handle
+    setRunningExecutionId(handle.executionId)
+
+    // A copy, since the store freezes what it keeps and cancelled nodes may still settle on the engine's record
+    dispatch(addExecution(structuredClone(await handle.result)))
+
+    handleRef.current = null
+    setRunningExecutionId(null)
+    setIsPausing(false)
+  }
+
+  const handleRunWorkflow = async () => {
+    if (!currentWorkflow || isRunning) return
+
+    await trackExecution(engine.startWorkflow(currentWorkflow, undefined, { ...executionOptions, triggerNodeId }))
+  }
+
+  const handlePause = () => {
+    handleRef.current?.pause()
+    setIsPausing(true)
+  }
+
+  const handleResume = async (execution: WorkflowExecution) => {
+    if (!currentWorkflow || isRunning) return
+
+    await trackExecution(engine.resumeExecution(currentWorkflow, execution, executionOptions))
+  }
+
+  const handleRetry = async (execution: WorkflowExecution, nodeId: string) => {
+    if (!currentWorkflow || isRunning) return
+
+    try {
+      await trackExecution(engine.retryFromNode(currentWorkflow, execution, nodeId, executionOptions))
+    } catch (error) {
+      alert(error instanceof Error ? error.message : String(error))
+    }
+  }
+
+  const handleReplay = async (execution: WorkflowExecution) => {
+    if (!currentWorkflow || isRunning) return
+
+    await trackExecution(engine.replayExecution(currentWorkflow, execution, executionOptions))
+  }
+
+  const handleStop = (execution: WorkflowExecution) => {
+    if (execution.status === 'paused') {
+      dispatch(cancelPausedExecution(execution.id))
+    } else {
+      handleRef.current?.cancel()
+    }
+  }
+
   if (!currentWorkflow) {
     return (
       <div className="workflow-builder">
@@ -39,11 +160,78 @@ const WorkflowBuilder = () => {
             ← Back to Dashboard
           </button>
           <h1>{currentWorkflow.name}</h1>
+          {simulationMode && (
+            <span className="simulation-badge" title="Nodes without a real processor return mock data, in runs started here and by triggers">
+              Simulation on
+            </span>
+          )}
         </div>
         
         <div className="header-right">
+          <ValidationSummary
+            issues={issues}
+            nodes={currentWorkflow.nodes}
+            onSelectNode={(nodeId) => dispatch(setSelectedNodeId(nodeId))}
+          />
+          <label
+            className={`active-toggle${currentWorkflow.isActive ? ' on' : ''}`}
+            title="Active workflows run on their own: on schedule, webhook and event triggers, and when their pages are visited"
+          >
+            <input
+              type="checkbox"
+              checked={currentWorkflow.isActive}
+              onChange={(e) => dispatch(setWorkflowActive({ workflowId: currentWorkflow.id, isActive: e.target.checked }))}
+            />
+            Active
+          </label>
+          <label className={`simulation-toggle${simulationMode ? ' on' : ''}`} title="Mock nodes that have no real processor">
+            <input
+              type="checkbox"
+              checked={simulationMode}
+              onChange={(e) => dispatch(setSimulationMode(e.target.checked))}
+            />
+            Simulation
+          </label>
+          <button className="history-btn" onClick={() => handleTogglePanel('history')}>History</button>
+          <button className="settings-btn" onClick={() => handleTogglePanel('settings')}>Settings</button>
+          <button className="tables-btn" onClick={() => dispatch(openTableBrowser())}>Tables</button>
+          <button className="credentials-btn" onClick={() => dispatch(openCredentials())}>Credentials</button>
+          <button className="export-btn" onClick={() => void handleExport()}>Export</button>
           <button className="save-btn">Save</button>
-          <button className="run-btn">Run Workflow</button>
+          {isRunning && (
+            <>
+              <button className="pause-btn" onClick={handlePause} disabled={isPausing}>
+                {isPausing ? 'Pausing...' : 'Pause'}
+              </button>
+              <button className="stop-btn" onClick={() => handleStop(activeExecution)}>Stop</button>
+            </>
+          )}
+          {isPaused && (
+            <>
+              <button className="resume-btn" onClick={() => handleResume(activeExecution)}>Resume</button>
+              <button className="stop-btn" onClick={() => handleStop(activeExecution)}>Stop</button>
+            </>
+          )}
+          {triggers.length > 1 && (
+            <select
+              className="trigger-select"
+              value={triggerNodeId ?? ''}
+              onChange={(e) => setSelectedTriggerId(e.target.value)}
+              title="Trigger to fire"
+            >
+              <option value="">Default trigger</option>
+              {triggers.map(trigger => (
+                <option key={trigger.id} value={trigger.id}>{trigger.name}</option>
+              ))}
+            </select>
+          )}
+          <button
+            className="run-btn"
+            onClick={handleRunWorkflow}
+            disabled={isRunning}
+          >
+            {isRunning ? 'Running...' : 'Run Workflow'}
+          </button>
         </div>
       </header>
 
@@ -55,12 +243,27 @@ const WorkflowBuilder = () => {
         )}
         
         <div className="canvas-container">
-          <WorkflowCanvas />
+          <WorkflowCanvas issues={issues} />
         </div>
         
         {rightPanelOpen && (
           <div className="right-panel">
-            <NodeConfigPanel />
+            {selectedNodeId ? (
+              <NodeConfigPanel
+                onRetryFromNode={activeExecution ? nodeId => handleRetry(activeExecution, nodeId) : undefined}
+              />
+            ) : rightPanelView === 'history' ? (
+              <ExecutionHistory
+                runningExecutionId={runningExecutionId}
+                onPause={handlePause}
+                onResume={handleResume}
+                onStop={handleStop}
+                onRetry={handleRetry}
+                onReplay={handleReplay}
+              />
+            ) : (
+              <WorkflowSettingsPanel />
+            )}
           </div>
         )}
       </div>
@@ -14,91 +14,41 @@ import {
   setIsConnecting
 } from '../store/uiSlice'
 import WorkflowNode from './WorkflowNode'
-import type { NodeConfig, NodeType, NodeConnection } from '../workflow-engine-core'
+import { nodeRegistry, getConnectionError, getInputPorts, getOutputPorts } from '../engine/node-registry'
+import { getNodeIssues } from '../engine/validation'
+import type { ValidationIssue } from '../engine/validation'
+import type { NodeConfig, NodeConnection } from '../workflow-engine-core'
 import './WorkflowCanvas.css'
 
-const WorkflowCanvas = () => {
+// Node geometry used to place connection ends on their port handles (see WorkflowNode.css)
+const NODE_WIDTH = 200
+const NODE_CENTER_Y = 50
+const PORT_SPACING = 26
+
+const getPortAnchor = (node: NodeConfig, portName: string, side: 'input' | 'output') => {
+  const plugin = nodeRegistry.get(node.type)
+  const ports = plugin ? (side === 'input' ? getInputPorts(plugin, node) : getOutputPorts(plugin, node)) : []
+  const index = Math.max(ports.findIndex(port => port.name === portName), 0)
+  const offset = (index - (Math.max(ports.length, 1) - 1) / 2) * PORT_SPACING
+
+  return {
+    x: node.position.x + (side === 'output' ? NODE_WIDTH : 0),
+    y: node.position.y + NODE_CENTER_Y + offset,
+    labelled: ports.length > 1,
+  }
+}
+
+interface WorkflowCanvasProps {
+  issues: ValidationIssue[]
+}
+
+const WorkflowCanvas: React.FC<WorkflowCanvasProps> = ({ issues }) => {
   const dispatch = useDispatch()
   const canvasRef = useRef<HTMLDivElement>(null)
   
   const currentWorkflow = useSelector((state: RootState) => state.workflow.currentWorkflow)
   const { isDragging, dragNodeType, isConnecting, connectionStart } = useSelector((state: RootState) => state.ui)
 
-  const createNodeConfig = (type: NodeType, position: { x: number; y: number }): NodeConfig => {
-    const baseConfig = {
-      id: `node_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      name: `${type.charAt(0).toUpperCase() + type.slice(1)} Node`,
-      description: '',
-      position,
-      enabled: true,
-    }
-
-    switch (type) {
-      case 'trigger':
-        return {
-          ...baseConfig,
-          type: 'trigger',
-          triggerType: 'manual',
-        }
-      case 'action':
-        return {
-          ...baseConfig,
-          type: 'action',
-          method: 'GET',
-        }
-      case 'table':
-        return {
-          ...baseConfig,
-          type: 'table',
-          tableName: 'new_table',
-          operation: 'create',
-        }
-      case 'page':
-        return {
-          ...baseConfig,
-          type: 'page',
-          pageTitle: 'New Page',
-          template: '<div>{{data}}</div>',
-          dataSources: [],
-          routePath: '/new-page',
-        }
-      case 'email':
-        return {
-          ...baseConfig,
-          type: 'email',
-          recipients: [],
-          subject: 'New Email',
-          template: 'Hello {{name}}',
-        }
-      case 'notification':
-        return {
-          ...baseConfig,
-          type: 'notification',
-          notificationType: 'push',
-          recipients: [],
-          message: 'New notification',
-        }
-      case 'invoice':
-        return {
-          ...baseConfig,
-          type: 'invoice',
-          invoiceTemplate: 'default',
-          customerData: {},
-          lineItems: [],
-        }
-      case 'report':
-        return {
-          ...baseConfig,
-          type: 'report',
-          reportType: 'pdf',
-          template: 'default',
-          dataSource: '',
-        }
-      default:
-        throw new Error(`Unknown node type: ${type}`)
-    }
-  }
-
   const handleCanvasDrop = useCallback((e: React.DragEvent) => {
     e.preventDefault()
     
@@ -110,7 +60,7 @@ const WorkflowCanvas = () => {
       y: e.clientY - rect.top,
     }
 
-    const newNode = createNodeConfig(dragNodeType, position)
+    const newNode = nodeRegistry.createNodeConfig(dragNodeType, position)
     dispatch(addNodeToCurrentWorkflow(newNode))
     dispatch(setIsDragging(false))
     dispatch(setDragNodeType(null))
@@ -142,7 +92,7 @@ const WorkflowCanvas = () => {
   }, [dispatch])
 
   const handleConnectionEnd = useCallback((targetNodeId: string, targetInput: string) => {
-    if (!connectionStart) return
+    if (!connectionStart || !currentWorkflow) return
 
     const connection: NodeConnection = {
       id: `conn_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
@@ -152,10 +102,13 @@ const WorkflowCanvas = () => {
       targetInput,
     }
 
+    // Incompatible inputs are greyed out on the canvas; the connection stays open for another port
+    if (getConnectionError(currentWorkflow, connection)) return
+
     dispatch(addConnectionToCurrentWorkflow(connection))
     dispatch(setConnectionStart(null))
     dispatch(setIsConnecting(false))
-  }, [connectionStart, dispatch])
+  }, [connectionStart, currentWorkflow, dispatch])
 
   if (!currentWorkflow) return null
 
@@ -177,10 +130,8 @@ const WorkflowCanvas = () => {
           
           if (!sourceNode || !targetNode) return null
 
-          const sourceX = sourceNode.position.x + 100 // Half node width
-          const sourceY = sourceNode.position.y + 50  // Half node height
-          const targetX = targetNode.position.x + 100
-          const targetY = targetNode.position.y + 50
+          const { x: sourceX, y: sourceY, labelled } = getPortAnchor(sourceNode, connection.sourceOutput, 'output')
+          const { x: targetX, y: targetY } = getPortAnchor(targetNode, connection.targetInput, 'input')
 
           return (
             <g key={connection.id}>
@@ -191,6 +142,16 @@ const WorkflowCanvas = () => {
                 fill="none"
                 markerEnd="url(#arrowhead)"
               />
+              {(labelled || connection.label) && (
+                <text
+                  className="connection-label"
+                  x={(sourceX + targetX) / 2}
+                  y={(sourceY + targetY) / 2 - 6}
+                  textAnchor="middle"
+                >
+                  {connection.label || connection.sourceOutput}
+                </text>
+              )}
             </g>
           )
         })}
@@ -218,6 +179,7 @@ const WorkflowCanvas = () => {
         <WorkflowNode
           key={node.id}
           node={node}
+          issues={getNodeIssues(issues, node.id)}
           onClick={handleNodeClick}
           onDrag={handleNodeDrag}
           onConnectionStart={handleConnectionStart}
@@ -1,47 +1,30 @@
 import { useState, useRef } from 'react'
 import { useSelector } from 'react-redux'
 import type { RootState } from '../store/store'
-import type { NodeConfig } from '../workflow-engine-core'
+import { WorkflowUtils } from '../workflow-engine-core'
+import { nodeRegistry, getConnectionError, getInputPorts, getOutputPorts, getPortDataType } from '../engine/node-registry'
+import type { PortDefinition } from '../engine/node-registry'
+import { getHighestSeverity } from '../engine/validation'
+import type { ValidationIssue } from '../engine/validation'
+import type { NodeConfig, NodeTypeId, ExecutionStatus } from '../workflow-engine-core'
 import './WorkflowNode.css'
 
 interface WorkflowNodeProps {
   node: NodeConfig
+  issues: ValidationIssue[]
   onClick: (nodeId: string) => void
   onDrag: (nodeId: string, position: { x: number; y: number }) => void
   onConnectionStart: (nodeId: string, output: string) => void
   onConnectionEnd: (nodeId: string, input: string) => void
 }
 
-const getNodeIcon = (type: string): string => {
-  const icons = {
-    trigger: '⚡',
-    action: '🔧',
-    table: '🗄️',
-    page: '📄',
-    email: '✉️',
-    notification: '🔔',
-    invoice: '🧾',
-    report: '📊',
-  }
-  return icons[type as keyof typeof icons] || '❓'
-}
+const getNodeIcon = (type: NodeTypeId): string => nodeRegistry.get(type)?.icon || '❓'
 
-const getNodeColor = (type: string): string => {
-  const colors = {
-    trigger: '#10b981',
-    action: '#3b82f6',
-    table: '#8b5cf6',
-    page: '#06b6d4',
-    email: '#ef4444',
-    notification: '#f59e0b',
-    invoice: '#84cc16',
-    report: '#ec4899',
-  }
-  return colors[type as keyof typeof colors] || '#6b7280'
-}
+const getNodeColor = (type: NodeTypeId): string => nodeRegistry.get(type)?.color || '#6b7280'
 
 const WorkflowNode: React.FC<WorkflowNodeProps> = ({
   node,
+  issues,
   onClick,
   onDrag,
   onConnectionStart,
@@ -53,8 +36,44 @@ const WorkflowNode: React.FC<WorkflowNodeProps> = ({
   
   const selectedNodeId = useSelector((state: RootState) => state.ui.selectedNodeId)
   const isConnecting = useSelector((state: RootState) => state.ui.isConnecting)
+  const connectionStart = useSelector((state: RootState) => state.ui.connectionStart)
+  const currentWorkflow = useSelector((state: RootState) => state.workflow.currentWorkflow)
+  
+  const activeExecution = useSelector((state: RootState) => state.workflow.activeExecution)
+  const nodeExecution = activeExecution?.nodeExecutions.find(e => e.nodeId === node.id)
   
   const isSelected = selectedNodeId === node.id
+  const plugin = nodeRegistry.get(node.type)
+  const inputPorts = plugin ? getInputPorts(plugin, node) : []
+  const outputPorts = plugin ? getOutputPorts(plugin, node) : []
+
+  // While a connection is being drawn, inputs it cannot attach to say why
+  const getInputError = (port: PortDefinition): string | undefined => {
+    if (!isConnecting || !connectionStart || !currentWorkflow) return undefined
+    return getConnectionError(currentWorkflow, {
+      sourceNodeId: connectionStart.nodeId,
+      sourceOutput: connectionStart.output,
+      targetNodeId: node.id,
+      targetInput: port.name,
+    })
+  }
+
+  const describePort = (port: PortDefinition) =>
+    `${port.label || port.name} (${getPortDataType(port)}${port.required ? ', required' : ''})`
+
+  // Nodes the engine has not reached yet are pending while the run is in progress; nodes the
+  // fired trigger cannot reach never run and are marked as such
+  let executionStatus: ExecutionStatus | 'unreachable' | null = null
+  if (nodeExecution) {
+    executionStatus = nodeExecution.status
+  } else if (activeExecution?.unreachableNodeIds?.includes(node.id)) {
+    executionStatus = 'unreachable'
+  } else if (activeExecution?.status === 'running' && node.enabled) {
+    executionStatus = 'pending'
+  }
+  const duration = nodeExecution ? WorkflowUtils.getNodeDuration(nodeExecution) : undefined
+  // Errors and warnings outline the node; info-level issues do not
+  const severity = getHighestSeverity(issues.filter(issue => issue.severity !== 'info'))
 
   const handleMouseDown = (e: React.MouseEvent) => {
     if (e.button !== 0) return // Only left click
@@ -110,7 +129,7 @@ const WorkflowNode: React.FC<WorkflowNodeProps> = ({
   return (
     <div
       ref={nodeRef}
-      className={`workflow-node ${node.type} ${isSelected ? 'selected' : ''} ${isDragging ? 'dragging' : ''}`}
+      className={`workflow-node ${node.type} ${isSelected ? 'selected' : ''} ${isDragging ? 'dragging' : ''} ${severity ? `has-${severity}` : ''}`}
       style={{
         left: node.position.x,
         top: node.position.y,
@@ -121,15 +140,22 @@ const WorkflowNode: React.FC<WorkflowNodeProps> = ({
     >
       {/* Node inputs */}
       <div className="node-inputs">
-        {node.type !== 'trigger' && (
-          <div
-            className="node-input"
-            onClick={(e) => handleInputClick(e, 'input')}
-            title="Input"
-          >
-            <div className="connection-point input" />
-          </div>
-        )}
+        {inputPorts.map(port => {
+          const inputError = getInputError(port)
+          return (
+            <div
+              key={port.name}
+              className={`node-input ${inputError ? 'incompatible' : ''}`}
+              onClick={(e) => handleInputClick(e, port.name)}
+              title={inputError || describePort(port)}
+            >
+              <div className="connection-point input" />
+              {inputPorts.length > 1 && (
+                <span className="port-label">{port.label || port.name}</span>
+              )}
+            </div>
+          )
+        })}
       </div>
 
       {/* Node content */}
@@ -138,6 +164,14 @@ const WorkflowNode: React.FC<WorkflowNodeProps> = ({
           <span className="node-icon">{getNodeIcon(node.type)}</span>
           <span className="node-title">{node.name}</span>
           {!node.enabled && <span className="disabled-indicator">⏸️</span>}
+          {severity && (
+            <span
+              className={`issue-indicator ${severity}`}
+              title={issues.map(issue => `${issue.severity}: ${issue.message}`).join('\n')}
+            >
+              !
+            </span>
+          )}
         </div>
         
         <div className="node-type">{node.type}</div>
@@ -145,17 +179,32 @@ const WorkflowNode: React.FC<WorkflowNodeProps> = ({
         {node.description && (
           <div className="node-description">{node.description}</div>
         )}
+        
+        {executionStatus && (
+          <div className={`node-status ${executionStatus}`}>
+            <span className="node-status-badge" title={nodeExecution?.skipReason}>{executionStatus}</span>
+            {duration !== undefined && (
+              <span className="node-status-duration">{WorkflowUtils.formatDuration(duration)}</span>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Node outputs */}
       <div className="node-outputs">
-        <div
-          className="node-output"
-          onClick={(e) => handleOutputClick(e, 'output')}
-          title="Output"
-        >
-          <div className="connection-point output" />
-        </div>
+        {outputPorts.map(port => (
+          <div
+            key={port.name}
+            className="node-output"
+            onClick={(e) => handleOutputClick(e, port.name)}
+            title={describePort(port)}
+          >
+            {outputPorts.length > 1 && (
+              <span className="port-label">{port.label || port.name}</span>
+            )}
+            <div className="connection-point output" />
+          </div>
+        ))}
       </div>
 
       {/* Selection indicator */}
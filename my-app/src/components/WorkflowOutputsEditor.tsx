@@ -0,0 +1,48 @@
+import type { WorkflowOutput } from '../workflow-engine-core'
+import './ConditionsEditor.css'
+
+interface WorkflowOutputsEditorProps {
+  outputs: WorkflowOutput[]
+  onChange: (outputs: WorkflowOutput[]) => void
+}
+
+// Edits the values a workflow hands back when a sub-workflow node calls it
+const WorkflowOutputsEditor: React.FC<WorkflowOutputsEditorProps> = ({ outputs, onChange }) => {
+  const updateOutput = (index: number, output: WorkflowOutput) => {
+    onChange(outputs.map((o, i) => (i === index ? output : o)))
+  }
+
+  return (
+    <div className="condition-list">
+      {outputs.map((output, index) => (
+        <div className="condition-row" key={index}>
+          <input
+            type="text"
+            value={output.name}
+            onChange={(e) => updateOutput(index, { ...output, name: e.target.value })}
+            placeholder="customer"
+          />
+          <input
+            type="text"
+            value={output.value}
+            onChange={(e) => updateOutput(index, { ...output, value: e.target.value })}
+            placeholder={'{{ nodes["Lookup"].output.record }}'}
+          />
+          <button
+            className="icon-btn"
+            onClick={() => onChange(outputs.filter((_, i) => i !== index))}
+            title="Remove output"
+          >
+            ×
+          </button>
+        </div>
+      ))}
+
+      <button className="add-btn" onClick={() => onChange([...outputs, { name: '', value: '' }])}>
+        + Output
+      </button>
+    </div>
+  )
+}
+
+export default WorkflowOutputsEditor
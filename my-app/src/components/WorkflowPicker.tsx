@@ -0,0 +1,45 @@
+import { useSelector } from 'react-redux'
+import type { RootState } from '../store/store'
+import type { Workflow } from '../workflow-engine-core'
+import './WorkflowPicker.css'
+
+interface WorkflowPickerProps {
+  value: unknown
+  // Receives the picked workflow's ID and the names of the outputs it declares
+  onChange: (workflowId: string, outputNames: string[]) => void
+}
+
+const getOutputNames = (workflow: Workflow | undefined): string[] =>
+  (workflow?.outputs ?? []).map(output => output.name).filter(Boolean)
+
+// Lists the other workflows a sub-workflow node can call
+const WorkflowPicker: React.FC<WorkflowPickerProps> = ({ value, onChange }) => {
+  const workflows = useSelector((state: RootState) => state.workflow.workflows)
+  const currentWorkflow = useSelector((state: RootState) => state.workflow.currentWorkflow)
+  const candidates = workflows.filter(workflow => workflow.id !== currentWorkflow?.id)
+  const selected = candidates.find(workflow => workflow.id === value)
+
+  return (
+    <div className="workflow-picker">
+      <select
+        value={String(value ?? '')}
+        onChange={(e) => {
+          const workflow = candidates.find(w => w.id === e.target.value)
+          onChange(e.target.value, getOutputNames(workflow))
+        }}
+      >
+        <option value="">Select a workflow…</option>
+        {candidates.map(workflow => (
+          <option key={workflow.id} value={workflow.id}>{workflow.name}</option>
+        ))}
+      </select>
+      {selected && (
+        <button type="button" className="add-btn" onClick={() => onChange(selected.id, getOutputNames(selected))}>
+          Refresh outputs
+        </button>
+      )}
+    </div>
+  )
+}
+
+export default WorkflowPicker
@@ -0,0 +1,101 @@
+import { useState, useEffect } from 'react'
+import { useSelector, useDispatch } from 'react-redux'
+import type { RootState } from '../store/store'
+import { updateCurrentWorkflowOutputs, updateCurrentWorkflowSettings } from '../store/workflowSlice'
+import { toggleRightPanel } from '../store/uiSlice'
+import type { ConfigFieldSchema } from '../engine/node-registry'
+import type { Workflow, WorkflowOutput } from '../workflow-engine-core'
+import ConfigField from './ConfigField'
+import WorkflowOutputsEditor from './WorkflowOutputsEditor'
+import './NodeConfigPanel.css'
+
+type WorkflowSettings = Workflow['settings']
+
+const settingsSchema: ConfigFieldSchema[] = [
+  {
+    key: 'errorHandling',
+    label: 'When a Node Fails',
+    type: 'select',
+    options: [
+      { value: 'stop', label: 'Stop the workflow' },
+      { value: 'continue', label: 'Continue with other nodes' },
+      { value: 'retry', label: 'Retry, then stop the workflow' },
+    ],
+  },
+  { key: 'maxRetries', label: 'Max Retries per Node', type: 'number', placeholder: '3 in retry mode' },
+  {
+    key: 'retryBackoff',
+    label: 'Retry Backoff',
+    type: 'select',
+    options: [
+      { value: 'exponential', label: 'Exponential' },
+      { value: 'fixed', label: 'Fixed' },
+      { value: 'jitter', label: 'Exponential with jitter' },
+    ],
+  },
+  { key: 'retryDelay', label: 'Retry Delay (ms)', type: 'number', placeholder: '1000' },
+  { key: 'maxExecutionTime', label: 'Max Execution Time (ms)', type: 'number', placeholder: 'No limit' },
+  { key: 'maxConcurrency', label: 'Max Parallel Nodes', type: 'number', placeholder: '4' },
+]
+
+const WorkflowSettingsPanel = () => {
+  const dispatch = useDispatch()
+  const currentWorkflow = useSelector((state: RootState) => state.workflow.currentWorkflow)
+  
+  const [settings, setSettings] = useState<WorkflowSettings | null>(null)
+  const [outputs, setOutputs] = useState<WorkflowOutput[]>([])
+
+  useEffect(() => {
+    setSettings(currentWorkflow ? { ...currentWorkflow.settings } : null)
+    setOutputs(currentWorkflow?.outputs ?? [])
+  }, [currentWorkflow])
+
+  const handleSettingChange = (key: string, value: unknown) => {
+    if (!settings) return
+    
+    setSettings({ ...settings, [key]: value })
+  }
+
+  const handleSave = () => {
+    if (!settings) return
+    
+    dispatch(updateCurrentWorkflowSettings(settings))
+    dispatch(updateCurrentWorkflowOutputs(outputs.filter(output => output.name.trim())))
+  }
+
+  if (!settings) return null
+
+  return (
+    <div className="node-config-panel">
+      <div className="panel-header">
+        <h3>Workflow Settings</h3>
+        <button className="close-btn" onClick={() => dispatch(toggleRightPanel())}>×</button>
+      </div>
+      
+      <div className="panel-content">
+        {settingsSchema.map(field => (
+          <div className="form-group" key={field.key}>
+            <label>{field.label}</label>
+            <ConfigField
+              field={field}
+              value={settings[field.key as keyof WorkflowSettings]}
+              onChange={handleSettingChange}
+            />
+          </div>
+        ))}
+
+        <h4 className="section-title">Outputs</h4>
+        <p className="execution-empty">Values handed back to workflows that call this one as a sub-workflow.</p>
+        <WorkflowOutputsEditor outputs={outputs} onChange={setOutputs} />
+        
+        <div className="panel-actions">
+          <button className="save-btn" onClick={handleSave}>
+            Save Settings
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
+
+export default WorkflowSettingsPanel
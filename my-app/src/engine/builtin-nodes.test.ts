@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { WorkflowExecutionEngine } from '../workflow-engine-core';
+import type { NodeConfig, Workflow } from '../workflow-engine-core';
+import { NodeRegistry } from './node-registry';
+import { registerBuiltinNodes } from './builtin-nodes';
+import { MemoryTableStorage, TableDatabase } from './table-store';
+
+const registry = new NodeRegistry();
+registerBuiltinNodes(registry);
+
+const tableWorkflow = (table: object): Workflow => ({
+  id: 'wf',
+  name: 'Orders',
+  version: '1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  isActive: false,
+  nodes: [
+    { id: 'trigger', name: 'trigger', type: 'trigger', triggerType: 'manual', position: { x: 0, y: 0 }, enabled: true },
+    { id: 'orders', name: 'orders', type: 'table', tableName: 'orders', position: { x: 0, y: 0 }, enabled: true, ...table },
+  ] as NodeConfig[],
+  connections: [{ id: 'c', sourceNodeId: 'trigger', targetNodeId: 'orders', sourceOutput: 'output', targetInput: 'input' }],
+  settings: { errorHandling: 'stop' },
+});
+
+const seeded = async () => {
+  const tables = new TableDatabase(new MemoryTableStorage());
+  const rows = await tables.insert('orders', [{ status: 'open' }, { status: 'open' }, { status: 'paid' }]);
+  return { tables, rows, engine: new WorkflowExecutionEngine({ registry, tables }) };
+};
+
+describe('table nodes', () => {
+  it('fail instead of touching every row when the record ID resolves empty', async () => {
+    const { tables, engine } = await seeded();
+    const execution = await engine.executeWorkflow(
+      tableWorkflow({ operation: 'delete', recordId: '{{ trigger.orderId }}' }),
+      {}
+    );
+
+    expect(execution.status).toBe('failed');
+    expect(execution.error).toContain('resolved empty');
+    expect(await tables.select('orders')).toHaveLength(3);
+  });
+
+  it('update or delete every row only when allowed to', async () => {
+    const { tables, engine } = await seeded();
+
+    const refused = await engine.executeWorkflow(tableWorkflow({ operation: 'update', values: { status: 'void' } }), {});
+    expect(refused.status).toBe('failed');
+    expect((await tables.select('orders')).map(row => row.status)).toEqual(['open', 'open', 'paid']);
+
+    const allowed = await engine.executeWorkflow(tableWorkflow({ operation: 'update', values: { status: 'void' }, allRows: true }), {});
+    expect(allowed.status).toBe('completed');
+    expect((await tables.select('orders')).map(row => row.status)).toEqual(['void', 'void', 'void']);
+  });
+
+  it('pick rows by record ID or query', async () => {
+    const { tables, rows, engine } = await seeded();
+
+    await engine.executeWorkflow(tableWorkflow({ operation: 'delete', recordId: '{{ trigger.orderId }}' }), { orderId: rows[0].id });
+    await engine.executeWorkflow(tableWorkflow({ operation: 'delete', query: "status = 'paid'" }), {});
+    expect((await tables.select('orders')).map(row => row.id)).toEqual([rows[1].id]);
+  });
+
+  it('report update and delete without a way to choose rows', () => {
+    const validate = (table: object) =>
+      registry.get('table')!.validate!(tableWorkflow(table).nodes[1], { workflow: tableWorkflow(table), workflows: [] });
+
+    expect(validate({ operation: 'delete' }).map(issue => [issue.severity, issue.field])).toEqual([['error', 'query']]);
+    expect(validate({ operation: 'delete', allRows: true })).toEqual([]);
+  });
+});
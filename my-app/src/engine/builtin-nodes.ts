@@ -0,0 +1,1279 @@
+/**
+ * File: builtin-nodes.ts
+ *
+ * Plugin definitions for the node types that ship with the platform.
+ */
+
+import { BaseNodeProcessor, ROUTER_FALLBACK_PORT } from '../workflow-engine-core';
+import type {
+  ActionNodeConfig,
+  DataValue,
+  EmailNodeConfig,
+  InvoiceNodeConfig,
+  IteratorNodeConfig,
+  NamedEvent,
+  NodeConfig,
+  NodeData,
+  NodeExecutionContext,
+  NodeRuntime,
+  NotificationNodeConfig,
+  PageNodeConfig,
+  ReportNodeConfig,
+  RouterNodeConfig,
+  SubworkflowNodeConfig,
+  TableNodeConfig,
+  TriggerNodeConfig,
+} from '../workflow-engine-core';
+import type { NodePlugin, NodeRegistry, PortDefinition } from './node-registry';
+import { evaluateBranch, getValueAtPath } from './conditions';
+import { checkEmailList, isDynamic, isValidHttpUrl } from './validation';
+import type { NodeIssue, NodeValidationContext } from './validation';
+import { getNextFireTime, isValidTimeZone, parseCron } from './cron';
+import { createWebhookId } from './webhooks';
+import { describeCallPath, findCallPath, resolveWorkflowOutputs } from './subworkflows';
+import { ACTION_BASE_OUTPUTS, ACTION_CREDENTIAL_TYPES, HttpProcessor, getActionOutputs } from './http-action';
+import { SYSTEM_FIELDS, TABLE_COLUMN_TYPES } from './table-store';
+import type { RowSelector } from './table-store';
+import { EMAIL_OUTPUTS, EmailProcessor } from './email';
+import { parseTableQuery } from './table-query';
+import { REPORT_AGGREGATE_FUNCTIONS, REPORT_OUTPUTS, REPORT_TEMPLATES, ReportProcessor, parseReportColumns } from './reports';
+import { PageProcessor, getPageFormFields, getPageRoutes, getReservedRouteReason, normalizeRoute, parsePageTemplate } from './pages';
+import { NOTIFICATION_LEVELS, NOTIFICATION_OUTPUTS, NotificationProcessor } from './notifications';
+import { E164_PATTERN } from './notification-transport';
+import { INVOICE_LAYOUTS, INVOICE_OUTPUTS, InvoiceProcessor, getCurrencyDigits, isSupportedLocale } from './invoices';
+import { CREDENTIAL_TYPES, isSensitiveHeader } from './credentials';
+
+const defaultInputs: PortDefinition[] = [{ name: 'input', label: 'Input', dataType: 'any' }];
+const defaultOutputs: PortDefinition[] = [{ name: 'output', label: 'Output', dataType: 'object' }];
+
+// Trigger nodes pass the data that started the execution on to their dependents
+export class TriggerProcessor extends BaseNodeProcessor {
+  async execute(context: NodeExecutionContext): Promise<NodeData> {
+    this.log(context, `Workflow triggered by ${this.config.name}`);
+    return { output: { ...context.inputData } };
+  }
+}
+
+// Routers forward their input on the ports of the branches whose conditions match
+export class RouterProcessor extends BaseNodeProcessor {
+  async execute(context: NodeExecutionContext): Promise<NodeData> {
+    const config = this.config as RouterNodeConfig;
+    const matched: string[] = [];
+
+    for (const branch of config.branches) {
+      if (evaluateBranch(branch, context.inputData)) {
+        matched.push(branch.port);
+        if (config.routingMode === 'first') break;
+      }
+    }
+
+    context.activeOutputs = matched.length > 0 ? matched : [ROUTER_FALLBACK_PORT];
+    this.log(context, `Routing to ${context.activeOutputs.join(', ')}`);
+
+    return Object.fromEntries(context.activeOutputs.map(port => [port, context.inputData.input]));
+  }
+}
+
+// Iterators resolve the array to loop over; the engine then runs the loop body per item
+export class IteratorProcessor extends BaseNodeProcessor {
+  async execute(context: NodeExecutionContext): Promise<NodeData> {
+    const config = this.config as IteratorNodeConfig;
+    const items = getValueAtPath(context.inputData, config.itemsPath);
+
+    if (!Array.isArray(items)) {
+      throw new Error(`Expected an array at '${config.itemsPath}', got ${items === null ? 'null' : typeof items}`);
+    }
+
+    this.log(context, `Iterating over ${items.length} items`);
+    return { items, count: items.length };
+  }
+}
+
+export class CollectorProcessor extends BaseNodeProcessor {
+  async execute(context: NodeExecutionContext): Promise<NodeData> {
+    const items = (context.inputData.items as DataValue[] | undefined) ?? [];
+    this.log(context, `Collected ${items.length} results`);
+    return { items, count: items.length };
+  }
+}
+
+// Sub-workflow nodes run another workflow as a child execution and return its declared outputs
+export class SubworkflowProcessor extends BaseNodeProcessor {
+  async execute(context: NodeExecutionContext, _signal?: AbortSignal, runtime?: NodeRuntime): Promise<NodeData> {
+    const config = this.config as SubworkflowNodeConfig;
+    if (!runtime) throw new Error('Sub-workflows can only run inside the workflow engine');
+
+    const input = context.inputData.input;
+    const triggerData = config.inputs ?? (input && typeof input === 'object' && !Array.isArray(input) ? (input as NodeData) : { input });
+    const { workflow, execution } = await runtime.runChildWorkflow(config.workflowId, triggerData);
+
+    if (execution.status !== 'completed') {
+      throw new Error(`Sub-workflow ${workflow.name} ${execution.status}${execution.error ? `: ${execution.error}` : ''}`);
+    }
+    this.log(context, `Sub-workflow ${workflow.name} completed`);
+    return resolveWorkflowOutputs(workflow, execution);
+  }
+}
+
+// Create and update write the configured values, or the node's input when none are set
+const getTableValues = (config: TableNodeConfig, context: NodeExecutionContext): DataValue =>
+  config.values ?? context.inputData.input;
+
+const isRecord = (value: DataValue): value is NodeData =>
+  value !== null && typeof value === 'object' && !Array.isArray(value);
+
+// The rows a read, update or delete touches. The record ID is deferred so one that renders empty
+// fails the node rather than widening to the query or the whole table, which takes the allRows opt-in.
+const getRowSelector = (config: TableNodeConfig, runtime: NodeRuntime): RowSelector => {
+  if (config.recordId !== undefined) {
+    const recordId = runtime.renderTemplate(String(config.recordId)).trim();
+    if (!recordId) throw new Error(`The record ID ${config.recordId} resolved empty, so no row can be chosen`);
+    return { id: recordId };
+  }
+  if (config.query?.trim()) return { query: config.query };
+  if (!config.allRows) {
+    throw new Error(`Set a record ID or query to choose the rows to ${config.operation}, or allow it to affect every row`);
+  }
+  return {};
+};
+
+// Table nodes read and write the engine's data store; see getTableOutputs for what each operation yields
+export class TableProcessor extends BaseNodeProcessor {
+  async execute(context: NodeExecutionContext, _signal?: AbortSignal, runtime?: NodeRuntime): Promise<NodeData> {
+    const config = this.config as TableNodeConfig;
+    if (!runtime) throw new Error('Table nodes can only run inside the workflow engine');
+    const { tables } = runtime;
+
+    switch (config.operation) {
+      case 'create': {
+        const values = getTableValues(config, context);
+        const records = Array.isArray(values) ? values : [values];
+        if (!records.every(isRecord)) throw new Error('Records to create must be objects');
+        const rows = await tables.insert(config.tableName, records, config.schema);
+        this.log(context, `Inserted ${rows.length} row(s) into ${config.tableName}`);
+        return { record: rows[0] ?? null, insertedId: rows[0]?.id ?? null, insertedIds: rows.map(row => row.id), affected: rows.length };
+      }
+      case 'read': {
+        if (config.recordId === undefined) throw new Error('A record ID is required to read a row');
+        const selector = getRowSelector(config, runtime);
+        const [record] = await tables.select(config.tableName, selector);
+        this.log(context, record ? `Read row ${record.id} from ${config.tableName}` : `No row ${selector.id} in ${config.tableName}`);
+        return { record: record ?? null, found: !!record };
+      }
+      case 'update': {
+        const changes = getTableValues(config, context);
+        if (!isRecord(changes)) throw new Error('Fields to update must be an object');
+        const rows = await tables.update(config.tableName, getRowSelector(config, runtime), changes, config.schema);
+        this.log(context, `Updated ${rows.length} row(s) in ${config.tableName}`);
+        return { rows, affected: rows.length };
+      }
+      case 'delete': {
+        const rows = await tables.remove(config.tableName, getRowSelector(config, runtime));
+        this.log(context, `Deleted ${rows.length} row(s) from ${config.tableName}`);
+        return { rows, affected: rows.length };
+      }
+      case 'query': {
+        const rows = await tables.select(config.tableName, { query: config.query || undefined });
+        this.log(context, `Query matched ${rows.length} row(s) in ${config.tableName}`);
+        return { rows, count: rows.length };
+      }
+    }
+  }
+}
+
+// A router forwards its input unchanged, so each branch carries whatever came in
+const getRouterOutputs = (config: NodeConfig): PortDefinition[] => [
+  ...(config as RouterNodeConfig).branches.map(branch => ({ name: branch.port, dataType: 'any' as const })),
+  { name: ROUTER_FALLBACK_PORT, label: 'Else', dataType: 'any' },
+];
+
+const getSubworkflowOutputs = (config: NodeConfig): PortDefinition[] =>
+  ((config as SubworkflowNodeConfig).outputNames ?? []).map(name => ({ name, dataType: 'any' as const }));
+
+const TABLE_EVENT_SUFFIXES: Partial<Record<TableNodeConfig['operation'], string>> = {
+  create: 'created',
+  update: 'updated',
+  delete: 'deleted',
+};
+
+// Writes announce 'table.<tableName>.created', '.updated' or '.deleted' so other workflows can react
+const getTableEvents = (config: NodeConfig, output: NodeData): NamedEvent[] => {
+  const { tableName, operation } = config as TableNodeConfig;
+  const suffix = TABLE_EVENT_SUFFIXES[operation];
+  if (!suffix || !tableName) return [];
+  return [{ name: `table.${tableName}.${suffix}`, payload: { table: tableName, ...output } }];
+};
+
+// What a table node yields depends on the operation it performs
+const getTableOutputs = (config: NodeConfig): PortDefinition[] => {
+  switch ((config as TableNodeConfig).operation) {
+    case 'create':
+      return [
+        { name: 'record', label: 'Record', dataType: 'object' },
+        { name: 'insertedId', label: 'Inserted ID', dataType: 'string' },
+        { name: 'insertedIds', label: 'Inserted IDs', dataType: 'array' },
+        { name: 'affected', label: 'Affected', dataType: 'number' },
+      ];
+    case 'read':
+      return [
+        { name: 'record', label: 'Record', dataType: 'object' },
+        { name: 'found', label: 'Found', dataType: 'boolean' },
+      ];
+    case 'update':
+    case 'delete':
+      return [
+        { name: 'rows', label: 'Rows', dataType: 'array' },
+        { name: 'affected', label: 'Affected', dataType: 'number' },
+      ];
+    default:
+      return [
+        { name: 'rows', label: 'Rows', dataType: 'array' },
+        { name: 'count', label: 'Count', dataType: 'number' },
+      ];
+  }
+};
+
+// Each webhook ID routes to exactly one trigger across all workflows
+const validateWebhookTrigger = (trigger: TriggerNodeConfig, context: NodeValidationContext): NodeIssue[] => {
+  if (!trigger.webhookId) {
+    return [{ severity: 'error', field: 'webhookId', message: 'Generate a URL for this webhook' }];
+  }
+  const others = [context.workflow, ...context.workflows.filter(w => w.id !== context.workflow.id)];
+  const clash = others.find(workflow =>
+    workflow.nodes.some(
+      node =>
+        node.id !== trigger.id &&
+        node.type === 'trigger' &&
+        (node as TriggerNodeConfig).triggerType === 'webhook' &&
+        (node as TriggerNodeConfig).webhookId === trigger.webhookId
+    )
+  );
+  return clash
+    ? [{ severity: 'error', field: 'webhookId', message: `Workflow '${clash.name}' already uses this webhook URL` }]
+    : [];
+};
+
+const validateEventTrigger = (trigger: TriggerNodeConfig): NodeIssue[] => {
+  const issues: NodeIssue[] = [];
+  if (trigger.eventSource && trigger.eventSource.trim().split('.').some(segment => !segment)) {
+    issues.push({ severity: 'error', field: 'eventSource', message: `'${trigger.eventSource}' has an empty name segment` });
+  }
+  if (trigger.eventFilter?.some(condition => !condition.field.trim())) {
+    issues.push({ severity: 'warning', field: 'eventFilter', message: 'Conditions without a field are ignored' });
+  }
+  return issues;
+};
+
+const validateTrigger = (config: NodeConfig, context: NodeValidationContext): NodeIssue[] => {
+  const trigger = config as TriggerNodeConfig;
+  if (trigger.triggerType === 'webhook') return validateWebhookTrigger(trigger, context);
+  if (trigger.triggerType === 'event') return validateEventTrigger(trigger);
+  if (trigger.triggerType !== 'schedule') return [];
+  if (trigger.timeZone && !isValidTimeZone(trigger.timeZone)) {
+    return [{ severity: 'error', field: 'timeZone', message: `Unknown time zone '${trigger.timeZone}'` }];
+  }
+  if (!trigger.schedule) return [];
+
+  try {
+    const schedule = parseCron(trigger.schedule, trigger.timeZone || undefined);
+    if (!getNextFireTime(schedule, new Date())) {
+      return [{ severity: 'warning', field: 'schedule', message: 'This schedule never fires' }];
+    }
+  } catch (error) {
+    return [{ severity: 'error', field: 'schedule', message: error instanceof Error ? error.message : String(error) }];
+  }
+  return [];
+};
+
+const validateAction = (config: NodeConfig): NodeIssue[] => {
+  const action = config as ActionNodeConfig;
+  const issues: NodeIssue[] = [];
+  if (action.apiEndpoint && !isDynamic(action.apiEndpoint) && !isValidHttpUrl(action.apiEndpoint)) {
+    issues.push({ severity: 'error', field: 'apiEndpoint', message: `'${action.apiEndpoint}' is not a valid http(s) URL` });
+  }
+
+  if (action.authType === 'bearer' && !action.authToken) {
+    issues.push({ severity: 'error', field: 'authToken', message: 'Bearer auth needs a token' });
+  } else if (action.authType === 'basic' && !action.authUsername) {
+    issues.push({ severity: 'error', field: 'authUsername', message: 'Basic auth needs a username' });
+  } else if (action.authType === 'apiKey' && !action.apiKeyName) {
+    issues.push({ severity: 'error', field: 'apiKeyName', message: 'Name the header or query parameter that carries the key' });
+  } else if (action.authType === 'credential' && !action.credentialId) {
+    issues.push({ severity: 'error', field: 'credentialId', message: 'Choose the credential to authenticate with' });
+  }
+
+  const secretHeaders = Object.entries(action.headers ?? {})
+    .filter(([name, value]) => isSensitiveHeader(name) && value && !isDynamic(value))
+    .map(([name]) => name);
+  if (secretHeaders.length > 0) {
+    issues.push({
+      severity: 'warning',
+      field: 'headers',
+      message: `Header ${secretHeaders.join(', ')} holds a secret as plain text; authenticate with a stored credential instead`,
+    });
+  }
+
+  const method = action.method ?? 'GET';
+  const hasBody = action.bodyType === 'raw' ? !!action.rawBody : action.payload !== undefined;
+  if ((method === 'GET' || method === 'HEAD') && hasBody) {
+    issues.push({ severity: 'warning', field: 'bodyType', message: `${method} requests are sent without a body` });
+  }
+
+  const mappedPorts = Object.keys(action.responseMapping ?? {});
+  const reserved = mappedPorts.filter(port => ACTION_BASE_OUTPUTS.some(base => base.name === port));
+  if (reserved.length > 0) {
+    issues.push({ severity: 'warning', field: 'responseMapping', message: `Ports ${reserved.join(', ')} are built in and cannot be mapped` });
+  }
+  if (mappedPorts.length > 0 && (action.responseType === 'text' || action.responseType === 'binary' || method === 'HEAD')) {
+    issues.push({ severity: 'warning', field: 'responseMapping', message: 'Mappings only read fields of JSON responses' });
+  }
+  return issues;
+};
+
+const validateRouter = (config: NodeConfig): NodeIssue[] => {
+  const { branches } = config as RouterNodeConfig;
+  const issues: NodeIssue[] = [];
+  if (branches.length === 0) {
+    issues.push({ severity: 'warning', field: 'branches', message: `Without branches every input goes to '${ROUTER_FALLBACK_PORT}'` });
+  }
+
+  const seen = new Set<string>();
+  for (const branch of branches) {
+    if (!branch.port.trim()) {
+      issues.push({ severity: 'error', field: 'branches', message: 'Every branch needs a port name' });
+    } else if (branch.port === ROUTER_FALLBACK_PORT) {
+      issues.push({ severity: 'error', field: 'branches', message: `'${ROUTER_FALLBACK_PORT}' is reserved for the fallback port` });
+    } else if (seen.has(branch.port)) {
+      issues.push({ severity: 'error', field: 'branches', message: `Port '${branch.port}' is used by more than one branch` });
+    }
+    if (branch.conditions.length === 0) {
+      issues.push({ severity: 'warning', field: 'branches', message: `Branch '${branch.port}' has no conditions and always matches` });
+    }
+    seen.add(branch.port);
+  }
+  return issues;
+};
+
+const validateIterator = (config: NodeConfig): NodeIssue[] => {
+  const { batchSize, concurrency } = config as IteratorNodeConfig;
+  const issues: NodeIssue[] = [];
+  if (batchSize !== undefined && batchSize < 1) {
+    issues.push({ severity: 'error', field: 'batchSize', message: 'Batch size must be at least 1' });
+  }
+  if (concurrency !== undefined && concurrency < 1) {
+    issues.push({ severity: 'error', field: 'concurrency', message: 'Parallel iterations must be at least 1' });
+  }
+  return issues;
+};
+
+const validateSubworkflow = (config: NodeConfig, context: NodeValidationContext): NodeIssue[] => {
+  const { workflowId, outputNames = [] } = config as SubworkflowNodeConfig;
+  if (!workflowId || isDynamic(workflowId)) return [];
+
+  // The workflow being edited replaces its saved copy
+  const workflows = [context.workflow, ...context.workflows.filter(w => w.id !== context.workflow.id)];
+  const child = workflows.find(workflow => workflow.id === workflowId);
+  if (!child) {
+    return [{ severity: 'error', field: 'workflowId', message: `Workflow ${workflowId} does not exist` }];
+  }
+  if (child.id === context.workflow.id) {
+    return [{ severity: 'error', field: 'workflowId', message: 'A workflow cannot call itself' }];
+  }
+
+  const issues: NodeIssue[] = [];
+  const cycle = findCallPath(workflows, child.id, context.workflow.id);
+  if (cycle) {
+    issues.push({
+      severity: 'error',
+      field: 'workflowId',
+      message: `${child.name} calls back into this workflow: ${describeCallPath(workflows, [context.workflow.id, ...cycle])}`,
+    });
+  }
+  if (!child.nodes.some(node => node.type === 'trigger' && node.enabled)) {
+    issues.push({ severity: 'error', field: 'workflowId', message: `${child.name} has no enabled trigger to start from` });
+  }
+
+  const declared = (child.outputs ?? []).map(output => output.name).filter(Boolean);
+  if (declared.length === 0) {
+    issues.push({ severity: 'info', field: 'workflowId', message: `${child.name} declares no outputs` });
+  } else if (declared.join('\u0000') !== outputNames.join('\u0000')) {
+    issues.push({ severity: 'warning', field: 'workflowId', message: `Outputs are out of date; ${child.name} declares ${declared.join(', ')}` });
+  }
+  return issues;
+};
+
+const validateTable = (config: NodeConfig): NodeIssue[] => {
+  const { tableName, operation, schema, query, recordId, allRows, values } = config as TableNodeConfig;
+  const issues: NodeIssue[] = [];
+
+  if (tableName && !isDynamic(tableName) && !/^[A-Za-z_][A-Za-z0-9_]*$/.test(tableName)) {
+    issues.push({ severity: 'warning', field: 'tableName', message: 'Table names should use only letters, digits and underscores' });
+  }
+
+  for (const [column, type] of Object.entries(schema ?? {})) {
+    if (SYSTEM_FIELDS.includes(column)) {
+      issues.push({ severity: 'error', field: 'schema', message: `'${column}' is set by the table and cannot be a column` });
+    } else if (!TABLE_COLUMN_TYPES.includes(type)) {
+      issues.push({ severity: 'error', field: 'schema', message: `Column '${column}' has unknown type '${type}'; use ${TABLE_COLUMN_TYPES.join(', ')}` });
+    }
+  }
+
+  if (query && !isDynamic(query)) {
+    try {
+      parseTableQuery(query);
+    } catch (error) {
+      issues.push({ severity: 'error', field: 'query', message: (error as Error).message });
+    }
+  }
+
+  if (operation === 'read' && !recordId) {
+    issues.push({ severity: 'error', field: 'recordId', message: 'Set the ID of the row to read' });
+  }
+  if ((operation === 'update' || operation === 'delete') && !recordId && !query && !allRows) {
+    issues.push({
+      severity: 'error',
+      field: 'query',
+      message: `Set a record ID or query, or turn on Affect Every Row to ${operation} the whole table`,
+    });
+  }
+  if ((operation === 'create' || operation === 'update') && values !== undefined && !isDynamic(values)) {
+    const records = operation === 'create' && Array.isArray(values) ? values : [values];
+    if (!records.every(isRecord)) {
+      issues.push({ severity: 'error', field: 'values', message: operation === 'create' ? 'Values must be an object or a list of objects' : 'Values must be an object' });
+    }
+  }
+  return issues;
+};
+
+// Templates are checked for their blocks; the values in them are only known on the page
+const checkPageTemplate = (template: string | undefined, field: string): NodeIssue[] => {
+  try {
+    parsePageTemplate(template ?? '');
+    return [];
+  } catch (error) {
+    return [{ severity: 'error', field, message: error instanceof Error ? error.message : String(error) }];
+  }
+};
+
+const validatePage = (config: NodeConfig, context: NodeValidationContext): NodeIssue[] => {
+  const page = config as PageNodeConfig;
+  const { workflow, workflows } = context;
+  const issues: NodeIssue[] = [];
+
+  if (!page.routePath?.trim()) {
+    issues.push({ severity: 'error', field: 'routePath', message: 'Route path is required' });
+  } else if (!page.routePath.startsWith('/') || /\s/.test(page.routePath)) {
+    issues.push({ severity: 'error', field: 'routePath', message: 'Route path must start with / and contain no spaces' });
+  } else {
+    const routes = getPageRoutes(page);
+    for (const route of routes) {
+      const reserved = getReservedRouteReason(route);
+      if (reserved) issues.push({ severity: 'error', field: 'routePath', message: reserved });
+    }
+
+    // A clash counts wherever it is, as the other workflow may be activated later
+    const own = routes.map(normalizeRoute);
+    const others = [workflow, ...workflows.filter(other => other.id !== workflow.id)];
+    for (const other of others) {
+      const clash = other.nodes.find(
+        node =>
+          node.type === 'page' &&
+          node.enabled &&
+          node.id !== page.id &&
+          !!(node as PageNodeConfig).routePath?.trim() &&
+          getPageRoutes(node as PageNodeConfig).some(route => own.includes(normalizeRoute(route)))
+      );
+      if (clash) {
+        const where = other.id === workflow.id ? '' : ` in workflow '${other.name}'`;
+        issues.push({ severity: 'error', field: 'routePath', message: `Route ${page.routePath} is also used by ${clash.name}${where}` });
+      }
+    }
+  }
+
+  for (const sourceId of page.dataSources ?? []) {
+    const source = workflow.nodes.find(node => node.id === sourceId);
+    if (!source) {
+      issues.push({ severity: 'error', field: 'dataSources', message: `Data source '${sourceId}' does not exist` });
+    } else if (source.type !== 'table') {
+      issues.push({ severity: 'warning', field: 'dataSources', message: `Data source ${source.name} is not a table node` });
+    } else if (isDynamic((source as TableNodeConfig).tableName)) {
+      issues.push({ severity: 'error', field: 'dataSources', message: `The table of ${source.name} is only known when it runs` });
+    }
+  }
+  if (page.detailTemplate?.trim() && !page.dataSources?.length) {
+    issues.push({ severity: 'warning', field: 'detailTemplate', message: 'The detail view shows rows of the first data source; add one' });
+  }
+  issues.push(...checkPageTemplate(page.template, 'template'), ...checkPageTemplate(page.detailTemplate, 'detailTemplate'));
+
+  if (page.formTable) {
+    const table = workflow.nodes.find(node => node.id === page.formTable);
+    if (table?.type !== 'table') {
+      issues.push({ severity: 'error', field: 'formTable', message: 'The form table must be a table node of this workflow' });
+    } else {
+      const schema = (table as TableNodeConfig).schema;
+      const fields = getPageFormFields(workflow, page);
+      if (fields.length === 0) {
+        issues.push({ severity: 'error', field: 'formFields', message: `List the form fields, or give ${table.name} a schema` });
+      }
+      const unknown = schema ? fields.filter(field => !schema[field.name] && !SYSTEM_FIELDS.includes(field.name)) : [];
+      if (unknown.length > 0) {
+        issues.push({
+          severity: 'error',
+          field: 'formFields',
+          message: `Not columns of ${table.name}: ${unknown.map(field => field.name).join(', ')}`,
+        });
+      }
+      const system = fields.filter(field => SYSTEM_FIELDS.includes(field.name));
+      if (system.length > 0) {
+        issues.push({ severity: 'error', field: 'formFields', message: `Set by the database: ${system.map(field => field.name).join(', ')}` });
+      }
+    }
+  }
+  return issues;
+};
+
+const validateEmail = (config: NodeConfig): NodeIssue[] => {
+  const email = config as EmailNodeConfig;
+  const issues = [
+    ...checkEmailList('recipients', email.recipients),
+    ...checkEmailList('cc', email.cc),
+    ...checkEmailList('bcc', email.bcc),
+    ...checkEmailList('replyTo', email.replyTo ? [email.replyTo] : []),
+    ...checkEmailList('from', email.from ? [email.from] : []),
+  ];
+  if (!email.subject?.trim()) {
+    issues.push({ severity: 'warning', field: 'subject', message: 'Subject is empty' });
+  }
+  return issues;
+};
+
+// Slack and Discord recipients are webhook URLs; SMS recipients are phone numbers
+const validateNotification = (config: NodeConfig): NodeIssue[] => {
+  const notification = config as NotificationNodeConfig;
+  const issues: NodeIssue[] = [];
+  const recipients = (notification.recipients ?? []).map(recipient => String(recipient).trim()).filter(Boolean);
+  for (const recipient of recipients.filter(recipient => !isDynamic(recipient))) {
+    if (['slack', 'discord'].includes(notification.notificationType) && !isValidHttpUrl(recipient)) {
+      issues.push({ severity: 'error', field: 'recipients', message: `${recipient} is not a webhook URL` });
+    } else if (notification.notificationType === 'sms' && !E164_PATTERN.test(recipient)) {
+      issues.push({
+        severity: 'error',
+        field: 'recipients',
+        message: `${recipient} is not a phone number in international format (+15551234567)`,
+      });
+    }
+  }
+  if (!notification.message?.trim()) {
+    issues.push({ severity: 'warning', field: 'message', message: 'Message is empty' });
+  }
+  if (notification.fields !== undefined && (typeof notification.fields !== 'object' || Array.isArray(notification.fields))) {
+    issues.push({ severity: 'error', field: 'fields', message: 'Fields must be an object of labels and values' });
+  }
+  const { channel } = notification;
+  if (notification.notificationType === 'discord' && channel && !isDynamic(channel) && !/^\d+$/.test(channel)) {
+    issues.push({ severity: 'error', field: 'channel', message: 'Discord expects the numeric ID of a thread' });
+  }
+  return issues;
+};
+
+// Values that are expressions are only known once the node runs
+const checkPercentage = (value: DataValue | undefined, field: string, message: string): NodeIssue[] =>
+  value === undefined || value === null || value === '' || isDynamic(value) || (Number(value) >= 0 && Number(value) <= 100)
+    ? []
+    : [{ severity: 'error', field, message }];
+
+const validateInvoice = (config: NodeConfig): NodeIssue[] => {
+  const invoice = config as InvoiceNodeConfig;
+  const issues: NodeIssue[] = [];
+
+  const currency = invoice.currency?.trim();
+  if (currency && !isDynamic(currency)) {
+    if (!/^[A-Za-z]{3}$/.test(currency)) {
+      issues.push({ severity: 'error', field: 'currency', message: 'Currency must be a three-letter ISO 4217 code' });
+    } else {
+      try {
+        getCurrencyDigits(currency.toUpperCase());
+      } catch {
+        issues.push({ severity: 'error', field: 'currency', message: `Unknown currency '${currency}'` });
+      }
+    }
+  }
+  const locale = invoice.locale?.trim();
+  if (locale && !isDynamic(locale) && !isSupportedLocale(locale)) {
+    issues.push({ severity: 'error', field: 'locale', message: `Unsupported locale '${locale}'` });
+  }
+
+  const { lineItems } = invoice;
+  if (typeof lineItems === 'string') {
+    if (!isDynamic(lineItems)) {
+      issues.push({ severity: 'error', field: 'lineItems', message: 'Line items must be a list or an expression yielding one' });
+    }
+  } else if (!lineItems || lineItems.length === 0) {
+    issues.push({ severity: 'warning', field: 'lineItems', message: 'Invoice has no line items' });
+  } else {
+    lineItems.forEach((item, index) => {
+      const line = `Line ${index + 1}`;
+      if (!isDynamic(item.quantity) && !(Number(item.quantity) > 0)) {
+        issues.push({ severity: 'error', field: 'lineItems', message: `${line} needs a positive quantity` });
+      }
+      if (!isDynamic(item.unitPrice) && !(Number(item.unitPrice) >= 0)) {
+        issues.push({ severity: 'error', field: 'lineItems', message: `${line} needs a non-negative unit price` });
+      }
+      issues.push(
+        ...checkPercentage(item.taxRate, 'lineItems', `${line}: tax rate must be from 0 to 100`),
+        ...checkPercentage(item.discount, 'lineItems', `${line}: discount must be from 0 to 100`)
+      );
+    });
+  }
+
+  if (invoice.discountType === 'percent') {
+    issues.push(...checkPercentage(invoice.discountValue, 'discountValue', 'Discount must be a percentage from 0 to 100'));
+  } else if (invoice.discountType === 'amount' && !isDynamic(invoice.discountValue) && !(Number(invoice.discountValue) >= 0)) {
+    issues.push({ severity: 'error', field: 'discountValue', message: 'Discount must be a non-negative amount' });
+  }
+  if (invoice.dueInDays !== undefined && !isDynamic(invoice.dueInDays) && !(Number(invoice.dueInDays) >= 0)) {
+    issues.push({ severity: 'error', field: 'dueInDays', message: 'Due in days cannot be negative' });
+  }
+  return issues;
+};
+
+const validateReport = (config: NodeConfig, context: NodeValidationContext): NodeIssue[] => {
+  const report = config as ReportNodeConfig;
+  const issues = checkEmailList('emailRecipients', report.emailRecipients);
+
+  if (!report.dataSource) {
+    issues.push({ severity: 'info', field: 'dataSource', message: 'No data source; rows come from the upstream node' });
+  } else if (!isDynamic(report.dataSource)) {
+    const source = context.workflow.nodes.find(node => node.id === report.dataSource);
+    if (!source) {
+      issues.push({ severity: 'error', field: 'dataSource', message: `Data source '${report.dataSource}' does not exist` });
+    } else if (source.type !== 'table') {
+      issues.push({ severity: 'warning', field: 'dataSource', message: `Data source ${source.name} is not a table node` });
+    } else if (isDynamic((source as TableNodeConfig).tableName)) {
+      issues.push({ severity: 'error', field: 'dataSource', message: `The table of ${source.name} is an expression; connect its rows instead` });
+    }
+  }
+
+  if (report.query?.trim() && !isDynamic(report.query)) {
+    try {
+      parseTableQuery(report.query);
+    } catch (error) {
+      issues.push({ severity: 'error', field: 'query', message: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  (report.aggregates ?? []).forEach((aggregate, index) => {
+    if (aggregate.function !== 'count' && !aggregate.field?.trim()) {
+      issues.push({ severity: 'error', field: 'aggregates', message: `Aggregate ${index + 1} needs a field` });
+    }
+  });
+  if (report.template === 'summary' && !report.groupBy?.trim() && !report.aggregates?.length) {
+    issues.push({ severity: 'info', field: 'template', message: 'Without a group or aggregates the summary only counts rows' });
+  }
+  if (report.template !== 'summary' && report.groupBy?.trim() && report.columns?.length) {
+    const fields = parseReportColumns(report.columns).map(column => column.field);
+    if (!fields.includes(report.groupBy.trim())) {
+      issues.push({ severity: 'info', field: 'groupBy', message: `Rows are grouped by ${report.groupBy}, which is not one of the columns` });
+    }
+  }
+  return issues;
+};
+
+export const builtinNodePlugins: NodePlugin[] = [
+  {
+    type: 'trigger',
+    name: 'Trigger',
+    icon: '⚡',
+    color: '#10b981',
+    description: 'Start workflow execution',
+    inputs: [],
+    outputs: defaultOutputs,
+    configSchema: [
+      {
+        key: 'triggerType',
+        label: 'Trigger Type',
+        type: 'select',
+        options: [
+          { value: 'manual', label: 'Manual' },
+          { value: 'webhook', label: 'Webhook' },
+          { value: 'schedule', label: 'Schedule' },
+          { value: 'event', label: 'Event' },
+        ],
+      },
+      {
+        key: 'schedule',
+        label: 'Schedule (Cron)',
+        type: 'cron',
+        placeholder: '0 0 * * *',
+        required: true,
+        visibleWhen: { field: 'triggerType', equals: ['schedule'] },
+      },
+      {
+        key: 'timeZone',
+        label: 'Time Zone',
+        type: 'text',
+        placeholder: 'Local time zone, e.g. Europe/Paris',
+        visibleWhen: { field: 'triggerType', equals: ['schedule'] },
+      },
+      {
+        key: 'webhookId',
+        label: 'Webhook URL',
+        type: 'webhook',
+        visibleWhen: { field: 'triggerType', equals: ['webhook'] },
+      },
+      {
+        key: 'webhookSecret',
+        label: 'HMAC Secret',
+        type: 'text',
+        secret: true,
+        placeholder: 'Leave empty to accept unsigned requests',
+        visibleWhen: { field: 'triggerType', equals: ['webhook'] },
+      },
+      {
+        key: 'webhookResponseMode',
+        label: 'Response',
+        type: 'select',
+        options: [
+          { value: 'executionId', label: 'Execution ID, right away' },
+          { value: 'sync', label: 'Configured response, once the run ends' },
+        ],
+        visibleWhen: { field: 'triggerType', equals: ['webhook'] },
+      },
+      {
+        key: 'webhookResponseStatus',
+        label: 'Sync Response Status',
+        type: 'number',
+        placeholder: '200',
+        visibleWhen: { field: 'webhookResponseMode', equals: ['sync'] },
+      },
+      {
+        key: 'webhookResponseBody',
+        label: 'Sync Response Body',
+        type: 'textarea',
+        placeholder: '{"orderId": "{{ trigger.body.orderId }}"}',
+        deferred: true,
+        visibleWhen: { field: 'webhookResponseMode', equals: ['sync'] },
+      },
+      {
+        key: 'eventSource',
+        label: 'Event Name',
+        type: 'text',
+        placeholder: 'table.orders.created',
+        required: true,
+        visibleWhen: { field: 'triggerType', equals: ['event'] },
+      },
+      {
+        key: 'eventFilter',
+        label: 'Only When Payload Matches',
+        type: 'conditions',
+        placeholder: 'record.status',
+        visibleWhen: { field: 'triggerType', equals: ['event'] },
+      },
+    ],
+    createDefaults: () => ({ triggerType: 'manual', webhookId: createWebhookId(), webhookResponseMode: 'executionId' }),
+    validate: validateTrigger,
+    createProcessor: config => new TriggerProcessor(config),
+  },
+  {
+    type: 'action',
+    name: 'Action',
+    icon: '🔧',
+    color: '#3b82f6',
+    description: 'Perform API calls and operations',
+    inputs: defaultInputs,
+    outputs: getActionOutputs,
+    configSchema: [
+      { key: 'apiEndpoint', label: 'API Endpoint', type: 'text', placeholder: 'https://api.example.com/endpoint', required: true },
+      {
+        key: 'method',
+        label: 'HTTP Method',
+        type: 'select',
+        options: ['GET', 'POST', 'PUT', 'PATCH', 'DELETE', 'HEAD'].map(method => ({ value: method, label: method })),
+      },
+      { key: 'queryParams', label: 'Query Parameters', type: 'json', placeholder: '{"page": 1}', rows: 2 },
+      { key: 'headers', label: 'Headers', type: 'json', placeholder: '{"Accept": "application/json"}', rows: 2 },
+      {
+        key: 'bodyType',
+        label: 'Body',
+        type: 'select',
+        options: [
+          { value: 'json', label: 'JSON' },
+          { value: 'form', label: 'Form fields' },
+          { value: 'raw', label: 'Raw text' },
+        ],
+      },
+      {
+        key: 'payload',
+        label: 'Body Fields',
+        type: 'json',
+        placeholder: '{"name": "{{ input.input.name }}"}',
+        visibleWhen: { field: 'bodyType', equals: ['json', 'form'] },
+      },
+      { key: 'rawBody', label: 'Raw Body', type: 'textarea', visibleWhen: { field: 'bodyType', equals: ['raw'] } },
+      {
+        key: 'authType',
+        label: 'Authentication',
+        type: 'select',
+        options: [
+          { value: 'none', label: 'None' },
+          { value: 'bearer', label: 'Bearer token' },
+          { value: 'basic', label: 'Basic (username and password)' },
+          { value: 'apiKey', label: 'API key' },
+          { value: 'credential', label: 'Stored credential' },
+        ],
+      },
+      {
+        key: 'credentialId',
+        label: 'Credential',
+        type: 'credential',
+        options: ACTION_CREDENTIAL_TYPES.map(type => ({ value: type, label: CREDENTIAL_TYPES[type].label })),
+        visibleWhen: { field: 'authType', equals: ['credential'] },
+      },
+      { key: 'authToken', label: 'Token', type: 'text', secret: true, visibleWhen: { field: 'authType', equals: ['bearer'] } },
+      { key: 'authUsername', label: 'Username', type: 'text', visibleWhen: { field: 'authType', equals: ['basic'] } },
+      { key: 'authPassword', label: 'Password', type: 'text', secret: true, visibleWhen: { field: 'authType', equals: ['basic'] } },
+      { key: 'apiKeyName', label: 'Key Name', type: 'text', placeholder: 'X-API-Key', visibleWhen: { field: 'authType', equals: ['apiKey'] } },
+      { key: 'apiKeyValue', label: 'Key', type: 'text', secret: true, visibleWhen: { field: 'authType', equals: ['apiKey'] } },
+      {
+        key: 'apiKeyIn',
+        label: 'Send Key In',
+        type: 'select',
+        options: [
+          { value: 'header', label: 'Header' },
+          { value: 'query', label: 'Query parameter' },
+        ],
+        visibleWhen: { field: 'authType', equals: ['apiKey'] },
+      },
+      {
+        key: 'errorMode',
+        label: 'On Non-2xx Status',
+        type: 'select',
+        options: [
+          { value: 'fail', label: 'Fail the node' },
+          { value: 'output', label: 'Output the status' },
+        ],
+      },
+      {
+        key: 'responseType',
+        label: 'Read Response As',
+        type: 'select',
+        options: [
+          { value: 'auto', label: 'From Content-Type' },
+          { value: 'json', label: 'JSON' },
+          { value: 'text', label: 'Text' },
+          { value: 'binary', label: 'Binary (base64)' },
+        ],
+      },
+      {
+        key: 'responseMapping',
+        label: 'Response Mapping',
+        type: 'json',
+        placeholder: '{"customerId": "data.customer.id"}',
+        rows: 3,
+      },
+    ],
+    createDefaults: () => ({
+      method: 'GET',
+      bodyType: 'json',
+      authType: 'none',
+      apiKeyIn: 'header',
+      errorMode: 'fail',
+      responseType: 'auto',
+    }),
+    validate: validateAction,
+    createProcessor: config => new HttpProcessor(config),
+  },
+  {
+    type: 'router',
+    name: 'Router',
+    icon: '🔀',
+    color: '#6366f1',
+    description: 'Branch on conditions (if / switch)',
+    inputs: [{ name: 'input', label: 'Input', dataType: 'any', required: true }],
+    outputs: getRouterOutputs,
+    configSchema: [
+      {
+        key: 'routingMode',
+        label: 'Routing',
+        type: 'select',
+        options: [
+          { value: 'first', label: 'First matching branch (if / else if)' },
+          { value: 'all', label: 'Every matching branch (switch)' },
+        ],
+      },
+      { key: 'branches', label: 'Branches', type: 'branches' },
+    ],
+    createDefaults: () => ({
+      routingMode: 'first',
+      branches: [{ port: 'true', match: 'all', conditions: [{ field: 'input', operator: 'exists' }] }],
+    }),
+    validate: validateRouter,
+    createProcessor: config => new RouterProcessor(config),
+  },
+  {
+    type: 'iterator',
+    name: 'Iterator',
+    icon: '🔁',
+    color: '#0ea5e9',
+    description: 'Run the following nodes once per item',
+    inputs: [{ name: 'input', label: 'Input', dataType: 'any', required: true }],
+    outputs: [{ name: 'item', label: 'Item', dataType: 'any' }],
+    configSchema: [
+      { key: 'itemsPath', label: 'Items Path', type: 'text', placeholder: 'input.rows', required: true },
+      { key: 'batchSize', label: 'Batch Size', type: 'number', placeholder: '1' },
+      { key: 'concurrency', label: 'Parallel Iterations', type: 'number', placeholder: '1' },
+    ],
+    createDefaults: () => ({ itemsPath: 'input' }),
+    validate: validateIterator,
+    createProcessor: config => new IteratorProcessor(config),
+  },
+  {
+    type: 'collector',
+    name: 'Collector',
+    icon: '📥',
+    color: '#0ea5e9',
+    description: 'Gather loop results into a list',
+    inputs: [{ name: 'input', label: 'Input', dataType: 'any', required: true }],
+    outputs: [{ name: 'items', label: 'Items', dataType: 'array' }],
+    configSchema: [],
+    createDefaults: () => ({}),
+    createProcessor: config => new CollectorProcessor(config),
+  },
+  {
+    type: 'subworkflow',
+    name: 'Sub-workflow',
+    icon: '🧩',
+    color: '#a855f7',
+    description: 'Run another workflow and use its outputs',
+    inputs: defaultInputs,
+    outputs: getSubworkflowOutputs,
+    configSchema: [
+      { key: 'workflowId', label: 'Workflow', type: 'workflow', required: true },
+      {
+        key: 'inputs',
+        label: 'Inputs',
+        type: 'json',
+        placeholder: '{"customerId": "{{ input.input.id }}"}',
+      },
+    ],
+    createDefaults: () => ({ workflowId: '', outputNames: [] }),
+    validate: validateSubworkflow,
+    createProcessor: config => new SubworkflowProcessor(config),
+  },
+  {
+    type: 'table',
+    name: 'Database',
+    icon: '🗄️',
+    color: '#8b5cf6',
+    description: 'Store and retrieve data',
+    inputs: defaultInputs,
+    outputs: getTableOutputs,
+    configSchema: [
+      { key: 'tableName', label: 'Table Name', type: 'text', placeholder: 'table_name', required: true },
+      {
+        key: 'operation',
+        label: 'Operation',
+        type: 'select',
+        options: [
+          { value: 'create', label: 'Create' },
+          { value: 'read', label: 'Read' },
+          { value: 'update', label: 'Update' },
+          { value: 'delete', label: 'Delete' },
+          { value: 'query', label: 'Query' },
+        ],
+      },
+      {
+        key: 'recordId',
+        label: 'Record ID',
+        type: 'text',
+        placeholder: '{{ input.input.id }}',
+        deferred: true,
+        visibleWhen: { field: 'operation', equals: ['read', 'update', 'delete'] },
+      },
+      {
+        key: 'query',
+        label: 'Query',
+        type: 'textarea',
+        placeholder: "status = 'paid' and total > 100 order by createdAt desc limit 20",
+        visibleWhen: { field: 'operation', equals: ['update', 'delete', 'query'] },
+      },
+      {
+        key: 'allRows',
+        label: 'Affect Every Row',
+        type: 'boolean',
+        visibleWhen: { field: 'operation', equals: ['update', 'delete'] },
+      },
+      {
+        key: 'values',
+        label: 'Values',
+        type: 'json',
+        placeholder: '{"name": "{{ input.input.name }}"} (defaults to the input)',
+        visibleWhen: { field: 'operation', equals: ['create', 'update'] },
+      },
+      { key: 'schema', label: 'Schema', type: 'json', placeholder: '{"name": "string", "total": "number", "paidAt": "date"}', rows: 3 },
+    ],
+    createDefaults: () => ({ tableName: 'new_table', operation: 'create' }),
+    validate: validateTable,
+    emits: getTableEvents,
+    createProcessor: config => new TableProcessor(config),
+  },
+  {
+    type: 'page',
+    name: 'Page',
+    icon: '📄',
+    color: '#06b6d4',
+    description: 'Display data to users',
+    inputs: [{ name: 'data', label: 'Data', dataType: 'any' }],
+    outputs: [{ name: 'url', label: 'URL', dataType: 'string' }],
+    configSchema: [
+      { key: 'pageTitle', label: 'Title', type: 'text', placeholder: 'Orders' },
+      { key: 'routePath', label: 'Route', type: 'text', placeholder: '/orders or /shops/:shop/orders', required: true },
+      { key: 'dataSources', label: 'Data Sources', type: 'tableNodes' },
+      {
+        key: 'template',
+        label: 'List Template',
+        type: 'pageTemplate',
+        placeholder: '<ul>{{#each rows}}<li><a href="{{ basePath }}/{{ item.id }}">{{ item.name }}</a></li>{{/each}}</ul>',
+        rows: 6,
+        deferred: true,
+      },
+      {
+        key: 'detailTemplate',
+        label: 'Detail Template',
+        type: 'pageTemplate',
+        placeholder: '{{#if record}}<h2>{{ record.name }}</h2>{{else}}Not found{{/if}} (leave empty for no detail view)',
+        rows: 4,
+        deferred: true,
+      },
+      { key: 'formTable', label: 'Form Writes To', type: 'tableNode', placeholder: 'No form' },
+      {
+        key: 'formFields',
+        label: 'Form Fields',
+        type: 'list',
+        placeholder: 'name, email as Email Address (defaults to the table schema)',
+        rows: 2,
+      },
+      { key: 'submitLabel', label: 'Submit Label', type: 'text', placeholder: 'Submit' },
+    ],
+    createDefaults: () => ({
+      pageTitle: 'New Page',
+      template: '<ul>{{#each rows}}<li>{{ item.id }}</li>{{else}}<li>Nothing here yet</li>{{/each}}</ul>',
+      dataSources: [],
+      routePath: '/new-page',
+    }),
+    validate: validatePage,
+    createProcessor: config => new PageProcessor(config),
+  },
+  {
+    type: 'email',
+    name: 'Email',
+    icon: '✉️',
+    color: '#ef4444',
+    description: 'Send email notifications',
+    inputs: defaultInputs,
+    outputs: EMAIL_OUTPUTS,
+    configSchema: [
+      { key: 'subject', label: 'Subject', type: 'text', placeholder: 'Order {{ trigger.orderId }} confirmed' },
+      {
+        key: 'recipients',
+        label: 'Recipients',
+        type: 'list',
+        placeholder: 'email1@example.com, Ada Lovelace <ada@example.com>',
+        rows: 2,
+        required: true,
+      },
+      { key: 'cc', label: 'CC', type: 'list', placeholder: 'team@example.com', rows: 1 },
+      { key: 'bcc', label: 'BCC', type: 'list', placeholder: 'archive@example.com', rows: 1 },
+      { key: 'replyTo', label: 'Reply To', type: 'text', placeholder: 'support@example.com' },
+      { key: 'from', label: 'From', type: 'text', placeholder: 'Defaults to the mail server sender' },
+      {
+        key: 'credentialId',
+        label: 'Mail Server',
+        type: 'credential',
+        placeholder: 'Default mail server',
+        options: [{ value: 'smtp', label: CREDENTIAL_TYPES.smtp.label }],
+      },
+      {
+        key: 'templateFormat',
+        label: 'Template Format',
+        type: 'select',
+        options: [
+          { value: 'html', label: 'HTML (plain text derived)' },
+          { value: 'text', label: 'Plain text (HTML derived)' },
+        ],
+      },
+      {
+        key: 'template',
+        label: 'Template',
+        type: 'textarea',
+        placeholder: '<p>Hello {{ input.input.name }}</p>',
+        rows: 4,
+        deferred: true,
+      },
+      {
+        key: 'attachments',
+        label: 'Attachments',
+        type: 'list',
+        placeholder: '{{ nodes["Invoice"].output.pdf }}',
+        rows: 2,
+      },
+    ],
+    createDefaults: () => ({ recipients: [], subject: 'New Email', template: 'Hello {{name}}', templateFormat: 'html' }),
+    validate: validateEmail,
+    createProcessor: config => new EmailProcessor(config),
+  },
+  {
+    type: 'notification',
+    name: 'Notification',
+    icon: '🔔',
+    color: '#f59e0b',
+    description: 'Notify people through Slack, Discord, SMS or push',
+    inputs: defaultInputs,
+    outputs: NOTIFICATION_OUTPUTS,
+    configSchema: [
+      {
+        key: 'notificationType',
+        label: 'Type',
+        type: 'select',
+        options: [
+          { value: 'push', label: 'Push Notification' },
+          { value: 'sms', label: 'SMS' },
+          { value: 'slack', label: 'Slack' },
+          { value: 'discord', label: 'Discord' },
+        ],
+      },
+      {
+        key: 'recipients',
+        label: 'Recipients',
+        type: 'list',
+        placeholder: 'Webhook URLs, phone numbers (+15551234567) or device tokens',
+        rows: 2,
+        required: true,
+      },
+      { key: 'title', label: 'Title', type: 'text', placeholder: 'Order {{ trigger.orderId }} shipped' },
+      { key: 'message', label: 'Message', type: 'textarea', placeholder: 'New order from {{ nodes["Fetch Customer"].output.response.name }}', rows: 3 },
+      {
+        key: 'level',
+        label: 'Level',
+        type: 'select',
+        options: NOTIFICATION_LEVELS,
+        visibleWhen: { field: 'notificationType', equals: ['slack', 'discord'] },
+      },
+      {
+        key: 'fields',
+        label: 'Fields',
+        type: 'json',
+        placeholder: '{"Order": "{{ trigger.orderId }}", "Total": "{{ trigger.total }}"}',
+        rows: 2,
+        visibleWhen: { field: 'notificationType', equals: ['slack', 'discord', 'push'] },
+      },
+      {
+        key: 'channel',
+        label: 'Channel',
+        type: 'text',
+        placeholder: '#alerts, or a Discord thread ID',
+        visibleWhen: { field: 'notificationType', equals: ['slack', 'discord'] },
+      },
+      {
+        key: 'username',
+        label: 'Post As',
+        type: 'text',
+        placeholder: 'Workflow Bot',
+        visibleWhen: { field: 'notificationType', equals: ['slack', 'discord'] },
+      },
+    ],
+    createDefaults: () => ({ notificationType: 'push', recipients: [], message: 'New notification', level: 'info' }),
+    validate: validateNotification,
+    createProcessor: config => new NotificationProcessor(config),
+  },
+  {
+    type: 'invoice',
+    name: 'Invoice',
+    icon: '🧾',
+    color: '#84cc16',
+    description: 'Generate invoices',
+    inputs: [{ name: 'input', label: 'Input', dataType: 'object' }],
+    outputs: INVOICE_OUTPUTS,
+    configSchema: [
+      { key: 'invoiceTemplate', label: 'Layout', type: 'select', options: INVOICE_LAYOUTS },
+      { key: 'currency', label: 'Currency', type: 'text', placeholder: 'USD' },
+      { key: 'locale', label: 'Locale', type: 'text', placeholder: 'en-US' },
+      { key: 'lineItems', label: 'Line Items', type: 'lineItems', placeholder: '{{ input.input.items }}' },
+      {
+        key: 'discountType',
+        label: 'Invoice Discount',
+        type: 'select',
+        options: [
+          { value: 'none', label: 'None' },
+          { value: 'percent', label: 'Percentage' },
+          { value: 'amount', label: 'Fixed amount' },
+        ],
+      },
+      {
+        key: 'discountValue',
+        label: 'Discount',
+        type: 'number',
+        visibleWhen: { field: 'discountType', equals: ['percent', 'amount'] },
+      },
+      {
+        key: 'customerData',
+        label: 'Customer',
+        type: 'json',
+        placeholder: '{ "name": "{{ input.input.name }}", "email": "{{ input.input.email }}", "address": "..." }',
+        rows: 4,
+      },
+      { key: 'sellerData', label: 'Seller', type: 'json', placeholder: '{ "name": "Acme Ltd", "address": "...", "taxId": "..." }', rows: 4 },
+      { key: 'numberPrefix', label: 'Number Prefix', type: 'text', placeholder: 'INV-' },
+      { key: 'dueInDays', label: 'Due In (days)', type: 'number', placeholder: '30' },
+      { key: 'notes', label: 'Notes', type: 'textarea', placeholder: 'Payment terms, bank details...', rows: 3 },
+    ],
+    createDefaults: () => ({
+      invoiceTemplate: 'default',
+      currency: 'USD',
+      customerData: {},
+      lineItems: [],
+      discountType: 'none',
+      numberPrefix: 'INV-',
+    }),
+    validate: validateInvoice,
+    createProcessor: config => new InvoiceProcessor(config),
+  },
+  {
+    type: 'report',
+    name: 'Report',
+    icon: '📊',
+    color: '#ec4899',
+    description: 'Generate reports and analytics',
+    inputs: [{ name: 'rows', label: 'Rows', dataType: 'array' }],
+    outputs: REPORT_OUTPUTS,
+    configSchema: [
+      {
+        key: 'reportType',
+        label: 'Format',
+        type: 'select',
+        options: [
+          { value: 'pdf', label: 'PDF' },
+          { value: 'csv', label: 'CSV' },
+          { value: 'excel', label: 'Excel (.xlsx)' },
+        ],
+      },
+      { key: 'template', label: 'Layout', type: 'select', options: REPORT_TEMPLATES },
+      { key: 'title', label: 'Title', type: 'text', placeholder: 'Defaults to the node name' },
+      { key: 'dataSource', label: 'Data Source', type: 'tableNode', placeholder: 'Rows from the upstream node' },
+      { key: 'query', label: 'Filter & Sort', type: 'text', placeholder: 'status = "paid" order by total desc' },
+      { key: 'columns', label: 'Columns', type: 'list', placeholder: 'customer, region, total as Total (EUR)' },
+      { key: 'groupBy', label: 'Group By', type: 'text', placeholder: 'region' },
+      { key: 'aggregates', label: 'Aggregates', type: 'aggregates', options: REPORT_AGGREGATE_FUNCTIONS },
+      { key: 'fileName', label: 'File Name', type: 'text', placeholder: 'Defaults to the title' },
+      { key: 'emailRecipients', label: 'Email To', type: 'list', placeholder: 'finance@example.com' },
+      { key: 'emailSubject', label: 'Email Subject', type: 'text', placeholder: 'Defaults to the title' },
+    ],
+    createDefaults: () => ({ reportType: 'pdf', template: 'default', dataSource: '', aggregates: [] }),
+    validate: validateReport,
+    createProcessor: config => new ReportProcessor(config),
+  },
+];
+
+export const registerBuiltinNodes = (registry: NodeRegistry): void => {
+  builtinNodePlugins.forEach(plugin => registry.register(plugin));
+};
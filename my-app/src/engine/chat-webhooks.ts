@@ -0,0 +1,165 @@
+/**
+ * File: chat-webhooks.ts
+ *
+ * Notification adapters for Slack and Discord incoming webhooks. Each recipient is a webhook
+ * URL; the message is laid out the way the service expects (Block Kit for Slack, an embed for
+ * Discord) with the level as the accent colour. Webhook URLs carry their own credentials, so
+ * delivery results show them with the token masked.
+ */
+
+import type { FetchLike } from './http-action';
+import {
+  deliverWithRateLimit,
+  parseRetryAfter,
+  RateLimitError,
+  type Notification,
+  type NotificationAdapter,
+  type NotificationDelivery,
+  type NotificationLevel,
+  type RateLimitOptions,
+} from './notification-transport';
+import { isValidHttpUrl } from './validation';
+
+const LEVEL_COLORS: Record<NotificationLevel, number> = {
+  info: 0x3b82f6,
+  success: 0x22c55e,
+  warning: 0xf59e0b,
+  error: 0xef4444,
+};
+
+const truncate = (text: string, length: number): string => (text.length > length ? `${text.slice(0, length - 1)}…` : text);
+
+// Keeps enough of a webhook URL to tell webhooks apart and hides the token at its end
+export const maskWebhookUrl = (url: string): string => {
+  try {
+    const parsed = new URL(url);
+    const segments = parsed.pathname.split('/');
+    if (segments.length > 2) segments[segments.length - 1] = '****';
+    return `${parsed.origin}${segments.join('/')}`;
+  } catch {
+    return '****';
+  }
+};
+
+abstract class WebhookAdapter implements NotificationAdapter {
+  protected fetchImpl: FetchLike;
+  private options: RateLimitOptions;
+
+  constructor(options: RateLimitOptions & { fetchImpl?: FetchLike } = {}) {
+    const { fetchImpl = (input, init) => fetch(input, init), ...rateLimit } = options;
+    this.fetchImpl = fetchImpl;
+    this.options = rateLimit;
+  }
+
+  // Posts to one webhook and returns the message ID, if the service gives one
+  protected abstract post(url: string, notification: Notification, signal?: AbortSignal): Promise<string | undefined>;
+
+  async deliver(notification: Notification, signal?: AbortSignal): Promise<NotificationDelivery[]> {
+    const deliveries: NotificationDelivery[] = [];
+    for (const url of notification.recipients) {
+      if (!isValidHttpUrl(url)) {
+        deliveries.push({ recipient: maskWebhookUrl(url), status: 'failed', error: 'Not a webhook URL', attempts: 0 });
+        continue;
+      }
+      deliveries.push(
+        await deliverWithRateLimit(maskWebhookUrl(url), () => this.post(url, notification, signal), this.options, signal)
+      );
+    }
+    return deliveries;
+  }
+}
+
+// Slack wants &, < and > escaped in mrkdwn text
+const escapeSlack = (text: string): string => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+
+export const createSlackPayload = (notification: Notification): Record<string, unknown> => {
+  const blocks: Array<Record<string, unknown>> = [];
+  if (notification.title) {
+    blocks.push({ type: 'header', text: { type: 'plain_text', text: truncate(notification.title, 150), emoji: true } });
+  }
+  if (notification.text) {
+    blocks.push({ type: 'section', text: { type: 'mrkdwn', text: truncate(escapeSlack(notification.text), 3000) } });
+  }
+  // A section holds at most ten fields
+  for (let index = 0; index < notification.fields.length; index += 10) {
+    blocks.push({
+      type: 'section',
+      fields: notification.fields.slice(index, index + 10).map(field => ({
+        type: 'mrkdwn',
+        text: truncate(`*${escapeSlack(field.name)}*\n${escapeSlack(field.value)}`, 2000),
+      })),
+    });
+  }
+
+  return {
+    text: notification.title ? `${notification.title}: ${notification.text}` : notification.text, // shown in alerts
+    attachments: [{ color: `#${LEVEL_COLORS[notification.level].toString(16).padStart(6, '0')}`, blocks }],
+    ...(notification.channel ? { channel: notification.channel } : {}),
+    ...(notification.username ? { username: notification.username } : {}),
+  };
+};
+
+export class SlackWebhookAdapter extends WebhookAdapter {
+  protected async post(url: string, notification: Notification, signal?: AbortSignal): Promise<string | undefined> {
+    const response = await this.fetchImpl(url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(createSlackPayload(notification)),
+      signal,
+    });
+    if (response.status === 429) {
+      throw new RateLimitError('Slack rate limit reached', parseRetryAfter(response.headers.get('Retry-After')));
+    }
+    // Slack answers "ok", or an error code such as channel_not_found
+    const body = (await response.text()).trim();
+    if (!response.ok) throw new Error(`Slack rejected the message: ${body || response.statusText}`);
+    return undefined;
+  }
+}
+
+export const createDiscordPayload = (notification: Notification): Record<string, unknown> => ({
+  embeds: [
+    {
+      ...(notification.title ? { title: truncate(notification.title, 256) } : {}),
+      description: truncate(notification.text, 4096),
+      color: LEVEL_COLORS[notification.level],
+      fields: notification.fields.slice(0, 25).map(field => ({
+        name: truncate(field.name, 256) || '\u200b',
+        value: truncate(field.value, 1024) || '\u200b',
+        inline: true,
+      })),
+      timestamp: new Date().toISOString(),
+    },
+  ],
+  ...(notification.username ? { username: truncate(notification.username, 80) } : {}),
+  allowed_mentions: { parse: [] }, // a notification should not ping everyone it names
+});
+
+export class DiscordWebhookAdapter extends WebhookAdapter {
+  protected async post(url: string, notification: Notification, signal?: AbortSignal): Promise<string | undefined> {
+    // wait=true makes Discord reply with the message it created
+    const target = new URL(url);
+    target.searchParams.set('wait', 'true');
+    if (notification.channel) target.searchParams.set('thread_id', notification.channel);
+
+    const response = await this.fetchImpl(target.toString(), {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(createDiscordPayload(notification)),
+      signal,
+    });
+    const body: unknown = await response.json().catch(() => undefined);
+    const reply = body && typeof body === 'object' ? (body as Record<string, unknown>) : {};
+
+    if (response.status === 429) {
+      // retry_after in the body is in seconds and more precise than the header
+      const retryAfter =
+        typeof reply.retry_after === 'number' ? reply.retry_after * 1000 : parseRetryAfter(response.headers.get('Retry-After'));
+      throw new RateLimitError('Discord rate limit reached', retryAfter);
+    }
+    if (!response.ok) {
+      throw new Error(`Discord rejected the message: ${typeof reply.message === 'string' ? reply.message : response.statusText}`);
+    }
+    return typeof reply.id === 'string' ? reply.id : undefined;
+  }
+}
@@ -0,0 +1,71 @@
+/**
+ * File: conditions.ts
+ *
+ * Evaluation of the branch conditions used by router nodes.
+ */
+
+import type { DataValue, NodeData, RouterBranch, RouterCondition } from '../workflow-engine-core';
+
+// Reads a dot-separated path such as 'customer.address.city' from node data
+export const getValueAtPath = (data: NodeData, path: string): DataValue => {
+  let current: DataValue = data;
+  for (const segment of path.split('.').filter(Boolean)) {
+    if (current === null || typeof current !== 'object') return undefined;
+    current = (current as Record<string, DataValue>)[segment];
+  }
+  return current;
+};
+
+const toNumber = (value: DataValue): number =>
+  typeof value === 'number' ? value : Number(value);
+
+// Numbers compare numerically even when one side was typed as text in the config panel
+const looselyEquals = (left: DataValue, right: DataValue): boolean => {
+  if (left === right) return true;
+  if (left === null || left === undefined || right === null || right === undefined) return false;
+  if (typeof left === 'object' || typeof right === 'object') {
+    return JSON.stringify(left) === JSON.stringify(right);
+  }
+  const leftNumber = toNumber(left);
+  const rightNumber = toNumber(right);
+  if (!Number.isNaN(leftNumber) && !Number.isNaN(rightNumber) && String(left).trim() !== '' && String(right).trim() !== '') {
+    return leftNumber === rightNumber;
+  }
+  return String(left) === String(right);
+};
+
+export const evaluateCondition = (condition: RouterCondition, data: NodeData): boolean => {
+  const actual = getValueAtPath(data, condition.field);
+  const expected = condition.value;
+
+  switch (condition.operator) {
+    case 'equals':
+      return looselyEquals(actual, expected);
+    case 'notEquals':
+      return !looselyEquals(actual, expected);
+    case 'contains':
+      if (Array.isArray(actual)) return actual.some(item => looselyEquals(item, expected));
+      return typeof actual === 'string' && actual.includes(String(expected ?? ''));
+    case 'greaterThan':
+      return toNumber(actual) > toNumber(expected);
+    case 'lessThan':
+      return toNumber(actual) < toNumber(expected);
+    case 'exists':
+      return actual !== undefined && actual !== null;
+    case 'notExists':
+      return actual === undefined || actual === null;
+    case 'matches':
+      try {
+        return new RegExp(String(expected ?? '')).test(String(actual ?? ''));
+      } catch {
+        throw new Error(`Invalid pattern '${expected}' for field '${condition.field}'`);
+      }
+  }
+};
+
+export const evaluateBranch = (branch: RouterBranch, data: NodeData): boolean => {
+  if (branch.conditions.length === 0) return true;
+  return branch.match === 'any'
+    ? branch.conditions.some(condition => evaluateCondition(condition, data))
+    : branch.conditions.every(condition => evaluateCondition(condition, data));
+};
@@ -0,0 +1,58 @@
+/**
+ * File: console-reporter.ts
+ *
+ * Prints execution events as they happen, one line per event. Useful for running workflows
+ * from scripts and for following an execution in the browser console.
+ */
+
+import { WorkflowUtils } from '../workflow-engine-core';
+import type { WorkflowExecutionEngine } from '../workflow-engine-core';
+import type { ExecutionEvent } from './execution-events';
+
+export interface ConsoleReporterOptions {
+  logger?: Pick<Console, 'log' | 'error'>;
+  nodeLogs?: boolean; // also print every log line written by nodes
+}
+
+export const formatExecutionEvent = (event: ExecutionEvent): string => {
+  const prefix = `[${event.executionId}]`;
+  const loop = 'iteration' in event && event.iteration !== undefined ? ` (iteration ${event.iteration})` : '';
+
+  switch (event.type) {
+    case 'executionStart':
+      return `${prefix} ${event.resumed ? 'Resumed' : 'Started'} workflow ${event.workflowId}`;
+    case 'nodeStart':
+      return `${prefix} ${event.nodeName}${loop} started`;
+    case 'nodeLog':
+      return `${prefix} ${event.nodeName}${loop}: ${event.message}`;
+    case 'nodeComplete': {
+      if (event.context.status === 'skipped') {
+        return `${prefix} ${event.nodeName}${loop} skipped: ${event.context.skipReason ?? 'no reason given'}`;
+      }
+      const duration = WorkflowUtils.getNodeDuration(event.context);
+      return `${prefix} ${event.nodeName}${loop} completed${duration !== undefined ? ` in ${WorkflowUtils.formatDuration(duration)}` : ''}`;
+    }
+    case 'nodeFail':
+      return `${prefix} ${event.nodeName}${loop} ${event.context.status}: ${event.error}`;
+    case 'eventEmitted':
+      return `${prefix} ${event.nodeName}${loop} emitted '${event.event.name}'`;
+    case 'executionEnd':
+      return `${prefix} Execution ${event.status}${event.execution.error ? `: ${event.execution.error}` : ''}`;
+  }
+};
+
+// Returns a function that detaches the reporter
+export const attachConsoleReporter = (
+  engine: Pick<WorkflowExecutionEngine, 'subscribe'>,
+  { logger = console, nodeLogs = false }: ConsoleReporterOptions = {}
+): (() => void) =>
+  engine.subscribe(event => {
+    if (event.type === 'nodeLog' && !nodeLogs) return;
+
+    const line = formatExecutionEvent(event);
+    if (event.type === 'nodeFail' || (event.type === 'executionEnd' && event.status === 'failed')) {
+      logger.error(line);
+    } else {
+      logger.log(line);
+    }
+  });
@@ -0,0 +1,101 @@
+import { describe, expect, it } from 'vitest';
+import { CredentialVault, CredentialVaultError, MemoryCredentialStorage, REDACTED, redactSecrets } from './credentials';
+
+describe('redactSecrets', () => {
+  it('replaces every occurrence of a secret in nested plain data', () => {
+    const redacted = redactSecrets(
+      { request: { url: 'https://api.example.com?key=sk-live-123' }, logs: ['sent sk-live-123 twice: sk-live-123'], count: 2 },
+      ['sk-live-123']
+    );
+    expect(redacted).toEqual({
+      request: { url: `https://api.example.com?key=${REDACTED}` },
+      logs: [`sent ${REDACTED} twice: ${REDACTED}`],
+      count: 2,
+    });
+  });
+
+  it('leaves values without secrets as they are', () => {
+    const value = { token: 'abc', 'Content-Type': 'application/json', tags: ['a', 1] };
+    expect(redactSecrets(value, [])).toEqual(value);
+  });
+
+  it('masks headers that carry secrets whatever their value', () => {
+    const headers = { authorization: 'Bearer abc', 'X-Api-Key': 'k1', 'X-Auth-Token': 't1', Cookie: 'sid=1', Accept: '*/*' };
+    expect(redactSecrets({ headers }, [])).toEqual({
+      headers: { authorization: REDACTED, 'X-Api-Key': REDACTED, 'X-Auth-Token': REDACTED, Cookie: REDACTED, Accept: '*/*' },
+    });
+  });
+
+  it('keeps fields named like headers outside header objects', () => {
+    const order = { api_key: 'k1', authorization: 'approved', partition_key: 'eu' };
+    expect(redactSecrets({ order }, [])).toEqual({ order });
+  });
+});
+
+describe('CredentialVault', () => {
+  const unlockedVault = async () => {
+    const storage = new MemoryCredentialStorage();
+    const vault = new CredentialVault(storage);
+    await vault.unlock('correct horse');
+    return { storage, vault };
+  };
+
+  it('keeps values encrypted at rest and readable once unlocked', async () => {
+    const { storage, vault } = await unlockedVault();
+    const { id } = await vault.save({ name: 'Stripe', type: 'apiKey', data: { key: 'sk-live-123', name: 'X-API-Key' } });
+
+    expect(JSON.stringify(await storage.load())).not.toContain('sk-live-123');
+    expect((await vault.resolve(id)).data.key).toBe('sk-live-123');
+    expect(vault.getMaskedData(id)).toEqual({ key: REDACTED, name: 'X-API-Key' });
+    expect(vault.getSecretValues()).toEqual(['sk-live-123']);
+  });
+
+  it('rejects a wrong master password and refuses to resolve while locked', async () => {
+    const { storage, vault } = await unlockedVault();
+    const { id } = await vault.save({ name: 'Stripe', type: 'apiKey', data: { key: 'sk-live-123' } });
+    vault.lock();
+
+    await expect(vault.resolve(id)).rejects.toThrow('The credentials vault is locked; unlock it to use Stripe');
+    const other = new CredentialVault(storage);
+    await expect(other.unlock('wrong')).rejects.toBeInstanceOf(CredentialVaultError);
+    await other.unlock('correct horse');
+    expect((await other.resolve(id)).data.key).toBe('sk-live-123');
+  });
+
+  it('keeps a stored secret when an edit leaves it empty', async () => {
+    const { vault } = await unlockedVault();
+    const { id } = await vault.save({ name: 'Mail', type: 'basic', data: { username: 'ada', password: 'hunter22' } });
+    await vault.save({ id, name: 'Mail', type: 'basic', data: { username: 'grace', password: '' } });
+
+    expect((await vault.resolve(id)).data).toEqual({ username: 'grace', password: 'hunter22' });
+    expect(vault.getSecretValues()).toContain(btoa('grace:hunter22'));
+  });
+
+  it('encodes basic auth secrets as UTF-8', async () => {
+    const { vault } = await unlockedVault();
+    await vault.save({ name: 'Mail', type: 'basic', data: { username: 'zoë', password: 'p€ssword' } });
+
+    expect(vault.getSecretValues()).toContain('em/Dqzpw4oKsc3N3b3Jk'); // base64 of the UTF-8 bytes
+  });
+
+  it('keeps every change made at the same time', async () => {
+    const { storage, vault } = await unlockedVault();
+    const { id } = await vault.save({ name: 'Old', type: 'apiKey', data: { key: 'old-key' } });
+    await Promise.all([
+      vault.save({ name: 'a', type: 'apiKey', data: { key: 'key-a' } }),
+      vault.save({ name: 'b', type: 'apiKey', data: { key: 'key-b' } }),
+      vault.remove(id),
+    ]);
+
+    expect((await vault.list()).map(summary => summary.name)).toEqual(['a', 'b']);
+    expect((await storage.load())?.credentials.map(stored => stored.name)).toEqual(['a', 'b']);
+  });
+
+  it('checks credential types and names', async () => {
+    const { vault } = await unlockedVault();
+    const { id } = await vault.save({ name: 'Mail', type: 'basic', data: { username: 'ada', password: 'hunter22' } });
+
+    await expect(vault.resolve(id, ['apiKey'])).rejects.toThrow('Mail is a Basic auth credential, not API key');
+    await expect(vault.save({ name: 'mail', type: 'apiKey', data: { key: 'abcd' } })).rejects.toThrow('A credential named mail already exists');
+  });
+});
@@ -0,0 +1,438 @@
+/**
+ * File: credentials.ts
+ *
+ * Named, typed credentials (API keys, basic auth, OAuth tokens, SMTP servers) that node configs
+ * refer to by ID instead of holding the secret themselves, so saved and exported workflows carry
+ * no secrets.
+ *
+ * The vault keeps each credential's values encrypted at rest with AES-GCM, under a key derived
+ * from a master password (PBKDF2). Names and types stay readable so nodes can offer credentials
+ * to pick from while the vault is locked; values are only available once it is unlocked, and
+ * only for this session. Nothing here depends on the browser or Node beyond Web Crypto.
+ *
+ * The engine redacts the secret values of unlocked credentials, and the values of headers that
+ * carry secrets (Authorization, cookies, *-Key and *-Token), from execution logs and input
+ * snapshots (see redactSecrets).
+ */
+
+export type CredentialType = 'apiKey' | 'basic' | 'oauth2' | 'smtp';
+
+export interface CredentialField {
+  key: string;
+  label: string;
+  secret?: boolean; // masked in the UI and redacted from executions
+  required?: boolean;
+  placeholder?: string;
+  options?: Array<{ value: string; label: string }>;
+}
+
+export const CREDENTIAL_TYPES: Record<CredentialType, { label: string; fields: CredentialField[] }> = {
+  apiKey: {
+    label: 'API key',
+    fields: [
+      { key: 'key', label: 'Key', secret: true, required: true },
+      { key: 'name', label: 'Header or Parameter', placeholder: 'X-API-Key' },
+      {
+        key: 'in',
+        label: 'Sent In',
+        options: [
+          { value: 'header', label: 'Header' },
+          { value: 'query', label: 'Query parameter' },
+        ],
+      },
+    ],
+  },
+  basic: {
+    label: 'Basic auth',
+    fields: [
+      { key: 'username', label: 'Username', required: true },
+      { key: 'password', label: 'Password', secret: true },
+    ],
+  },
+  oauth2: {
+    label: 'OAuth token',
+    fields: [
+      { key: 'accessToken', label: 'Access Token', secret: true, required: true },
+      { key: 'refreshToken', label: 'Refresh Token', secret: true },
+      { key: 'expiresAt', label: 'Expires At', placeholder: '2026-12-31T23:59:59Z (leave empty if it does not expire)' },
+    ],
+  },
+  smtp: {
+    label: 'SMTP server',
+    fields: [
+      { key: 'host', label: 'Host', required: true, placeholder: 'smtp.example.com' },
+      { key: 'port', label: 'Port', placeholder: '587, or 465 with TLS' },
+      {
+        key: 'secure',
+        label: 'Connection',
+        options: [
+          { value: 'starttls', label: 'STARTTLS when offered' },
+          { value: 'tls', label: 'TLS from the start' },
+        ],
+      },
+      { key: 'username', label: 'Username' },
+      { key: 'password', label: 'Password', secret: true },
+      { key: 'from', label: 'Default Sender', placeholder: 'Workflows <workflows@example.com>' },
+    ],
+  },
+};
+
+export interface Credential {
+  id: string;
+  name: string;
+  type: CredentialType;
+  data: Record<string, string>; // values by CREDENTIAL_TYPES field key
+  createdAt: string; // ISO timestamp
+  updatedAt: string;
+}
+
+// What can be known of a credential without the master password
+export type CredentialSummary = Omit<Credential, 'data'>;
+
+interface EncryptedValue {
+  iv: string; // base64
+  ciphertext: string; // base64
+}
+
+export interface StoredCredential extends CredentialSummary {
+  data: EncryptedValue; // the credential's values as encrypted JSON
+}
+
+// Everything the vault keeps at rest
+export interface VaultFile {
+  salt: string; // base64; the master key is derived from the password and this
+  check: EncryptedValue; // a known text, to tell a wrong password from a right one
+  credentials: StoredCredential[];
+}
+
+export interface CredentialStorage {
+  load(): Promise<VaultFile | undefined>;
+  save(file: VaultFile): Promise<void>;
+}
+
+export class CredentialVaultError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CredentialVaultError';
+  }
+}
+
+export const REDACTED = '••••••';
+
+// Shorter values would be redacted from ordinary text they happen to appear in
+const MIN_REDACTED_LENGTH = 4;
+
+// Web Crypto's key type, named without relying on the DOM typings, which the server build lacks
+type VaultKey = Awaited<ReturnType<typeof crypto.subtle.deriveKey>>;
+
+const CHECK_TEXT = 'credential-vault';
+const KEY_ITERATIONS = 210000;
+
+const toBase64 = (bytes: Uint8Array): string => btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (text: string): Uint8Array<ArrayBuffer> => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const deriveKey = async (password: string, salt: Uint8Array<ArrayBuffer>): Promise<VaultKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations: KEY_ITERATIONS, hash: 'SHA-256' },
+    material,
+    { name: 'AES-GCM', length: 256 },
+    false,
+    ['encrypt', 'decrypt']
+  );
+};
+
+const encrypt = async (key: VaultKey, text: string): Promise<EncryptedValue> => {
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const ciphertext = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(text));
+  return { iv: toBase64(iv), ciphertext: toBase64(new Uint8Array(ciphertext)) };
+};
+
+const decrypt = async (key: VaultKey, value: EncryptedValue): Promise<string> => {
+  const plaintext = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(value.iv) }, key, fromBase64(value.ciphertext));
+  return new TextDecoder().decode(plaintext);
+};
+
+const createCredentialId = (): string => `cred_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+const summarize = ({ id, name, type, createdAt, updatedAt }: CredentialSummary): CredentialSummary => ({
+  id,
+  name,
+  type,
+  createdAt,
+  updatedAt,
+});
+
+// A credential's values with its secrets masked, for showing
+export const maskCredentialData = (credential: Credential): Record<string, string> =>
+  Object.fromEntries(
+    CREDENTIAL_TYPES[credential.type].fields
+      .filter(field => credential.data[field.key])
+      .map(field => [field.key, field.secret ? REDACTED : credential.data[field.key]])
+  );
+
+// Header names whose values are secrets, whoever typed them in
+export const isSensitiveHeader = (name: string): boolean =>
+  /^(proxy-)?authorization$|^(set-)?cookie$|[-_](key|token)$/i.test(name);
+
+// The token of an HTTP basic Authorization header, with the username and password as UTF-8
+export const encodeBasicAuth = (username: string, password: string): string =>
+  toBase64(new TextEncoder().encode(`${username}:${password}`));
+
+// Replaces every secret in the strings of a value, however deep, and masks sensitive headers in
+// the objects named headers; other values are kept as they are
+export const redactSecrets = <T>(value: T, secrets: string[], isHeaders = false): T => {
+  if (typeof value === 'string') {
+    return secrets.reduce((text, secret) => text.split(secret).join(REDACTED), value as string) as T;
+  }
+  if (Array.isArray(value)) return value.map(item => redactSecrets(item, secrets)) as T;
+  if (value && typeof value === 'object' && Object.getPrototypeOf(value) === Object.prototype) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [
+        key,
+        isHeaders && typeof item === 'string' && isSensitiveHeader(key)
+          ? REDACTED
+          : redactSecrets(item, secrets, key.toLowerCase() === 'headers'),
+      ])
+    ) as T;
+  }
+  return value;
+};
+
+// An SMTP server to send through, as an smtp credential gives it
+export interface SmtpSettings {
+  host: string;
+  port?: number;
+  secure: boolean; // TLS from the first byte rather than after STARTTLS
+  username?: string;
+  password?: string;
+  from?: string;
+}
+
+export const toSmtpSettings = (credential: Credential): SmtpSettings => {
+  const { host, port, secure, username, password, from } = credential.data;
+  return {
+    host,
+    port: port ? Number(port) : undefined,
+    secure: secure === 'tls',
+    username: username || undefined,
+    password: password || undefined,
+    from: from || undefined,
+  };
+};
+
+export class MemoryCredentialStorage implements CredentialStorage {
+  private file?: VaultFile;
+
+  async load(): Promise<VaultFile | undefined> {
+    return this.file && structuredClone(this.file);
+  }
+
+  async save(file: VaultFile): Promise<void> {
+    this.file = structuredClone(file);
+  }
+}
+
+// Keeps the encrypted vault in the browser's local storage
+export class LocalStorageCredentialStorage implements CredentialStorage {
+  private key: string;
+
+  constructor(key = 'workflow-credentials') {
+    this.key = key;
+  }
+
+  async load(): Promise<VaultFile | undefined> {
+    const text = localStorage.getItem(this.key);
+    return text ? (JSON.parse(text) as VaultFile) : undefined;
+  }
+
+  async save(file: VaultFile): Promise<void> {
+    localStorage.setItem(this.key, JSON.stringify(file));
+  }
+}
+
+export class CredentialVault {
+  private storage: CredentialStorage;
+  private file?: Promise<VaultFile | undefined>;
+  private key?: VaultKey;
+  private unlocked: Map<string, Credential> = new Map();
+  private updating: Promise<unknown> = Promise.resolve(); // the last change queued
+  private listeners: Set<() => void> = new Set();
+
+  constructor(storage: CredentialStorage) {
+    this.storage = storage;
+  }
+
+  get isUnlocked(): boolean {
+    return this.key !== undefined;
+  }
+
+  // Whether a master password has been set
+  async isInitialized(): Promise<boolean> {
+    return (await this.load()) !== undefined;
+  }
+
+  // Sets the master password on first use; afterwards it must match
+  async unlock(masterPassword: string): Promise<void> {
+    if (!masterPassword) throw new CredentialVaultError('Enter the master password');
+    const file = await this.load();
+
+    if (!file) {
+      const salt = crypto.getRandomValues(new Uint8Array(16));
+      const key = await deriveKey(masterPassword, salt);
+      const check = await encrypt(key, CHECK_TEXT);
+      await this.update(async () => ({ salt: toBase64(salt), check, credentials: [] }));
+      this.key = key;
+      this.notify();
+      return;
+    }
+
+    const key = await deriveKey(masterPassword, fromBase64(file.salt));
+    const check = await decrypt(key, file.check).catch(() => undefined);
+    if (check !== CHECK_TEXT) throw new CredentialVaultError('Wrong master password');
+
+    const unlocked = new Map<string, Credential>();
+    for (const stored of file.credentials) {
+      unlocked.set(stored.id, { ...summarize(stored), data: JSON.parse(await decrypt(key, stored.data)) });
+    }
+    this.key = key;
+    this.unlocked = unlocked;
+    this.notify();
+  }
+
+  lock(): void {
+    this.key = undefined;
+    this.unlocked = new Map();
+    this.notify();
+  }
+
+  async list(): Promise<CredentialSummary[]> {
+    return ((await this.load())?.credentials ?? []).map(summarize);
+  }
+
+  // Values of an unlocked credential with its secrets masked
+  getMaskedData(id: string): Record<string, string> | undefined {
+    const credential = this.unlocked.get(id);
+    return credential && maskCredentialData(credential);
+  }
+
+  // Creates a credential, or updates the one with the given ID; empty secrets keep their stored value
+  async save(input: { id?: string; name: string; type: CredentialType; data: Record<string, string> }): Promise<CredentialSummary> {
+    const key = this.requireKey();
+    const name = input.name.trim();
+    if (!name) throw new CredentialVaultError('Give the credential a name');
+
+    const existing = input.id ? this.unlocked.get(input.id) : undefined;
+    if (input.id && !existing) throw new CredentialVaultError(`Credential ${input.id} does not exist`);
+
+    const data: Record<string, string> = {};
+    for (const field of CREDENTIAL_TYPES[input.type].fields) {
+      const value = input.data[field.key]?.trim() ?? '';
+      const kept = field.secret && !value && existing?.type === input.type ? existing.data[field.key] ?? '' : value;
+      if (field.required && !kept) throw new CredentialVaultError(`${field.label} is required`);
+      if (kept) data[field.key] = kept;
+    }
+    if (data.port && !/^\d+$/.test(data.port)) throw new CredentialVaultError(`Port must be a number, got ${data.port}`);
+    if (data.expiresAt && Number.isNaN(Date.parse(data.expiresAt))) {
+      throw new CredentialVaultError(`Expires At must be a date and time, got ${data.expiresAt}`);
+    }
+
+    const now = new Date().toISOString();
+    const credential: Credential = {
+      id: existing?.id ?? createCredentialId(),
+      name,
+      type: input.type,
+      data,
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+    };
+    const stored: StoredCredential = { ...summarize(credential), data: await encrypt(key, JSON.stringify(data)) };
+    await this.update(async current => {
+      const file = current!;
+      if (file.credentials.some(other => other.id !== credential.id && other.name.toLowerCase() === name.toLowerCase())) {
+        throw new CredentialVaultError(`A credential named ${name} already exists`);
+      }
+      return {
+        ...file,
+        credentials: existing
+          ? file.credentials.map(other => (other.id === credential.id ? stored : other))
+          : [...file.credentials, stored],
+      };
+    });
+    this.unlocked.set(credential.id, credential);
+    this.notify();
+    return summarize(credential);
+  }
+
+  async remove(id: string): Promise<void> {
+    await this.update(async file => file && { ...file, credentials: file.credentials.filter(stored => stored.id !== id) });
+    this.unlocked.delete(id);
+    this.notify();
+  }
+
+  // The values of a credential, for a node about to use them
+  async resolve(id: string, types?: CredentialType[]): Promise<Credential> {
+    const summary = (await this.list()).find(stored => stored.id === id);
+    if (!summary) throw new CredentialVaultError(`Credential ${id} does not exist`);
+    const credential = this.unlocked.get(id);
+    if (!credential) throw new CredentialVaultError(`The credentials vault is locked; unlock it to use ${summary.name}`);
+    if (types && !types.includes(credential.type)) {
+      throw new CredentialVaultError(`${credential.name} is a ${CREDENTIAL_TYPES[credential.type].label} credential, not ${types.map(type => CREDENTIAL_TYPES[type].label).join(' or ')}`);
+    }
+    if (credential.type === 'oauth2' && credential.data.expiresAt && Date.parse(credential.data.expiresAt) <= Date.now()) {
+      throw new CredentialVaultError(`The OAuth token ${credential.name} expired at ${credential.data.expiresAt}`);
+    }
+    return structuredClone(credential);
+  }
+
+  // Secret values of the unlocked credentials, longest first, including the Authorization header basic auth produces
+  getSecretValues(): string[] {
+    const secrets = new Set<string>();
+    for (const credential of this.unlocked.values()) {
+      for (const field of CREDENTIAL_TYPES[credential.type].fields) {
+        const value = credential.data[field.key];
+        if (field.secret && value && value.length >= MIN_REDACTED_LENGTH) secrets.add(value);
+      }
+      if (credential.type === 'basic') {
+        secrets.add(encodeBasicAuth(credential.data.username ?? '', credential.data.password ?? ''));
+      }
+    }
+    return [...secrets].sort((a, b) => b.length - a.length);
+  }
+
+  subscribe(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private requireKey(): VaultKey {
+    if (!this.key) throw new CredentialVaultError('The credentials vault is locked');
+    return this.key;
+  }
+
+  private load(): Promise<VaultFile | undefined> {
+    this.file ??= this.storage.load();
+    return this.file;
+  }
+
+  // Changes run one after another, each reading the file as the one before saved it, so
+  // concurrent saves and removals never lose each other's work. A change returning undefined
+  // leaves the file alone.
+  private update(change: (file: VaultFile | undefined) => Promise<VaultFile | undefined>): Promise<void> {
+    const updated = this.updating.then(async () => {
+      const file = await change(await this.load());
+      if (!file) return;
+      await this.storage.save(file);
+      this.file = Promise.resolve(file);
+    });
+    this.updating = updated.catch(() => undefined);
+    return updated;
+  }
+
+  private notify(): void {
+    for (const listener of [...this.listeners]) listener();
+  }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, it } from 'vitest';
+import { CronParseError, getNextFireTime, getNextFireTimes, parseCron } from './cron';
+
+const next = (expression: string, after: string, timeZone = 'UTC') =>
+  getNextFireTime(parseCron(expression, timeZone), new Date(after))?.toISOString();
+
+describe('parseCron', () => {
+  it('rejects malformed expressions', () => {
+    expect(() => parseCron('', 'UTC')).toThrow(CronParseError);
+    expect(() => parseCron('* * *', 'UTC')).toThrow('Expected 5 or 6 fields');
+    expect(() => parseCron('61 * * * *', 'UTC')).toThrow(CronParseError);
+    expect(() => parseCron('@sometimes', 'UTC')).toThrow('Unknown macro');
+    expect(() => parseCron('* * * * *', 'Mars/Olympus')).toThrow('Unknown time zone');
+  });
+});
+
+describe('getNextFireTime', () => {
+  it('finds the next matching minute strictly after the given time', () => {
+    expect(next('*/15 * * * *', '2024-03-05T10:07:30Z')).toBe('2024-03-05T10:15:00.000Z');
+    expect(next('0 9 * * *', '2024-03-05T09:00:00Z')).toBe('2024-03-06T09:00:00.000Z');
+  });
+
+  it('understands names, ranges and macros', () => {
+    expect(next('30 8 * * mon-fri', '2024-03-08T09:00:00Z')).toBe('2024-03-11T08:30:00.000Z'); // Friday to Monday
+    expect(next('@monthly', '2024-01-15T00:00:00Z')).toBe('2024-02-01T00:00:00.000Z');
+    expect(next('0 0 1 jan *', '2024-06-01T00:00:00Z')).toBe('2025-01-01T00:00:00.000Z');
+  });
+
+  it('supports a leading seconds field', () => {
+    expect(next('*/10 * * * * *', '2024-03-05T10:00:01Z')).toBe('2024-03-05T10:00:10.000Z');
+  });
+
+  it('matches either day field when both are restricted', () => {
+    // The 13th, or any Friday: Friday the 8th comes first
+    expect(next('0 0 13 * fri', '2024-03-06T00:00:00Z')).toBe('2024-03-08T00:00:00.000Z');
+  });
+
+  it('reads the schedule on the wall clock of its time zone', () => {
+    expect(next('0 9 * * *', '2024-01-10T00:00:00Z', 'America/New_York')).toBe('2024-01-10T14:00:00.000Z');
+    expect(next('0 9 * * *', '2024-07-10T00:00:00Z', 'America/New_York')).toBe('2024-07-10T13:00:00.000Z');
+  });
+
+  it('skips a time that daylight saving jumps over', () => {
+    // 02:30 does not exist in New York on 2024-03-10
+    expect(next('30 2 * * *', '2024-03-09T12:00:00Z', 'America/New_York')).toBe('2024-03-11T06:30:00.000Z');
+  });
+
+  it('lists several fire times in order', () => {
+    const times = getNextFireTimes(parseCron('0 */6 * * *', 'UTC'), new Date('2024-03-05T01:00:00Z'), 3);
+    expect(times.map(time => time.toISOString())).toEqual([
+      '2024-03-05T06:00:00.000Z',
+      '2024-03-05T12:00:00.000Z',
+      '2024-03-05T18:00:00.000Z',
+    ]);
+  });
+});
@@ -0,0 +1,264 @@
+/**
+ * File: cron.ts
+ *
+ * Cron expressions for schedule triggers. Supports the standard 5-field syntax
+ * (minute hour day-of-month month day-of-week), a 6-field form with a leading seconds field,
+ * lists, ranges, steps, month and weekday names, and the @yearly/@monthly/@weekly/@daily/
+ * @hourly macros. Fire times are computed on the wall clock of a time zone: a time skipped by
+ * a daylight-saving change does not fire, and a time that occurs twice fires once.
+ *
+ * As in Vixie cron, when both day-of-month and day-of-week are restricted a day matches if
+ * either does.
+ */
+
+export class CronParseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CronParseError';
+  }
+}
+
+export interface CronSchedule {
+  expression: string;
+  timeZone: string;
+  seconds: Set<number>;
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>; // 1-12
+  daysOfWeek: Set<number>; // 0-6, Sunday is 0
+  dayOfMonthRestricted: boolean;
+  dayOfWeekRestricted: boolean;
+}
+
+const MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+};
+
+const MONTH_NAMES = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+const DAY_NAMES = ['SUN', 'MON', 'TUE', 'WED', 'THU', 'FRI', 'SAT'];
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[]; // names for min, min + 1, ...
+  allowQuestionMark?: boolean;
+}
+
+const FIELDS: Record<'second' | 'minute' | 'hour' | 'dayOfMonth' | 'month' | 'dayOfWeek', FieldSpec> = {
+  second: { name: 'second', min: 0, max: 59 },
+  minute: { name: 'minute', min: 0, max: 59 },
+  hour: { name: 'hour', min: 0, max: 23 },
+  dayOfMonth: { name: 'day of month', min: 1, max: 31, allowQuestionMark: true },
+  month: { name: 'month', min: 1, max: 12, names: MONTH_NAMES },
+  // 7 is accepted as a second Sunday
+  dayOfWeek: { name: 'day of week', min: 0, max: 7, names: DAY_NAMES, allowQuestionMark: true },
+};
+
+// Schedules are searched at most this far ahead; expressions such as '0 0 30 2 *' never fire
+const SEARCH_LIMIT_YEARS = 8;
+
+const parseValue = (token: string, spec: FieldSpec): number => {
+  const index = spec.names?.indexOf(token.toUpperCase()) ?? -1;
+  if (index !== -1) return spec.min + index;
+
+  if (!/^\d+$/.test(token)) {
+    throw new CronParseError(`Invalid ${spec.name} value '${token}'`);
+  }
+  const value = Number(token);
+  if (value < spec.min || value > spec.max) {
+    throw new CronParseError(`${spec.name} value ${value} is out of range ${spec.min}-${spec.max}`);
+  }
+  return value;
+};
+
+const parseField = (source: string, spec: FieldSpec): Set<number> => {
+  const values = new Set<number>();
+
+  for (const part of source.split(',')) {
+    const [range, stepSource, extra] = part.split('/');
+    if (extra !== undefined || range === '') {
+      throw new CronParseError(`Invalid ${spec.name} field '${source}'`);
+    }
+
+    let step = 1;
+    if (stepSource !== undefined) {
+      if (!/^\d+$/.test(stepSource) || Number(stepSource) === 0) {
+        throw new CronParseError(`Invalid step '${stepSource}' in ${spec.name} field`);
+      }
+      step = Number(stepSource);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*' || (range === '?' && spec.allowQuestionMark)) {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to, rest] = range.split('-');
+      if (rest !== undefined) throw new CronParseError(`Invalid range '${range}' in ${spec.name} field`);
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) throw new CronParseError(`Range '${range}' in ${spec.name} field runs backwards`);
+    } else {
+      start = parseValue(range, spec);
+      // 'a/n' means every n-th value starting at a
+      end = stepSource !== undefined ? spec.max : start;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+
+  return values;
+};
+
+export const getLocalTimeZone = (): string => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const parseCron = (expression: string, timeZone: string = getLocalTimeZone()): CronSchedule => {
+  const trimmed = expression.trim();
+  if (!trimmed) throw new CronParseError('Cron expression is empty');
+  if (!isValidTimeZone(timeZone)) throw new CronParseError(`Unknown time zone '${timeZone}'`);
+
+  let source = trimmed;
+  if (trimmed.startsWith('@')) {
+    source = MACROS[trimmed.toLowerCase()];
+    if (!source) throw new CronParseError(`Unknown macro '${trimmed}'`);
+  }
+
+  const parts = source.split(/\s+/);
+  if (parts.length !== 5 && parts.length !== 6) {
+    throw new CronParseError(`Expected 5 or 6 fields, got ${parts.length}`);
+  }
+  const [second, minute, hour, dayOfMonth, month, dayOfWeek] = parts.length === 6 ? parts : ['0', ...parts];
+
+  const daysOfWeek = parseField(dayOfWeek, FIELDS.dayOfWeek);
+  if (daysOfWeek.delete(7)) daysOfWeek.add(0);
+
+  return {
+    expression: trimmed,
+    timeZone,
+    seconds: parseField(second, FIELDS.second),
+    minutes: parseField(minute, FIELDS.minute),
+    hours: parseField(hour, FIELDS.hour),
+    daysOfMonth: parseField(dayOfMonth, FIELDS.dayOfMonth),
+    months: parseField(month, FIELDS.month),
+    daysOfWeek,
+    dayOfMonthRestricted: !/^[*?]/.test(dayOfMonth),
+    dayOfWeekRestricted: !/^[*?]/.test(dayOfWeek),
+  };
+};
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: 'numeric',
+      day: 'numeric',
+      hour: 'numeric',
+      minute: 'numeric',
+      second: 'numeric',
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+// The wall-clock time an instant shows in a time zone, encoded as if that wall time were UTC
+const toWallTime = (instant: number, timeZone: string): number => {
+  const parts: Record<string, number> = {};
+  for (const part of getFormatter(timeZone).formatToParts(new Date(instant))) {
+    if (part.type !== 'literal') parts[part.type] = Number(part.value);
+  }
+  return Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second);
+};
+
+// The earliest instant that shows the given wall time, or null if the time zone skips it
+const fromWallTime = (wallTime: number, timeZone: string): number | null => {
+  const HALF_DAY = 12 * 60 * 60 * 1000;
+  const candidates = [wallTime - HALF_DAY, wallTime + HALF_DAY]
+    .map(probe => wallTime - (toWallTime(probe, timeZone) - probe))
+    .filter(instant => toWallTime(instant, timeZone) === wallTime);
+  return candidates.length > 0 ? Math.min(...candidates) : null;
+};
+
+const matchesDay = (schedule: CronSchedule, date: Date): boolean => {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getUTCDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getUTCDay());
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) return dayOfMonth || dayOfWeek;
+  if (schedule.dayOfMonthRestricted) return dayOfMonth;
+  if (schedule.dayOfWeekRestricted) return dayOfWeek;
+  return true;
+};
+
+// First fire time strictly after the given instant, or null if the schedule never fires
+export const getNextFireTime = (schedule: CronSchedule, after: Date): Date | null => {
+  const { timeZone } = schedule;
+  const afterTime = after.getTime();
+  let wall = Math.floor(toWallTime(afterTime, timeZone) / 1000) * 1000 + 1000;
+  const limit = wall + SEARCH_LIMIT_YEARS * 366 * 24 * 60 * 60 * 1000;
+
+  // Walks the wall clock field by field, jumping over whole months, days, hours and minutes
+  while (wall < limit) {
+    const date = new Date(wall);
+    const [year, month, day, hour, minute] = [
+      date.getUTCFullYear(),
+      date.getUTCMonth(),
+      date.getUTCDate(),
+      date.getUTCHours(),
+      date.getUTCMinutes(),
+    ];
+
+    if (!schedule.months.has(month + 1)) {
+      wall = Date.UTC(year, month + 1, 1);
+    } else if (!matchesDay(schedule, date)) {
+      wall = Date.UTC(year, month, day + 1);
+    } else if (!schedule.hours.has(hour)) {
+      wall = Date.UTC(year, month, day, hour + 1);
+    } else if (!schedule.minutes.has(minute)) {
+      wall = Date.UTC(year, month, day, hour, minute + 1);
+    } else if (!schedule.seconds.has(date.getUTCSeconds())) {
+      wall += 1000;
+    } else {
+      const instant = fromWallTime(wall, timeZone);
+      if (instant !== null && instant > afterTime) return new Date(instant);
+      wall += 1000;
+    }
+  }
+
+  return null;
+};
+
+export const getNextFireTimes = (schedule: CronSchedule, after: Date, count: number): Date[] => {
+  const times: Date[] = [];
+  let cursor = after;
+  while (times.length < count) {
+    const next = getNextFireTime(schedule, cursor);
+    if (!next) break;
+    times.push(next);
+    cursor = next;
+  }
+  return times;
+};
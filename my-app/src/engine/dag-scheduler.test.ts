@@ -0,0 +1,67 @@
+import { describe, expect, it } from 'vitest';
+import { ConcurrencyBudget, DagScheduler } from './dag-scheduler';
+
+const edges = (...pairs: Array<[string, string]>) => pairs.map(([from, to]) => ({ from, to }));
+
+describe('DagScheduler', () => {
+  it('orders nodes topologically, breaking ties by the order given', () => {
+    const scheduler = new DagScheduler(['d', 'b', 'c', 'a'], edges(['a', 'b'], ['a', 'c'], ['b', 'd'], ['c', 'd']));
+    expect(scheduler.executionOrder).toEqual(['a', 'b', 'c', 'd']);
+  });
+
+  it('rejects circular graphs', () => {
+    expect(() => new DagScheduler(['a', 'b'], edges(['a', 'b'], ['b', 'a']))).toThrow('circular');
+  });
+
+  it('starts a node only once everything upstream has settled', async () => {
+    const finished: string[] = [];
+    const scheduler = new DagScheduler(['a', 'b', 'c'], edges(['a', 'c'], ['b', 'c']));
+    await scheduler.run(async nodeId => {
+      if (nodeId === 'c') expect(finished).toEqual(expect.arrayContaining(['a', 'b']));
+      await new Promise(resolve => setTimeout(resolve, nodeId === 'a' ? 5 : 1));
+      finished.push(nodeId);
+    });
+    expect(finished.at(-1)).toBe('c');
+  });
+
+  it('keeps at most maxConcurrency tasks in flight', async () => {
+    let running = 0;
+    let peak = 0;
+    const scheduler = new DagScheduler(['a', 'b', 'c', 'd', 'e'], [], 2);
+    await scheduler.run(async () => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setTimeout(resolve, 2));
+      running--;
+    });
+    expect(peak).toBe(2);
+  });
+
+  it('shares one limit between schedulers given the same budget', async () => {
+    let running = 0;
+    let peak = 0;
+    const budget = new ConcurrencyBudget(3);
+    const task = async () => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setTimeout(resolve, 2));
+      running--;
+    };
+
+    await Promise.all([
+      new DagScheduler(['a', 'b', 'c', 'd'], [], budget).run(task),
+      new DagScheduler(['e', 'f', 'g', 'h'], [], budget).run(task),
+    ]);
+    expect(peak).toBe(3);
+  });
+
+  it('starts nothing new after a task fails and rejects with its error', async () => {
+    const started: string[] = [];
+    const scheduler = new DagScheduler(['a', 'b', 'c'], edges(['a', 'b'], ['b', 'c']));
+    await expect(
+      scheduler.run(async nodeId => {
+        started.push(nodeId);
+        if (nodeId === 'b') throw new Error('b broke');
+      })
+    ).rejects.toThrow('b broke');
+    expect(started).toEqual(['a', 'b']);
+  });
+});
@@ -0,0 +1,172 @@
+/**
+ * File: dag-scheduler.ts
+ *
+ * Runs the nodes of a workflow graph as soon as all of their upstream nodes have settled,
+ * keeping at most `maxConcurrency` tasks in flight. Ready nodes are started in a fixed
+ * topological order so that runs of the same graph are reproducible. Schedulers given the same
+ * ConcurrencyBudget share one limit, so nested graphs (loop bodies) do not multiply it.
+ */
+
+export const DEFAULT_MAX_CONCURRENCY = 4;
+
+export type DagTask = (nodeId: string) => Promise<void>;
+
+// Slots for tasks in flight; a released slot goes to whoever has waited longest
+export class ConcurrencyBudget {
+  private free: number;
+  private waiting: Array<() => void> = [];
+
+  constructor(size = DEFAULT_MAX_CONCURRENCY) {
+    this.free = Math.max(1, size);
+  }
+
+  tryAcquire(): boolean {
+    if (this.free === 0) return false;
+    this.free--;
+    return true;
+  }
+
+  acquire(): Promise<void> {
+    if (this.tryAcquire()) return Promise.resolve();
+    return new Promise(resolve => this.waiting.push(resolve));
+  }
+
+  release(): void {
+    const next = this.waiting.shift();
+    if (next) {
+      next();
+    } else {
+      this.free++;
+    }
+  }
+}
+
+export class DagScheduler {
+  private upstream: Map<string, Set<string>> = new Map();
+  private downstream: Map<string, Set<string>> = new Map();
+  private order: string[];
+  private budget: ConcurrencyBudget;
+  private stopped = false;
+
+  constructor(
+    nodeIds: string[],
+    edges: Array<{ from: string; to: string }>,
+    maxConcurrency: number | ConcurrencyBudget = DEFAULT_MAX_CONCURRENCY
+  ) {
+    this.budget = maxConcurrency instanceof ConcurrencyBudget ? maxConcurrency : new ConcurrencyBudget(maxConcurrency);
+
+    for (const nodeId of nodeIds) {
+      this.upstream.set(nodeId, new Set());
+      this.downstream.set(nodeId, new Set());
+    }
+    for (const { from, to } of edges) {
+      if (!this.upstream.has(from) || !this.upstream.has(to)) continue;
+      this.upstream.get(to)!.add(from);
+      this.downstream.get(from)!.add(to);
+    }
+
+    this.order = this.topologicalSort(nodeIds);
+    if (this.order.length < nodeIds.length) {
+      throw new Error('Workflow contains circular dependencies');
+    }
+  }
+
+  // Deterministic topological order; ties are broken by the order nodes were given in
+  get executionOrder(): string[] {
+    return [...this.order];
+  }
+
+  // Prevents any further nodes from starting; tasks already in flight are allowed to finish
+  stop(): void {
+    this.stopped = true;
+  }
+
+  run(task: DagTask): Promise<void> {
+    const rank = new Map(this.order.map((nodeId, index) => [nodeId, index]));
+    const unsettled = new Map(this.order.map(nodeId => [nodeId, this.upstream.get(nodeId)!.size]));
+    const ready = this.order.filter(nodeId => unsettled.get(nodeId) === 0);
+    let running = 0;
+    let waiting = false; // for a slot held by another scheduler on the same budget
+    let failure: unknown;
+
+    return new Promise((resolve, reject) => {
+      const settle = (nodeId: string) => {
+        running--;
+        this.budget.release();
+        for (const dependent of this.downstream.get(nodeId)!) {
+          const count = unsettled.get(dependent)! - 1;
+          unsettled.set(dependent, count);
+          if (count === 0) {
+            ready.push(dependent);
+          }
+        }
+        ready.sort((a, b) => rank.get(a)! - rank.get(b)!);
+        pump();
+      };
+
+      const start = (nodeId: string) => {
+        running++;
+        task(nodeId).then(
+          () => settle(nodeId),
+          error => {
+            failure ??= error;
+            this.stopped = true;
+            settle(nodeId);
+          }
+        );
+      };
+
+      const pump = () => {
+        while (!this.stopped && !waiting && ready.length > 0) {
+          if (this.budget.tryAcquire()) {
+            start(ready.shift()!);
+            continue;
+          }
+          waiting = true;
+          void this.budget.acquire().then(() => {
+            waiting = false;
+            if (this.stopped) {
+              this.budget.release();
+            } else {
+              start(ready.shift()!);
+            }
+            pump();
+          });
+        }
+
+        if (running === 0 && (this.stopped || ready.length === 0)) {
+          if (failure !== undefined) {
+            reject(failure);
+          } else {
+            resolve();
+          }
+        }
+      };
+
+      pump();
+    });
+  }
+
+  private topologicalSort(nodeIds: string[]): string[] {
+    const inDegree = new Map(nodeIds.map(nodeId => [nodeId, this.upstream.get(nodeId)!.size]));
+    const queue = nodeIds.filter(nodeId => inDegree.get(nodeId) === 0);
+    const position = new Map(nodeIds.map((nodeId, index) => [nodeId, index]));
+    const order: string[] = [];
+
+    while (queue.length > 0) {
+      const nodeId = queue.shift()!;
+      order.push(nodeId);
+
+      for (const dependent of this.downstream.get(nodeId)!) {
+        const degree = inDegree.get(dependent)! - 1;
+        inDegree.set(dependent, degree);
+        if (degree === 0) {
+          queue.push(dependent);
+          queue.sort((a, b) => position.get(a)! - position.get(b)!);
+        }
+      }
+    }
+
+    return order;
+  }
+}
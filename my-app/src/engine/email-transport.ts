@@ -0,0 +1,75 @@
+/**
+ * File: email-transport.ts
+ *
+ * How email leaves the engine. An EmailTransport delivers a rendered message and reports which
+ * recipients were accepted. OutboxTransport keeps messages in memory instead of sending them,
+ * for the builder and for tests; an SMTP transport for Node is in server/smtp-transport.ts.
+ */
+
+import { parseMailbox } from './validation';
+
+export interface EmailAttachment {
+  fileName: string;
+  mimeType: string;
+  content: Uint8Array;
+}
+
+export interface EmailMessage {
+  from?: string; // transports fall back to their own sender
+  to: string[];
+  cc: string[];
+  bcc: string[];
+  replyTo?: string;
+  subject: string;
+  html: string;
+  text: string;
+  attachments: EmailAttachment[];
+}
+
+export interface EmailSendResult {
+  messageId: string;
+  accepted: string[];
+  rejected: string[];
+}
+
+export interface EmailTransport {
+  send(message: EmailMessage): Promise<EmailSendResult>;
+}
+
+export interface OutboxEntry {
+  messageId: string;
+  sentAt: string; // ISO timestamp
+  message: EmailMessage;
+}
+
+export const DEFAULT_SENDER = 'workflows@localhost';
+
+export const createMessageId = (from: string): string =>
+  `<${Date.now()}.${Math.random().toString(36).substr(2, 9)}@${parseMailbox(from).address.split('@')[1] ?? 'localhost'}>`;
+
+export class OutboxTransport implements EmailTransport {
+  private entries: OutboxEntry[] = [];
+  private from: string;
+
+  constructor(options: { from?: string } = {}) {
+    this.from = options.from ?? DEFAULT_SENDER;
+  }
+
+  async send(message: EmailMessage): Promise<EmailSendResult> {
+    const entry: OutboxEntry = {
+      messageId: createMessageId(message.from ?? this.from),
+      sentAt: new Date().toISOString(),
+      message: { ...message, from: message.from ?? this.from },
+    };
+    this.entries.push(entry);
+    return { messageId: entry.messageId, accepted: [...message.to, ...message.cc, ...message.bcc], rejected: [] };
+  }
+
+  list(): OutboxEntry[] {
+    return [...this.entries];
+  }
+
+  clear(): void {
+    this.entries = [];
+  }
+}
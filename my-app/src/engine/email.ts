@@ -0,0 +1,130 @@
+/**
+ * File: email.ts
+ *
+ * Email for Email nodes. The node renders its template into an HTML body with a plain-text
+ * fallback, gathers attachments from the engine's file store and hands the message to the
+ * engine's EmailTransport (see email-transport.ts), or to the SMTP server of a stored credential
+ * where the engine can reach mail servers.
+ *
+ * Template values are HTML-escaped, so upstream data always shows as text. Attachments are
+ * file references produced by other nodes, e.g. {{ nodes["Invoice"].output.pdf }}, or file IDs.
+ */
+
+import { BaseNodeProcessor } from '../workflow-engine-core';
+import type { DataValue, EmailNodeConfig, NodeData, NodeExecutionContext, NodeRuntime } from '../workflow-engine-core';
+import type { PortDefinition } from './node-registry';
+import { isFileReference } from './file-store';
+import { isValidEmail, parseMailbox } from './validation';
+import type { EmailAttachment, EmailMessage, EmailTransport } from './email-transport';
+import { toSmtpSettings } from './credentials';
+
+export const EMAIL_OUTPUTS: PortDefinition[] = [
+  { name: 'messageId', label: 'Message ID', dataType: 'string' },
+  { name: 'accepted', label: 'Accepted', dataType: 'array' },
+  { name: 'rejected', label: 'Rejected', dataType: 'array' },
+];
+
+export const escapeHtml = (text: string): string =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+const ENTITIES: Record<string, string> = { amp: '&', lt: '<', gt: '>', quot: '"', '#39': "'", nbsp: ' ' };
+
+// The plain-text fallback of an HTML body: block ends become line breaks and links keep their URL
+export const htmlToText = (html: string): string =>
+  html
+    .replace(/<(style|script|head)[\s\S]*?<\/\1>/gi, '')
+    .replace(/<a\s[^>]*href="([^"]*)"[^>]*>([\s\S]*?)<\/a>/gi, (_, href: string, label: string) =>
+      label.trim() && label.trim() !== href ? `${label} (${href})` : href
+    )
+    .replace(/<br\s*\/?>/gi, '\n')
+    .replace(/<li[^>]*>/gi, '- ')
+    .replace(/<\/(p|div|h[1-6]|li|tr|table|ul|ol)>/gi, '\n')
+    .replace(/<[^>]+>/g, '')
+    .replace(/&(amp|lt|gt|quot|#39|nbsp);/g, (_, entity: string) => ENTITIES[entity])
+    .replace(/[ \t]+\n/g, '\n')
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+
+export const textToHtml = (text: string): string =>
+  text
+    .split(/\n{2,}/)
+    .map(paragraph => `<p>${escapeHtml(paragraph).replace(/\n/g, '<br>')}</p>`)
+    .join('\n');
+
+// Values from expressions may be lists or comma-separated text
+export const toAddressList = (value: DataValue): string[] =>
+  (Array.isArray(value) ? value : [value])
+    .flatMap(item => (typeof item === 'string' ? item.split(',') : []))
+    .map(address => address.trim())
+    .filter(Boolean);
+
+export class EmailProcessor extends BaseNodeProcessor {
+  async execute(context: NodeExecutionContext, _signal?: AbortSignal, runtime?: NodeRuntime): Promise<NodeData> {
+    const config = this.config as EmailNodeConfig;
+    if (!runtime) throw new Error('Email nodes can only run inside the workflow engine');
+
+    const to = toAddressList(config.recipients);
+    const cc = toAddressList(config.cc ?? []);
+    const bcc = toAddressList(config.bcc ?? []);
+    const replyTo = config.replyTo?.trim() || undefined;
+    const from = config.from?.trim() || undefined;
+
+    if (to.length === 0) throw new Error('No recipients to send to');
+    const invalid = [...to, ...cc, ...bcc, ...(replyTo ? [replyTo] : []), ...(from ? [from] : [])].filter(
+      address => !isValidEmail(parseMailbox(address).address)
+    );
+    if (invalid.length > 0) throw new Error(`Invalid email address: ${invalid.join(', ')}`);
+
+    const template = config.template ?? '';
+    const html =
+      config.templateFormat === 'text'
+        ? textToHtml(runtime.renderTemplate(template))
+        : runtime.renderTemplate(template, escapeHtml);
+    const text = config.templateFormat === 'text' ? runtime.renderTemplate(template) : htmlToText(html);
+
+    const message: EmailMessage = {
+      from,
+      to,
+      cc,
+      bcc,
+      replyTo,
+      subject: config.subject ?? '',
+      html,
+      text,
+      attachments: await this.loadAttachments(config.attachments ?? [], runtime),
+    };
+
+    const mailer = await this.resolveMailer(context, config, runtime);
+    this.log(context, `Sending '${message.subject}' to ${to.length + cc.length + bcc.length} recipient(s)`);
+    const result = await mailer.send(message);
+    if (result.rejected.length > 0) this.log(context, `Rejected: ${result.rejected.join(', ')}`);
+    this.log(context, `Sent as ${result.messageId}`);
+    return { messageId: result.messageId, accepted: result.accepted, rejected: result.rejected };
+  }
+
+  private async resolveMailer(context: NodeExecutionContext, config: EmailNodeConfig, runtime: NodeRuntime): Promise<EmailTransport> {
+    if (!config.credentialId) return runtime.mailer;
+    const credential = await runtime.resolveCredential(config.credentialId, ['smtp']);
+    if (!runtime.smtpTransport) {
+      this.log(context, `Mail servers cannot be reached from here, so ${credential.name} is not used`);
+      return runtime.mailer;
+    }
+    this.log(context, `Sending through ${credential.name}`);
+    return runtime.smtpTransport(toSmtpSettings(credential));
+  }
+
+  // Each entry resolves to a file reference, a list of them or a file ID
+  private async loadAttachments(entries: DataValue[], runtime: NodeRuntime): Promise<EmailAttachment[]> {
+    const attachments: EmailAttachment[] = [];
+    for (const entry of entries.flat()) {
+      if (entry === null || entry === undefined || entry === '') continue;
+      const fileId = isFileReference(entry) ? entry.fileId : typeof entry === 'string' ? entry.trim() : undefined;
+      const file = fileId ? await runtime.files.read(fileId) : undefined;
+      if (!file) {
+        throw new Error(`Attachment ${typeof entry === 'string' ? entry : JSON.stringify(entry)} is not a stored file`);
+      }
+      attachments.push({ fileName: file.reference.fileName, mimeType: file.reference.mimeType, content: file.content });
+    }
+    return attachments;
+  }
+}
@@ -0,0 +1,172 @@
+/**
+ * File: event-bus.ts
+ *
+ * In-process bus for named events. Nodes announce events when they complete (a table node's
+ * writes, or any node with `emitEvent` set) and the application can emit its own with emit().
+ * Every active workflow with an enabled 'event' trigger whose eventSource matches the name and
+ * whose filter holds on the payload starts with the event as trigger data.
+ *
+ * Workflows started by events may announce events of their own. The bus follows each chain of
+ * such runs and drops an event instead of starting a workflow when the chain grows past
+ * maxChainDepth, or when the same event would start the same workflow a second time, which
+ * would otherwise repeat forever.
+ */
+
+import type {
+  ExecutionOptions,
+  NamedEvent,
+  NodeData,
+  TriggerNodeConfig,
+  Workflow,
+  WorkflowExecutionEngine,
+} from '../workflow-engine-core';
+import { evaluateCondition } from './conditions';
+
+export const DEFAULT_MAX_CHAIN_DEPTH = 8;
+
+// One workflow run in a chain of event-started runs; the first link is the run that began it
+export interface EventChainLink {
+  workflowId: string;
+  executionId: string;
+  event?: string; // the event that started this run; unset for the first link
+}
+
+export interface BusEvent extends NamedEvent {
+  emittedAt: string; // ISO timestamp
+  source?: { workflowId: string; executionId: string; nodeId: string };
+  chain: EventChainLink[]; // runs that led to this event, oldest first
+}
+
+export type BusEventListener = (event: BusEvent, startedExecutionIds: string[]) => void;
+
+export interface EventBusOptions {
+  engine: Pick<WorkflowExecutionEngine, 'startWorkflow' | 'subscribe'>;
+  maxChainDepth?: number;
+  onEventDropped?: (event: BusEvent, workflow: Workflow, reason: string) => void;
+}
+
+// '*' matches exactly one dot-separated segment: 'table.*.created' matches 'table.orders.created'
+export const matchesEventName = (pattern: string, name: string): boolean => {
+  const patternSegments = pattern.trim().split('.');
+  const nameSegments = name.split('.');
+  return (
+    patternSegments.length === nameSegments.length &&
+    patternSegments.every((segment, index) => segment === '*' || segment === nameSegments[index])
+  );
+};
+
+export const buildEventTriggerData = (event: BusEvent): NodeData => ({
+  event: event.name,
+  payload: event.payload,
+  emittedAt: event.emittedAt,
+  source: event.source,
+});
+
+export class WorkflowEventBus {
+  private engine: EventBusOptions['engine'];
+  private maxChainDepth: number;
+  private onEventDropped?: EventBusOptions['onEventDropped'];
+  private workflows: Workflow[] = [];
+  private executionOptions: ExecutionOptions = {};
+  private chains: Map<string, EventChainLink[]> = new Map(); // running executions started by the bus
+  private listeners: Set<BusEventListener> = new Set();
+  private unsubscribe: () => void;
+
+  constructor(options: EventBusOptions) {
+    this.engine = options.engine;
+    this.maxChainDepth = options.maxChainDepth ?? DEFAULT_MAX_CHAIN_DEPTH;
+    this.onEventDropped = options.onEventDropped;
+    this.unsubscribe = this.engine.subscribe(event => {
+      if (event.type === 'eventEmitted') {
+        const chain = this.chains.get(event.executionId) ?? [{ workflowId: event.workflowId, executionId: event.executionId }];
+        this.publish({
+          ...event.event,
+          emittedAt: event.timestamp.toISOString(),
+          source: { workflowId: event.workflowId, executionId: event.executionId, nodeId: event.nodeId },
+          chain,
+        });
+      } else if (event.type === 'executionEnd') {
+        this.chains.delete(event.executionId);
+      }
+    });
+  }
+
+  // Sets the workflows whose event triggers receive events
+  sync(workflows: Workflow[], executionOptions: ExecutionOptions = {}): void {
+    this.workflows = workflows;
+    this.executionOptions = executionOptions;
+  }
+
+  // Announces an event from outside any workflow; returns the IDs of the executions it started
+  emit(name: string, payload: NodeData = {}): string[] {
+    return this.publish({ name, payload, emittedAt: new Date().toISOString(), chain: [] });
+  }
+
+  // Hears every event, with the executions it started; returns an unsubscribe function
+  subscribe(listener: BusEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  dispose(): void {
+    this.unsubscribe();
+    this.listeners.clear();
+    this.chains.clear();
+  }
+
+  private publish(event: BusEvent): string[] {
+    const started: string[] = [];
+
+    for (const workflow of this.workflows.filter(w => w.isActive)) {
+      for (const trigger of this.findTriggers(workflow, event)) {
+        const reason = this.getLoopReason(event, workflow);
+        if (reason) {
+          this.onEventDropped?.(event, workflow, reason);
+          continue;
+        }
+
+        const handle = this.engine.startWorkflow(workflow, buildEventTriggerData(event), {
+          ...this.executionOptions,
+          triggerNodeId: trigger.id,
+        });
+        this.chains.set(handle.executionId, [
+          ...event.chain,
+          { workflowId: workflow.id, executionId: handle.executionId, event: event.name },
+        ]);
+        started.push(handle.executionId);
+        // A workflow starts once per event even if several of its triggers match
+        break;
+      }
+    }
+
+    for (const listener of [...this.listeners]) {
+      listener(event, started);
+    }
+    return started;
+  }
+
+  private findTriggers(workflow: Workflow, event: BusEvent): TriggerNodeConfig[] {
+    return workflow.nodes.filter((node): node is TriggerNodeConfig => {
+      if (node.type !== 'trigger' || !node.enabled) return false;
+      const trigger = node as TriggerNodeConfig;
+      return (
+        trigger.triggerType === 'event' &&
+        !!trigger.eventSource &&
+        matchesEventName(trigger.eventSource, event.name) &&
+        (trigger.eventFilter ?? []).every(condition => !condition.field || evaluateCondition(condition, event.payload))
+      );
+    });
+  }
+
+  private getLoopReason(event: BusEvent, workflow: Workflow): string | undefined {
+    if (event.chain.length >= this.maxChainDepth) {
+      return `Event chain is already ${event.chain.length} workflows deep (limit ${this.maxChainDepth})`;
+    }
+    if (event.chain.some(link => link.workflowId === workflow.id && link.event === event.name)) {
+      return `'${event.name}' already started workflow ${workflow.name} earlier in this chain`;
+    }
+    return undefined;
+  }
+}
@@ -0,0 +1,65 @@
+/**
+ * File: execution-control.ts
+ *
+ * Cancel and pause requests for a running execution. Cancelling aborts the signal handed to
+ * processors and abandons work still in flight; pausing lets running nodes finish and stops
+ * the execution before the next node starts.
+ */
+
+export class ExecutionCancelledError extends Error {
+  constructor(message = 'Execution cancelled') {
+    super(message);
+    this.name = 'ExecutionCancelledError';
+  }
+}
+
+export class ExecutionControl {
+  private controller = new AbortController();
+  private pauseRequested = false;
+
+  get signal(): AbortSignal {
+    return this.controller.signal;
+  }
+
+  get cancelled(): boolean {
+    return this.controller.signal.aborted;
+  }
+
+  get pausing(): boolean {
+    return this.pauseRequested;
+  }
+
+  cancel(): void {
+    if (!this.cancelled) {
+      this.controller.abort(new ExecutionCancelledError());
+    }
+  }
+
+  pause(): void {
+    this.pauseRequested = true;
+  }
+}
+
+// The error a cancelled signal should surface as, whatever reason it was aborted with
+export const getAbortError = (signal: AbortSignal): Error =>
+  signal.reason instanceof Error ? signal.reason : new ExecutionCancelledError();
+
+// Rejects as soon as `signal` aborts, even when `promise` itself ignores the signal
+export const withAbort = <T>(promise: Promise<T>, signal: AbortSignal): Promise<T> => {
+  if (signal.aborted) return Promise.reject(getAbortError(signal));
+
+  return new Promise<T>((resolve, reject) => {
+    const onAbort = () => reject(getAbortError(signal));
+    signal.addEventListener('abort', onAbort, { once: true });
+    promise.then(
+      value => {
+        signal.removeEventListener('abort', onAbort);
+        resolve(value);
+      },
+      error => {
+        signal.removeEventListener('abort', onAbort);
+        reject(error);
+      }
+    );
+  });
+};
@@ -0,0 +1,215 @@
+/**
+ * File: execution-events.ts
+ *
+ * Typed events the engine emits while an execution runs. Every event is a snapshot taken at
+ * the moment it was emitted, so listeners may keep it. Folding the events of one execution
+ * with applyExecutionEvent rebuilds its record, progressively while it runs and exactly once
+ * executionEnd arrives.
+ */
+
+import type {
+  ExecutionStatus,
+  NamedEvent,
+  NodeExecutionContext,
+  WorkflowExecution,
+} from '../workflow-engine-core';
+
+interface ExecutionEventBase {
+  executionId: string;
+  workflowId: string;
+  timestamp: Date;
+}
+
+interface NodeEventBase extends ExecutionEventBase {
+  nodeId: string;
+  nodeName: string;
+  iteration?: number; // set for nodes running inside an iterator's loop body
+}
+
+export interface ExecutionStartEvent extends ExecutionEventBase {
+  type: 'executionStart';
+  execution: WorkflowExecution; // nodes restored from a checkpoint are already included
+  resumed: boolean;
+}
+
+export interface NodeStartEvent extends NodeEventBase {
+  type: 'nodeStart';
+  context: NodeExecutionContext;
+}
+
+export interface NodeLogEvent extends NodeEventBase {
+  type: 'nodeLog';
+  message: string; // the log entry as appended to the node's logs, with credential secrets redacted
+}
+
+// Also emitted for skipped nodes, and again for iterators once their loop has finished
+export interface NodeCompleteEvent extends NodeEventBase {
+  type: 'nodeComplete';
+  context: NodeExecutionContext;
+}
+
+// Also emitted for nodes abandoned by a cancellation
+export interface NodeFailEvent extends NodeEventBase {
+  type: 'nodeFail';
+  context: NodeExecutionContext;
+  error: string;
+}
+
+// A completed node announced a named event; see engine/event-bus.ts for who receives it
+export interface NodeEventEmittedEvent extends NodeEventBase {
+  type: 'eventEmitted';
+  event: NamedEvent;
+}
+
+export interface ExecutionEndEvent extends ExecutionEventBase {
+  type: 'executionEnd';
+  status: ExecutionStatus;
+  execution: WorkflowExecution; // the final record
+}
+
+export type ExecutionEvent =
+  | ExecutionStartEvent
+  | NodeStartEvent
+  | NodeLogEvent
+  | NodeCompleteEvent
+  | NodeFailEvent
+  | NodeEventEmittedEvent
+  | ExecutionEndEvent;
+
+export type ExecutionEventType = ExecutionEvent['type'];
+
+export type ExecutionEventOf<T extends ExecutionEventType> = Extract<ExecutionEvent, { type: T }>;
+
+export type ExecutionEventListener<E extends ExecutionEvent = ExecutionEvent> = (event: E) => void;
+
+export class ExecutionEventEmitter {
+  private listeners: Set<ExecutionEventListener> = new Set();
+
+  emit(event: ExecutionEvent): void {
+    for (const listener of [...this.listeners]) {
+      try {
+        listener(event);
+      } catch (error) {
+        // A broken listener must not break the execution it observes
+        console.error(`Execution event listener failed on '${event.type}':`, error);
+      }
+    }
+  }
+
+  // Returns a function that removes the listener
+  subscribe(listener: ExecutionEventListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  on<T extends ExecutionEventType>(type: T, listener: ExecutionEventListener<ExecutionEventOf<T>>): () => void {
+    return this.subscribe(event => {
+      if (event.type === type) {
+        listener(event as ExecutionEventOf<T>);
+      }
+    });
+  }
+
+  // Async iterator over future events; ends after `until` matches or when the consumer stops
+  stream(
+    filter: (event: ExecutionEvent) => boolean = () => true,
+    until: (event: ExecutionEvent) => boolean = () => false
+  ): AsyncIterableIterator<ExecutionEvent> {
+    const queue: ExecutionEvent[] = [];
+    let waiting: ((result: IteratorResult<ExecutionEvent>) => void) | null = null;
+    let ended = false;
+
+    const finish = () => {
+      ended = true;
+      unsubscribe();
+      waiting?.({ value: undefined, done: true });
+      waiting = null;
+    };
+
+    const unsubscribe = this.subscribe(event => {
+      if (ended || !filter(event)) return;
+
+      if (waiting) {
+        waiting({ value: event, done: false });
+        waiting = null;
+      } else {
+        queue.push(event);
+      }
+
+      if (until(event)) {
+        ended = true;
+        unsubscribe();
+      }
+    });
+
+    return {
+      next: () => {
+        if (queue.length > 0) return Promise.resolve({ value: queue.shift()!, done: false });
+        if (ended) return Promise.resolve({ value: undefined, done: true });
+        return new Promise(resolve => {
+          waiting = resolve;
+        });
+      },
+      return: () => {
+        finish();
+        queue.length = 0;
+        return Promise.resolve({ value: undefined, done: true });
+      },
+      [Symbol.asyncIterator]() {
+        return this;
+      },
+    };
+  }
+}
+
+const logListeners = new WeakMap<NodeExecutionContext, (message: string) => void>();
+
+// Appends a timestamped entry to a node's logs and reports it to whoever watches the node
+export const appendNodeLog = (context: NodeExecutionContext, message: string): void => {
+  const entry = `[${new Date().toISOString()}] ${message}`;
+  context.logs.push(entry);
+  logListeners.get(context)?.(entry);
+};
+
+export const watchNodeLogs = (context: NodeExecutionContext, listener: (message: string) => void): void => {
+  logListeners.set(context, listener);
+};
+
+const upsertNode = (execution: WorkflowExecution, context: NodeExecutionContext): void => {
+  const index = execution.nodeExecutions.findIndex(exec => exec.nodeId === context.nodeId);
+  if (index !== -1) {
+    execution.nodeExecutions[index] = context;
+  } else {
+    execution.nodeExecutions.push(context);
+  }
+};
+
+// Folds one event into an execution record. Updates the record in place (so it works on an
+// immer draft) and returns it; executionStart and executionEnd replace it outright.
+export const applyExecutionEvent = (
+  execution: WorkflowExecution | null,
+  event: ExecutionEvent
+): WorkflowExecution | null => {
+  if (event.type === 'executionStart') {
+    return structuredClone(event.execution);
+  }
+  if (event.type === 'executionEnd') {
+    return execution && execution.id !== event.executionId ? execution : structuredClone(event.execution);
+  }
+  // Loop body nodes are summarised on their own record once the loop ends
+  if (!execution || execution.id !== event.executionId || event.iteration !== undefined || event.type === 'eventEmitted') {
+    return execution;
+  }
+
+  if (event.type === 'nodeLog') {
+    execution.nodeExecutions.find(exec => exec.nodeId === event.nodeId)?.logs.push(event.message);
+  } else {
+    upsertNode(execution, structuredClone(event.context));
+  }
+  return execution;
+};
+
+export const rebuildExecution = (events: ExecutionEvent[]): WorkflowExecution | null =>
+  events.reduce<WorkflowExecution | null>(applyExecutionEvent, null);
@@ -0,0 +1,558 @@
+/**
+ * File: expressions.ts
+ *
+ * `{{ }}` expressions for node config fields. Expressions are parsed into a small AST and
+ * interpreted against an explicit scope, so they can only read workflow data and call the
+ * helpers listed below — there is no `eval` and no access to prototypes or globals.
+ *
+ * Scope roots:
+ *   trigger    data that started the execution
+ *   vars       workflow variables
+ *   nodes      upstream nodes by name, outputs keyed by port: nodes["Fetch Customer"].output.response.email
+ *   input      the current node's input data
+ *   execution  { id, startTime }
+ * Bare names that are not scope roots or helpers are looked up in `input`, so simple
+ * templates such as `Hello {{name}}` keep working.
+ */
+
+import type {
+  DataValue,
+  NodeConfig,
+  NodeData,
+  NodeExecutionContext,
+  Workflow,
+  WorkflowExecution,
+} from '../workflow-engine-core';
+
+export class ExpressionError extends Error {
+  field?: string; // config field path the failing expression was found in
+
+  constructor(message: string, field?: string) {
+    super(message);
+    this.name = 'ExpressionError';
+    this.field = field;
+  }
+}
+
+export interface ExpressionScope {
+  trigger: NodeData;
+  vars: NodeData;
+  nodes: Record<string, { output: NodeData; input: NodeData; status?: string }>;
+  input: NodeData;
+  execution: { id: string; startTime?: string };
+}
+
+// ---------------------------------------------------------------------------
+// Tokenizer
+
+type Token =
+  | { kind: 'number'; value: number }
+  | { kind: 'string'; value: string }
+  | { kind: 'identifier'; value: string }
+  | { kind: 'punct'; value: string };
+
+const PUNCTUATION = ['===', '!==', '==', '!=', '<=', '>=', '&&', '||', '??', '.', '[', ']', '(', ')', ',', '?', ':', '+', '-', '*', '/', '%', '!', '<', '>'];
+
+const tokenize = (source: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+    } else if (/[0-9]/.test(char) || (char === '.' && /[0-9]/.test(source[i + 1] ?? ''))) {
+      const match = /^[0-9]*\.?[0-9]+(?:[eE][+-]?[0-9]+)?/.exec(source.slice(i))!;
+      tokens.push({ kind: 'number', value: Number(match[0]) });
+      i += match[0].length;
+    } else if (char === '"' || char === "'") {
+      let value = '';
+      i++;
+      while (i < source.length && source[i] !== char) {
+        if (source[i] === '\\' && i + 1 < source.length) {
+          const escaped = source[i + 1];
+          value += escaped === 'n' ? '\n' : escaped === 't' ? '\t' : escaped;
+          i += 2;
+        } else {
+          value += source[i++];
+        }
+      }
+      if (i >= source.length) throw new ExpressionError('Unterminated string literal');
+      i++;
+      tokens.push({ kind: 'string', value });
+    } else if (/[A-Za-z_$]/.test(char)) {
+      const match = /^[A-Za-z_$][A-Za-z0-9_$]*/.exec(source.slice(i))!;
+      tokens.push({ kind: 'identifier', value: match[0] });
+      i += match[0].length;
+    } else {
+      const punct = PUNCTUATION.find(p => source.startsWith(p, i));
+      if (!punct) throw new ExpressionError(`Unexpected character '${char}'`);
+      tokens.push({ kind: 'punct', value: punct });
+      i += punct.length;
+    }
+  }
+
+  return tokens;
+};
+
+// ---------------------------------------------------------------------------
+// Parser
+
+type Expression =
+  | { type: 'literal'; value: DataValue }
+  | { type: 'identifier'; name: string }
+  | { type: 'member'; object: Expression; property: Expression }
+  | { type: 'call'; callee: string; args: Expression[] }
+  | { type: 'unary'; operator: string; argument: Expression }
+  | { type: 'binary'; operator: string; left: Expression; right: Expression }
+  | { type: 'conditional'; test: Expression; consequent: Expression; alternate: Expression };
+
+const BINARY_PRECEDENCE: string[][] = [
+  ['??'],
+  ['||'],
+  ['&&'],
+  ['==', '!=', '===', '!=='],
+  ['<', '>', '<=', '>='],
+  ['+', '-'],
+  ['*', '/', '%'],
+];
+
+class Parser {
+  private position = 0;
+  private tokens: Token[];
+
+  constructor(tokens: Token[]) {
+    this.tokens = tokens;
+  }
+
+  parse(): Expression {
+    if (this.tokens.length === 0) throw new ExpressionError('Empty expression');
+    const expression = this.parseConditional();
+    const extra = this.peek();
+    if (extra) throw new ExpressionError(`Unexpected '${extra.value}'`);
+    return expression;
+  }
+
+  private peek(): Token | undefined {
+    return this.tokens[this.position];
+  }
+
+  private isPunct(value: string): boolean {
+    const token = this.peek();
+    return token?.kind === 'punct' && token.value === value;
+  }
+
+  private expect(value: string): void {
+    if (!this.isPunct(value)) {
+      const token = this.peek();
+      throw new ExpressionError(token ? `Expected '${value}' but found '${token.value}'` : `Expected '${value}'`);
+    }
+    this.position++;
+  }
+
+  private parseConditional(): Expression {
+    const test = this.parseBinary(0);
+    if (!this.isPunct('?')) return test;
+
+    this.position++;
+    const consequent = this.parseConditional();
+    this.expect(':');
+    const alternate = this.parseConditional();
+    return { type: 'conditional', test, consequent, alternate };
+  }
+
+  private parseBinary(level: number): Expression {
+    if (level >= BINARY_PRECEDENCE.length) return this.parseUnary();
+
+    let left = this.parseBinary(level + 1);
+    for (;;) {
+      const token = this.peek();
+      if (token?.kind !== 'punct' || !BINARY_PRECEDENCE[level].includes(token.value)) return left;
+      this.position++;
+      left = { type: 'binary', operator: token.value, left, right: this.parseBinary(level + 1) };
+    }
+  }
+
+  private parseUnary(): Expression {
+    if (this.isPunct('!') || this.isPunct('-') || this.isPunct('+')) {
+      const operator = this.peek()!.value as string;
+      this.position++;
+      return { type: 'unary', operator, argument: this.parseUnary() };
+    }
+    return this.parsePostfix();
+  }
+
+  private parsePostfix(): Expression {
+    let expression = this.parsePrimary();
+
+    for (;;) {
+      if (this.isPunct('.')) {
+        this.position++;
+        const token = this.peek();
+        if (token?.kind !== 'identifier') throw new ExpressionError("Expected a property name after '.'");
+        this.position++;
+        expression = { type: 'member', object: expression, property: { type: 'literal', value: token.value } };
+      } else if (this.isPunct('[')) {
+        this.position++;
+        const property = this.parseConditional();
+        this.expect(']');
+        expression = { type: 'member', object: expression, property };
+      } else if (this.isPunct('(')) {
+        if (expression.type !== 'identifier') throw new ExpressionError('Only helper functions can be called');
+        this.position++;
+        const args: Expression[] = [];
+        while (!this.isPunct(')')) {
+          args.push(this.parseConditional());
+          if (!this.isPunct(')')) this.expect(',');
+        }
+        this.position++;
+        expression = { type: 'call', callee: expression.name, args };
+      } else {
+        return expression;
+      }
+    }
+  }
+
+  private parsePrimary(): Expression {
+    const token = this.peek();
+    if (!token) throw new ExpressionError('Unexpected end of expression');
+    this.position++;
+
+    switch (token.kind) {
+      case 'number':
+      case 'string':
+        return { type: 'literal', value: token.value };
+      case 'identifier':
+        if (token.value === 'true') return { type: 'literal', value: true };
+        if (token.value === 'false') return { type: 'literal', value: false };
+        if (token.value === 'null') return { type: 'literal', value: null };
+        if (token.value === 'undefined') return { type: 'literal', value: undefined };
+        return { type: 'identifier', name: token.value };
+      case 'punct':
+        if (token.value === '(') {
+          const expression = this.parseConditional();
+          this.expect(')');
+          return expression;
+        }
+        throw new ExpressionError(`Unexpected '${token.value}'`);
+    }
+  }
+}
+
+const parseCache = new Map<string, Expression>();
+
+const parseExpression = (source: string): Expression => {
+  let expression = parseCache.get(source);
+  if (!expression) {
+    expression = new Parser(tokenize(source)).parse();
+    parseCache.set(source, expression);
+  }
+  return expression;
+};
+
+// ---------------------------------------------------------------------------
+// Helpers
+
+const BLOCKED_PROPERTIES = new Set(['__proto__', 'prototype', 'constructor']);
+
+const toDate = (value: unknown): Date => {
+  const date = value instanceof Date ? value : new Date(value as string | number);
+  if (Number.isNaN(date.getTime())) throw new ExpressionError(`Invalid date '${String(value)}'`);
+  return date;
+};
+
+const toNumberArray = (value: unknown): number[] => {
+  if (!Array.isArray(value)) throw new ExpressionError('Expected a list of numbers');
+  return value.map(Number);
+};
+
+const formatDate = (value: unknown, pattern = 'YYYY-MM-DD', timeZone = 'UTC'): string => {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23',
+    })
+      .formatToParts(toDate(value))
+      .map(part => [part.type, part.value])
+  );
+
+  return pattern.replace(/YYYY|MM|DD|HH|mm|ss/g, token => {
+    switch (token) {
+      case 'YYYY': return parts.year;
+      case 'MM': return parts.month;
+      case 'DD': return parts.day;
+      case 'HH': return parts.hour;
+      case 'mm': return parts.minute;
+      default: return parts.second;
+    }
+  });
+};
+
+// Supports `$.a.b`, `$.items[0]`, `$['key with spaces']` and `$.items[*].id`
+const jsonPath = (value: unknown, path: string): unknown => {
+  const segments: string[] = [];
+  const pattern = /\.([A-Za-z_$][\w$]*)|\[(\d+|\*)\]|\[['"]([^'"]*)['"]\]|\.\*/g;
+  const body = path.trim().replace(/^\$/, '');
+  let consumed = 0;
+
+  for (const match of body.matchAll(pattern)) {
+    if (match.index !== consumed) throw new ExpressionError(`Invalid JSON path '${path}'`);
+    segments.push(match[1] ?? match[2] ?? match[3] ?? '*');
+    consumed = match.index + match[0].length;
+  }
+  if (consumed !== body.length) throw new ExpressionError(`Invalid JSON path '${path}'`);
+
+  let results: unknown[] = [value];
+  let wildcard = false;
+  for (const segment of segments) {
+    if (segment === '*') {
+      wildcard = true;
+      results = results.flatMap(item =>
+        Array.isArray(item) ? item : item && typeof item === 'object' ? Object.values(item) : []
+      );
+    } else {
+      results = results.map(item => readProperty(item, segment));
+    }
+  }
+  return wildcard ? results.filter(item => item !== undefined) : results[0];
+};
+
+export const expressionHelpers: Readonly<Record<string, (...args: unknown[]) => unknown>> = Object.freeze({
+  // Strings
+  upper: (value: unknown) => String(value ?? '').toUpperCase(),
+  lower: (value: unknown) => String(value ?? '').toLowerCase(),
+  trim: (value: unknown) => String(value ?? '').trim(),
+  concat: (...values: unknown[]) => values.map(value => String(value ?? '')).join(''),
+  replace: (value: unknown, search: unknown, replacement: unknown) =>
+    String(value ?? '').split(String(search)).join(String(replacement ?? '')),
+  split: (value: unknown, separator: unknown) => String(value ?? '').split(String(separator)),
+  join: (value: unknown, separator: unknown = ', ') =>
+    Array.isArray(value) ? value.join(String(separator)) : String(value ?? ''),
+  length: (value: unknown) =>
+    Array.isArray(value) || typeof value === 'string' ? value.length : value && typeof value === 'object' ? Object.keys(value).length : 0,
+  default: (value: unknown, fallback: unknown) => (value === undefined || value === null || value === '' ? fallback : value),
+
+  // Numbers
+  round: (value: unknown, digits: unknown = 0) => {
+    const factor = 10 ** Number(digits);
+    return Math.round(Number(value) * factor) / factor;
+  },
+  floor: (value: unknown) => Math.floor(Number(value)),
+  ceil: (value: unknown) => Math.ceil(Number(value)),
+  abs: (value: unknown) => Math.abs(Number(value)),
+  min: (...values: unknown[]) => Math.min(...(values.length === 1 ? toNumberArray(values[0]) : values.map(Number))),
+  max: (...values: unknown[]) => Math.max(...(values.length === 1 ? toNumberArray(values[0]) : values.map(Number))),
+  sum: (values: unknown) => toNumberArray(values).reduce((total, value) => total + value, 0),
+  avg: (values: unknown) => {
+    const numbers = toNumberArray(values);
+    return numbers.length === 0 ? 0 : numbers.reduce((total, value) => total + value, 0) / numbers.length;
+  },
+  number: (value: unknown) => Number(value),
+
+  // Dates
+  now: () => new Date().toISOString(),
+  formatDate: (value: unknown, pattern?: unknown, timeZone?: unknown) =>
+    formatDate(value, pattern === undefined ? undefined : String(pattern), timeZone === undefined ? undefined : String(timeZone)),
+  addDays: (value: unknown, days: unknown) => new Date(toDate(value).getTime() + Number(days) * 86400000).toISOString(),
+
+  // JSON
+  json: (value: unknown) => JSON.stringify(value),
+  parseJson: (value: unknown) => {
+    try {
+      return JSON.parse(String(value));
+    } catch {
+      throw new ExpressionError('parseJson() received invalid JSON');
+    }
+  },
+  jsonPath: (value: unknown, path: unknown) => jsonPath(value, String(path)),
+});
+
+// ---------------------------------------------------------------------------
+// Interpreter
+
+function readProperty(object: unknown, property: unknown): unknown {
+  const key = String(property);
+  if (BLOCKED_PROPERTIES.has(key)) throw new ExpressionError(`Access to '${key}' is not allowed`);
+  if (object === null || object === undefined) return undefined;
+
+  if (typeof object === 'string' || Array.isArray(object)) {
+    if (key === 'length') return object.length;
+    return /^\d+$/.test(key) ? object[Number(key)] : undefined;
+  }
+  if (typeof object === 'object' && Object.prototype.hasOwnProperty.call(object, key)) {
+    return (object as Record<string, unknown>)[key];
+  }
+  return undefined;
+}
+
+const SCOPE_ROOTS = ['trigger', 'vars', 'nodes', 'input', 'execution'] as const;
+
+const evaluate = (expression: Expression, scope: ExpressionScope): unknown => {
+  switch (expression.type) {
+    case 'literal':
+      return expression.value;
+    case 'identifier':
+      if ((SCOPE_ROOTS as readonly string[]).includes(expression.name)) {
+        return scope[expression.name as keyof ExpressionScope];
+      }
+      return readProperty(scope.input, expression.name);
+    case 'member': {
+      const object = evaluate(expression.object, scope);
+      const property = evaluate(expression.property, scope);
+      if (object === scope.nodes && !Object.prototype.hasOwnProperty.call(scope.nodes, String(property))) {
+        throw new ExpressionError(`Unknown node '${String(property)}'`);
+      }
+      return readProperty(object, property);
+    }
+    case 'call': {
+      if (!Object.prototype.hasOwnProperty.call(expressionHelpers, expression.callee)) {
+        throw new ExpressionError(`Unknown function '${expression.callee}'`);
+      }
+      return expressionHelpers[expression.callee](...expression.args.map(arg => evaluate(arg, scope)));
+    }
+    case 'unary': {
+      const argument = evaluate(expression.argument, scope);
+      if (expression.operator === '!') return !argument;
+      return expression.operator === '-' ? -Number(argument) : Number(argument);
+    }
+    case 'binary': {
+      const left = evaluate(expression.left, scope);
+      // Short-circuit operators only evaluate the right side when needed
+      if (expression.operator === '&&') return left ? evaluate(expression.right, scope) : left;
+      if (expression.operator === '||') return left ? left : evaluate(expression.right, scope);
+      if (expression.operator === '??') return left ?? evaluate(expression.right, scope);
+
+      const right = evaluate(expression.right, scope);
+      switch (expression.operator) {
+        case '+':
+          return typeof left === 'number' && typeof right === 'number' ? left + right : `${stringify(left)}${stringify(right)}`;
+        case '-': return Number(left) - Number(right);
+        case '*': return Number(left) * Number(right);
+        case '/': return Number(left) / Number(right);
+        case '%': return Number(left) % Number(right);
+        // Loose equality is intentional so values typed as text compare with numbers
+        case '==': return left == right;
+        case '!=': return left != right;
+        case '===': return left === right;
+        case '!==': return left !== right;
+        case '<': return (left as number) < (right as number);
+        case '>': return (left as number) > (right as number);
+        case '<=': return (left as number) <= (right as number);
+        default: return (left as number) >= (right as number);
+      }
+    }
+    case 'conditional':
+      return evaluate(expression.test, scope)
+        ? evaluate(expression.consequent, scope)
+        : evaluate(expression.alternate, scope);
+  }
+};
+
+const stringify = (value: unknown): string => {
+  if (value === undefined || value === null) return '';
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+};
+
+// ---------------------------------------------------------------------------
+// Templates
+
+const TEMPLATE_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+const SINGLE_EXPRESSION_PATTERN = /^\s*\{\{([\s\S]*?)\}\}\s*$/;
+
+export const containsExpression = (value: unknown): boolean =>
+  typeof value === 'string' && value.includes('{{');
+
+export const evaluateExpression = (source: string, scope: ExpressionScope): unknown =>
+  evaluate(parseExpression(source.trim()), scope);
+
+// A template that is a single `{{ }}` keeps the value's type; anything else renders to text
+export const renderTemplate = (template: string, scope: ExpressionScope): unknown => {
+  const single = SINGLE_EXPRESSION_PATTERN.exec(template);
+  if (single && !single[1].includes('}}')) {
+    return evaluateExpression(single[1], scope);
+  }
+  return template.replace(TEMPLATE_PATTERN, (_, source: string) => stringify(evaluateExpression(source, scope)));
+};
+
+// Always renders to text, passing each value through escape(), e.g. to keep data from becoming HTML markup
+export const renderTemplateText = (
+  template: string,
+  scope: ExpressionScope,
+  escape: (text: string) => string = text => text
+): string => template.replace(TEMPLATE_PATTERN, (_, source: string) => escape(stringify(evaluateExpression(source, scope))));
+
+// Resolves expressions in a value and in any strings nested inside it; errors name the failing field
+export const resolveExpressions = (value: unknown, scope: ExpressionScope, path: string): unknown => {
+  if (typeof value === 'string') {
+    if (!containsExpression(value)) return value;
+    try {
+      return renderTemplate(value, scope);
+    } catch (error) {
+      throw new ExpressionError(error instanceof Error ? error.message : String(error), path);
+    }
+  }
+  if (Array.isArray(value)) {
+    return value.map((item, index) => resolveExpressions(item, scope, `${path}[${index}]`));
+  }
+  if (value && typeof value === 'object' && !(value instanceof Date)) {
+    return Object.fromEntries(
+      Object.entries(value).map(([key, item]) => [key, resolveExpressions(item, scope, `${path}.${key}`)])
+    );
+  }
+  return value;
+};
+
+// Fields that identify or place a node rather than configure what it does
+const STATIC_FIELDS = new Set(['id', 'type', 'name', 'description', 'position', 'enabled']);
+
+// `deferredFields` hold expressions that are evaluated later by whatever uses them
+export const resolveConfigExpressions = <T extends NodeConfig>(
+  config: T,
+  scope: ExpressionScope,
+  deferredFields: string[] = []
+): T => {
+  const keep = (key: string) => STATIC_FIELDS.has(key) || deferredFields.includes(key);
+  try {
+    return Object.fromEntries(
+      Object.entries(config).map(([key, value]) => [key, keep(key) ? value : resolveExpressions(value, scope, key)])
+    ) as T;
+  } catch (error) {
+    if (!(error instanceof ExpressionError)) throw error;
+    throw new ExpressionError(`Node '${config.name}', field '${error.field}': ${error.message}`, error.field);
+  }
+};
+
+export const buildExpressionScope = (
+  workflow: Workflow,
+  execution: Pick<WorkflowExecution, 'id' | 'startTime' | 'triggerData' | 'nodeExecutions'> | null,
+  input: NodeData = {}
+): ExpressionScope => {
+  const nodes: ExpressionScope['nodes'] = {};
+  for (const node of workflow.nodes) {
+    const context: NodeExecutionContext | undefined = execution?.nodeExecutions.find(exec => exec.nodeId === node.id);
+    nodes[node.name] = {
+      output: context?.outputData ?? {},
+      input: context?.inputData ?? {},
+      status: context?.status,
+    };
+  }
+
+  return {
+    trigger: execution?.triggerData ?? {},
+    vars: workflow.variables ?? {},
+    nodes,
+    input,
+    execution: {
+      id: execution?.id ?? '',
+      startTime: execution?.startTime ? new Date(execution.startTime).toISOString() : undefined,
+    },
+  };
+};
@@ -0,0 +1,63 @@
+/**
+ * File: file-store.ts
+ *
+ * Files that nodes produce, such as rendered invoices and reports, and that other nodes use,
+ * such as Email nodes attaching them. A file's content stays in the engine's FileStore; node
+ * outputs carry a FileReference to it, which is small enough to keep in execution records.
+ */
+
+import type { DataValue } from '../workflow-engine-core';
+
+export interface FileReference {
+  fileId: string;
+  fileName: string;
+  mimeType: string;
+  size: number; // in bytes
+  createdAt: string; // ISO timestamp
+}
+
+export interface StoredFile {
+  reference: FileReference;
+  content: Uint8Array;
+}
+
+export interface FileStore {
+  // Text content is stored as UTF-8
+  save(fileName: string, mimeType: string, content: Uint8Array | string): Promise<FileReference>;
+  read(fileId: string): Promise<StoredFile | undefined>;
+  list(): Promise<FileReference[]>;
+}
+
+export const isFileReference = (value: DataValue): value is FileReference =>
+  !!value &&
+  typeof value === 'object' &&
+  typeof (value as FileReference).fileId === 'string' &&
+  typeof (value as FileReference).fileName === 'string';
+
+export const createFileId = (): string => `file_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+export class MemoryFileStore implements FileStore {
+  private files: Map<string, StoredFile> = new Map();
+
+  async save(fileName: string, mimeType: string, content: Uint8Array | string): Promise<FileReference> {
+    const bytes = typeof content === 'string' ? new TextEncoder().encode(content) : content.slice();
+    const reference: FileReference = {
+      fileId: createFileId(),
+      fileName,
+      mimeType,
+      size: bytes.length,
+      createdAt: new Date().toISOString(),
+    };
+    this.files.set(reference.fileId, { reference, content: bytes });
+    return { ...reference };
+  }
+
+  async read(fileId: string): Promise<StoredFile | undefined> {
+    const file = this.files.get(fileId);
+    return file && { reference: { ...file.reference }, content: file.content.slice() };
+  }
+
+  async list(): Promise<FileReference[]> {
+    return [...this.files.values()].map(file => ({ ...file.reference }));
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * File: graph.ts
+ *
+ * Reachability over a workflow's connections.
+ */
+
+import type { Workflow } from '../workflow-engine-core';
+
+const collect = (workflow: Workflow, nodeId: string, direction: 'up' | 'down'): Set<string> => {
+  const found = new Set<string>();
+  const queue = [nodeId];
+
+  while (queue.length > 0) {
+    const current = queue.shift()!;
+    for (const conn of workflow.connections) {
+      const [from, to] = direction === 'down' ? [conn.sourceNodeId, conn.targetNodeId] : [conn.targetNodeId, conn.sourceNodeId];
+      if (from === current && !found.has(to) && to !== nodeId) {
+        found.add(to);
+        queue.push(to);
+      }
+    }
+  }
+  return found;
+};
+
+// The node itself and everything that depends on it
+export const getDownstreamNodeIds = (workflow: Workflow, nodeId: string): Set<string> =>
+  new Set([nodeId, ...collect(workflow, nodeId, 'down')]);
+
+// Everything the node depends on, directly or indirectly
+export const getUpstreamNodeIds = (workflow: Workflow, nodeId: string): Set<string> =>
+  collect(workflow, nodeId, 'up');
@@ -0,0 +1,230 @@
+/**
+ * File: http-action.ts
+ *
+ * The HTTP request an Action node makes. The config describes the request (method, query
+ * parameters, a JSON, form or raw body, and bearer, basic or API-key auth, given in the config or
+ * by a stored credential) and how to read the response: parsed as JSON, text or binary, with fields mapped onto extra output ports. A
+ * non-2xx status fails the node unless the node is set to output the status instead.
+ *
+ * Requests go through the global fetch unless another implementation is passed in, so the
+ * processor runs the same in the browser and under Node, and tests can point it at a stub.
+ */
+
+import { BaseNodeProcessor } from '../workflow-engine-core';
+import type {
+  ActionNodeConfig,
+  DataValue,
+  NodeConfig,
+  NodeData,
+  NodeExecutionContext,
+  NodeRuntime,
+} from '../workflow-engine-core';
+import type { PortDefinition } from './node-registry';
+import { encodeBasicAuth } from './credentials';
+import type { Credential, CredentialType } from './credentials';
+import { getValueAtPath } from './conditions';
+
+export type FetchLike = (input: string, init: RequestInit) => Promise<Response>;
+
+// Ports every Action node has; response mappings add one port each
+export const ACTION_BASE_OUTPUTS: PortDefinition[] = [
+  { name: 'response', label: 'Response', dataType: 'any' },
+  { name: 'status', label: 'Status', dataType: 'number' },
+  { name: 'headers', label: 'Headers', dataType: 'object' },
+];
+
+export const getActionOutputs = (config: NodeConfig): PortDefinition[] => [
+  ...ACTION_BASE_OUTPUTS,
+  ...Object.keys((config as ActionNodeConfig).responseMapping ?? {})
+    .filter(name => !ACTION_BASE_OUTPUTS.some(port => port.name === name))
+    .map(name => ({ name, dataType: 'any' as const })),
+];
+
+// A binary response body, carried through the workflow as base64
+export interface BinaryBody {
+  contentType: string;
+  size: number;
+  base64: string;
+}
+
+export class HttpStatusError extends Error {
+  status: number;
+
+  constructor(status: number, statusText: string, url: string) {
+    super(`${url} responded ${status}${statusText ? ` ${statusText}` : ''}`);
+    this.name = 'HttpStatusError';
+    this.status = status;
+  }
+}
+
+const encodeBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const CHUNK = 0x8000;
+  for (let offset = 0; offset < bytes.length; offset += CHUNK) {
+    binary += String.fromCharCode(...bytes.subarray(offset, offset + CHUNK));
+  }
+  return btoa(binary);
+};
+
+const toStringRecord = (value: NodeData | undefined): Record<string, string> =>
+  Object.fromEntries(
+    Object.entries(value ?? {})
+      .filter(([, entry]) => entry !== undefined && entry !== null)
+      .map(([key, entry]) => [key, typeof entry === 'object' ? JSON.stringify(entry) : String(entry)])
+  );
+
+// Credential types an Action node can authenticate with
+export const ACTION_CREDENTIAL_TYPES: CredentialType[] = ['apiKey', 'basic', 'oauth2'];
+
+// The config with a stored credential's values in place of the auth it refers to
+export const applyCredential = (config: ActionNodeConfig, credential: Credential): ActionNodeConfig => {
+  const { data } = credential;
+  switch (credential.type) {
+    case 'apiKey':
+      return {
+        ...config,
+        authType: 'apiKey',
+        apiKeyName: data.name || 'X-API-Key',
+        apiKeyValue: data.key,
+        apiKeyIn: data.in === 'query' ? 'query' : 'header',
+      };
+    case 'basic':
+      return { ...config, authType: 'basic', authUsername: data.username, authPassword: data.password ?? '' };
+    case 'oauth2':
+      return { ...config, authType: 'bearer', authToken: data.accessToken };
+    default:
+      throw new Error(`${credential.name} cannot authenticate HTTP requests`);
+  }
+};
+
+export const buildRequestUrl = (config: ActionNodeConfig): string => {
+  const url = new URL(config.apiEndpoint ?? '');
+  for (const [key, value] of Object.entries(toStringRecord(config.queryParams))) {
+    url.searchParams.append(key, value);
+  }
+  if (config.authType === 'apiKey' && config.apiKeyIn === 'query' && config.apiKeyName) {
+    url.searchParams.set(config.apiKeyName, config.apiKeyValue ?? '');
+  }
+  return url.toString();
+};
+
+export const buildRequestInit = (config: ActionNodeConfig): RequestInit => {
+  const method = config.method ?? 'GET';
+  const headers = new Headers(toStringRecord(config.headers));
+
+  switch (config.authType) {
+    case 'bearer':
+      headers.set('Authorization', `Bearer ${config.authToken ?? ''}`);
+      break;
+    case 'basic':
+      headers.set('Authorization', `Basic ${encodeBasicAuth(config.authUsername ?? '', config.authPassword ?? '')}`);
+      break;
+    case 'apiKey':
+      if (config.apiKeyIn !== 'query' && config.apiKeyName) headers.set(config.apiKeyName, config.apiKeyValue ?? '');
+      break;
+  }
+
+  let body: string | undefined;
+  if (method !== 'GET' && method !== 'HEAD') {
+    switch (config.bodyType ?? 'json') {
+      case 'json':
+        if (config.payload !== undefined) {
+          body = JSON.stringify(config.payload);
+          if (!headers.has('Content-Type')) headers.set('Content-Type', 'application/json');
+        }
+        break;
+      case 'form':
+        if (config.payload !== undefined) {
+          body = new URLSearchParams(toStringRecord(config.payload)).toString();
+          if (!headers.has('Content-Type')) headers.set('Content-Type', 'application/x-www-form-urlencoded');
+        }
+        break;
+      case 'raw':
+        body = config.rawBody;
+        if (body !== undefined && !headers.has('Content-Type')) headers.set('Content-Type', 'text/plain');
+        break;
+    }
+  }
+
+  return { method, headers, body };
+};
+
+// 'auto' reads JSON when the server says so, text for other text types and binary otherwise
+const parseBody = async (response: Response, responseType: ActionNodeConfig['responseType']): Promise<DataValue> => {
+  const contentType = response.headers.get('Content-Type') ?? '';
+  const type =
+    responseType && responseType !== 'auto'
+      ? responseType
+      : /[/+]json\b/i.test(contentType)
+        ? 'json'
+        : /^text\/|xml|javascript|x-www-form-urlencoded/i.test(contentType) || !contentType
+          ? 'text'
+          : 'binary';
+
+  if (type === 'binary') {
+    const bytes = new Uint8Array(await response.arrayBuffer());
+    const binary: BinaryBody = { contentType, size: bytes.length, base64: encodeBase64(bytes) };
+    return binary;
+  }
+
+  const text = await response.text();
+  if (type === 'text') return text;
+  if (!text.trim()) return null;
+  try {
+    return JSON.parse(text);
+  } catch {
+    throw new Error(`Response is not valid JSON: ${text.slice(0, 100)}`);
+  }
+};
+
+export class HttpProcessor extends BaseNodeProcessor {
+  private fetchImpl: FetchLike;
+
+  constructor(config: NodeConfig, fetchImpl: FetchLike = (input, init) => fetch(input, init)) {
+    super(config);
+    this.fetchImpl = fetchImpl;
+  }
+
+  async execute(context: NodeExecutionContext, signal?: AbortSignal, runtime?: NodeRuntime): Promise<NodeData> {
+    const config = await this.resolveAuth(context, runtime);
+    const url = buildRequestUrl(config);
+    const init = buildRequestInit(config);
+
+    // A key sent in the query string stays out of the log
+    const shown = new URL(url);
+    if (config.authType === 'apiKey' && config.apiKeyIn === 'query' && config.apiKeyName) {
+      shown.searchParams.set(config.apiKeyName, '****');
+    }
+    this.log(context, `${init.method} ${shown}`);
+    const response = await this.fetchImpl(url, { ...init, signal });
+    this.log(context, `Responded ${response.status} ${response.statusText}`.trim());
+
+    if (!response.ok && (config.errorMode ?? 'fail') === 'fail') {
+      throw new HttpStatusError(response.status, response.statusText, shown.toString());
+    }
+
+    const body = init.method === 'HEAD' ? null : await parseBody(response, config.responseType);
+    const mapped = Object.entries(config.responseMapping ?? {}).map(([port, path]) => [
+      port,
+      body !== null && typeof body === 'object' ? getValueAtPath(body as NodeData, path) : undefined,
+    ]);
+
+    return {
+      ...Object.fromEntries(mapped),
+      response: body,
+      status: response.status,
+      headers: Object.fromEntries(response.headers.entries()),
+    };
+  }
+
+  private async resolveAuth(context: NodeExecutionContext, runtime?: NodeRuntime): Promise<ActionNodeConfig> {
+    const config = this.config as ActionNodeConfig;
+    if (config.authType !== 'credential') return config;
+    if (!config.credentialId) throw new Error('No credential selected');
+    if (!runtime) throw new Error('Stored credentials can only be used inside the workflow engine');
+
+    const credential = await runtime.resolveCredential(config.credentialId, ACTION_CREDENTIAL_TYPES);
+    this.log(context, `Authenticating with credential ${credential.name}`);
+    return applyCredential(config, credential);
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * File: indexeddb-table-storage.ts
+ *
+ * Keeps tables in the browser's IndexedDB, so their rows outlive the page. Each table is one
+ * record of a single object store, keyed by table name.
+ */
+
+import type { TableData, TableStorage } from './table-store';
+
+const STORE_NAME = 'tables';
+
+const request = <T>(pending: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    pending.onsuccess = () => resolve(pending.result);
+    pending.onerror = () => reject(pending.error);
+  });
+
+export class IndexedDBTableStorage implements TableStorage {
+  private databaseName: string;
+  private database?: Promise<IDBDatabase>;
+
+  constructor(databaseName = 'workflow-tables') {
+    this.databaseName = databaseName;
+  }
+
+  async listTables(): Promise<string[]> {
+    const keys = await request((await this.store('readonly')).getAllKeys());
+    return keys.map(String).sort();
+  }
+
+  async loadTable(name: string): Promise<TableData | undefined> {
+    return request<TableData | undefined>((await this.store('readonly')).get(name));
+  }
+
+  async saveTable(name: string, data: TableData): Promise<void> {
+    await request((await this.store('readwrite')).put(data, name));
+  }
+
+  async dropTable(name: string): Promise<void> {
+    await request((await this.store('readwrite')).delete(name));
+  }
+
+  private async store(mode: IDBTransactionMode): Promise<IDBObjectStore> {
+    const database = await this.open();
+    return database.transaction(STORE_NAME, mode).objectStore(STORE_NAME);
+  }
+
+  private open(): Promise<IDBDatabase> {
+    this.database ??= new Promise((resolve, reject) => {
+      const opening = indexedDB.open(this.databaseName, 1);
+      opening.onupgradeneeded = () => opening.result.createObjectStore(STORE_NAME);
+      opening.onsuccess = () => resolve(opening.result);
+      opening.onerror = () => reject(opening.error);
+    });
+    return this.database;
+  }
+}
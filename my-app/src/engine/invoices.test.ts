@@ -0,0 +1,66 @@
+import { describe, expect, it } from 'vitest';
+import { calculateInvoice, formatInvoiceNumber, getCurrencyDigits } from './invoices';
+
+describe('calculateInvoice', () => {
+  it('adds decimal amounts exactly', () => {
+    const totals = calculateInvoice(
+      [
+        { description: 'A', quantity: 3, unitPrice: 0.1 },
+        { description: 'B', quantity: 1, unitPrice: 0.2 },
+      ],
+      'USD'
+    );
+    expect(totals.subtotal).toBe(0.5);
+    expect(totals.total).toBe(0.5);
+  });
+
+  it('charges each tax rate on its own base after line discounts', () => {
+    const totals = calculateInvoice(
+      [
+        { description: 'Books', quantity: 2, unitPrice: 10, taxRate: 7, discount: 10 },
+        { description: 'Service', quantity: 1, unitPrice: 100, taxRate: 19 },
+      ],
+      'EUR'
+    );
+    expect(totals.lines.map(line => line.net)).toEqual([18, 100]);
+    expect(totals.taxes).toEqual([
+      { rate: 7, base: 18, tax: 1.26 },
+      { rate: 19, base: 100, tax: 19 },
+    ]);
+    expect(totals.total).toBe(138.26);
+  });
+
+  it('spreads an invoice discount over the lines before tax', () => {
+    const totals = calculateInvoice(
+      [
+        { description: 'A', quantity: 1, unitPrice: 100, taxRate: 10 },
+        { description: 'B', quantity: 1, unitPrice: 100, taxRate: 20 },
+      ],
+      'USD',
+      { type: 'amount', value: 50 }
+    );
+    expect(totals.discount).toBe(50);
+    expect(totals.taxes.map(entry => entry.base)).toEqual([75, 75]);
+    expect(totals.total).toBe(150 + 7.5 + 15);
+  });
+
+  it('rounds to the currency minor unit, half away from zero', () => {
+    expect(getCurrencyDigits('JPY')).toBe(0);
+    expect(calculateInvoice([{ description: 'A', quantity: 1, unitPrice: 99.5 }], 'JPY').total).toBe(100);
+    expect(calculateInvoice([{ description: 'A', quantity: 1, unitPrice: 1, taxRate: 12.5 }], 'USD').tax).toBe(0.13);
+  });
+
+  it('rejects impossible input', () => {
+    expect(() => calculateInvoice([{ description: 'A', quantity: 1, unitPrice: 1, taxRate: 120 }], 'USD')).toThrow('0 to 100');
+    expect(() => calculateInvoice([{ description: 'A', quantity: 1, unitPrice: 5 }], 'USD', { type: 'amount', value: 10 })).toThrow(
+      'larger than the subtotal'
+    );
+    expect(() => calculateInvoice([], 'XYZ1')).toThrow("Unknown currency 'XYZ1'");
+  });
+});
+
+describe('formatInvoiceNumber', () => {
+  it('pads the sequence to four digits', () => {
+    expect(formatInvoiceNumber('INV-', 7)).toBe('INV-0007');
+  });
+});
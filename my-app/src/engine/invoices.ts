@@ -0,0 +1,635 @@
+/**
+ * File: invoices.ts
+ *
+ * Invoices for Invoice nodes. The node totals its line items, takes a number from the
+ * workflow's invoice sequence, and renders the invoice in one of the layouts below to HTML and
+ * PDF, which it keeps in the engine's file store for other nodes, such as Email, to attach.
+ *
+ * Amounts are worked out in the currency's minor units (cents, or whole yen) with exact
+ * decimal arithmetic, rounding half away from zero once per line amount, per line discount,
+ * per invoice discount and per tax rate. An invoice-wide discount is shared out over the
+ * lines in proportion to their amounts before tax, so each tax rate is charged on what is
+ * actually billed at that rate.
+ *
+ * Numbers are `numberPrefix` followed by the next value of a sequence kept per workflow in the
+ * engine's table database (at least four digits: INV-0001). Every issued invoice is recorded
+ * in the _invoices table, and a number already on record there is never issued again.
+ */
+
+import { BaseNodeProcessor } from '../workflow-engine-core';
+import type {
+  DataValue,
+  InvoiceLineItem,
+  InvoiceNodeConfig,
+  NodeData,
+  NodeExecutionContext,
+  NodeRuntime,
+} from '../workflow-engine-core';
+import type { PortDefinition } from './node-registry';
+import type { TableDatabase } from './table-store';
+import { escapeHtml } from './email';
+import { PdfDocument, canEncode, truncateText, wrapText } from './pdf';
+import type { PdfColor } from './pdf';
+
+export const INVOICE_OUTPUTS: PortDefinition[] = [
+  { name: 'pdf', label: 'PDF', dataType: 'file' },
+  { name: 'html', label: 'HTML', dataType: 'file' },
+  { name: 'total', label: 'Total', dataType: 'number' },
+  { name: 'invoiceNumber', label: 'Number', dataType: 'string' },
+  { name: 'invoice', label: 'Invoice', dataType: 'object' },
+];
+
+export type InvoiceLayout = 'default' | 'compact';
+
+export const INVOICE_LAYOUTS: Array<{ value: InvoiceLayout; label: string }> = [
+  { value: 'default', label: 'Default' },
+  { value: 'compact', label: 'Compact' },
+];
+
+// Issued invoices, one row per number; row IDs are '<workflowId>/<invoiceNumber>'
+export const INVOICE_TABLE = '_invoices';
+
+export const DEFAULT_CURRENCY = 'USD';
+export const DEFAULT_LOCALE = 'en-US';
+export const DEFAULT_NUMBER_PREFIX = 'INV-';
+
+export interface InvoiceLine {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  taxRate: number; // percent
+  discountRate: number; // percent
+  amount: number; // quantity × unit price
+  discount: number; // the line's own discount
+  net: number; // amount less the line's discount
+}
+
+export interface InvoiceTax {
+  rate: number; // percent
+  base: number; // what the rate is charged on, after discounts
+  tax: number;
+}
+
+export interface InvoiceTotals {
+  currency: string;
+  lines: InvoiceLine[];
+  subtotal: number; // sum of the lines' net amounts
+  discount: number; // invoice-wide discount
+  discountRate?: number; // set for percentage discounts
+  taxes: InvoiceTax[]; // one entry per non-zero rate, lowest first
+  tax: number;
+  total: number;
+}
+
+export interface InvoiceDiscount {
+  type: 'percent' | 'amount';
+  value: number;
+}
+
+// ---------------------------------------------------------------------------
+// Decimal arithmetic
+
+// A decimal number as an integer over a power of ten: 12.34 is { units: 1234n, scale: 2 }
+interface Decimal {
+  units: bigint;
+  scale: number;
+}
+
+const pow10 = (exponent: number): bigint => 10n ** BigInt(exponent);
+
+// Reads the number's shortest decimal form, so 0.1 is exactly one tenth
+const toDecimal = (value: number): Decimal => {
+  const [mantissa, exponent = '0'] = String(value).toLowerCase().split('e');
+  const [whole, fraction = ''] = mantissa.split('.');
+  const units = BigInt(whole + fraction);
+  const scale = fraction.length - Number(exponent);
+  return scale >= 0 ? { units, scale } : { units: units * pow10(-scale), scale: 0 };
+};
+
+// numerator / denominator, rounded half away from zero
+const divideRounded = (numerator: bigint, denominator: bigint): bigint => {
+  const negative = numerator < 0n !== denominator < 0n;
+  const n = numerator < 0n ? -numerator : numerator;
+  const d = denominator < 0n ? -denominator : denominator;
+  const quotient = (2n * n + d) / (2n * d);
+  return negative ? -quotient : quotient;
+};
+
+const percentOf = (amount: bigint, rate: number): bigint => {
+  const { units, scale } = toDecimal(rate);
+  return divideRounded(amount * units, 100n * pow10(scale));
+};
+
+// Shares total out over the weights in proportion, so the shares add up to exactly the total
+const allocate = (total: bigint, weights: bigint[]): bigint[] => {
+  const positive = weights.map(weight => (weight > 0n ? weight : 0n));
+  const sum = positive.reduce((a, b) => a + b, 0n);
+  if (sum === 0n) return weights.map(() => 0n);
+
+  const shares = positive.map(weight => (total * weight) / sum);
+  let left = total - shares.reduce((a, b) => a + b, 0n);
+  // The leftover minor units go to the largest remainders
+  const order = positive
+    .map((weight, index) => ({ index, remainder: (total * weight) % sum }))
+    .sort((a, b) => (a.remainder === b.remainder ? a.index - b.index : a.remainder > b.remainder ? -1 : 1));
+  for (const { index } of order) {
+    if (left === 0n) break;
+    shares[index] += 1n;
+    left -= 1n;
+  }
+  return shares;
+};
+
+// ---------------------------------------------------------------------------
+// Totals
+
+// Digits after the decimal point in the currency's amounts: 2 for USD, 0 for JPY, 3 for KWD
+export const getCurrencyDigits = (currency: string): number => {
+  try {
+    return new Intl.NumberFormat('en', { style: 'currency', currency }).resolvedOptions().maximumFractionDigits ?? 2;
+  } catch {
+    throw new Error(`Unknown currency '${currency}'`);
+  }
+};
+
+const checkRate = (rate: number, what: string): void => {
+  if (!Number.isFinite(rate) || rate < 0 || rate > 100) throw new Error(`${what} must be a percentage from 0 to 100`);
+};
+
+export const calculateInvoice = (items: InvoiceLineItem[], currency: string, discount?: InvoiceDiscount): InvoiceTotals => {
+  const digits = getCurrencyDigits(currency);
+  const toMinor = (value: number): bigint => {
+    const { units, scale } = toDecimal(value);
+    return divideRounded(units * pow10(digits), pow10(scale));
+  };
+  const toMajor = (units: bigint): number => Number(units) / 10 ** digits;
+
+  const lines = items.map((item, index) => {
+    const label = `Line ${index + 1}`;
+    if (!Number.isFinite(item.quantity)) throw new Error(`${label}: quantity must be a number`);
+    if (!Number.isFinite(item.unitPrice)) throw new Error(`${label}: unit price must be a number`);
+    const taxRate = item.taxRate ?? 0;
+    const discountRate = item.discount ?? 0;
+    checkRate(taxRate, `${label}: tax rate`);
+    checkRate(discountRate, `${label}: discount`);
+
+    const quantity = toDecimal(item.quantity);
+    const price = toDecimal(item.unitPrice);
+    const amount = divideRounded(quantity.units * price.units * pow10(digits), pow10(quantity.scale + price.scale));
+    const lineDiscount = percentOf(amount, discountRate);
+    return { item, taxRate, discountRate, amount, discount: lineDiscount, net: amount - lineDiscount };
+  });
+
+  const subtotal = lines.reduce((sum, line) => sum + line.net, 0n);
+  let invoiceDiscount = 0n;
+  if (discount?.type === 'percent') {
+    checkRate(discount.value, 'Invoice discount');
+    invoiceDiscount = percentOf(subtotal, discount.value);
+  } else if (discount?.type === 'amount') {
+    if (!Number.isFinite(discount.value) || discount.value < 0) throw new Error('Invoice discount must be a positive amount');
+    invoiceDiscount = toMinor(discount.value);
+    if (invoiceDiscount > subtotal) throw new Error('Invoice discount is larger than the subtotal');
+  }
+
+  // Each line bears its share of the invoice discount, and each rate is charged on what remains
+  const shares = allocate(invoiceDiscount, lines.map(line => line.net));
+  const bases = new Map<number, bigint>();
+  lines.forEach((line, index) => {
+    bases.set(line.taxRate, (bases.get(line.taxRate) ?? 0n) + line.net - shares[index]);
+  });
+  const taxes = [...bases.entries()]
+    .filter(([rate]) => rate > 0)
+    .sort(([a], [b]) => a - b)
+    .map(([rate, base]) => ({ rate, base, tax: percentOf(base, rate) }));
+  const tax = taxes.reduce((sum, entry) => sum + entry.tax, 0n);
+
+  return {
+    currency,
+    lines: lines.map(line => ({
+      description: line.item.description,
+      quantity: line.item.quantity,
+      unitPrice: line.item.unitPrice,
+      taxRate: line.taxRate,
+      discountRate: line.discountRate,
+      amount: toMajor(line.amount),
+      discount: toMajor(line.discount),
+      net: toMajor(line.net),
+    })),
+    subtotal: toMajor(subtotal),
+    discount: toMajor(invoiceDiscount),
+    ...(discount?.type === 'percent' ? { discountRate: discount.value } : {}),
+    taxes: taxes.map(entry => ({ rate: entry.rate, base: toMajor(entry.base), tax: toMajor(entry.tax) })),
+    tax: toMajor(tax),
+    total: toMajor(subtotal - invoiceDiscount + tax),
+  };
+};
+
+const toNumber = (value: DataValue, what: string): number => {
+  const number = typeof value === 'string' && value.trim() ? Number(value) : value;
+  if (typeof number !== 'number' || !Number.isFinite(number)) throw new Error(`${what} must be a number`);
+  return number;
+};
+
+// Line items as configured or as produced by an expression, with numbers that arrived as text converted
+export const readLineItems = (value: DataValue): InvoiceLineItem[] => {
+  if (!Array.isArray(value)) throw new Error('Line items must be a list');
+  return value.map((entry, index) => {
+    const label = `Line ${index + 1}`;
+    if (!entry || typeof entry !== 'object' || Array.isArray(entry)) throw new Error(`${label} must be an object`);
+    const item = entry as NodeData;
+    const optional = (field: string, what: string) =>
+      item[field] === undefined || item[field] === null || item[field] === '' ? undefined : toNumber(item[field], `${label}: ${what}`);
+    return {
+      description: String(item.description ?? ''),
+      quantity: toNumber(item.quantity ?? 1, `${label}: quantity`),
+      unitPrice: toNumber(item.unitPrice, `${label}: unit price`),
+      taxRate: optional('taxRate', 'tax rate'),
+      discount: optional('discount', 'discount'),
+    };
+  });
+};
+
+// ---------------------------------------------------------------------------
+// Numbering
+
+export const formatInvoiceNumber = (prefix: string, sequence: number): string => `${prefix}${String(sequence).padStart(4, '0')}`;
+
+const getInvoiceRowId = (workflowId: string, invoiceNumber: string): string => `${workflowId}/${invoiceNumber}`;
+
+// The next number of the workflow's sequence that no recorded invoice carries
+export const issueInvoiceNumber = async (tables: TableDatabase, workflowId: string, prefix: string): Promise<string> => {
+  for (;;) {
+    const invoiceNumber = formatInvoiceNumber(prefix, await tables.nextSequenceValue(`invoice:${workflowId}`));
+    const existing = await tables.select(INVOICE_TABLE, { id: getInvoiceRowId(workflowId, invoiceNumber) });
+    if (existing.length === 0) return invoiceNumber;
+  }
+};
+
+// ---------------------------------------------------------------------------
+// Rendering
+
+export interface InvoiceDocument {
+  invoiceNumber: string;
+  issueDate: string; // YYYY-MM-DD
+  dueDate?: string; // YYYY-MM-DD
+  layout: InvoiceLayout;
+  locale: string;
+  seller: NodeData;
+  customer: NodeData;
+  notes?: string;
+  totals: InvoiceTotals;
+}
+
+interface InvoiceFormat {
+  money(amount: number): string;
+  quantity(value: number): string;
+  rate(value: number): string;
+  date(value: string): string;
+}
+
+const createFormat = (document: InvoiceDocument, currencyDisplay: 'symbol' | 'code' = 'symbol'): InvoiceFormat => {
+  const money = new Intl.NumberFormat(document.locale, { style: 'currency', currency: document.totals.currency, currencyDisplay });
+  const quantity = new Intl.NumberFormat(document.locale, { maximumFractionDigits: 6 });
+  const dates = new Intl.DateTimeFormat(document.locale, { dateStyle: 'medium', timeZone: 'UTC' });
+  return {
+    money: amount => money.format(amount),
+    quantity: value => quantity.format(value),
+    rate: value => `${quantity.format(value)}%`,
+    date: value => dates.format(new Date(`${value}T00:00:00Z`)),
+  };
+};
+
+const PARTY_LABELS: Record<string, string> = { taxId: 'Tax ID', vatId: 'VAT ID' };
+
+// A customer's or seller's name, then the rest of their details in the order given
+const describeParty = (data: NodeData): { name: string; details: string[] } => {
+  const text = (value: DataValue): string[] =>
+    value === null || value === undefined || value === ''
+      ? []
+      : Array.isArray(value)
+        ? value.flatMap(text)
+        : typeof value === 'object'
+          ? [Object.values(value).flatMap(text).join(', ')]
+          : String(value).split(/\r?\n/);
+  const nameKey = ['name', 'company'].find(key => text(data[key]).length > 0);
+  return {
+    name: nameKey ? text(data[nameKey]).join(' ') : '',
+    details: Object.entries(data)
+      .filter(([key]) => key !== nameKey)
+      .flatMap(([key, value]) => text(value).map(line => (PARTY_LABELS[key] ? `${PARTY_LABELS[key]}: ${line}` : line))),
+  };
+};
+
+interface InvoiceColumn {
+  label: string;
+  width: number; // points in the PDF; the description column takes the rest
+  value(line: InvoiceLine, format: InvoiceFormat): string;
+}
+
+const COLUMNS: Record<InvoiceLayout, InvoiceColumn[]> = {
+  default: [
+    { label: 'Description', width: 0, value: line => line.description },
+    { label: 'Qty', width: 45, value: (line, format) => format.quantity(line.quantity) },
+    { label: 'Unit price', width: 80, value: (line, format) => format.money(line.unitPrice) },
+    { label: 'Discount', width: 55, value: (line, format) => (line.discountRate ? format.rate(line.discountRate) : '') },
+    { label: 'Tax', width: 45, value: (line, format) => format.rate(line.taxRate) },
+    { label: 'Amount', width: 85, value: (line, format) => format.money(line.net) },
+  ],
+  compact: [
+    { label: 'Description', width: 0, value: line => line.description },
+    { label: 'Qty', width: 50, value: (line, format) => format.quantity(line.quantity) },
+    { label: 'Unit price', width: 90, value: (line, format) => format.money(line.unitPrice) },
+    { label: 'Amount', width: 90, value: (line, format) => format.money(line.net) },
+  ],
+};
+
+const getTotalRows = (document: InvoiceDocument, format: InvoiceFormat): Array<{ label: string; value: string; grand?: boolean }> => {
+  const { totals } = document;
+  const discountLabel = totals.discountRate !== undefined ? `Discount (${format.rate(totals.discountRate)})` : 'Discount';
+  return [
+    { label: 'Subtotal', value: format.money(totals.subtotal) },
+    ...(totals.discount ? [{ label: discountLabel, value: format.money(-totals.discount) }] : []),
+    ...(document.layout === 'compact'
+      ? totals.tax
+        ? [{ label: 'Tax', value: format.money(totals.tax) }]
+        : []
+      : totals.taxes.map(entry => ({
+          label: `Tax ${format.rate(entry.rate)} on ${format.money(entry.base)}`,
+          value: format.money(entry.tax),
+        }))),
+    { label: 'Total', value: format.money(totals.total), grand: true },
+  ];
+};
+
+const getMetaRows = (document: InvoiceDocument, format: InvoiceFormat): Array<[string, string]> => [
+  ['Invoice number', document.invoiceNumber],
+  ['Issue date', format.date(document.issueDate)],
+  ...(document.dueDate ? [['Due date', format.date(document.dueDate)] as [string, string]] : []),
+];
+
+const HTML_STYLE = `
+  body { font-family: Helvetica, Arial, sans-serif; color: #1f2937; margin: 40px; font-size: 14px; }
+  h1 { margin: 0; font-size: 28px; letter-spacing: 0.05em; }
+  header { display: flex; justify-content: space-between; gap: 24px; margin-bottom: 32px; }
+  .party-name { font-weight: bold; }
+  .meta td { padding: 2px 0 2px 16px; text-align: right; }
+  .meta td:first-child { color: #6b7280; }
+  .bill-to { margin-bottom: 24px; }
+  .label { color: #6b7280; font-size: 12px; text-transform: uppercase; }
+  table.lines { width: 100%; border-collapse: collapse; }
+  table.lines th { background: #f3f4f6; text-align: left; padding: 8px; font-size: 12px; }
+  table.lines td { padding: 8px; border-bottom: 1px solid #e5e7eb; vertical-align: top; }
+  table.lines .number { text-align: right; white-space: nowrap; }
+  table.totals { margin: 16px 0 0 auto; border-collapse: collapse; }
+  table.totals td { padding: 4px 8px; text-align: right; }
+  table.totals .grand td { font-weight: bold; font-size: 16px; border-top: 2px solid #1f2937; }
+  .notes { margin-top: 32px; white-space: pre-wrap; color: #4b5563; }
+`;
+
+const renderPartyHtml = (party: { name: string; details: string[] }): string =>
+  [
+    party.name ? `<div class="party-name">${escapeHtml(party.name)}</div>` : '',
+    ...party.details.map(line => `<div>${escapeHtml(line)}</div>`),
+  ].join('\n');
+
+export const renderInvoiceHtml = (document: InvoiceDocument): string => {
+  const format = createFormat(document);
+  const columns = COLUMNS[document.layout];
+  const cell = (tag: 'th' | 'td', text: string, index: number) =>
+    `<${tag}${index > 0 ? ' class="number"' : ''}>${escapeHtml(text)}</${tag}>`;
+  const meta = getMetaRows(document, format)
+    .map(([label, value]) => `<tr><td>${escapeHtml(label)}</td><td>${escapeHtml(value)}</td></tr>`)
+    .join('\n');
+
+  const header =
+    document.layout === 'compact'
+      ? `<header><h1>Invoice ${escapeHtml(document.invoiceNumber)}</h1><table class="meta">${meta}</table></header>`
+      : `<header><div>${renderPartyHtml(describeParty(document.seller))}</div>` +
+        `<div><h1>INVOICE</h1><table class="meta">${meta}</table></div></header>`;
+
+  return `<!DOCTYPE html>
+<html lang="${escapeHtml(document.locale)}">
+<head>
+<meta charset="utf-8">
+<title>Invoice ${escapeHtml(document.invoiceNumber)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body class="invoice invoice-${document.layout}">
+${header}
+<section class="bill-to">
+<div class="label">Bill to</div>
+${renderPartyHtml(describeParty(document.customer))}
+</section>
+<table class="lines">
+<thead><tr>${columns.map((column, index) => cell('th', column.label, index)).join('')}</tr></thead>
+<tbody>
+${document.totals.lines
+  .map(line => `<tr>${columns.map((column, index) => cell('td', column.value(line, format), index)).join('')}</tr>`)
+  .join('\n')}
+</tbody>
+</table>
+<table class="totals">
+${getTotalRows(document, format)
+  .map(row => `<tr${row.grand ? ' class="grand"' : ''}><td>${escapeHtml(row.label)}</td><td>${escapeHtml(row.value)}</td></tr>`)
+  .join('\n')}
+</table>
+${document.notes ? `<section class="notes">${escapeHtml(document.notes)}</section>\n` : ''}</body>
+</html>
+`;
+};
+
+const GREY: PdfColor = [0.42, 0.45, 0.5];
+const RULE: PdfColor = [0.9, 0.91, 0.92];
+const SHADE: PdfColor = [0.95, 0.96, 0.96];
+const MARGIN = 50;
+const LINE_HEIGHT = 12;
+
+export const renderInvoicePdf = (document: InvoiceDocument): Uint8Array => {
+  // Currency symbols the standard fonts lack, such as ₹, are written as the currency code
+  const symbolic = createFormat(document);
+  const format = canEncode(symbolic.money(1)) ? symbolic : createFormat(document, 'code');
+  const pdf = new PdfDocument({ title: `Invoice ${document.invoiceNumber}` });
+  const right = pdf.width - MARGIN;
+  const bottom = pdf.height - MARGIN;
+  let y = MARGIN + 20;
+
+  const metaRows = getMetaRows(document, format);
+  if (document.layout === 'compact') {
+    pdf.text(`Invoice ${document.invoiceNumber}`, MARGIN, y, { size: 18, bold: true });
+    metaRows.slice(1).forEach(([label, value], index) => {
+      pdf.text(`${label}: ${value}`, right, y - 8 + index * LINE_HEIGHT, { size: 9, align: 'right', color: GREY });
+    });
+    y += 30;
+  } else {
+    const seller = describeParty(document.seller);
+    pdf.text('INVOICE', right, y, { size: 22, bold: true, align: 'right' });
+    if (seller.name) pdf.text(seller.name, MARGIN, y, { size: 14, bold: true });
+    let sellerY = y + 16;
+    for (const line of seller.details) {
+      pdf.text(truncateText(line, 260, 9), MARGIN, sellerY, { size: 9, color: GREY });
+      sellerY += LINE_HEIGHT;
+    }
+    let metaY = y + 20;
+    for (const [label, value] of metaRows) {
+      pdf.text(label, right - 110, metaY, { size: 9, align: 'right', color: GREY });
+      pdf.text(value, right, metaY, { size: 9, align: 'right' });
+      metaY += LINE_HEIGHT;
+    }
+    y = Math.max(sellerY, metaY) + 20;
+  }
+
+  const customer = describeParty(document.customer);
+  pdf.text('BILL TO', MARGIN, y, { size: 8, bold: true, color: GREY });
+  y += LINE_HEIGHT;
+  for (const line of [customer.name, ...customer.details].filter(Boolean)) {
+    pdf.text(truncateText(line, 300, 10), MARGIN, y, { size: 10, bold: line === customer.name });
+    y += LINE_HEIGHT + 1;
+  }
+  y += 16;
+
+  // Column positions: the description runs from the margin, the rest are right-aligned to their edge
+  const columns = COLUMNS[document.layout];
+  const edges = [MARGIN];
+  let edge = right;
+  for (let index = columns.length - 1; index > 0; index--) {
+    edges[index] = edge;
+    edge -= columns[index].width;
+  }
+  const descriptionWidth = edge - MARGIN - 12;
+  const drawHeader = () => {
+    pdf.rect(MARGIN, y, right - MARGIN, 20, SHADE);
+    columns.forEach((column, index) => {
+      pdf.text(column.label, index === 0 ? MARGIN + 6 : edges[index] - 6, y + 13, { size: 8, bold: true, align: index === 0 ? 'left' : 'right' });
+    });
+    y += 20;
+  };
+  const newPage = () => {
+    pdf.addPage();
+    y = MARGIN + 10;
+    pdf.text(`Invoice ${document.invoiceNumber} (continued)`, MARGIN, y, { size: 9, color: GREY });
+    y += 20;
+  };
+
+  drawHeader();
+  for (const line of document.totals.lines) {
+    const description = wrapText(line.description || '—', descriptionWidth, 9);
+    const height = description.length * LINE_HEIGHT + 10;
+    if (y + height > bottom) {
+      newPage();
+      drawHeader();
+    }
+    description.forEach((text, index) => pdf.text(text, MARGIN + 6, y + 14 + index * LINE_HEIGHT, { size: 9 }));
+    columns.slice(1).forEach((column, index) => {
+      pdf.text(column.value(line, format), edges[index + 1] - 6, y + 14, { size: 9, align: 'right' });
+    });
+    y += height;
+    pdf.line(MARGIN, y, right, y, { color: RULE });
+  }
+
+  const totalRows = getTotalRows(document, format);
+  if (y + 20 + totalRows.length * 16 > bottom) newPage();
+  y += 20;
+  for (const row of totalRows) {
+    if (row.grand) {
+      pdf.line(right - 240, y - 10, right, y - 10, { width: 1 });
+      y += 4;
+    }
+    const options = { size: row.grand ? 12 : 9, bold: row.grand, align: 'right' as const };
+    pdf.text(row.label, right - 110, y, { ...options, color: row.grand ? undefined : GREY });
+    pdf.text(row.value, right - 6, y, options);
+    y += 16;
+  }
+
+  if (document.notes) {
+    y += 16;
+    for (const text of wrapText(document.notes, right - MARGIN, 9)) {
+      if (y > bottom) newPage();
+      pdf.text(text, MARGIN, y, { size: 9, color: GREY });
+      y += LINE_HEIGHT;
+    }
+  }
+
+  return pdf.toBytes();
+};
+
+// ---------------------------------------------------------------------------
+// Processor
+
+const addDays = (date: string, days: number): string => {
+  const result = new Date(`${date}T00:00:00Z`);
+  result.setUTCDate(result.getUTCDate() + days);
+  return result.toISOString().slice(0, 10);
+};
+
+export const isSupportedLocale = (locale: string): boolean => {
+  try {
+    return Intl.NumberFormat.supportedLocalesOf(locale).length > 0;
+  } catch {
+    return false;
+  }
+};
+
+const toParty = (value: DataValue | undefined): NodeData =>
+  value && typeof value === 'object' && !Array.isArray(value) ? (value as NodeData) : {};
+
+export class InvoiceProcessor extends BaseNodeProcessor {
+  async execute(context: NodeExecutionContext, _signal?: AbortSignal, runtime?: NodeRuntime): Promise<NodeData> {
+    const config = this.config as InvoiceNodeConfig;
+    if (!runtime) throw new Error('Invoice nodes can only run inside the workflow engine');
+
+    const currency = (config.currency?.trim() || DEFAULT_CURRENCY).toUpperCase();
+    const locale = config.locale?.trim() || DEFAULT_LOCALE;
+    if (!isSupportedLocale(locale)) throw new Error(`Unsupported locale '${locale}'`);
+
+    const items = readLineItems(config.lineItems as DataValue);
+    if (items.length === 0) throw new Error('Invoice has no line items');
+    const discount =
+      config.discountType === 'percent' || config.discountType === 'amount'
+        ? { type: config.discountType, value: toNumber(config.discountValue ?? 0, 'Invoice discount') }
+        : undefined;
+    const totals = calculateInvoice(items, currency, discount);
+
+    const invoiceNumber = await issueInvoiceNumber(runtime.tables, context.workflowId, config.numberPrefix ?? DEFAULT_NUMBER_PREFIX);
+    const issueDate = new Date().toISOString().slice(0, 10);
+    const dueInDays = config.dueInDays === undefined ? undefined : toNumber(config.dueInDays, 'Due in days');
+    const document: InvoiceDocument = {
+      invoiceNumber,
+      issueDate,
+      dueDate: dueInDays === undefined ? undefined : addDays(issueDate, dueInDays),
+      layout: config.invoiceTemplate === 'compact' ? 'compact' : 'default',
+      locale,
+      seller: toParty(config.sellerData),
+      customer: toParty(config.customerData),
+      notes: config.notes?.trim() || undefined,
+      totals,
+    };
+    this.log(context, `Issued invoice ${invoiceNumber} over ${totals.total} ${currency}`);
+
+    const fileName = invoiceNumber.replace(/[^\w.-]+/g, '_');
+    const html = await runtime.files.save(`${fileName}.html`, 'text/html', renderInvoiceHtml(document));
+    const pdf = await runtime.files.save(`${fileName}.pdf`, 'application/pdf', renderInvoicePdf(document));
+
+    await runtime.tables.insert(INVOICE_TABLE, [
+      {
+        id: getInvoiceRowId(context.workflowId, invoiceNumber),
+        workflowId: context.workflowId,
+        executionId: context.executionId,
+        invoiceNumber,
+        issueDate,
+        dueDate: document.dueDate ?? null,
+        customer: describeParty(document.customer).name,
+        currency,
+        total: totals.total,
+        pdfFileId: pdf.fileId,
+      },
+    ]);
+
+    return {
+      pdf: { ...pdf },
+      html: { ...html },
+      total: totals.total,
+      invoiceNumber,
+      invoice: { invoiceNumber, issueDate, dueDate: document.dueDate ?? null, ...totals } as unknown as NodeData,
+    };
+  }
+}
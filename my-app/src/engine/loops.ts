@@ -0,0 +1,64 @@
+/**
+ * File: loops.ts
+ *
+ * Graph helpers for iterator nodes. The body of a loop is everything downstream of an
+ * iterator up to, but not including, its matching collector. Iterators nested inside a
+ * body are matched with their own collectors first.
+ */
+
+import type { DataValue, Workflow } from '../workflow-engine-core';
+
+export interface LoopBody {
+  nodeIds: string[];
+  collectorIds: string[];
+}
+
+export const getLoopBody = (workflow: Workflow, iteratorId: string): LoopBody => {
+  const nodeIds = new Set<string>();
+  const collectorIds = new Set<string>();
+  const visited = new Set<string>();
+
+  const visit = (nodeId: string, depth: number) => {
+    for (const conn of workflow.connections.filter(c => c.sourceNodeId === nodeId)) {
+      const target = workflow.nodes.find(n => n.id === conn.targetNodeId);
+      if (!target) continue;
+
+      let targetDepth = depth;
+      if (target.type === 'collector') {
+        if (depth === 0) {
+          collectorIds.add(target.id);
+          continue;
+        }
+        targetDepth--;
+      } else if (target.type === 'iterator') {
+        targetDepth++;
+      }
+
+      const key = `${target.id}@${targetDepth}`;
+      if (visited.has(key)) continue;
+      visited.add(key);
+
+      nodeIds.add(target.id);
+      visit(target.id, targetDepth);
+    }
+  };
+
+  visit(iteratorId, 0);
+
+  // Keep the workflow's node order so loop bodies are scheduled deterministically
+  return {
+    nodeIds: workflow.nodes.map(n => n.id).filter(id => nodeIds.has(id)),
+    collectorIds: workflow.nodes.map(n => n.id).filter(id => collectorIds.has(id)),
+  };
+};
+
+// Splits items into batches; a batch size of one passes items through unwrapped
+export const toBatches = (items: DataValue[], batchSize = 1): DataValue[] => {
+  if (batchSize <= 1) return items;
+
+  const batches: DataValue[] = [];
+  for (let i = 0; i < items.length; i += batchSize) {
+    batches.push(items.slice(i, i + batchSize));
+  }
+  return batches;
+};
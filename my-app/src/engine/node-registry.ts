@@ -0,0 +1,233 @@
+/**
+ * File: node-registry.ts
+ *
+ * Registry of node type plugins. A plugin describes everything the platform needs to know
+ * about a node type: how it appears in the toolbar, which fields the config panel renders,
+ * which ports it exposes and how the engine builds a processor for it. Built-in node types
+ * are registered the same way as in-house ones, so new types never require changes to
+ * workflow-engine-core.ts.
+ */
+
+import type {
+  BaseNodeConfig,
+  BaseNodeProcessor,
+  DataValue,
+  NamedEvent,
+  NodeConfig,
+  NodeData,
+  NodeConnection,
+  NodeTypeId,
+  Workflow,
+} from '../workflow-engine-core';
+import type { NodeIssue, NodeValidationContext } from './validation';
+
+// Editor widgets the config panel knows how to render
+export type ConfigFieldType =
+  | 'text'
+  | 'textarea'
+  | 'number'
+  | 'boolean'
+  | 'select'
+  | 'list'
+  | 'json'
+  | 'branches'
+  | 'conditions' // a list of conditions that must all hold
+  | 'cron' // a text field previewing its next fire times in the node's `timeZone`
+  | 'webhook' // the receiver URL of a webhook ID, with the payloads received lately
+  | 'workflow' // picks another workflow and copies its declared outputs into `outputNames`
+  | 'lineItems' // invoice line items, or an expression yielding them
+  | 'tableNode' // picks a table node of the same workflow by ID
+  | 'tableNodes' // picks any number of table nodes of the same workflow
+  | 'pageTemplate' // page HTML with {{ }} values and blocks, rendered by the page rather than by runs
+  | 'credential' // picks a stored credential by ID; `options` lists the credential types it accepts
+  | 'aggregates'; // report aggregates: a function over a field
+
+// A single configurable field of a node type
+export interface ConfigFieldSchema {
+  key: string;
+  label: string;
+  type: ConfigFieldType;
+  placeholder?: string;
+  required?: boolean;
+  rows?: number; // for textarea and json fields
+  options?: Array<{ value: string; label: string }>; // for select and aggregates fields
+  visibleWhen?: { field: string; equals: DataValue[] }; // show only for certain values of another field
+  deferred?: boolean; // {{ }} expressions are left for later instead of being resolved before the node runs
+  secret?: boolean; // shown masked and left out of workflow exports
+}
+
+// Kind of data a port carries; 'any' connects to everything
+export type PortDataType = 'any' | 'object' | 'array' | 'string' | 'number' | 'boolean' | 'file';
+
+// A named connection point on a node
+export interface PortDefinition {
+  name: string;
+  label?: string;
+  dataType?: PortDataType; // defaults to 'any'
+  required?: boolean; // for inputs that must be connected
+}
+
+// Fields every plugin fills in when a node of its type is created
+type NodeDefaults = Omit<NodeConfig, keyof BaseNodeConfig> | Record<string, unknown>;
+
+export interface NodePlugin<TConfig extends NodeConfig = NodeConfig> {
+  type: NodeTypeId;
+  name: string;
+  icon: string;
+  color: string;
+  description: string;
+  configSchema: ConfigFieldSchema[];
+  // Node types whose ports depend on their config, such as routers, compute them per node
+  inputs: PortDefinition[] | ((config: TConfig) => PortDefinition[]);
+  outputs: PortDefinition[] | ((config: TConfig) => PortDefinition[]);
+  createDefaults: () => NodeDefaults;
+  // Checks beyond the schema's required fields, such as formats and references to other nodes
+  validate?: (config: TConfig, context: NodeValidationContext) => NodeIssue[];
+  // Events a completed node announces on its own, such as a table node's record changes
+  emits?: (config: TConfig, output: NodeData) => NamedEvent[];
+  // Omitted for node types that only run in simulation mode
+  createProcessor?: (config: TConfig) => BaseNodeProcessor;
+}
+
+export class NodeRegistry {
+  private plugins: Map<NodeTypeId, NodePlugin> = new Map();
+
+  register<TConfig extends NodeConfig>(plugin: NodePlugin<TConfig>): void {
+    if (this.plugins.has(plugin.type)) {
+      throw new Error(`Node type '${plugin.type}' is already registered`);
+    }
+    this.plugins.set(plugin.type, plugin as unknown as NodePlugin);
+  }
+
+  unregister(type: NodeTypeId): void {
+    this.plugins.delete(type);
+  }
+
+  get(type: NodeTypeId): NodePlugin | undefined {
+    return this.plugins.get(type);
+  }
+
+  has(type: NodeTypeId): boolean {
+    return this.plugins.has(type);
+  }
+
+  list(): NodePlugin[] {
+    return Array.from(this.plugins.values());
+  }
+
+  createNodeConfig(type: NodeTypeId, position: { x: number; y: number }): NodeConfig {
+    const plugin = this.plugins.get(type);
+    if (!plugin) {
+      throw new Error(`Unknown node type: ${type}`);
+    }
+
+    return {
+      id: `node_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      name: `${plugin.name} Node`,
+      description: '',
+      position,
+      enabled: true,
+      ...plugin.createDefaults(),
+      type,
+    } as NodeConfig;
+  }
+}
+
+// Execution limits every node type supports, rendered below the plugin's own fields
+export const reliabilityConfigSchema: ConfigFieldSchema[] = [
+  { key: 'retryCount', label: 'Retries', type: 'number', placeholder: 'Workflow default' },
+  {
+    key: 'retryBackoff',
+    label: 'Retry Backoff',
+    type: 'select',
+    options: [
+      { value: '', label: 'Workflow default' },
+      { value: 'fixed', label: 'Fixed' },
+      { value: 'exponential', label: 'Exponential' },
+      { value: 'jitter', label: 'Exponential with jitter' },
+    ],
+  },
+  { key: 'retryDelay', label: 'Retry Delay (ms)', type: 'number', placeholder: '1000' },
+  { key: 'timeout', label: 'Timeout per Attempt (ms)', type: 'number', placeholder: 'No timeout' },
+];
+
+// Controls how a node treats several incoming branches
+export const mergeConfigSchema: ConfigFieldSchema[] = [
+  {
+    key: 'mergeMode',
+    label: 'Incoming Branches',
+    type: 'select',
+    options: [
+      { value: 'all', label: 'Wait for all (skip if any branch was not taken)' },
+      { value: 'any', label: 'Wait for any (run if one branch was taken)' },
+    ],
+  },
+];
+
+// Lets any node announce a named event when it completes
+export const eventConfigSchema: ConfigFieldSchema[] = [
+  { key: 'emitEvent', label: 'Emit Event on Completion', type: 'text', placeholder: 'order.approved' },
+];
+
+export const getInputPorts = (plugin: NodePlugin, config: NodeConfig): PortDefinition[] =>
+  typeof plugin.inputs === 'function' ? plugin.inputs(config) : plugin.inputs;
+
+export const getOutputPorts = (plugin: NodePlugin, config: NodeConfig): PortDefinition[] =>
+  typeof plugin.outputs === 'function' ? plugin.outputs(config) : plugin.outputs;
+
+export const getPortDataType = (port: PortDefinition): PortDataType => port.dataType ?? 'any';
+
+export const arePortsCompatible = (source: PortDefinition, target: PortDefinition): boolean => {
+  const sourceType = getPortDataType(source);
+  const targetType = getPortDataType(target);
+  return sourceType === 'any' || targetType === 'any' || sourceType === targetType;
+};
+
+// Explains why a connection is not allowed, or returns undefined if it is
+export const getConnectionError = (
+  workflow: Workflow,
+  connection: Omit<NodeConnection, 'id'>,
+  registry: NodeRegistry = nodeRegistry
+): string | undefined => {
+  const source = workflow.nodes.find(n => n.id === connection.sourceNodeId);
+  const target = workflow.nodes.find(n => n.id === connection.targetNodeId);
+  if (!source) return `Connection references non-existent source node: ${connection.sourceNodeId}`;
+  if (!target) return `Connection references non-existent target node: ${connection.targetNodeId}`;
+  if (source.id === target.id) return `${source.name} cannot be connected to itself`;
+
+  const sourcePlugin = registry.get(source.type);
+  const targetPlugin = registry.get(target.type);
+  // Ports of unknown node types cannot be checked
+  if (!sourcePlugin || !targetPlugin) return undefined;
+
+  const output = getOutputPorts(sourcePlugin, source).find(port => port.name === connection.sourceOutput);
+  const input = getInputPorts(targetPlugin, target).find(port => port.name === connection.targetInput);
+  if (!output) return `${source.name} has no output port '${connection.sourceOutput}'`;
+  if (!input) return `${target.name} has no input port '${connection.targetInput}'`;
+
+  if (!arePortsCompatible(output, input)) {
+    return `Type mismatch: ${source.name}.${output.name} (${getPortDataType(output)}) cannot feed ${target.name}.${input.name} (${getPortDataType(input)})`;
+  }
+
+  const duplicate = workflow.connections.some(
+    conn =>
+      conn !== connection &&
+      conn.sourceNodeId === connection.sourceNodeId &&
+      conn.sourceOutput === connection.sourceOutput &&
+      conn.targetNodeId === connection.targetNodeId &&
+      conn.targetInput === connection.targetInput
+  );
+  if (duplicate) return `${source.name}.${output.name} is already connected to ${target.name}.${input.name}`;
+  return undefined;
+};
+
+// Reads a config field by its schema key
+export const getConfigValue = (config: NodeConfig, key: string): unknown =>
+  (config as unknown as Record<string, unknown>)[key];
+
+// Whether a schema field applies to the config in its current state
+export const isFieldVisible = (config: NodeConfig, field: ConfigFieldSchema): boolean =>
+  !field.visibleWhen || field.visibleWhen.equals.includes(getConfigValue(config, field.visibleWhen.field) as DataValue);
+
+// Shared registry used by the builder and the default execution engine
+export const nodeRegistry = new NodeRegistry();
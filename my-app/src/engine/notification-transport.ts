@@ -0,0 +1,171 @@
+/**
+ * File: notification-transport.ts
+ *
+ * How Notification nodes reach people. Each channel (Slack, Discord, SMS, push) has a
+ * NotificationAdapter that delivers a notification to every recipient and reports how each
+ * delivery went; one recipient failing does not stop the others.
+ *
+ * SMS and push go through a MessagingProvider, the interface a gateway such as an SMS service
+ * or a push service implements; ProviderAdapter turns one into an adapter. CaptureProvider
+ * keeps what it is given instead of sending it, for the builder and for tests. Slack and
+ * Discord incoming webhooks are in chat-webhooks.ts.
+ *
+ * A provider or webhook that answers "too many requests" throws RateLimitError; the delivery is
+ * retried after the wait it asked for, a few times, unless that wait is too long.
+ */
+
+import { sleep } from './retry';
+
+export type NotificationChannel = 'push' | 'sms' | 'slack' | 'discord';
+
+export type NotificationLevel = 'info' | 'success' | 'warning' | 'error';
+
+export interface Notification {
+  recipients: string[]; // webhook URLs for Slack and Discord, phone numbers for SMS, device tokens for push
+  title?: string;
+  text: string;
+  level: NotificationLevel;
+  fields: Array<{ name: string; value: string }>; // facts shown beside the text
+  channel?: string; // Slack channel to post in instead of the webhook's own; Discord thread ID
+  username?: string; // name the message is posted under, where the channel allows it
+}
+
+export interface NotificationDelivery {
+  recipient: string; // as given, or masked when it holds a secret such as a webhook token
+  status: 'delivered' | 'failed';
+  messageId?: string;
+  error?: string;
+  attempts: number;
+}
+
+export interface NotificationAdapter {
+  deliver(notification: Notification, signal?: AbortSignal): Promise<NotificationDelivery[]>;
+}
+
+export type NotificationAdapters = Record<NotificationChannel, NotificationAdapter>;
+
+export class RateLimitError extends Error {
+  retryAfter: number; // ms the service asked to wait
+
+  constructor(message: string, retryAfter: number) {
+    super(message);
+    this.name = 'RateLimitError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+export interface RateLimitOptions {
+  maxRetries?: number; // defaults to 3
+  maxWait?: number; // ms; a longer requested wait fails the delivery instead; defaults to 30000
+}
+
+// Runs send() for one recipient, waiting out rate limits, and records the outcome rather than throwing
+export const deliverWithRateLimit = async (
+  recipient: string,
+  send: () => Promise<string | undefined>,
+  options: RateLimitOptions = {},
+  signal?: AbortSignal
+): Promise<NotificationDelivery> => {
+  const { maxRetries = 3, maxWait = 30000 } = options;
+  for (let attempts = 1; ; attempts++) {
+    try {
+      const messageId = await send();
+      return { recipient, status: 'delivered', ...(messageId ? { messageId } : {}), attempts };
+    } catch (error) {
+      if (signal?.aborted) throw signal.reason;
+      const message = error instanceof Error ? error.message : String(error);
+      if (!(error instanceof RateLimitError) || attempts > maxRetries || error.retryAfter > maxWait) {
+        return { recipient, status: 'failed', error: message, attempts };
+      }
+      await sleep(Math.max(0, error.retryAfter), signal);
+    }
+  }
+};
+
+// Retry-After is either seconds or an HTTP date
+export const parseRetryAfter = (value: string | null, fallback = 1000): number => {
+  if (!value) return fallback;
+  const seconds = Number(value);
+  if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? fallback : Math.max(0, date - Date.now());
+};
+
+export interface ProviderMessage {
+  title?: string;
+  text: string;
+  data: Record<string, string>; // the notification's fields, for push payloads
+}
+
+// A gateway for SMS or push; throws RateLimitError when it is being sent too much
+export interface MessagingProvider {
+  send(recipient: string, message: ProviderMessage, signal?: AbortSignal): Promise<{ messageId: string }>;
+}
+
+export const E164_PATTERN = /^\+[1-9]\d{6,14}$/;
+
+export class ProviderAdapter implements NotificationAdapter {
+  private provider: MessagingProvider;
+  private channel: 'sms' | 'push';
+  private options: RateLimitOptions;
+
+  constructor(channel: 'sms' | 'push', provider: MessagingProvider, options: RateLimitOptions = {}) {
+    this.channel = channel;
+    this.provider = provider;
+    this.options = options;
+  }
+
+  async deliver(notification: Notification, signal?: AbortSignal): Promise<NotificationDelivery[]> {
+    // Text messages have no title or layout, so the title leads the text
+    const message: ProviderMessage =
+      this.channel === 'sms'
+        ? { text: notification.title ? `${notification.title}: ${notification.text}` : notification.text, data: {} }
+        : {
+            title: notification.title,
+            text: notification.text,
+            data: Object.fromEntries(notification.fields.map(field => [field.name, field.value])),
+          };
+
+    const deliveries: NotificationDelivery[] = [];
+    for (const recipient of notification.recipients) {
+      if (this.channel === 'sms' && !E164_PATTERN.test(recipient)) {
+        deliveries.push({ recipient, status: 'failed', error: 'Not a phone number in international format (+15551234567)', attempts: 0 });
+        continue;
+      }
+      deliveries.push(
+        await deliverWithRateLimit(
+          recipient,
+          async () => (await this.provider.send(recipient, message, signal)).messageId,
+          this.options,
+          signal
+        )
+      );
+    }
+    return deliveries;
+  }
+}
+
+export interface CapturedMessage {
+  messageId: string;
+  recipient: string;
+  message: ProviderMessage;
+  sentAt: string; // ISO timestamp
+}
+
+export class CaptureProvider implements MessagingProvider {
+  private messages: CapturedMessage[] = [];
+
+  async send(recipient: string, message: ProviderMessage): Promise<{ messageId: string }> {
+    const messageId = `msg_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+    this.messages.push({ messageId, recipient, message: structuredClone(message), sentAt: new Date().toISOString() });
+    return { messageId };
+  }
+
+  list(): CapturedMessage[] {
+    return [...this.messages];
+  }
+
+  clear(): void {
+    this.messages = [];
+  }
+}
@@ -0,0 +1,64 @@
+/**
+ * File: notifications.ts
+ *
+ * Notification nodes. The node builds one notification from its config and hands it to the
+ * engine's adapter for the chosen channel (see notification-transport.ts), then reports each
+ * recipient's delivery. Some recipients failing is logged and shown in the output; the node only
+ * fails when nobody could be reached.
+ */
+
+import { BaseNodeProcessor } from '../workflow-engine-core';
+import type { DataValue, NodeData, NodeExecutionContext, NodeRuntime, NotificationNodeConfig } from '../workflow-engine-core';
+import type { PortDefinition } from './node-registry';
+import type { Notification, NotificationLevel } from './notification-transport';
+import { toAddressList } from './email';
+
+export const NOTIFICATION_OUTPUTS: PortDefinition[] = [
+  { name: 'deliveries', label: 'Deliveries', dataType: 'array' },
+  { name: 'delivered', label: 'Delivered', dataType: 'number' },
+  { name: 'failed', label: 'Failed', dataType: 'number' },
+];
+
+export const NOTIFICATION_LEVELS: Array<{ value: NotificationLevel; label: string }> = [
+  { value: 'info', label: 'Info' },
+  { value: 'success', label: 'Success' },
+  { value: 'warning', label: 'Warning' },
+  { value: 'error', label: 'Error' },
+];
+
+const toText = (value: DataValue): string =>
+  value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+export class NotificationProcessor extends BaseNodeProcessor {
+  async execute(context: NodeExecutionContext, signal?: AbortSignal, runtime?: NodeRuntime): Promise<NodeData> {
+    const config = this.config as NotificationNodeConfig;
+    if (!runtime) throw new Error('Notification nodes can only run inside the workflow engine');
+
+    const recipients = toAddressList(config.recipients);
+    if (recipients.length === 0) throw new Error('No recipients to notify');
+
+    const notification: Notification = {
+      recipients,
+      title: config.title?.trim() || undefined,
+      text: config.message ?? '',
+      level: NOTIFICATION_LEVELS.find(option => option.value === config.level)?.value ?? 'info',
+      fields: Object.entries(config.fields ?? {}).map(([name, value]) => ({ name, value: toText(value) })),
+      channel: config.channel?.trim() || undefined,
+      username: config.username?.trim() || undefined,
+    };
+
+    this.log(context, `Sending ${config.notificationType} notification to ${recipients.length} recipient(s)`);
+    const deliveries = await runtime.notifications[config.notificationType].deliver(notification, signal);
+
+    const failed = deliveries.filter(delivery => delivery.status === 'failed');
+    for (const delivery of failed) this.log(context, `Not delivered to ${delivery.recipient}: ${delivery.error}`);
+    if (failed.length === deliveries.length) {
+      throw new Error(`No recipient could be notified: ${failed[0]?.error ?? 'nothing was sent'}`);
+    }
+    return {
+      deliveries: deliveries.map(delivery => ({ ...delivery })),
+      delivered: deliveries.length - failed.length,
+      failed: failed.length,
+    };
+  }
+}
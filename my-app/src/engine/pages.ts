@@ -0,0 +1,295 @@
+/**
+ * File: pages.ts
+ *
+ * Page nodes as pages of the app. The enabled Page nodes of active workflows are published at
+ * their routePath (see collectPublishedPages); a route claimed twice, or one the app keeps for
+ * itself, is reported as a conflict and only its first claimant is served.
+ *
+ * A page shows the rows of the table nodes in its dataSources. Its template is the list view;
+ * with a detail template it also answers at routePath/:recordId with one row of its first data
+ * source. Templates are HTML with {{ }} values, HTML-escaped, and two kinds of block:
+ *
+ *   {{#each rows}} <li>{{ item.name }}</li> {{else}} <li>Nothing yet</li> {{/each}}
+ *   {{#if record.paid}} Paid {{else}} Due {{/if}}
+ *
+ * Template values (bare names, or input.<name>):
+ *   title     the page title
+ *   basePath  routePath with its parameters filled in, for links: {{ basePath }}/{{ item.id }}
+ *   params    route parameters
+ *   query     query string parameters
+ *   data      rows of every data source, by table node name
+ *   rows      rows of the first data source
+ *   record    the row a detail view shows, null when there is no such row
+ *   item      inside {{#each}}: the current element; index is its position
+ *
+ * A page with a form table shows a form that creates a row in it, or on a detail view of that
+ * table's rows edits the row shown, and then starts the page's workflow with the row as trigger
+ * data.
+ */
+
+import { BaseNodeProcessor } from '../workflow-engine-core';
+import type {
+  DataValue,
+  NodeData,
+  NodeExecutionContext,
+  PageNodeConfig,
+  TableColumnType,
+  TableNodeConfig,
+  Workflow,
+} from '../workflow-engine-core';
+import { buildExpressionScope, containsExpression, evaluateExpression } from './expressions';
+import type { TableDatabase, TableRow } from './table-store';
+import { escapeHtml } from './email';
+import { parseReportColumns } from './reports';
+import { WEBHOOK_ADMIN_PREFIX, WEBHOOK_PATH_PREFIX } from './webhooks';
+
+// The builder lives at the root and the webhook receiver answers under its prefixes
+const RESERVED_ROUTES = ['/'];
+const RESERVED_PREFIXES = [WEBHOOK_PATH_PREFIX, WEBHOOK_ADMIN_PREFIX];
+
+export const DETAIL_PARAM = 'recordId';
+
+// Routes match regardless of case, trailing slashes and parameter names
+export const normalizeRoute = (route: string): string =>
+  route.trim().toLowerCase().replace(/\/+$/, '').replace(/:[^/]+/g, ':') || '/';
+
+export const getDetailRoute = (routePath: string): string => `${routePath.trim().replace(/\/+$/, '')}/:${DETAIL_PARAM}`;
+
+// The routes a page answers at: its list view, and its detail view when it has a template for one
+export const getPageRoutes = (page: PageNodeConfig): string[] =>
+  page.detailTemplate?.trim() ? [page.routePath.trim(), getDetailRoute(page.routePath)] : [page.routePath.trim()];
+
+// Why the app cannot give a route to pages, if it cannot
+export const getReservedRouteReason = (route: string): string | undefined => {
+  const normalized = normalizeRoute(route);
+  if (RESERVED_ROUTES.includes(normalized)) return `${route} is where the builder lives`;
+  const prefix = RESERVED_PREFIXES.find(reserved => `${normalized}/`.startsWith(reserved.toLowerCase()));
+  return prefix ? `Routes under ${prefix} belong to the webhook receiver` : undefined;
+};
+
+export interface PublishedPage {
+  workflow: Workflow;
+  page: PageNodeConfig;
+  routes: string[];
+}
+
+export interface RouteConflict {
+  route: string;
+  workflow: Workflow;
+  page: PageNodeConfig;
+  reason: string;
+}
+
+// Pages of active workflows in the order given; later claims on a taken route lose it
+export const collectPublishedPages = (workflows: Workflow[]): { pages: PublishedPage[]; conflicts: RouteConflict[] } => {
+  const claimed = new Map<string, PublishedPage>();
+  const pages: PublishedPage[] = [];
+  const conflicts: RouteConflict[] = [];
+
+  for (const workflow of workflows) {
+    if (!workflow.isActive) continue;
+    for (const node of workflow.nodes) {
+      if (node.type !== 'page' || !node.enabled) continue;
+      const page = node as PageNodeConfig;
+      if (!page.routePath?.trim().startsWith('/')) continue;
+
+      const published: PublishedPage = { workflow, page, routes: [] };
+      for (const route of getPageRoutes(page)) {
+        const owner = claimed.get(normalizeRoute(route));
+        const reason = owner
+          ? `${route} is already served by ${owner.page.name} in workflow '${owner.workflow.name}'`
+          : getReservedRouteReason(route);
+        if (reason) {
+          conflicts.push({ route, workflow, page, reason });
+        } else {
+          claimed.set(normalizeRoute(route), published);
+          published.routes.push(route);
+        }
+      }
+      if (published.routes.length > 0) pages.push(published);
+    }
+  }
+  return { pages, conflicts };
+};
+
+// Fills a route's parameters in, e.g. /shops/:shop with { shop: 'north' } is /shops/north
+export const fillRoute = (route: string, params: Record<string, string>): string =>
+  route.trim().replace(/:([^/]+)/g, (match, name: string) => (params[name] !== undefined ? encodeURIComponent(params[name]) : match));
+
+// ---------------------------------------------------------------------------
+// Templates
+
+type TemplatePart =
+  | { kind: 'text'; text: string }
+  | { kind: 'value'; source: string }
+  | { kind: 'each' | 'if'; source: string; body: TemplatePart[]; otherwise: TemplatePart[] };
+
+const TAG_PATTERN = /\{\{([\s\S]*?)\}\}/g;
+
+export const parsePageTemplate = (template: string): TemplatePart[] => {
+  const root: TemplatePart[] = [];
+  // Open blocks, innermost last, with the list their parts currently go into
+  const open: Array<{ block: Extract<TemplatePart, { kind: 'each' | 'if' }>; parts: TemplatePart[] }> = [];
+  const current = () => (open.length ? open[open.length - 1].parts : root);
+  let position = 0;
+
+  for (const match of template.matchAll(TAG_PATTERN)) {
+    if (match.index > position) current().push({ kind: 'text', text: template.slice(position, match.index) });
+    position = match.index + match[0].length;
+
+    const tag = match[1].trim();
+    const opening = /^#(each|if)\s+([\s\S]+)$/.exec(tag);
+    if (opening) {
+      const block = { kind: opening[1] as 'each' | 'if', source: opening[2], body: [], otherwise: [] };
+      current().push(block);
+      open.push({ block, parts: block.body });
+    } else if (tag === 'else') {
+      const innermost = open[open.length - 1];
+      if (!innermost || innermost.parts === innermost.block.otherwise) throw new Error('{{else}} outside an {{#each}} or {{#if}} block');
+      innermost.parts = innermost.block.otherwise;
+    } else if (/^\/(each|if)$/.test(tag)) {
+      const innermost = open.pop();
+      if (innermost?.block.kind !== tag.slice(1)) {
+        throw new Error(innermost ? `{{${tag}}} closes {{#${innermost.block.kind}}}` : `{{${tag}}} has no block to close`);
+      }
+    } else if (/^[#/]/.test(tag)) {
+      throw new Error(`Unknown block {{${tag}}}; pages know {{#each}} and {{#if}}`);
+    } else {
+      current().push({ kind: 'value', source: tag });
+    }
+  }
+  if (open.length > 0) throw new Error(`{{#${open[open.length - 1].block.kind}}} is never closed`);
+  if (position < template.length) root.push({ kind: 'text', text: template.slice(position) });
+  return root;
+};
+
+const isTruthy = (value: unknown): boolean => (Array.isArray(value) ? value.length > 0 : !!value);
+
+const toText = (value: unknown): string =>
+  value === null || value === undefined ? '' : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// Renders a page template to HTML; values from the data are always escaped
+export const renderPageTemplate = (template: string, workflow: Workflow, data: NodeData): string => {
+  const render = (parts: TemplatePart[], input: NodeData): string =>
+    parts
+      .map(part => {
+        if (part.kind === 'text') return part.text;
+        const value = evaluateExpression(part.source, buildExpressionScope(workflow, null, input));
+        if (part.kind === 'value') return escapeHtml(toText(value));
+        if (part.kind === 'if') return render(isTruthy(value) ? part.body : part.otherwise, input);
+
+        if (value !== null && value !== undefined && !Array.isArray(value)) {
+          throw new Error(`{{#each ${part.source}}} needs a list, got ${typeof value}`);
+        }
+        const items = (value ?? []) as DataValue[];
+        return items.length
+          ? items.map((item, index) => render(part.body, { ...input, item, index })).join('')
+          : render(part.otherwise, input);
+      })
+      .join('');
+
+  return render(parsePageTemplate(template), data);
+};
+
+// ---------------------------------------------------------------------------
+// Data
+
+export interface PageRequest {
+  params: Record<string, string>;
+  query: Record<string, string>;
+  recordId?: string; // set on detail views
+}
+
+const getTableNode = (workflow: Workflow, nodeId: string): TableNodeConfig => {
+  const node = workflow.nodes.find(candidate => candidate.id === nodeId);
+  if (!node) throw new Error(`Data source '${nodeId}' does not exist`);
+  if (node.type !== 'table') throw new Error(`Data source ${node.name} is not a table node`);
+  const table = node as TableNodeConfig;
+  if (!table.tableName || containsExpression(table.tableName)) {
+    throw new Error(`The table of ${node.name} is only known when it runs, so pages cannot show it`);
+  }
+  return table;
+};
+
+// The values a page's templates are rendered with
+export const loadPageData = async (
+  tables: TableDatabase,
+  workflow: Workflow,
+  page: PageNodeConfig,
+  request: PageRequest
+): Promise<NodeData> => {
+  const data: Record<string, TableRow[]> = {};
+  let rows: TableRow[] = [];
+  for (const [index, nodeId] of (page.dataSources ?? []).entries()) {
+    const source = getTableNode(workflow, nodeId);
+    data[source.name] = await tables.select(source.tableName);
+    if (index === 0) rows = data[source.name];
+  }
+
+  return {
+    title: page.pageTitle ?? '',
+    basePath: fillRoute(page.routePath, request.params),
+    params: request.params,
+    query: request.query,
+    data,
+    rows,
+    ...(request.recordId !== undefined ? { record: rows.find(row => row.id === request.recordId) ?? null } : {}),
+  };
+};
+
+// ---------------------------------------------------------------------------
+// Forms
+
+export interface PageFormField {
+  name: string;
+  label: string;
+  type: TableColumnType;
+}
+
+// The columns a page's form edits: those listed, or else every column of the table's schema
+export const getPageFormFields = (workflow: Workflow, page: PageNodeConfig): PageFormField[] => {
+  const table = workflow.nodes.find(node => node.id === page.formTable) as TableNodeConfig | undefined;
+  const schema = table?.schema ?? {};
+  const columns = parseReportColumns(page.formFields);
+  const listed = columns.length ? columns : Object.keys(schema).map(field => ({ field, label: field }));
+  return listed.map(({ field, label }) => ({ name: field, label, type: schema[field] ?? 'string' }));
+};
+
+// Writes a submitted form to the page's form table and returns the row as stored
+export const submitPageForm = async (
+  tables: TableDatabase,
+  workflow: Workflow,
+  page: PageNodeConfig,
+  values: NodeData,
+  recordId?: string
+): Promise<TableRow> => {
+  if (!page.formTable) throw new Error(`${page.name} has no form`);
+  const table = getTableNode(workflow, page.formTable);
+  // An emptied field clears the column rather than failing its type check
+  const record = Object.fromEntries(Object.entries(values).map(([field, value]) => [field, value === '' ? null : value]));
+
+  if (recordId === undefined) {
+    const [row] = await tables.insert(table.tableName, [record], table.schema);
+    return row;
+  }
+  const [row] = await tables.update(table.tableName, { id: recordId }, record, table.schema);
+  if (!row) throw new Error(`Row ${recordId} no longer exists`);
+  return row;
+};
+
+// Trigger data of the run a form submission starts
+export const buildPageTriggerData = (page: PageNodeConfig, request: PageRequest, record: TableRow): NodeData => ({
+  page: { nodeId: page.id, title: page.pageTitle, routePath: page.routePath },
+  action: request.recordId === undefined ? 'create' : 'update',
+  params: request.params,
+  record,
+});
+
+// In a run, a page node hands on the path it is published at
+export class PageProcessor extends BaseNodeProcessor {
+  async execute(context: NodeExecutionContext): Promise<NodeData> {
+    const { routePath } = this.config as PageNodeConfig;
+    this.log(context, `Page is served at ${routePath}`);
+    return { url: routePath };
+  }
+}
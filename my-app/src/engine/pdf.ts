@@ -0,0 +1,210 @@
+/**
+ * File: pdf.ts
+ *
+ * A small PDF writer for the documents nodes produce, such as invoices and reports. It lays out
+ * text in the standard Helvetica fonts, which every PDF reader has, plus lines and filled
+ * rectangles, so no fonts or libraries need to be bundled.
+ *
+ * Coordinates are in points from the top-left corner of the page; text is placed by its
+ * baseline. The standard fonts cover the Windows-1252 characters (Latin letters, €, £, ...);
+ * other characters print as '?', and canEncode() tells whether a text will print as written.
+ */
+
+export type PdfColor = [number, number, number]; // red, green, blue from 0 to 1
+
+export interface PdfTextOptions {
+  size?: number; // in points; defaults to 10
+  bold?: boolean;
+  align?: 'left' | 'center' | 'right'; // relative to x
+  color?: PdfColor;
+}
+
+export interface PdfDocumentOptions {
+  width?: number; // page size in points; defaults to A4
+  height?: number;
+  title?: string;
+}
+
+// Advance widths of the printable ASCII characters (32-126) in thousandths of the font size
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 278, 278, 584, 584, 584, 556, 1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556, 333, 556, 556, 500, 556, 556, 278, 556,
+  556, 222, 222, 500, 222, 833, 556, 556, 556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278, 556, 556, 556, 556, 556, 556, 556, 556,
+  556, 556, 333, 333, 584, 584, 584, 611, 975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556, 333, 556, 611, 556, 611, 556, 333, 611,
+  611, 278, 278, 556, 278, 889, 611, 611, 611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Windows-1252 places these characters at 128-159, where Latin-1 has control codes
+const WIN_ANSI_EXTRAS: Record<string, number> = {
+  '€': 0x80, '‚': 0x82, 'ƒ': 0x83, '„': 0x84, '…': 0x85, '†': 0x86, '‡': 0x87, 'ˆ': 0x88, '‰': 0x89, 'Š': 0x8a,
+  '‹': 0x8b, 'Œ': 0x8c, 'Ž': 0x8e, '‘': 0x91, '’': 0x92, '“': 0x93, '”': 0x94, '•': 0x95, '–': 0x96, '—': 0x97,
+  '˜': 0x98, '™': 0x99, 'š': 0x9a, '›': 0x9b, 'œ': 0x9c, 'ž': 0x9e, 'Ÿ': 0x9f,
+};
+
+// Number formats use these spaces between groups of digits; the fonts print them as plain spaces
+const SPACES = new Set(['\u2007', '\u2009', '\u202f']);
+
+// Windows-1252 code of a character, or undefined when the standard fonts lack it
+const encodeChar = (char: string): number | undefined => {
+  const code = char.codePointAt(0)!;
+  if ((code >= 32 && code < 127) || (code >= 160 && code <= 255)) return code;
+  if (SPACES.has(char)) return 32;
+  return WIN_ANSI_EXTRAS[char];
+};
+
+export const canEncode = (text: string): boolean => [...text].every(char => encodeChar(char) !== undefined);
+
+const encodeText = (text: string): number[] => [...text.replace(/[\t\r\n]+/g, ' ')].map(char => encodeChar(char) ?? 63);
+
+export const measureText = (text: string, size = 10, bold = false): number => {
+  const widths = bold ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  const units = encodeText(text).reduce((sum, code) => sum + (code >= 32 && code < 127 ? widths[code - 32] : code === 160 ? 278 : 556), 0);
+  return (units * size) / 1000;
+};
+
+// Breaks text into lines no wider than maxWidth, at spaces where possible
+export const wrapText = (text: string, maxWidth: number, size = 10, bold = false): string[] => {
+  const lines: string[] = [];
+  for (const paragraph of text.split(/\r?\n/)) {
+    let line = '';
+    for (const word of paragraph.split(/\s+/).filter(Boolean)) {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, size, bold) <= maxWidth) {
+        line = candidate;
+        continue;
+      }
+      if (line) lines.push(line);
+      // A word wider than the line is split wherever it runs out of room
+      line = '';
+      for (const char of word) {
+        if (line && measureText(line + char, size, bold) > maxWidth) {
+          lines.push(line);
+          line = '';
+        }
+        line += char;
+      }
+    }
+    lines.push(line);
+  }
+  return lines;
+};
+
+// Shortens text with an ellipsis so it fits maxWidth
+export const truncateText = (text: string, maxWidth: number, size = 10, bold = false): string => {
+  if (measureText(text, size, bold) <= maxWidth) return text;
+  let end = text.length;
+  while (end > 0 && measureText(`${text.slice(0, end)}…`, size, bold) > maxWidth) end--;
+  return `${text.slice(0, end)}…`;
+};
+
+// A PDF literal string; bytes outside printable ASCII are written as octal escapes
+const pdfString = (codes: number[]): string =>
+  `(${codes
+    .map(code =>
+      code === 40 || code === 41 || code === 92
+        ? `\\${String.fromCharCode(code)}`
+        : code >= 32 && code < 127
+          ? String.fromCharCode(code)
+          : `\\${code.toString(8).padStart(3, '0')}`
+    )
+    .join('')})`;
+
+const formatNumber = (value: number): string => String(Math.round(value * 100) / 100);
+
+const colorOperands = (color: PdfColor): string => color.map(formatNumber).join(' ');
+
+export class PdfDocument {
+  readonly width: number;
+  readonly height: number;
+  private title?: string;
+  private pages: string[][] = [];
+
+  constructor(options: PdfDocumentOptions = {}) {
+    this.width = options.width ?? 595.28;
+    this.height = options.height ?? 841.89;
+    this.title = options.title;
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  // Later drawing goes to the new page
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  text(text: string, x: number, y: number, options: PdfTextOptions = {}): void {
+    if (!text) return;
+    const { size = 10, bold = false, align = 'left', color = [0, 0, 0] } = options;
+    const width = measureText(text, size, bold);
+    const left = align === 'right' ? x - width : align === 'center' ? x - width / 2 : x;
+    this.draw(
+      `BT ${colorOperands(color)} rg /${bold ? 'F2' : 'F1'} ${formatNumber(size)} Tf ` +
+        `${formatNumber(left)} ${formatNumber(this.height - y)} Td ${pdfString(encodeText(text))} Tj ET`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, options: { width?: number; color?: PdfColor } = {}): void {
+    const { width = 0.5, color = [0, 0, 0] } = options;
+    this.draw(
+      `${formatNumber(width)} w ${colorOperands(color)} RG ` +
+        `${formatNumber(x1)} ${formatNumber(this.height - y1)} m ${formatNumber(x2)} ${formatNumber(this.height - y2)} l S`
+    );
+  }
+
+  // A filled rectangle whose top-left corner is at x, y
+  rect(x: number, y: number, width: number, height: number, fill: PdfColor): void {
+    this.draw(
+      `${colorOperands(fill)} rg ${formatNumber(x)} ${formatNumber(this.height - y - height)} ` +
+        `${formatNumber(width)} ${formatNumber(height)} re f`
+    );
+  }
+
+  toBytes(): Uint8Array {
+    const objects: string[] = [];
+    const add = (body: string): number => objects.push(body);
+
+    const catalog = add('');
+    const pageTree = add('');
+    const regular = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    const bold = add('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    const resources = `<< /Font << /F1 ${regular} 0 R /F2 ${bold} 0 R >> >>`;
+
+    const pageIds = this.pages.map(operations => {
+      const content = operations.join('\n');
+      const stream = add(`<< /Length ${content.length} >>\nstream\n${content}\nendstream`);
+      return add(
+        `<< /Type /Page /Parent ${pageTree} 0 R /MediaBox [0 0 ${formatNumber(this.width)} ${formatNumber(this.height)}] ` +
+          `/Resources ${resources} /Contents ${stream} 0 R >>`
+      );
+    });
+    objects[catalog - 1] = `<< /Type /Catalog /Pages ${pageTree} 0 R >>`;
+    objects[pageTree - 1] = `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`;
+    const info = add(`<< /Producer (Workflow Builder)${this.title ? ` /Title ${pdfString(encodeText(this.title))}` : ''} >>`);
+
+    // Everything written is ASCII, so string lengths are byte offsets
+    let output = '%PDF-1.4\n';
+    const offsets = objects.map((body, index) => {
+      const offset = output.length;
+      output += `${index + 1} 0 obj\n${body}\nendobj\n`;
+      return offset;
+    });
+    const xref = output.length;
+    output += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    output += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    output += `trailer\n<< /Size ${objects.length + 1} /Root ${catalog} 0 R /Info ${info} 0 R >>\nstartxref\n${xref}\n%%EOF\n`;
+    return new TextEncoder().encode(output);
+  }
+
+  private draw(operation: string): void {
+    this.pages[this.pages.length - 1].push(operation);
+  }
+}
@@ -0,0 +1,18 @@
+/**
+ * File: replay.ts
+ *
+ * Helpers for re-running part of a recorded execution. Retrying from a node re-runs that
+ * node and everything downstream of it; every other node keeps its recorded result.
+ */
+
+import type { Workflow } from '../workflow-engine-core';
+import { getLoopBody } from './loops';
+
+// A loop body node cannot run outside its loop, so a retry starts from the outermost iterator around it
+export const getRetryStartNodeId = (workflow: Workflow, nodeId: string): string => {
+  const enclosing = workflow.nodes
+    .filter(node => node.type === 'iterator' && getLoopBody(workflow, node.id).nodeIds.includes(nodeId))
+    .map(node => node.id);
+
+  return enclosing.find(iteratorId => !enclosing.some(other => getLoopBody(workflow, other).nodeIds.includes(iteratorId))) ?? nodeId;
+};
@@ -0,0 +1,385 @@
+/**
+ * File: reports.ts
+ *
+ * Reports for Report nodes. The node reads rows from the table of its data source (a Table
+ * node in the same workflow) or, without one, from its input; filters and sorts them with a
+ * table query; and lays them out as a report table, which it writes as CSV (RFC 4180), Excel
+ * or PDF into the engine's file store and, when recipients are set, emails as an attachment.
+ *
+ * Layouts ('template'):
+ *   default  the chosen columns of every row; with groupBy, each group gets a heading row and a
+ *            subtotal row, and aggregates are repeated over all rows in a total row
+ *   summary  one row per group with the group's value and its aggregates, then a total row
+ *
+ * In subtotal and total rows each aggregate sits in its field's column; those that have no
+ * column of their own are listed with the row's label in the first column.
+ */
+
+import { BaseNodeProcessor } from '../workflow-engine-core';
+import type {
+  DataValue,
+  NodeData,
+  NodeExecutionContext,
+  NodeRuntime,
+  ReportAggregate,
+  ReportAggregateFunction,
+  ReportNodeConfig,
+  TableNodeConfig,
+} from '../workflow-engine-core';
+import type { PortDefinition } from './node-registry';
+import { getValueAtPath } from './conditions';
+import { containsExpression } from './expressions';
+import { applyTableQuery, parseTableQuery } from './table-query';
+import { SYSTEM_FIELDS } from './table-store';
+import { escapeHtml, toAddressList } from './email';
+import { isValidEmail, parseMailbox } from './validation';
+import { PdfDocument, truncateText } from './pdf';
+import type { PdfColor } from './pdf';
+import { XLSX_MIME_TYPE, createXlsx } from './xlsx';
+
+export const REPORT_OUTPUTS: PortDefinition[] = [
+  { name: 'file', label: 'File', dataType: 'file' },
+  { name: 'rowCount', label: 'Row Count', dataType: 'number' },
+  { name: 'delivery', label: 'Delivery', dataType: 'object' },
+];
+
+export const REPORT_TEMPLATES = [
+  { value: 'default', label: 'Rows by group' },
+  { value: 'summary', label: 'Summary per group' },
+];
+
+export const REPORT_AGGREGATE_FUNCTIONS: Array<{ value: ReportAggregateFunction; label: string }> = [
+  { value: 'count', label: 'Count' },
+  { value: 'sum', label: 'Sum' },
+  { value: 'avg', label: 'Average' },
+  { value: 'min', label: 'Min' },
+  { value: 'max', label: 'Max' },
+];
+
+const FORMATS: Record<ReportNodeConfig['reportType'], { extension: string; mimeType: string }> = {
+  csv: { extension: 'csv', mimeType: 'text/csv' },
+  excel: { extension: 'xlsx', mimeType: XLSX_MIME_TYPE },
+  pdf: { extension: 'pdf', mimeType: 'application/pdf' },
+};
+
+export interface ReportColumn {
+  field: string;
+  label: string;
+}
+
+export interface ReportLine {
+  kind: 'row' | 'group' | 'subtotal' | 'total';
+  cells: DataValue[]; // one per column; group headings only fill the first
+}
+
+export interface ReportTable {
+  title: string;
+  columns: string[]; // headings
+  lines: ReportLine[];
+  rowCount: number; // rows the report was made from
+}
+
+export interface ReportOptions {
+  title: string;
+  template: 'default' | 'summary';
+  columns?: string[];
+  groupBy?: string;
+  aggregates?: ReportAggregate[];
+}
+
+// 'amount as Amount (EUR)' shows the amount field under its own heading
+export const parseReportColumns = (columns: string[] | undefined): ReportColumn[] =>
+  (columns ?? [])
+    .map(column => column.trim())
+    .filter(Boolean)
+    .map(column => {
+      const match = /^(.+?)\s+as\s+(.+)$/i.exec(column);
+      return match ? { field: match[1].trim(), label: match[2].trim() } : { field: column, label: column };
+    });
+
+export const getAggregateLabel = (aggregate: ReportAggregate): string => {
+  const name = REPORT_AGGREGATE_FUNCTIONS.find(option => option.value === aggregate.function)?.label ?? aggregate.function;
+  return aggregate.field ? `${name} of ${aggregate.field}` : name;
+};
+
+// Keeps sums such as 0.1 + 0.2 from printing their binary rounding error
+const tidy = (value: number): number => Number(value.toPrecision(15));
+
+const isBlank = (value: DataValue): boolean => value === undefined || value === null || value === '';
+
+export const computeAggregate = (rows: NodeData[], aggregate: ReportAggregate): DataValue => {
+  const values = aggregate.field
+    ? rows.map(row => getValueAtPath(row, aggregate.field)).filter(value => !isBlank(value))
+    : rows;
+  if (aggregate.function === 'count') return values.length;
+
+  // Numbers stored as text count as numbers; anything else is left out
+  const numbers = values
+    .map(value => (typeof value === 'number' ? value : typeof value === 'string' ? Number(value) : NaN))
+    .filter(Number.isFinite);
+  if (numbers.length === 0) return null;
+  switch (aggregate.function) {
+    case 'sum':
+      return tidy(numbers.reduce((a, b) => a + b, 0));
+    case 'avg':
+      return tidy(numbers.reduce((a, b) => a + b, 0) / numbers.length);
+    case 'min':
+      return Math.min(...numbers);
+    case 'max':
+      return Math.max(...numbers);
+  }
+};
+
+export const formatCell = (value: DataValue): string =>
+  isBlank(value) ? '' : value instanceof Date ? value.toISOString() : typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+// Groups in the order they first appear, which is the order the query sorted the rows in
+const groupRows = (rows: NodeData[], field: string): Array<{ value: DataValue; rows: NodeData[] }> => {
+  const groups = new Map<string, { value: DataValue; rows: NodeData[] }>();
+  for (const row of rows) {
+    const value = getValueAtPath(row, field);
+    const key = JSON.stringify(value ?? null);
+    const group = groups.get(key) ?? { value: value ?? null, rows: [] };
+    group.rows.push(row);
+    groups.set(key, group);
+  }
+  return [...groups.values()];
+};
+
+export const buildReportTable = (rows: NodeData[], options: ReportOptions): ReportTable => {
+  const aggregates = (options.aggregates ?? []).filter(aggregate => aggregate.function === 'count' || aggregate.field);
+  const groupBy = options.groupBy?.trim();
+  const groups = groupBy ? groupRows(rows, groupBy) : [{ value: null, rows }];
+  const groupLabel = (value: DataValue) => formatCell(value) || '(empty)';
+
+  if (options.template === 'summary') {
+    // Counting rows is the summary of last resort
+    const summarized = aggregates.length > 0 ? aggregates : [{ field: '', function: 'count' as const }];
+    const summaryCells = (group: NodeData[]) => summarized.map(aggregate => computeAggregate(group, aggregate));
+    return {
+      title: options.title,
+      columns: [...(groupBy ? [groupBy] : []), ...summarized.map(getAggregateLabel)],
+      lines: groupBy
+        ? [
+            ...groups.map(group => ({ kind: 'row' as const, cells: [groupLabel(group.value), ...summaryCells(group.rows)] })),
+            { kind: 'total', cells: ['Total', ...summaryCells(rows)] },
+          ]
+        : [{ kind: 'row', cells: summaryCells(rows) }],
+      rowCount: rows.length,
+    };
+  }
+
+  let columns = parseReportColumns(options.columns);
+  if (columns.length === 0) {
+    const fields = new Set<string>();
+    rows.forEach(row => Object.keys(row).forEach(field => fields.add(field)));
+    columns = [...fields].filter(field => !SYSTEM_FIELDS.includes(field)).map(field => ({ field, label: field }));
+  }
+
+  const summaryLine = (kind: 'subtotal' | 'total', label: string, group: NodeData[]): ReportLine => {
+    const cells: DataValue[] = columns.map(() => null);
+    const extras: string[] = [];
+    for (const aggregate of aggregates) {
+      const value = computeAggregate(group, aggregate);
+      const index = columns.findIndex(column => column.field === aggregate.field);
+      if (index > 0 && cells[index] === null) cells[index] = value;
+      else extras.push(`${getAggregateLabel(aggregate)}: ${formatCell(value)}`);
+    }
+    cells[0] = [label, ...extras].join(' · ');
+    return { kind, cells };
+  };
+  const detail = (row: NodeData): ReportLine => ({ kind: 'row', cells: columns.map(column => getValueAtPath(row, column.field) ?? null) });
+
+  const lines: ReportLine[] = groupBy
+    ? groups.flatMap(group => [
+        { kind: 'group' as const, cells: [`${groupBy}: ${groupLabel(group.value)}`] },
+        ...group.rows.map(detail),
+        ...(aggregates.length > 0 ? [summaryLine('subtotal', 'Subtotal', group.rows)] : []),
+      ])
+    : rows.map(detail);
+  if (aggregates.length > 0) lines.push(summaryLine('total', 'Total', rows));
+
+  return { title: options.title, columns: columns.map(column => column.label), lines, rowCount: rows.length };
+};
+
+// ---------------------------------------------------------------------------
+// Formats
+
+const csvField = (value: DataValue): string => {
+  const text = formatCell(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+// RFC 4180: a header record, CRLF line breaks and fields quoted when they hold commas, quotes or breaks
+export const renderReportCsv = (table: ReportTable): string =>
+  [table.columns, ...table.lines.map(line => table.columns.map((_, index) => line.cells[index] ?? null))]
+    .map(cells => cells.map(csvField).join(','))
+    .join('\r\n') + '\r\n';
+
+export const renderReportXlsx = (table: ReportTable): Uint8Array =>
+  createXlsx([
+    {
+      name: table.title,
+      rows: [
+        { cells: table.columns, bold: true },
+        ...table.lines.map(line => ({
+          cells: line.cells.map(cell =>
+            typeof cell === 'number' || typeof cell === 'boolean' ? cell : isBlank(cell) ? null : formatCell(cell)
+          ),
+          bold: line.kind !== 'row',
+        })),
+      ],
+    },
+  ]);
+
+const GREY: PdfColor = [0.42, 0.45, 0.5];
+const RULE: PdfColor = [0.9, 0.91, 0.92];
+const SHADE: PdfColor = [0.95, 0.96, 0.96];
+const MARGIN = 40;
+const ROW_HEIGHT = 16;
+
+export const renderReportPdf = (table: ReportTable, generatedAt = new Date()): Uint8Array => {
+  // Wide tables get a landscape page
+  const landscape = table.columns.length > 5;
+  const pdf = new PdfDocument({ width: landscape ? 841.89 : 595.28, height: landscape ? 595.28 : 841.89, title: table.title });
+  const right = pdf.width - MARGIN;
+  const bottom = pdf.height - MARGIN;
+
+  // Columns share the width in proportion to their longest text, and numbers align right
+  const texts = [table.columns, ...table.lines.filter(line => line.kind !== 'group').map(line => line.cells.map(formatCell))];
+  const weights = table.columns.map((_, index) => Math.min(40, Math.max(6, ...texts.map(cells => (cells[index] ?? '').length))));
+  const totalWeight = weights.reduce((a, b) => a + b, 0) || 1;
+  const widths = weights.map(weight => ((right - MARGIN) * weight) / totalWeight);
+  const lefts = widths.map((_, index) => MARGIN + widths.slice(0, index).reduce((a, b) => a + b, 0));
+  const numeric = table.columns.map((_, index) => {
+    const values = table.lines.filter(line => line.kind === 'row').map(line => line.cells[index]).filter(value => !isBlank(value));
+    return values.length > 0 && values.every(value => typeof value === 'number');
+  });
+
+  let page = 1;
+  const footer = () => pdf.text(`Page ${page}`, right, pdf.height - MARGIN / 2, { size: 8, align: 'right', color: GREY });
+  let y = MARGIN + 16;
+  pdf.text(table.title, MARGIN, y, { size: 16, bold: true });
+  y += 16;
+  pdf.text(`Generated ${generatedAt.toISOString().slice(0, 16).replace('T', ' ')} UTC · ${table.rowCount} rows`, MARGIN, y, {
+    size: 9,
+    color: GREY,
+  });
+  y += 16;
+
+  const drawHeader = () => {
+    pdf.rect(MARGIN, y, right - MARGIN, ROW_HEIGHT + 2, SHADE);
+    table.columns.forEach((column, index) => drawCell(column, index, y + 12, true));
+    y += ROW_HEIGHT + 2;
+  };
+  const drawCell = (text: string, index: number, baseline: number, bold: boolean) => {
+    const fitted = truncateText(text, widths[index] - 8, 8, bold);
+    if (numeric[index]) pdf.text(fitted, lefts[index] + widths[index] - 4, baseline, { size: 8, bold, align: 'right' });
+    else pdf.text(fitted, lefts[index] + 4, baseline, { size: 8, bold });
+  };
+
+  drawHeader();
+  for (const line of table.lines) {
+    if (y + ROW_HEIGHT > bottom) {
+      footer();
+      pdf.addPage();
+      page++;
+      y = MARGIN;
+      drawHeader();
+    }
+    if (line.kind === 'group') {
+      pdf.text(truncateText(formatCell(line.cells[0]), right - MARGIN - 8, 9, true), MARGIN + 4, y + 12, { size: 9, bold: true });
+    } else {
+      if (line.kind !== 'row') pdf.line(MARGIN, y, right, y, { width: line.kind === 'total' ? 1 : 0.5 });
+      // The label of a summary row may run across the columns it leaves empty
+      line.cells.forEach((cell, index) => {
+        if (index === 0 && line.kind !== 'row') {
+          const span = line.cells.findIndex((other, at) => at > 0 && !isBlank(other));
+          const width = (span > 0 ? lefts[span] : right) - MARGIN - 8;
+          pdf.text(truncateText(formatCell(cell), width, 8, true), MARGIN + 4, y + 12, { size: 8, bold: true });
+        } else {
+          drawCell(formatCell(cell), index, y + 12, line.kind !== 'row');
+        }
+      });
+      if (line.kind === 'row') pdf.line(MARGIN, y + ROW_HEIGHT, right, y + ROW_HEIGHT, { color: RULE });
+    }
+    y += ROW_HEIGHT;
+  }
+  if (table.lines.length === 0) {
+    pdf.text('No rows', MARGIN + 4, y + 12, { size: 9, color: GREY });
+  }
+  footer();
+  return pdf.toBytes();
+};
+
+// ---------------------------------------------------------------------------
+// Processor
+
+export class ReportProcessor extends BaseNodeProcessor {
+  async execute(context: NodeExecutionContext, _signal?: AbortSignal, runtime?: NodeRuntime): Promise<NodeData> {
+    const config = this.config as ReportNodeConfig;
+    if (!runtime) throw new Error('Report nodes can only run inside the workflow engine');
+
+    const format = FORMATS[config.reportType];
+    if (!format) throw new Error(`Unknown report type '${config.reportType}'`);
+    const recipients = toAddressList(config.emailRecipients ?? []);
+    const invalid = recipients.filter(address => !isValidEmail(parseMailbox(address).address));
+    if (invalid.length > 0) throw new Error(`Invalid email address: ${invalid.join(', ')}`);
+
+    let rows = await this.loadRows(context, runtime);
+    if (config.query?.trim()) rows = applyTableQuery(rows, parseTableQuery(config.query));
+
+    const title = config.title?.trim() || config.name;
+    const table = buildReportTable(rows, {
+      title,
+      template: config.template === 'summary' ? 'summary' : 'default',
+      columns: config.columns,
+      groupBy: config.groupBy,
+      aggregates: config.aggregates,
+    });
+    const content =
+      config.reportType === 'csv' ? renderReportCsv(table) : config.reportType === 'excel' ? renderReportXlsx(table) : renderReportPdf(table);
+    const fileName = `${(config.fileName?.trim() || title).replace(/[^\w.-]+/g, '_')}.${format.extension}`;
+    const file = await runtime.files.save(fileName, format.mimeType, content);
+    this.log(context, `Wrote ${fileName} from ${rows.length} row(s)`);
+
+    let delivery: NodeData | null = null;
+    if (recipients.length > 0) {
+      const summary = `${title}: ${rows.length} row(s), attached as ${fileName}.`;
+      const result = await runtime.mailer.send({
+        to: recipients,
+        cc: [],
+        bcc: [],
+        subject: config.emailSubject?.trim() || title,
+        html: `<p>${escapeHtml(summary)}</p>`,
+        text: summary,
+        attachments: [{ fileName, mimeType: format.mimeType, content: typeof content === 'string' ? new TextEncoder().encode(content) : content }],
+      });
+      this.log(context, `Emailed to ${result.accepted.length} recipient(s) as ${result.messageId}`);
+      if (result.rejected.length > 0) this.log(context, `Rejected: ${result.rejected.join(', ')}`);
+      delivery = { messageId: result.messageId, accepted: result.accepted, rejected: result.rejected };
+    }
+
+    return { file: { ...file }, rowCount: rows.length, delivery };
+  }
+
+  // Rows of the data source's table, or of the input when there is no data source
+  private async loadRows(context: NodeExecutionContext, runtime: NodeRuntime): Promise<NodeData[]> {
+    const { dataSource } = this.config as ReportNodeConfig;
+    if (dataSource) {
+      const source = runtime.workflow.nodes.find(node => node.id === dataSource);
+      if (!source) throw new Error(`Data source '${dataSource}' does not exist`);
+      if (source.type !== 'table') throw new Error(`Data source ${source.name} is not a table node`);
+      const { tableName } = source as TableNodeConfig;
+      if (!tableName || containsExpression(tableName)) {
+        throw new Error(`The table of ${source.name} is only known when it runs; connect its rows to this node instead`);
+      }
+      return runtime.tables.select(tableName);
+    }
+
+    const input = context.inputData.rows;
+    if (input === undefined) throw new Error('No rows: connect a node to the Rows input or choose a data source');
+    const rows = Array.isArray(input) ? input : [input];
+    return rows.filter((row): row is NodeData => !!row && typeof row === 'object' && !Array.isArray(row));
+  }
+}
@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { MAX_RETRY_DELAY, TimeoutError, getBackoffDelay, sleep, withTimeout } from './retry';
+
+describe('getBackoffDelay', () => {
+  it('keeps fixed delays fixed', () => {
+    expect([1, 2, 5].map(attempt => getBackoffDelay('fixed', 200, attempt))).toEqual([200, 200, 200]);
+  });
+
+  it('doubles exponential delays up to the cap', () => {
+    expect([1, 2, 3].map(attempt => getBackoffDelay('exponential', 100, attempt))).toEqual([100, 200, 400]);
+    expect(getBackoffDelay('exponential', 1000, 20)).toBe(MAX_RETRY_DELAY);
+  });
+
+  it('scales jittered delays by the random factor', () => {
+    expect(getBackoffDelay('jitter', 100, 3, () => 0.5)).toBe(200);
+    expect(getBackoffDelay('jitter', 100, 3, () => 0)).toBe(0);
+  });
+});
+
+describe('withTimeout', () => {
+  it('rejects with the given error once the time is up', async () => {
+    await expect(withTimeout(sleep(50), 1, () => new TimeoutError('too slow'))).rejects.toThrow('too slow');
+  });
+
+  it('passes the result through when the promise settles in time', async () => {
+    await expect(withTimeout(Promise.resolve(7), 50, () => new TimeoutError('too slow'))).resolves.toBe(7);
+  });
+});
+
+describe('sleep', () => {
+  it('rejects with the reason when its signal aborts', async () => {
+    const controller = new AbortController();
+    const waiting = sleep(1000, controller.signal);
+    controller.abort(new Error('cancelled'));
+    await expect(waiting).rejects.toThrow('cancelled');
+  });
+});
@@ -0,0 +1,81 @@
+/**
+ * File: retry.ts
+ *
+ * Timing helpers for node retries, per-attempt timeouts and workflow deadlines.
+ */
+
+import type { RetryBackoffStrategy } from '../workflow-engine-core';
+
+export const DEFAULT_MAX_RETRIES = 3;
+export const DEFAULT_RETRY_DELAY = 1000; // in milliseconds
+export const MAX_RETRY_DELAY = 60000;
+
+export class TimeoutError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'TimeoutError';
+  }
+}
+
+// Raised when the workflow as a whole runs out of time, as opposed to a single node attempt
+export class DeadlineExceededError extends TimeoutError {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DeadlineExceededError';
+  }
+}
+
+// Delay before retry number `attempt` (1 for the first retry)
+export const getBackoffDelay = (
+  strategy: RetryBackoffStrategy,
+  baseDelay: number,
+  attempt: number,
+  random: () => number = Math.random
+): number => {
+  switch (strategy) {
+    case 'fixed':
+      return baseDelay;
+    case 'exponential':
+      return Math.min(baseDelay * 2 ** (attempt - 1), MAX_RETRY_DELAY);
+    case 'jitter':
+      // "Full jitter": anywhere between zero and the exponential delay
+      return Math.round(random() * Math.min(baseDelay * 2 ** (attempt - 1), MAX_RETRY_DELAY));
+  }
+};
+
+// Waits `ms` milliseconds; rejects early with the signal's reason if it aborts
+export const sleep = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason);
+      return;
+    }
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal?.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+// Rejects with the given timeout error when `promise` has not settled after `ms` milliseconds
+export const withTimeout = <T>(promise: Promise<T>, ms: number | undefined, createError: () => TimeoutError): Promise<T> => {
+  if (ms === undefined || !Number.isFinite(ms)) return promise;
+
+  return new Promise<T>((resolve, reject) => {
+    const timer = setTimeout(() => reject(createError()), Math.max(0, ms));
+    promise.then(
+      value => {
+        clearTimeout(timer);
+        resolve(value);
+      },
+      error => {
+        clearTimeout(timer);
+        reject(error);
+      }
+    );
+  });
+};
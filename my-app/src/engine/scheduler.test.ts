@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { WorkflowScheduler } from './scheduler';
+import type { Clock, SchedulerOptions } from './scheduler';
+import type { NodeData, Workflow, WorkflowExecution } from '../workflow-engine-core';
+
+const settle = () => new Promise(resolve => setTimeout(resolve, 0));
+
+// A clock whose time only moves when the test advances it
+class FakeClock implements Clock {
+  time: number;
+  private timers: Array<{ at: number; callback: () => void; id: number }> = [];
+  private nextId = 0;
+
+  constructor(start: string) {
+    this.time = Date.parse(start);
+  }
+
+  now(): number {
+    return this.time;
+  }
+
+  setTimer(callback: () => void, delay: number): number {
+    this.timers.push({ at: this.time + delay, callback, id: ++this.nextId });
+    return this.nextId;
+  }
+
+  clearTimer(handle: unknown): void {
+    this.timers = this.timers.filter(timer => timer.id !== handle);
+  }
+
+  // Moves time forward, running the timers that come due on the way; runs started by one timer
+  // get to settle before the next
+  async advanceTo(iso: string): Promise<void> {
+    const target = Date.parse(iso);
+    for (;;) {
+      await settle();
+      const due = this.timers.filter(timer => timer.at <= target).sort((a, b) => a.at - b.at)[0];
+      if (!due) break;
+      this.timers = this.timers.filter(timer => timer !== due);
+      this.time = Math.max(this.time, due.at);
+      due.callback();
+    }
+    this.time = target;
+  }
+}
+
+const scheduled = (schedule: string, isActive = true): Workflow => ({
+  id: 'wf',
+  name: 'Nightly',
+  version: '1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  isActive,
+  nodes: [
+    {
+      id: 'cron',
+      name: 'Cron',
+      type: 'trigger',
+      triggerType: 'schedule',
+      schedule,
+      timeZone: 'UTC',
+      position: { x: 0, y: 0 },
+      enabled: true,
+    },
+  ],
+  connections: [],
+  settings: { errorHandling: 'stop' },
+});
+
+const recordingEngine = (runs: NodeData[], run?: () => Promise<void>): SchedulerOptions['engine'] => ({
+  executeWorkflow: async (_workflow, triggerData) => {
+    runs.push(triggerData ?? {});
+    await run?.();
+    return { status: 'completed' } as WorkflowExecution;
+  },
+});
+
+describe('WorkflowScheduler', () => {
+  it('fires active schedule triggers at their cron times', async () => {
+    const clock = new FakeClock('2024-03-05T09:58:00Z');
+    const runs: NodeData[] = [];
+    const scheduler = new WorkflowScheduler({ engine: recordingEngine(runs), clock });
+    scheduler.sync([scheduled('0 * * * *')]);
+
+    expect(scheduler.list()[0].nextRun?.toISOString()).toBe('2024-03-05T10:00:00.000Z');
+    await clock.advanceTo('2024-03-05T11:30:00Z');
+
+    expect(runs.map(run => run.scheduledTime)).toEqual(['2024-03-05T10:00:00.000Z', '2024-03-05T11:00:00.000Z']);
+    expect(scheduler.list()[0].nextRun?.toISOString()).toBe('2024-03-05T12:00:00.000Z');
+    scheduler.stop();
+  });
+
+  it('ignores inactive workflows and drops triggers that go away', async () => {
+    const clock = new FakeClock('2024-03-05T09:58:00Z');
+    const runs: NodeData[] = [];
+    const scheduler = new WorkflowScheduler({ engine: recordingEngine(runs), clock });
+
+    scheduler.sync([scheduled('0 * * * *', false)]);
+    expect(scheduler.list()).toEqual([]);
+
+    scheduler.sync([scheduled('0 * * * *')]);
+    scheduler.sync([]);
+    await clock.advanceTo('2024-03-05T11:00:00Z');
+    expect(runs).toEqual([]);
+  });
+
+  it('skips a fire time while the previous run is still going', async () => {
+    const clock = new FakeClock('2024-03-05T09:58:00Z');
+    const runs: NodeData[] = [];
+    const skipped: string[] = [];
+    let finish = () => {};
+    const scheduler = new WorkflowScheduler({
+      engine: recordingEngine(runs, () => new Promise(resolve => (finish = resolve))),
+      clock,
+      onRunSkipped: (_trigger, reason) => skipped.push(reason),
+    });
+    scheduler.sync([scheduled('*/1 * * * *')]);
+
+    await clock.advanceTo('2024-03-05T09:59:00Z');
+    await clock.advanceTo('2024-03-05T10:00:00Z');
+    expect(runs).toHaveLength(1);
+    expect(skipped).toEqual(['The previous scheduled run is still in progress']);
+
+    finish();
+    await clock.advanceTo('2024-03-05T10:01:00Z');
+    expect(runs).toHaveLength(2);
+    scheduler.stop();
+  });
+
+  it('records a run that throws on its trigger and keeps firing', async () => {
+    const clock = new FakeClock('2024-03-05T09:58:00Z');
+    let calls = 0;
+    const scheduler = new WorkflowScheduler({
+      engine: {
+        executeWorkflow: async () => {
+          calls += 1;
+          if (calls === 1) throw new Error('engine unavailable');
+          return { status: 'completed' } as WorkflowExecution;
+        },
+      },
+      clock,
+    });
+    scheduler.sync([scheduled('*/1 * * * *')]);
+
+    await clock.advanceTo('2024-03-05T09:59:00Z');
+    expect(scheduler.list()[0].lastError).toBe('engine unavailable');
+
+    await clock.advanceTo('2024-03-05T10:00:00Z');
+    expect(calls).toBe(2);
+    expect(scheduler.list()[0].lastError).toBeUndefined();
+    scheduler.stop();
+  });
+});
@@ -0,0 +1,207 @@
+/**
+ * File: scheduler.ts
+ *
+ * Fires the schedule triggers of active workflows. Each trigger waits for its next cron fire
+ * time and then runs its workflow through the engine. A workflow never has two scheduled runs
+ * at once: a fire time that arrives while the previous run is still going is skipped. Time is
+ * read from an injectable clock so schedules can be driven by a fake one.
+ */
+
+import type {
+  ExecutionOptions,
+  TriggerNodeConfig,
+  Workflow,
+  WorkflowExecution,
+  WorkflowExecutionEngine,
+} from '../workflow-engine-core';
+import { getNextFireTime, parseCron } from './cron';
+import type { CronSchedule } from './cron';
+
+export type TimerHandle = unknown;
+
+export interface Clock {
+  now(): number;
+  setTimer(callback: () => void, delay: number): TimerHandle;
+  clearTimer(handle: TimerHandle): void;
+}
+
+export const systemClock: Clock = {
+  now: () => Date.now(),
+  setTimer: (callback, delay) => setTimeout(callback, delay),
+  clearTimer: handle => clearTimeout(handle as ReturnType<typeof setTimeout>),
+};
+
+// Timers are re-armed at least this often, so long waits never overflow setTimeout
+const MAX_TIMER_DELAY = 60 * 60 * 1000;
+
+export interface ScheduledTrigger {
+  workflowId: string;
+  triggerNodeId: string;
+  expression: string;
+  timeZone: string;
+  nextRun: Date | null; // null when the expression never fires again
+  lastRun?: Date;
+  lastError?: string; // why the last run could not be started or reported, cleared by the next that could
+}
+
+export interface SchedulerOptions {
+  engine: Pick<WorkflowExecutionEngine, 'executeWorkflow'>;
+  clock?: Clock;
+  onRunSkipped?: (trigger: ScheduledTrigger, reason: string) => void;
+  onRunComplete?: (trigger: ScheduledTrigger, execution: WorkflowExecution) => void;
+}
+
+interface ScheduleEntry {
+  key: string;
+  workflow: Workflow;
+  trigger: TriggerNodeConfig;
+  schedule: CronSchedule;
+  nextRun: number | null;
+  lastRun?: number;
+  lastError?: string;
+  timer?: TimerHandle;
+}
+
+export class WorkflowScheduler {
+  private engine: SchedulerOptions['engine'];
+  private clock: Clock;
+  private onRunSkipped?: SchedulerOptions['onRunSkipped'];
+  private onRunComplete?: SchedulerOptions['onRunComplete'];
+  private entries: Map<string, ScheduleEntry> = new Map();
+  private running: Set<string> = new Set(); // workflows with a scheduled run in progress
+  private executionOptions: ExecutionOptions = {};
+
+  constructor(options: SchedulerOptions) {
+    this.engine = options.engine;
+    this.clock = options.clock ?? systemClock;
+    this.onRunSkipped = options.onRunSkipped;
+    this.onRunComplete = options.onRunComplete;
+  }
+
+  // Brings the schedule in line with the given workflows. Triggers whose expression and time
+  // zone are unchanged keep their timers; invalid expressions are left to validation to report.
+  sync(workflows: Workflow[], executionOptions: ExecutionOptions = {}): void {
+    this.executionOptions = executionOptions;
+    const seen = new Set<string>();
+
+    for (const workflow of workflows.filter(w => w.isActive)) {
+      for (const node of workflow.nodes) {
+        if (node.type !== 'trigger' || !node.enabled) continue;
+        const trigger = node as TriggerNodeConfig;
+        if (trigger.triggerType !== 'schedule' || !trigger.schedule) continue;
+
+        let schedule: CronSchedule;
+        try {
+          schedule = parseCron(trigger.schedule, trigger.timeZone || undefined);
+        } catch {
+          continue;
+        }
+
+        const key = `${workflow.id}:${trigger.id}`;
+        seen.add(key);
+        const existing = this.entries.get(key);
+        if (existing && existing.schedule.expression === schedule.expression && existing.schedule.timeZone === schedule.timeZone) {
+          existing.workflow = workflow;
+          existing.trigger = trigger;
+          continue;
+        }
+
+        this.clear(key);
+        const entry: ScheduleEntry = { key, workflow, trigger, schedule, nextRun: this.nextAfter(schedule, this.clock.now()) };
+        this.entries.set(key, entry);
+        this.arm(entry);
+      }
+    }
+
+    for (const key of [...this.entries.keys()]) {
+      if (!seen.has(key)) this.clear(key);
+    }
+  }
+
+  stop(): void {
+    for (const key of [...this.entries.keys()]) {
+      this.clear(key);
+    }
+  }
+
+  list(): ScheduledTrigger[] {
+    return [...this.entries.values()].map(entry => this.describe(entry));
+  }
+
+  private describe(entry: ScheduleEntry): ScheduledTrigger {
+    return {
+      workflowId: entry.workflow.id,
+      triggerNodeId: entry.trigger.id,
+      expression: entry.schedule.expression,
+      timeZone: entry.schedule.timeZone,
+      nextRun: entry.nextRun === null ? null : new Date(entry.nextRun),
+      lastRun: entry.lastRun === undefined ? undefined : new Date(entry.lastRun),
+      lastError: entry.lastError,
+    };
+  }
+
+  private nextAfter(schedule: CronSchedule, time: number): number | null {
+    return getNextFireTime(schedule, new Date(time))?.getTime() ?? null;
+  }
+
+  private clear(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry?.timer !== undefined) this.clock.clearTimer(entry.timer);
+    this.entries.delete(key);
+  }
+
+  private arm(entry: ScheduleEntry): void {
+    if (entry.nextRun === null) return;
+    const delay = Math.min(Math.max(entry.nextRun - this.clock.now(), 0), MAX_TIMER_DELAY);
+    entry.timer = this.clock.setTimer(() => this.wake(entry), delay);
+  }
+
+  private wake(entry: ScheduleEntry): void {
+    entry.timer = undefined;
+    // Entries replaced or removed by sync no longer fire
+    if (this.entries.get(entry.key) !== entry || entry.nextRun === null) return;
+
+    const now = this.clock.now();
+    if (now < entry.nextRun) {
+      this.arm(entry);
+      return;
+    }
+
+    // Fire times missed while the clock was away collapse into this one run
+    const scheduledTime = entry.nextRun;
+    entry.nextRun = this.nextAfter(entry.schedule, Math.max(scheduledTime, now));
+    this.arm(entry);
+    // Nothing awaits a timer's run, so a failure is kept on the entry rather than thrown
+    this.fire(entry, scheduledTime).catch(error => {
+      entry.lastError = error instanceof Error ? error.message : String(error);
+    });
+  }
+
+  private async fire(entry: ScheduleEntry, scheduledTime: number): Promise<void> {
+    const { workflow, trigger } = entry;
+
+    if (this.running.has(workflow.id)) {
+      this.onRunSkipped?.(this.describe(entry), 'The previous scheduled run is still in progress');
+      return;
+    }
+
+    this.running.add(workflow.id);
+    entry.lastRun = scheduledTime;
+    try {
+      const execution = await this.engine.executeWorkflow(
+        workflow,
+        {
+          scheduledTime: new Date(scheduledTime).toISOString(),
+          firedAt: new Date(this.clock.now()).toISOString(),
+          schedule: entry.schedule.expression,
+          timeZone: entry.schedule.timeZone,
+        },
+        { ...this.executionOptions, triggerNodeId: trigger.id }
+      );
+      entry.lastError = undefined;
+      this.onRunComplete?.(this.describe(entry), execution);
+    } finally {
+      this.running.delete(workflow.id);
+    }
+  }
+}
@@ -0,0 +1,53 @@
+/**
+ * File: subworkflows.ts
+ *
+ * Workflows calling workflows. A sub-workflow node runs another workflow as a child execution
+ * and takes its declared outputs as its own output. Calls nest at most MAX_SUBWORKFLOW_DEPTH
+ * deep, and a workflow may not call itself, directly or through others.
+ */
+
+import type { DataValue, NodeData, SubworkflowNodeConfig, Workflow, WorkflowExecution } from '../workflow-engine-core';
+import { buildExpressionScope, containsExpression, renderTemplate } from './expressions';
+
+export const MAX_SUBWORKFLOW_DEPTH = 5;
+
+// Workflows called by the enabled sub-workflow nodes of a workflow; dynamic IDs are left out
+export const getCalledWorkflowIds = (workflow: Workflow): string[] =>
+  workflow.nodes
+    .filter(node => node.type === 'subworkflow' && node.enabled)
+    .map(node => (node as SubworkflowNodeConfig).workflowId)
+    .filter(workflowId => !!workflowId && !containsExpression(workflowId));
+
+// IDs along a chain of calls from one workflow to another, both included, or null if none exists
+export const findCallPath = (workflows: Workflow[], fromId: string, toId: string): string[] | null => {
+  const byId = new Map(workflows.map(workflow => [workflow.id, workflow]));
+  const visited = new Set<string>();
+
+  const visit = (workflowId: string): string[] | null => {
+    if (workflowId === toId) return [workflowId];
+    if (visited.has(workflowId)) return null;
+    visited.add(workflowId);
+
+    const workflow = byId.get(workflowId);
+    for (const calledId of workflow ? getCalledWorkflowIds(workflow) : []) {
+      const path = visit(calledId);
+      if (path) return [workflowId, ...path];
+    }
+    return null;
+  };
+
+  return visit(fromId);
+};
+
+export const describeCallPath = (workflows: Workflow[], workflowIds: string[]): string =>
+  workflowIds.map(workflowId => workflows.find(workflow => workflow.id === workflowId)?.name ?? workflowId).join(' → ');
+
+// Evaluates a finished execution's declared outputs
+export const resolveWorkflowOutputs = (workflow: Workflow, execution: WorkflowExecution): NodeData => {
+  const scope = buildExpressionScope(workflow, execution);
+  return Object.fromEntries(
+    (workflow.outputs ?? [])
+      .filter(output => output.name)
+      .map(output => [output.name, renderTemplate(output.value, scope) as DataValue])
+  );
+};
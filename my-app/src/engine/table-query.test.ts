@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { TableQueryError, applyTableQuery, parseTableQuery } from './table-query';
+
+const rows = [
+  { id: '1', name: 'Ada', status: 'paid', total: 120, vip: false, tags: ['math'] },
+  { id: '2', name: 'Grace', status: 'due', total: 80, vip: true, tags: [] },
+  { id: '3', name: 'Alan', status: 'paid', total: 40, vip: false, tags: ['crypto', 'math'] },
+  { id: '4', name: 'Edsger', status: null, total: 200, vip: false, tags: [] },
+];
+
+const ids = (query: string) => applyTableQuery(rows, parseTableQuery(query)).map(row => row.id);
+
+describe('parseTableQuery', () => {
+  it('parses a condition, ordering and paging', () => {
+    expect(parseTableQuery("where status = 'paid' order by total desc limit 5 offset 1")).toEqual({
+      where: { kind: 'compare', field: 'status', operator: '=', value: 'paid' },
+      orderBy: [{ field: 'total', direction: 'desc' }],
+      limit: 5,
+      offset: 1,
+    });
+  });
+
+  it('lets and bind tighter than or', () => {
+    const { where } = parseTableQuery('a = 1 or b = 2 and c = 3');
+    expect(where).toMatchObject({ kind: 'or', operands: [{ field: 'a' }, { kind: 'and' }] });
+  });
+
+  it('points at the problem in an invalid query', () => {
+    expect(() => parseTableQuery("status = 'paid")).toThrow(TableQueryError);
+    const error = (() => {
+      try {
+        parseTableQuery('total > ');
+      } catch (caught) {
+        return caught;
+      }
+    })();
+    expect(error).toBeInstanceOf(TableQueryError);
+    expect((error as TableQueryError).position).toBeGreaterThan(0);
+  });
+});
+
+describe('applyTableQuery', () => {
+  it('filters with comparisons and boolean logic', () => {
+    expect(ids("status = 'paid' and (total > 100 or vip = true)")).toEqual(['1']);
+    expect(ids('not vip = false')).toEqual(['2']);
+    expect(ids('total >= 80 and total <= 120')).toEqual(['1', '2']);
+  });
+
+  it('matches text case-insensitively and looks inside arrays', () => {
+    expect(ids("name startsWith 'a'")).toEqual(['1', '3']);
+    expect(ids("tags contains 'crypto'")).toEqual(['3']);
+    expect(ids("status in ('due', 'void')")).toEqual(['2']);
+  });
+
+  it('tells missing values apart', () => {
+    expect(ids('status is null')).toEqual(['4']);
+    expect(ids('status is not null order by name')).toEqual(['1', '3', '2']);
+  });
+
+  it('sorts by several keys and pages the result', () => {
+    expect(ids('order by status asc, total desc')).toEqual(['2', '1', '3', '4']);
+    expect(ids('order by total limit 2 offset 1')).toEqual(['2', '1']);
+  });
+});
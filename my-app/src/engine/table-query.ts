@@ -0,0 +1,351 @@
+/**
+ * File: table-query.ts
+ *
+ * The query language of Table nodes. A query filters rows, then sorts and pages them; every
+ * part is optional and keywords are case-insensitive:
+ *
+ *   [where] <condition> [order by <field> [asc|desc], ...] [limit <n>] [offset <n>]
+ *
+ * A condition compares a field with a value, and conditions combine with and, or, not and
+ * parentheses (and binds tighter than or):
+ *
+ *   <field> = | != | > | >= | < | <= <value>          == and <> are accepted for = and !=
+ *   <field> contains | startsWith | endsWith <value>   text, case-insensitive; contains also
+ *                                                      looks inside arrays
+ *   <field> in (<value>, ...)
+ *   <field> is null | is not null
+ *
+ * Fields are names or dot-separated paths into nested objects. Values are numbers, quoted
+ * strings ('paid' or "paid"), true, false or null. Dates are stored as ISO strings, so they
+ * compare as quoted strings: createdAt >= '2024-01-01'.
+ *
+ *   status = 'paid' and (total > 100 or vip = true) order by createdAt desc limit 20
+ */
+
+import type { DataValue, NodeData } from '../workflow-engine-core';
+import { getValueAtPath } from './conditions';
+
+export type ComparisonOperator =
+  | '='
+  | '!='
+  | '>'
+  | '>='
+  | '<'
+  | '<='
+  | 'contains'
+  | 'startswith'
+  | 'endswith'
+  | 'in'
+  | 'isnull'
+  | 'isnotnull';
+
+export type QueryExpression =
+  | { kind: 'and' | 'or'; operands: QueryExpression[] }
+  | { kind: 'not'; operand: QueryExpression }
+  | { kind: 'compare'; field: string; operator: ComparisonOperator; value?: DataValue };
+
+export interface SortKey {
+  field: string;
+  direction: 'asc' | 'desc';
+}
+
+export interface TableQuery {
+  where?: QueryExpression;
+  orderBy: SortKey[];
+  limit?: number;
+  offset?: number;
+}
+
+export class TableQueryError extends Error {
+  position: number; // offset into the query text
+
+  constructor(message: string, position: number) {
+    super(`${message} (at character ${position + 1})`);
+    this.name = 'TableQueryError';
+    this.position = position;
+  }
+}
+
+type TokenType = 'word' | 'number' | 'string' | 'symbol' | 'end';
+
+interface Token {
+  type: TokenType;
+  text: string; // the value of strings, without quotes
+  position: number;
+}
+
+const SYMBOLS = ['>=', '<=', '!=', '<>', '==', '=', '>', '<', '(', ')', ','];
+const SYMBOL_ALIASES: Record<string, string> = { '<>': '!=', '==': '=' };
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let index = 0;
+
+  while (index < text.length) {
+    const char = text[index];
+    if (/\s/.test(char)) {
+      index++;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      let value = '';
+      let end = index + 1;
+      while (end < text.length && text[end] !== char) {
+        if (text[end] === '\\' && end + 1 < text.length) end++;
+        value += text[end];
+        end++;
+      }
+      if (end >= text.length) throw new TableQueryError('Unterminated string', index);
+      tokens.push({ type: 'string', text: value, position: index });
+      index = end + 1;
+      continue;
+    }
+
+    const number = /^-?\d+(\.\d+)?/.exec(text.slice(index));
+    if (number) {
+      tokens.push({ type: 'number', text: number[0], position: index });
+      index += number[0].length;
+      continue;
+    }
+
+    const word = /^[A-Za-z_$][\w$]*(\.[A-Za-z_$][\w$]*)*/.exec(text.slice(index));
+    if (word) {
+      tokens.push({ type: 'word', text: word[0], position: index });
+      index += word[0].length;
+      continue;
+    }
+
+    const symbol = SYMBOLS.find(candidate => text.startsWith(candidate, index));
+    if (!symbol) throw new TableQueryError(`Unexpected character '${char}'`, index);
+    tokens.push({ type: 'symbol', text: SYMBOL_ALIASES[symbol] ?? symbol, position: index });
+    index += symbol.length;
+  }
+
+  tokens.push({ type: 'end', text: '', position: text.length });
+  return tokens;
+};
+
+const TEXT_OPERATORS = new Set(['contains', 'startswith', 'endswith']);
+
+class QueryParser {
+  private tokens: Token[];
+  private index = 0;
+
+  constructor(text: string) {
+    this.tokens = tokenize(text);
+  }
+
+  parse(): TableQuery {
+    const query: TableQuery = { orderBy: [] };
+    this.acceptKeyword('where');
+
+    if (!this.atKeyword('order', 'limit', 'offset') && this.peek().type !== 'end') {
+      query.where = this.parseOr();
+    }
+    if (this.acceptKeyword('order')) {
+      this.expectKeyword('by');
+      do {
+        const field = this.expectField();
+        const descending = this.acceptKeyword('desc');
+        if (!descending) this.acceptKeyword('asc');
+        query.orderBy.push({ field, direction: descending ? 'desc' : 'asc' });
+      } while (this.acceptSymbol(','));
+    }
+    if (this.acceptKeyword('limit')) query.limit = this.expectCount();
+    if (this.acceptKeyword('offset')) query.offset = this.expectCount();
+
+    const rest = this.peek();
+    if (rest.type !== 'end') throw new TableQueryError(`Unexpected '${rest.text}'`, rest.position);
+    return query;
+  }
+
+  private parseOr(): QueryExpression {
+    const operands = [this.parseAnd()];
+    while (this.acceptKeyword('or')) operands.push(this.parseAnd());
+    return operands.length === 1 ? operands[0] : { kind: 'or', operands };
+  }
+
+  private parseAnd(): QueryExpression {
+    const operands = [this.parseNot()];
+    while (this.acceptKeyword('and')) operands.push(this.parseNot());
+    return operands.length === 1 ? operands[0] : { kind: 'and', operands };
+  }
+
+  private parseNot(): QueryExpression {
+    if (this.acceptKeyword('not')) return { kind: 'not', operand: this.parseNot() };
+    if (this.acceptSymbol('(')) {
+      const inner = this.parseOr();
+      this.expectSymbol(')');
+      return inner;
+    }
+    return this.parseComparison();
+  }
+
+  private parseComparison(): QueryExpression {
+    const field = this.expectField();
+    const token = this.peek();
+
+    if (this.acceptKeyword('is')) {
+      const negated = this.acceptKeyword('not');
+      this.expectKeyword('null');
+      return { kind: 'compare', field, operator: negated ? 'isnotnull' : 'isnull' };
+    }
+    if (this.acceptKeyword('in')) {
+      this.expectSymbol('(');
+      const values: DataValue[] = [];
+      do {
+        values.push(this.expectValue());
+      } while (this.acceptSymbol(','));
+      this.expectSymbol(')');
+      return { kind: 'compare', field, operator: 'in', value: values };
+    }
+    if (token.type === 'word' && TEXT_OPERATORS.has(token.text.toLowerCase())) {
+      this.index++;
+      return { kind: 'compare', field, operator: token.text.toLowerCase() as ComparisonOperator, value: this.expectValue() };
+    }
+    if (token.type === 'symbol' && !['(', ')', ','].includes(token.text)) {
+      this.index++;
+      return { kind: 'compare', field, operator: token.text as ComparisonOperator, value: this.expectValue() };
+    }
+    throw new TableQueryError(`Expected an operator after '${field}'`, token.position);
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private atKeyword(...keywords: string[]): boolean {
+    const token = this.peek();
+    return token.type === 'word' && keywords.includes(token.text.toLowerCase());
+  }
+
+  private acceptKeyword(keyword: string): boolean {
+    if (!this.atKeyword(keyword)) return false;
+    this.index++;
+    return true;
+  }
+
+  private expectKeyword(keyword: string): void {
+    if (!this.acceptKeyword(keyword)) throw new TableQueryError(`Expected '${keyword}'`, this.peek().position);
+  }
+
+  private acceptSymbol(symbol: string): boolean {
+    const token = this.peek();
+    if (token.type !== 'symbol' || token.text !== symbol) return false;
+    this.index++;
+    return true;
+  }
+
+  private expectSymbol(symbol: string): void {
+    if (!this.acceptSymbol(symbol)) throw new TableQueryError(`Expected '${symbol}'`, this.peek().position);
+  }
+
+  private expectField(): string {
+    const token = this.peek();
+    if (token.type !== 'word') throw new TableQueryError('Expected a field name', token.position);
+    this.index++;
+    return token.text;
+  }
+
+  private expectValue(): DataValue {
+    const token = this.peek();
+    this.index++;
+    if (token.type === 'string') return token.text;
+    if (token.type === 'number') return Number(token.text);
+    if (token.type === 'word') {
+      const keyword = token.text.toLowerCase();
+      if (keyword === 'true') return true;
+      if (keyword === 'false') return false;
+      if (keyword === 'null') return null;
+    }
+    this.index--;
+    throw new TableQueryError('Expected a value: a number, a quoted string, true, false or null', token.position);
+  }
+
+  private expectCount(): number {
+    const token = this.peek();
+    if (token.type !== 'number' || !/^\d+$/.test(token.text)) {
+      throw new TableQueryError('Expected a whole number', token.position);
+    }
+    this.index++;
+    return Number(token.text);
+  }
+}
+
+// Throws a TableQueryError pointing at the problem when the text is not a valid query
+export const parseTableQuery = (text: string): TableQuery => new QueryParser(text).parse();
+
+const isNullish = (value: DataValue): boolean => value === null || value === undefined;
+
+const compareValues = (left: DataValue, right: DataValue): number | undefined => {
+  if (typeof left === 'number' && typeof right === 'number') return left - right;
+  if (typeof left === 'string' && typeof right === 'string') return left < right ? -1 : left > right ? 1 : 0;
+  if (typeof left === 'boolean' && typeof right === 'boolean') return Number(left) - Number(right);
+  return undefined;
+};
+
+const matchesComparison = (actual: DataValue, operator: ComparisonOperator, expected: DataValue): boolean => {
+  switch (operator) {
+    case 'isnull':
+      return isNullish(actual);
+    case 'isnotnull':
+      return !isNullish(actual);
+    case '=':
+      return isNullish(expected) ? isNullish(actual) : compareValues(actual, expected) === 0;
+    case '!=':
+      return isNullish(expected) ? !isNullish(actual) : compareValues(actual, expected) !== 0;
+    case 'in':
+      return (expected as DataValue[]).some(value => matchesComparison(actual, '=', value));
+    case 'contains':
+      if (Array.isArray(actual)) return actual.some(item => matchesComparison(item, '=', expected));
+      return typeof actual === 'string' && actual.toLowerCase().includes(String(expected).toLowerCase());
+    case 'startswith':
+      return typeof actual === 'string' && actual.toLowerCase().startsWith(String(expected).toLowerCase());
+    case 'endswith':
+      return typeof actual === 'string' && actual.toLowerCase().endsWith(String(expected).toLowerCase());
+    default: {
+      const order = compareValues(actual, expected);
+      if (order === undefined) return false;
+      if (operator === '>') return order > 0;
+      if (operator === '>=') return order >= 0;
+      if (operator === '<') return order < 0;
+      return order <= 0;
+    }
+  }
+};
+
+export const matchesQueryExpression = (expression: QueryExpression, row: NodeData): boolean => {
+  switch (expression.kind) {
+    case 'and':
+      return expression.operands.every(operand => matchesQueryExpression(operand, row));
+    case 'or':
+      return expression.operands.some(operand => matchesQueryExpression(operand, row));
+    case 'not':
+      return !matchesQueryExpression(expression.operand, row);
+    case 'compare':
+      return matchesComparison(getValueAtPath(row, expression.field), expression.operator, expression.value);
+  }
+};
+
+// Rows without a value sort after the rest, whichever the direction
+const compareRows = (orderBy: SortKey[]) => (a: NodeData, b: NodeData): number => {
+  for (const { field, direction } of orderBy) {
+    const left = getValueAtPath(a, field);
+    const right = getValueAtPath(b, field);
+    if (isNullish(left) || isNullish(right)) {
+      if (isNullish(left) !== isNullish(right)) return isNullish(left) ? 1 : -1;
+      continue;
+    }
+    const order = compareValues(left, right) ?? String(left).localeCompare(String(right));
+    if (order !== 0) return direction === 'desc' ? -order : order;
+  }
+  return 0;
+};
+
+export const applyTableQuery = <T extends NodeData>(rows: T[], query: TableQuery): T[] => {
+  const { where, orderBy, limit, offset = 0 } = query;
+  const matched = where ? rows.filter(row => matchesQueryExpression(where, row)) : [...rows];
+  if (orderBy.length > 0) matched.sort(compareRows(orderBy));
+  return matched.slice(offset, limit === undefined ? undefined : offset + limit);
+};
@@ -0,0 +1,265 @@
+/**
+ * File: table-store.ts
+ *
+ * The data store behind Table nodes. A TableStorage backend keeps whole tables, each with its
+ * rows and the schema it was last written with, and a TableDatabase works on top of one: it
+ * gives new rows an ID and timestamps, checks writes against the schema, selects rows by ID or
+ * query (see table-query.ts), and applies one write at a time to each table.
+ *
+ * MemoryTableStorage keeps tables for the life of the page or process. IndexedDB storage for
+ * the browser is in indexeddb-table-storage.ts and JSON file storage for Node in
+ * server/json-file-table-storage.ts.
+ */
+
+import type { DataValue, NodeData, TableColumnType, TableSchema } from '../workflow-engine-core';
+import { applyTableQuery, parseTableQuery } from './table-query';
+import type { TableQuery } from './table-query';
+
+export interface TableRow extends NodeData {
+  id: string;
+  createdAt: string; // ISO timestamp
+  updatedAt: string; // ISO timestamp
+}
+
+export interface TableData {
+  schema?: TableSchema;
+  rows: TableRow[];
+}
+
+// Where tables are kept. Implementations hand out copies, so callers may change what they load
+export interface TableStorage {
+  listTables(): Promise<string[]>;
+  loadTable(name: string): Promise<TableData | undefined>;
+  saveTable(name: string, data: TableData): Promise<void>;
+  dropTable(name: string): Promise<void>;
+}
+
+// Picks rows by ID or by query; neither picks every row
+export interface RowSelector {
+  id?: string;
+  query?: string | TableQuery;
+}
+
+export type TableChangeListener = (tableName: string) => void;
+
+// Fields every row has, which the database sets rather than the schema describing them
+export const SYSTEM_FIELDS = ['id', 'createdAt', 'updatedAt'];
+
+// Counters handed out by nextSequenceValue(), one row per sequence
+export const SEQUENCE_TABLE = '_sequences';
+
+export const TABLE_COLUMN_TYPES: TableColumnType[] = ['string', 'number', 'boolean', 'date'];
+
+export class TableSchemaError extends Error {
+  problems: string[];
+
+  constructor(tableName: string, problems: string[]) {
+    super(`Rejected by the schema of table ${tableName}: ${problems.join('; ')}`);
+    this.name = 'TableSchemaError';
+    this.problems = problems;
+  }
+}
+
+export class MemoryTableStorage implements TableStorage {
+  private tables: Map<string, TableData> = new Map();
+
+  async listTables(): Promise<string[]> {
+    return [...this.tables.keys()].sort();
+  }
+
+  async loadTable(name: string): Promise<TableData | undefined> {
+    const data = this.tables.get(name);
+    return data && structuredClone(data);
+  }
+
+  async saveTable(name: string, data: TableData): Promise<void> {
+    this.tables.set(name, structuredClone(data));
+  }
+
+  async dropTable(name: string): Promise<void> {
+    this.tables.delete(name);
+  }
+}
+
+// Numbers, booleans and dates may arrive as text, from forms and webhooks; those are converted
+const coerceValue = (value: DataValue, type: TableColumnType): DataValue | undefined => {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string' ? value : undefined;
+    case 'number': {
+      if (typeof value === 'number') return Number.isFinite(value) ? value : undefined;
+      const number = typeof value === 'string' && value.trim() ? Number(value) : NaN;
+      return Number.isFinite(number) ? number : undefined;
+    }
+    case 'boolean':
+      if (typeof value === 'boolean') return value;
+      return value === 'true' ? true : value === 'false' ? false : undefined;
+    case 'date': {
+      const date =
+        value instanceof Date ? value : typeof value === 'string' || typeof value === 'number' ? new Date(value) : undefined;
+      return date && !Number.isNaN(date.getTime()) ? date.toISOString() : undefined;
+    }
+  }
+};
+
+const describeValue = (value: DataValue): string =>
+  Array.isArray(value) ? 'array' : typeof value === 'string' ? `'${value.slice(0, 40)}'` : typeof value;
+
+// Returns the record's fields as stored, or the problems that keep it from matching the schema
+export const checkRecord = (record: NodeData, schema: TableSchema | undefined): { record: NodeData; problems: string[] } => {
+  const checked: NodeData = {};
+  const problems: string[] = [];
+
+  for (const [field, value] of Object.entries(record)) {
+    if (SYSTEM_FIELDS.includes(field) || value === undefined) continue;
+    const type = schema?.[field];
+    if (!schema || value === null) {
+      checked[field] = value;
+    } else if (!type) {
+      problems.push(`'${field}' is not a column`);
+    } else {
+      const coerced = coerceValue(value, type);
+      if (coerced === undefined) problems.push(`'${field}' must be a ${type}, got ${describeValue(value)}`);
+      else checked[field] = coerced;
+    }
+  }
+  return { record: checked, problems };
+};
+
+const createRowId = (): string => `row_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`;
+
+export class TableDatabase {
+  private storage: TableStorage;
+  private writes: Map<string, Promise<unknown>> = new Map(); // latest queued write per table
+  private listeners: Set<TableChangeListener> = new Set();
+
+  constructor(storage: TableStorage) {
+    this.storage = storage;
+  }
+
+  listTables(): Promise<string[]> {
+    return this.storage.listTables();
+  }
+
+  async getTable(name: string): Promise<TableData> {
+    return (await this.storage.loadTable(name)) ?? { rows: [] };
+  }
+
+  async select(name: string, selector: RowSelector = {}): Promise<TableRow[]> {
+    return this.selectRows((await this.getTable(name)).rows, selector);
+  }
+
+  // Adds rows; a record's own 'id' is kept if no other row has it. A schema given here replaces the table's
+  insert(name: string, records: NodeData[], schema?: TableSchema): Promise<TableRow[]> {
+    return this.write(name, table => {
+      if (schema) table.schema = schema;
+      const now = new Date().toISOString();
+      const ids = new Set(table.rows.map(row => row.id));
+
+      const inserted = records.map((record, index) => {
+        const { record: fields, problems } = checkRecord(record, table.schema);
+        const id = record.id === undefined || record.id === null || record.id === '' ? createRowId() : String(record.id);
+        if (ids.has(id)) problems.push(`a row with id '${id}' already exists`);
+        if (problems.length > 0) {
+          throw new TableSchemaError(name, records.length > 1 ? problems.map(problem => `record ${index + 1}: ${problem}`) : problems);
+        }
+        ids.add(id);
+        return { ...fields, id, createdAt: now, updatedAt: now } as TableRow;
+      });
+
+      table.rows.push(...inserted);
+      return inserted;
+    });
+  }
+
+  // Sets the given fields on the selected rows and returns them as updated; null clears a field
+  update(name: string, selector: RowSelector, changes: NodeData, schema?: TableSchema): Promise<TableRow[]> {
+    return this.write(name, table => {
+      if (schema) table.schema = schema;
+      const { record: fields, problems } = checkRecord(changes, table.schema);
+      if (problems.length > 0) throw new TableSchemaError(name, problems);
+
+      const now = new Date().toISOString();
+      const selected = new Set(this.selectRows(table.rows, selector).map(row => row.id));
+      const updated: TableRow[] = [];
+      table.rows = table.rows.map(row => {
+        if (!selected.has(row.id)) return row;
+        const next = { ...row, ...fields, updatedAt: now };
+        updated.push(next);
+        return next;
+      });
+      return updated;
+    });
+  }
+
+  // Removes the selected rows and returns them
+  remove(name: string, selector: RowSelector): Promise<TableRow[]> {
+    return this.write(name, table => {
+      const selected = new Set(this.selectRows(table.rows, selector).map(row => row.id));
+      const removed = table.rows.filter(row => selected.has(row.id));
+      table.rows = table.rows.filter(row => !selected.has(row.id));
+      return removed;
+    });
+  }
+
+  // Advances a named counter and returns its new value, starting from 1; no two callers get the same value
+  nextSequenceValue(sequence: string): Promise<number> {
+    return this.write(SEQUENCE_TABLE, table => {
+      const now = new Date().toISOString();
+      const row = table.rows.find(candidate => candidate.id === sequence);
+      const value = (row && typeof row.value === 'number' ? row.value : 0) + 1;
+      if (row) Object.assign(row, { value, updatedAt: now });
+      else table.rows.push({ id: sequence, value, createdAt: now, updatedAt: now });
+      return value;
+    });
+  }
+
+  async dropTable(name: string): Promise<void> {
+    await this.enqueue(name, () => this.storage.dropTable(name));
+    this.notify(name);
+  }
+
+  // Hears about every change to any table; returns an unsubscribe function
+  subscribe(listener: TableChangeListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  private selectRows(rows: TableRow[], { id, query }: RowSelector): TableRow[] {
+    if (id !== undefined) return rows.filter(row => row.id === id);
+    if (query === undefined) return [...rows];
+    return applyTableQuery(rows, typeof query === 'string' ? parseTableQuery(query) : query);
+  }
+
+  // Loads the table, lets change() edit it and saves it, unless change() throws
+  private async write<T>(name: string, change: (table: TableData) => T): Promise<T> {
+    if (!name) throw new Error('A table name is required');
+    const result = await this.enqueue(name, async () => {
+      const table = await this.getTable(name);
+      const result = change(table);
+      await this.storage.saveTable(name, table);
+      return result;
+    });
+    this.notify(name);
+    return result;
+  }
+
+  // Runs the task after the writes already queued for the table, so none of them is lost
+  private async enqueue<T>(name: string, task: () => Promise<T>): Promise<T> {
+    const next = (this.writes.get(name) ?? Promise.resolve()).catch(() => undefined).then(task);
+    this.writes.set(name, next);
+    try {
+      return await next;
+    } finally {
+      if (this.writes.get(name) === next) this.writes.delete(name);
+    }
+  }
+
+  private notify(name: string): void {
+    for (const listener of [...this.listeners]) {
+      listener(name);
+    }
+  }
+}
@@ -0,0 +1,104 @@
+/**
+ * File: validation.ts
+ *
+ * Issues found in a workflow before it runs. Each issue carries a severity and, where it can,
+ * the node and config field it is about, so the builder can point at the exact place to fix.
+ * Node types check their own config through the plugin's `validate` hook; fields marked
+ * `required` in a plugin's config schema are checked for every node type.
+ */
+
+import type { NodeConfig, Workflow } from '../workflow-engine-core';
+import { containsExpression } from './expressions';
+import { getConfigValue, isFieldVisible } from './node-registry';
+import type { NodeRegistry } from './node-registry';
+
+export type ValidationSeverity = 'error' | 'warning' | 'info';
+
+export interface ValidationIssue {
+  severity: ValidationSeverity;
+  message: string;
+  nodeId?: string; // absent for issues with the workflow as a whole
+  field?: string; // config field key the issue is about
+}
+
+// What a plugin's validate hook reports; the node it belongs to is filled in for it
+export type NodeIssue = Omit<ValidationIssue, 'nodeId'>;
+
+export interface NodeValidationContext {
+  workflow: Workflow;
+  // Every workflow known to the builder, for checks that span workflows such as page routes
+  workflows: Workflow[];
+}
+
+export const SEVERITY_ORDER: ValidationSeverity[] = ['error', 'warning', 'info'];
+
+const EMAIL_PATTERN = /^[^\s@<>(),;:"]+@[^\s@<>(),;:"]+\.[^\s@<>(),;:"]{2,}$/;
+
+export const isValidEmail = (value: string): boolean => EMAIL_PATTERN.test(value.trim());
+
+// Splits 'Ada Lovelace <ada@example.com>' into its parts; a bare address has no name
+export const parseMailbox = (value: string): { name?: string; address: string } => {
+  const match = /^\s*"?([^"<]*?)"?\s*<([^<>]+)>\s*$/.exec(value);
+  return match ? { name: match[1].trim() || undefined, address: match[2].trim() } : { address: value.trim() };
+};
+
+export const isValidMailbox = (value: string): boolean => isValidEmail(parseMailbox(value).address);
+
+export const isValidHttpUrl = (value: string): boolean => {
+  try {
+    const url = new URL(value);
+    return url.protocol === 'http:' || url.protocol === 'https:';
+  } catch {
+    return false;
+  }
+};
+
+// Values that are only known once an expression is evaluated cannot be checked up front
+export const isDynamic = (value: unknown): boolean => containsExpression(value);
+
+const isBlank = (value: unknown): boolean =>
+  value === undefined ||
+  value === null ||
+  (typeof value === 'string' && value.trim() === '') ||
+  (Array.isArray(value) && value.filter(item => !isBlank(item)).length === 0);
+
+// Reports every address in a list field that is not a valid email
+export const checkEmailList = (field: string, addresses: string[] | undefined): NodeIssue[] =>
+  (addresses ?? [])
+    .filter(address => address.trim() !== '' && !isDynamic(address) && !isValidMailbox(address))
+    .map(address => ({ severity: 'error', field, message: `'${address}' is not a valid email address` }));
+
+export const validateNodeConfig = (
+  node: NodeConfig,
+  context: NodeValidationContext,
+  registry: NodeRegistry
+): ValidationIssue[] => {
+  const plugin = registry.get(node.type);
+  if (!plugin) {
+    return [{ severity: 'error', nodeId: node.id, message: `No plugin registered for node type '${node.type}'` }];
+  }
+
+  const required: NodeIssue[] = plugin.configSchema
+    .filter(field => field.required && isFieldVisible(node, field) && isBlank(getConfigValue(node, field.key)))
+    .map(field => ({ severity: 'error', field: field.key, message: `${field.label} is required` }));
+
+  // A required field that is missing already says all there is to say about it
+  const own = (plugin.validate?.(node, context) ?? []).filter(
+    issue => !issue.field || !required.some(missing => missing.field === issue.field)
+  );
+
+  return [...required, ...own].map(issue => ({ ...issue, nodeId: node.id }));
+};
+
+export const getNodeIssues = (issues: ValidationIssue[], nodeId: string): ValidationIssue[] =>
+  issues.filter(issue => issue.nodeId === nodeId);
+
+// The most severe level among the issues, if any
+export const getHighestSeverity = (issues: ValidationIssue[]): ValidationSeverity | undefined =>
+  SEVERITY_ORDER.find(severity => issues.some(issue => issue.severity === severity));
+
+export const countBySeverity = (issues: ValidationIssue[]): Record<ValidationSeverity, number> => ({
+  error: issues.filter(issue => issue.severity === 'error').length,
+  warning: issues.filter(issue => issue.severity === 'warning').length,
+  info: issues.filter(issue => issue.severity === 'info').length,
+});
@@ -0,0 +1,71 @@
+/**
+ * File: webhooks.ts
+ *
+ * What the builder and the webhook receiver (server/webhook-server.ts) share about webhook
+ * triggers: the unique path each trigger listens on, the trigger data a request becomes and the
+ * record kept of every delivery. Nothing here depends on Node, so the builder can use it too.
+ */
+
+import type { DataValue, NodeData, TriggerNodeConfig, Workflow } from '../workflow-engine-core';
+
+export const WEBHOOK_PATH_PREFIX = '/webhooks/';
+
+// Routes of the receiver used by the builder rather than by webhook senders
+export const WEBHOOK_ADMIN_PREFIX = '/__webhooks/';
+
+// Header carrying the token the receiver requires on its builder routes
+export const WEBHOOK_ADMIN_TOKEN_HEADER = 'x-webhook-admin-token';
+
+// Header carrying the HMAC-SHA256 of the raw body, as 'sha256=<hex>'
+export const DEFAULT_SIGNATURE_HEADER = 'x-webhook-signature';
+
+// 128 random bits from Web Crypto, as anyone who knows the ID can trigger the workflow
+export const createWebhookId = (): string =>
+  Array.from(crypto.getRandomValues(new Uint8Array(16)), byte => byte.toString(16).padStart(2, '0')).join('');
+
+export const getWebhookPath = (webhookId: string): string => `${WEBHOOK_PATH_PREFIX}${webhookId}`;
+
+export interface WebhookRequest {
+  method: string;
+  path: string;
+  query: Record<string, string | string[]>;
+  headers: Record<string, string>;
+  body: DataValue;
+}
+
+// A request the receiver accepted or rejected, kept so the builder can show recent payloads
+export interface WebhookDelivery extends WebhookRequest {
+  id: string;
+  webhookId: string;
+  receivedAt: string; // ISO timestamp
+  statusCode: number;
+  executionId?: string;
+  error?: string;
+}
+
+export const buildWebhookTriggerData = (request: WebhookRequest): NodeData => ({
+  method: request.method,
+  path: request.path,
+  query: request.query,
+  headers: request.headers,
+  body: request.body,
+});
+
+// The active workflow and enabled webhook trigger listening on a webhook ID
+export const findWebhookTrigger = (
+  workflows: Workflow[],
+  webhookId: string
+): { workflow: Workflow; trigger: TriggerNodeConfig } | undefined => {
+  for (const workflow of workflows) {
+    if (!workflow.isActive) continue;
+    const trigger = workflow.nodes.find(
+      node =>
+        node.type === 'trigger' &&
+        node.enabled &&
+        (node as TriggerNodeConfig).triggerType === 'webhook' &&
+        (node as TriggerNodeConfig).webhookId === webhookId
+    );
+    if (trigger) return { workflow, trigger: trigger as TriggerNodeConfig };
+  }
+  return undefined;
+};
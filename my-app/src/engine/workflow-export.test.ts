@@ -0,0 +1,89 @@
+import { describe, expect, it } from 'vitest';
+import { createWorkflowExport } from './workflow-export';
+import { NodeRegistry } from './node-registry';
+import { registerBuiltinNodes } from './builtin-nodes';
+import type { NodeConfig, Workflow } from '../workflow-engine-core';
+import { REDACTED } from './credentials';
+import type { CredentialSummary } from './credentials';
+
+const registry = new NodeRegistry();
+registerBuiltinNodes(registry);
+
+const action = (id: string, extra: object): NodeConfig =>
+  ({ id, name: id, type: 'action', position: { x: 0, y: 0 }, enabled: true, apiEndpoint: 'https://api.example.com', ...extra }) as NodeConfig;
+
+const workflow = (nodes: NodeConfig[]): Workflow => ({
+  id: 'wf',
+  name: 'Export',
+  version: '1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  isActive: false,
+  nodes,
+  connections: [],
+  settings: { errorHandling: 'stop' },
+});
+
+const stripe: CredentialSummary = { id: 'cred-1', name: 'Stripe', type: 'apiKey', createdAt: '', updatedAt: '' };
+
+describe('createWorkflowExport', () => {
+  it('leaves out literal secret fields but keeps expressions', () => {
+    const exported = createWorkflowExport(
+      workflow([
+        action('bearer', { authType: 'bearer', authToken: 'sk-live-123' }),
+        action('dynamic', { authType: 'bearer', authToken: '{{ input.input.token }}' }),
+      ]),
+      registry,
+      []
+    );
+
+    const [bearer, dynamic] = exported.workflow.nodes as unknown as Array<Record<string, unknown>>;
+    expect(bearer.authToken).toBeUndefined();
+    expect(bearer.authType).toBe('bearer');
+    expect(dynamic.authToken).toBe('{{ input.input.token }}');
+    expect(JSON.stringify(exported)).not.toContain('sk-live-123');
+  });
+
+  it('masks literal values of sensitive headers', () => {
+    const headers = { Accept: 'application/json', Authorization: 'Bearer sk-live-123', 'X-Api-Key': '{{ input.input.key }}' };
+    const exported = createWorkflowExport(workflow([action('call', { headers })]), registry, []);
+
+    expect((exported.workflow.nodes[0] as unknown as Record<string, unknown>).headers).toEqual({
+      Accept: 'application/json',
+      Authorization: REDACTED,
+      'X-Api-Key': '{{ input.input.key }}',
+    });
+    expect(JSON.stringify(exported)).not.toContain('sk-live-123');
+  });
+
+  it('warns about secrets typed into action headers', () => {
+    const validate = (headers: Record<string, string>) =>
+      registry.get('action')!.validate!(action('call', { headers }), { workflow: workflow([]), workflows: [] });
+
+    expect(validate({ 'X-Api-Key': 'k1', Cookie: 'sid=1', Accept: '*/*' })).toEqual([
+      {
+        severity: 'warning',
+        field: 'headers',
+        message: 'Header X-Api-Key, Cookie holds a secret as plain text; authenticate with a stored credential instead',
+      },
+    ]);
+    expect(validate({ Authorization: '{{ input.input.auth }}' })).toEqual([]);
+  });
+
+  it('lists the stored credentials nodes refer to', () => {
+    const exported = createWorkflowExport(
+      workflow([
+        action('charge', { authType: 'credential', credentialId: 'cred-1' }),
+        action('refund', { authType: 'credential', credentialId: 'cred-1' }),
+        action('gone', { authType: 'credential', credentialId: 'cred-9' }),
+      ]),
+      registry,
+      [stripe]
+    );
+
+    expect(exported.credentials).toEqual([
+      { id: 'cred-1', name: 'Stripe', type: 'apiKey', usedBy: ['charge', 'refund'] },
+      { id: 'cred-9', name: undefined, type: undefined, usedBy: ['gone'] },
+    ]);
+  });
+});
@@ -0,0 +1,80 @@
+/**
+ * File: workflow-export.ts
+ *
+ * Workflows exported as JSON to share or keep elsewhere. An export never carries secrets: fields
+ * the node's plugin marks secret are left out unless they hold an expression, the values of
+ * sensitive headers typed into a node are masked, and stored credentials appear only as
+ * references (ID, name and type) that the receiving side has to point at credentials of its own.
+ */
+
+import type { NodeConfig, Workflow } from '../workflow-engine-core';
+import type { NodeRegistry } from './node-registry';
+import { REDACTED, isSensitiveHeader } from './credentials';
+import type { CredentialSummary, CredentialType } from './credentials';
+import { isDynamic } from './validation';
+
+export interface CredentialReference {
+  id: string;
+  name?: string; // unset when the credential no longer exists
+  type?: CredentialType;
+  usedBy: string[]; // names of the nodes referring to it
+}
+
+export interface WorkflowExport {
+  format: 'workflow';
+  version: 1;
+  exportedAt: string; // ISO timestamp
+  workflow: Workflow;
+  credentials: CredentialReference[];
+}
+
+const maskHeaders = (headers: Record<string, unknown>): Record<string, unknown> =>
+  Object.fromEntries(
+    Object.entries(headers).map(([name, value]) => [name, isSensitiveHeader(name) && !isDynamic(value) ? REDACTED : value])
+  );
+
+const stripSecrets = (node: NodeConfig, registry: NodeRegistry): NodeConfig => {
+  const secretKeys = (registry.get(node.type)?.configSchema ?? []).filter(field => field.secret).map(field => field.key);
+  const record = node as unknown as Record<string, unknown>;
+  return Object.fromEntries(
+    Object.entries(record)
+      .filter(([key, value]) => !secretKeys.includes(key) || isDynamic(value))
+      .map(([key, value]) =>
+        key === 'headers' && value && typeof value === 'object' ? [key, maskHeaders(value as Record<string, unknown>)] : [key, value]
+      )
+  ) as unknown as NodeConfig;
+};
+
+// The stored credentials a workflow's nodes refer to, with the nodes that use each
+export const collectCredentialReferences = (
+  workflow: Workflow,
+  registry: NodeRegistry,
+  credentials: CredentialSummary[]
+): CredentialReference[] => {
+  const references = new Map<string, CredentialReference>();
+  for (const node of workflow.nodes) {
+    const record = node as unknown as Record<string, unknown>;
+    for (const field of registry.get(node.type)?.configSchema ?? []) {
+      const id = record[field.key];
+      if (field.type !== 'credential' || typeof id !== 'string' || !id) continue;
+
+      const summary = credentials.find(credential => credential.id === id);
+      const reference = references.get(id) ?? { id, name: summary?.name, type: summary?.type, usedBy: [] };
+      if (!reference.usedBy.includes(node.name)) reference.usedBy.push(node.name);
+      references.set(id, reference);
+    }
+  }
+  return [...references.values()];
+};
+
+export const createWorkflowExport = (
+  workflow: Workflow,
+  registry: NodeRegistry,
+  credentials: CredentialSummary[]
+): WorkflowExport => ({
+  format: 'workflow',
+  version: 1,
+  exportedAt: new Date().toISOString(),
+  workflow: { ...structuredClone(workflow), nodes: workflow.nodes.map(node => stripSecrets(structuredClone(node), registry)) },
+  credentials: collectCredentialReferences(workflow, registry, credentials),
+});
@@ -0,0 +1,221 @@
+/**
+ * File: xlsx.ts
+ *
+ * Writes Excel workbooks (Office Open XML, .xlsx) for Report nodes. A workbook is a ZIP
+ * archive of XML parts; this writes the few parts a spreadsheet needs, with text as inline
+ * strings and one bold style, and stores the parts uncompressed, which every reader accepts.
+ */
+
+export type XlsxCell = string | number | boolean | null;
+
+export interface XlsxRow {
+  cells: XlsxCell[];
+  bold?: boolean;
+}
+
+export interface XlsxSheet {
+  name: string; // at most 31 characters, none of []:*?/\
+  rows: XlsxRow[];
+}
+
+export const XLSX_MIME_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+// ---------------------------------------------------------------------------
+// ZIP archive
+
+const CRC_TABLE = Array.from({ length: 256 }, (_, n) => {
+  let c = n;
+  for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+  return c >>> 0;
+});
+
+const crc32 = (bytes: Uint8Array): number => {
+  let crc = 0xffffffff;
+  for (const byte of bytes) crc = CRC_TABLE[(crc ^ byte) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+// Date and time in the MS-DOS format ZIP headers use
+const dosDateTime = (date: Date): [number, number] => [
+  (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate(),
+];
+
+const createZip = (entries: Array<{ name: string; content: string }>, date = new Date()): Uint8Array => {
+  const encoder = new TextEncoder();
+  const [time, day] = dosDateTime(date);
+  const locals: Uint8Array[] = [];
+  const centrals: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const content = encoder.encode(entry.content);
+    const crc = crc32(content);
+
+    // Fields shared by the local header (from offset 4) and the central directory record (from 6)
+    const describe = (view: DataView, at: number) => {
+      view.setUint16(at, 20, true); // version needed: 2.0
+      view.setUint16(at + 2, 0x0800, true); // names are UTF-8
+      view.setUint16(at + 4, 0, true); // stored, not compressed
+      view.setUint16(at + 6, time, true);
+      view.setUint16(at + 8, day, true);
+      view.setUint32(at + 10, crc, true);
+      view.setUint32(at + 14, content.length, true);
+      view.setUint32(at + 18, content.length, true);
+      view.setUint16(at + 22, name.length, true);
+    };
+
+    const local = new Uint8Array(30 + name.length + content.length);
+    const localView = new DataView(local.buffer);
+    localView.setUint32(0, 0x04034b50, true);
+    describe(localView, 4);
+    local.set(name, 30);
+    local.set(content, 30 + name.length);
+
+    const central = new Uint8Array(46 + name.length);
+    const centralView = new DataView(central.buffer);
+    centralView.setUint32(0, 0x02014b50, true);
+    centralView.setUint16(4, 20, true); // made by version 2.0
+    describe(centralView, 6);
+    centralView.setUint32(42, offset, true);
+    central.set(name, 46);
+
+    locals.push(local);
+    centrals.push(central);
+    offset += local.length;
+  }
+
+  const directorySize = centrals.reduce((sum, central) => sum + central.length, 0);
+  const end = new Uint8Array(22);
+  const endView = new DataView(end.buffer);
+  endView.setUint32(0, 0x06054b50, true);
+  endView.setUint16(8, entries.length, true);
+  endView.setUint16(10, entries.length, true);
+  endView.setUint32(12, directorySize, true);
+  endView.setUint32(16, offset, true);
+
+  const parts = [...locals, ...centrals, end];
+  const archive = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+  let position = 0;
+  for (const part of parts) {
+    archive.set(part, position);
+    position += part.length;
+  }
+  return archive;
+};
+
+// ---------------------------------------------------------------------------
+// Workbook parts
+
+const MAIN_NS = 'http://schemas.openxmlformats.org/spreadsheetml/2006/main';
+const RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+const DOCUMENT_RELATIONSHIPS_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const XML_DECLARATION = '<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n';
+
+// Escapes text for XML and drops the control characters XML cannot hold
+const escapeXml = (text: string): string =>
+  text
+    .replace(/[^\t\n\r\x20-\uD7FF\uE000-\uFFFD\u{10000}-\u{10FFFF}]/gu, '')
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+// A, B, ..., Z, AA, AB, ...
+const columnName = (index: number): string => {
+  let name = '';
+  for (let n = index + 1; n > 0; n = Math.floor((n - 1) / 26)) {
+    name = String.fromCharCode(65 + ((n - 1) % 26)) + name;
+  }
+  return name;
+};
+
+const renderCell = (cell: XlsxCell, reference: string, bold: boolean): string => {
+  const style = bold ? ' s="1"' : '';
+  if (cell === null || cell === '') return '';
+  if (typeof cell === 'number' && Number.isFinite(cell)) return `<c r="${reference}"${style}><v>${cell}</v></c>`;
+  if (typeof cell === 'boolean') return `<c r="${reference}"${style} t="b"><v>${cell ? 1 : 0}</v></c>`;
+  return `<c r="${reference}"${style} t="inlineStr"><is><t xml:space="preserve">${escapeXml(String(cell))}</t></is></c>`;
+};
+
+const renderSheet = (sheet: XlsxSheet): string => {
+  // Columns are sized to their longest value, within reason
+  const widths: number[] = [];
+  sheet.rows.forEach(row =>
+    row.cells.forEach((cell, index) => {
+      widths[index] = Math.max(widths[index] ?? 8, Math.min(60, String(cell ?? '').length + 2));
+    })
+  );
+  const columns = widths.length
+    ? `<cols>${widths.map((width, index) => `<col min="${index + 1}" max="${index + 1}" width="${width}" customWidth="1"/>`).join('')}</cols>`
+    : '';
+  const rows = sheet.rows
+    .map(
+      (row, rowIndex) =>
+        `<row r="${rowIndex + 1}">${row.cells
+          .map((cell, index) => renderCell(cell, `${columnName(index)}${rowIndex + 1}`, !!row.bold))
+          .join('')}</row>`
+    )
+    .join('');
+  return `${XML_DECLARATION}<worksheet xmlns="${MAIN_NS}">${columns}<sheetData>${rows}</sheetData></worksheet>`;
+};
+
+const STYLES =
+  `${XML_DECLARATION}<styleSheet xmlns="${MAIN_NS}">` +
+  '<fonts count="2"><font><sz val="11"/><name val="Calibri"/></font><font><b/><sz val="11"/><name val="Calibri"/></font></fonts>' +
+  '<fills count="2"><fill><patternFill patternType="none"/></fill><fill><patternFill patternType="gray125"/></fill></fills>' +
+  '<borders count="1"><border><left/><right/><top/><bottom/><diagonal/></border></borders>' +
+  '<cellStyleXfs count="1"><xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>' +
+  '<cellXfs count="2"><xf numFmtId="0" fontId="0" fillId="0" borderId="0" xfId="0"/>' +
+  '<xf numFmtId="0" fontId="1" fillId="0" borderId="0" xfId="0" applyFont="1"/></cellXfs>' +
+  '</styleSheet>';
+
+// Sheet names may not contain []:*?/\ and are cut to Excel's limit of 31 characters
+const sanitizeSheetName = (name: string, index: number): string =>
+  name.replace(/[[\]:*?/\\]/g, ' ').trim().slice(0, 31) || `Sheet${index + 1}`;
+
+export const createXlsx = (sheets: XlsxSheet[]): Uint8Array => {
+  const names = sheets.map((sheet, index) => sanitizeSheetName(sheet.name, index));
+  const sheetParts = sheets.map((_, index) => `worksheets/sheet${index + 1}.xml`);
+
+  return createZip([
+    {
+      name: '[Content_Types].xml',
+      content:
+        `${XML_DECLARATION}<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types">` +
+        '<Default Extension="rels" ContentType="application/vnd.openxmlformats-package.relationships+xml"/>' +
+        '<Default Extension="xml" ContentType="application/xml"/>' +
+        '<Override PartName="/xl/workbook.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.sheet.main+xml"/>' +
+        '<Override PartName="/xl/styles.xml" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.styles+xml"/>' +
+        sheetParts
+          .map(part => `<Override PartName="/xl/${part}" ContentType="application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml"/>`)
+          .join('') +
+        '</Types>',
+    },
+    {
+      name: '_rels/.rels',
+      content:
+        `${XML_DECLARATION}<Relationships xmlns="${RELATIONSHIPS_NS}">` +
+        `<Relationship Id="rId1" Type="${DOCUMENT_RELATIONSHIPS_NS}/officeDocument" Target="xl/workbook.xml"/>` +
+        '</Relationships>',
+    },
+    {
+      name: 'xl/workbook.xml',
+      content:
+        `${XML_DECLARATION}<workbook xmlns="${MAIN_NS}" xmlns:r="${DOCUMENT_RELATIONSHIPS_NS}"><sheets>` +
+        names.map((name, index) => `<sheet name="${escapeXml(name)}" sheetId="${index + 1}" r:id="rId${index + 1}"/>`).join('') +
+        '</sheets></workbook>',
+    },
+    {
+      name: 'xl/_rels/workbook.xml.rels',
+      content:
+        `${XML_DECLARATION}<Relationships xmlns="${RELATIONSHIPS_NS}">` +
+        sheetParts.map((part, index) => `<Relationship Id="rId${index + 1}" Type="${DOCUMENT_RELATIONSHIPS_NS}/worksheet" Target="${part}"/>`).join('') +
+        `<Relationship Id="rId${sheets.length + 1}" Type="${DOCUMENT_RELATIONSHIPS_NS}/styles" Target="styles.xml"/>` +
+        '</Relationships>',
+    },
+    { name: 'xl/styles.xml', content: STYLES },
+    ...sheets.map((sheet, index) => ({ name: `xl/${sheetParts[index]}`, content: renderSheet(sheet) })),
+  ]);
+};
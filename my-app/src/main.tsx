@@ -1,14 +1,21 @@
 import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import { Provider } from 'react-redux'
+import { BrowserRouter } from 'react-router'
 import './index.css'
 import App from './App.tsx'
 import { store } from './store/store.ts'
+import { nodeRegistry } from './engine/node-registry.ts'
+import { registerBuiltinNodes } from './engine/builtin-nodes.ts'
+
+registerBuiltinNodes(nodeRegistry)
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
     <Provider store={store}>
-      <App />
+      <BrowserRouter>
+        <App />
+      </BrowserRouter>
     </Provider>
   </StrictMode>,
 )
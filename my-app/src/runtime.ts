@@ -0,0 +1,58 @@
+/**
+ * File: runtime.ts
+ *
+ * The engine the app runs every workflow on, and the services that start workflows on their own.
+ * They share one engine so events announced by any run, started from the builder or not, reach
+ * the event bus. Table nodes keep their data in IndexedDB where the browser has it. Browsers
+ * cannot reach mail servers, so Email nodes run here put their messages in the outbox; SMS and
+ * push notifications are likewise captured rather than sent. Files that nodes produce, such as
+ * invoices, are kept in memory for the life of the page. Stored credentials are kept encrypted
+ * in local storage and can be used once the vault is unlocked with its master password.
+ */
+
+import { WorkflowExecutionEngine } from './workflow-engine-core';
+import { WorkflowScheduler } from './engine/scheduler';
+import { WorkflowEventBus } from './engine/event-bus';
+import { MemoryTableStorage, TableDatabase } from './engine/table-store';
+import { IndexedDBTableStorage } from './engine/indexeddb-table-storage';
+import { OutboxTransport } from './engine/email-transport';
+import { MemoryFileStore } from './engine/file-store';
+import { CaptureProvider, ProviderAdapter } from './engine/notification-transport';
+import { CredentialVault, LocalStorageCredentialStorage, MemoryCredentialStorage } from './engine/credentials';
+
+export const tables = new TableDatabase(
+  typeof indexedDB !== 'undefined' ? new IndexedDBTableStorage() : new MemoryTableStorage()
+);
+
+export const outbox = new OutboxTransport();
+
+export const files = new MemoryFileStore();
+
+export const capturedMessages = new CaptureProvider();
+
+export const credentials = new CredentialVault(
+  typeof localStorage !== 'undefined' ? new LocalStorageCredentialStorage() : new MemoryCredentialStorage()
+);
+
+export const engine = new WorkflowExecutionEngine({
+  tables,
+  files,
+  mailer: outbox,
+  notifications: {
+    sms: new ProviderAdapter('sms', capturedMessages),
+    push: new ProviderAdapter('push', capturedMessages),
+  },
+  credentials,
+});
+
+export const scheduler = new WorkflowScheduler({
+  engine,
+  onRunSkipped: (trigger, reason) =>
+    console.warn(`Skipped scheduled run of workflow ${trigger.workflowId} (${trigger.expression}): ${reason}`),
+});
+
+export const eventBus = new WorkflowEventBus({
+  engine,
+  onEventDropped: (event, workflow, reason) =>
+    console.warn(`Event '${event.name}' did not start workflow ${workflow.name}: ${reason}`),
+});
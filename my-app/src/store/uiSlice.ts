@@ -1,18 +1,23 @@
 import { createSlice } from '@reduxjs/toolkit'
 import type { PayloadAction } from '@reduxjs/toolkit'
-import type { NodeType } from '../workflow-engine-core'
+import type { NodeTypeId } from '../workflow-engine-core'
 
 interface UIState {
   currentView: 'dashboard' | 'workflow-builder'
   selectedNodeId: string | null
   isDragging: boolean
-  dragNodeType: NodeType | null
+  dragNodeType: NodeTypeId | null
   isConnecting: boolean
   connectionStart: { nodeId: string; output: string } | null
   sidebarOpen: boolean
   rightPanelOpen: boolean
+  rightPanelView: 'settings' | 'history' // shown when no node is selected
   zoomLevel: number
   panOffset: { x: number; y: number }
+  simulationMode: boolean
+  tableBrowserOpen: boolean
+  browsedTable: string | null // table the browser shows first
+  credentialsOpen: boolean
 }
 
 const initialState: UIState = {
@@ -24,8 +29,13 @@ const initialState: UIState = {
   connectionStart: null,
   sidebarOpen: true,
   rightPanelOpen: false,
+  rightPanelView: 'settings',
   zoomLevel: 1,
   panOffset: { x: 0, y: 0 },
+  simulationMode: false,
+  tableBrowserOpen: false,
+  browsedTable: null,
+  credentialsOpen: false,
 }
 
 const uiSlice = createSlice({
@@ -42,7 +52,7 @@ const uiSlice = createSlice({
     setIsDragging: (state, action: PayloadAction<boolean>) => {
       state.isDragging = action.payload
     },
-    setDragNodeType: (state, action: PayloadAction<NodeType | null>) => {
+    setDragNodeType: (state, action: PayloadAction<NodeTypeId | null>) => {
       state.dragNodeType = action.payload
     },
     setIsConnecting: (state, action: PayloadAction<boolean>) => {
@@ -61,6 +71,16 @@ const uiSlice = createSlice({
     toggleRightPanel: (state) => {
       state.rightPanelOpen = !state.rightPanelOpen
     },
+    openWorkflowSettings: (state) => {
+      state.selectedNodeId = null
+      state.rightPanelOpen = true
+      state.rightPanelView = 'settings'
+    },
+    openExecutionHistory: (state) => {
+      state.selectedNodeId = null
+      state.rightPanelOpen = true
+      state.rightPanelView = 'history'
+    },
     setZoomLevel: (state, action: PayloadAction<number>) => {
       state.zoomLevel = Math.max(0.1, Math.min(3, action.payload))
     },
@@ -71,6 +91,22 @@ const uiSlice = createSlice({
       state.zoomLevel = 1
       state.panOffset = { x: 0, y: 0 }
     },
+    setSimulationMode: (state, action: PayloadAction<boolean>) => {
+      state.simulationMode = action.payload
+    },
+    openTableBrowser: (state, action: PayloadAction<string | undefined>) => {
+      state.tableBrowserOpen = true
+      state.browsedTable = action.payload ?? state.browsedTable
+    },
+    closeTableBrowser: (state) => {
+      state.tableBrowserOpen = false
+    },
+    openCredentials: (state) => {
+      state.credentialsOpen = true
+    },
+    closeCredentials: (state) => {
+      state.credentialsOpen = false
+    },
   },
 })
 
@@ -83,9 +119,16 @@ export const {
   setConnectionStart,
   toggleSidebar,
   toggleRightPanel,
+  openWorkflowSettings,
+  openExecutionHistory,
   setZoomLevel,
   setPanOffset,
   resetWorkspaceView,
+  setSimulationMode,
+  openTableBrowser,
+  closeTableBrowser,
+  openCredentials,
+  closeCredentials,
 } = uiSlice.actions
 
 export default uiSlice.reducer
@@ -1,11 +1,14 @@
 import { createSlice } from '@reduxjs/toolkit'
 import type { PayloadAction } from '@reduxjs/toolkit'
-import type { Workflow, NodeConfig, NodeConnection, WorkflowExecution } from '../workflow-engine-core'
+import type { Workflow, NodeConfig, NodeConnection, WorkflowExecution, WorkflowOutput } from '../workflow-engine-core'
+import { applyExecutionEvent } from '../engine/execution-events'
+import type { ExecutionEvent } from '../engine/execution-events'
 
 interface WorkflowState {
   workflows: Workflow[]
   currentWorkflow: Workflow | null
   executions: WorkflowExecution[]
+  activeExecution: WorkflowExecution | null
   isLoading: boolean
   error: string | null
 }
@@ -14,6 +17,7 @@ const initialState: WorkflowState = {
   workflows: [],
   currentWorkflow: null,
   executions: [],
+  activeExecution: null,
   isLoading: false,
   error: null,
 }
@@ -43,9 +47,35 @@ const workflowSlice = createSlice({
         state.currentWorkflow = null
       }
     },
+    // Active workflows are the ones whose schedule triggers fire
+    setWorkflowActive: (state, action: PayloadAction<{ workflowId: string; isActive: boolean }>) => {
+      const { workflowId, isActive } = action.payload
+      for (const workflow of [state.workflows.find(w => w.id === workflowId), state.currentWorkflow]) {
+        if (workflow?.id === workflowId) {
+          workflow.isActive = isActive
+          workflow.updatedAt = new Date()
+        }
+      }
+    },
     setCurrentWorkflow: (state, action: PayloadAction<Workflow | null>) => {
+      if (state.activeExecution?.workflowId !== action.payload?.id) {
+        state.activeExecution = null
+      }
       state.currentWorkflow = action.payload
     },
+    updateCurrentWorkflowSettings: (state, action: PayloadAction<Workflow['settings']>) => {
+      if (state.currentWorkflow) {
+        state.currentWorkflow.settings = action.payload
+        state.currentWorkflow.updatedAt = new Date()
+      }
+    },
+    // Outputs are what the workflow hands back when a sub-workflow node calls it
+    updateCurrentWorkflowOutputs: (state, action: PayloadAction<WorkflowOutput[]>) => {
+      if (state.currentWorkflow) {
+        state.currentWorkflow.outputs = action.payload
+        state.currentWorkflow.updatedAt = new Date()
+      }
+    },
     addNodeToCurrentWorkflow: (state, action: PayloadAction<NodeConfig>) => {
       if (state.currentWorkflow) {
         state.currentWorkflow.nodes.push(action.payload)
@@ -94,8 +124,41 @@ const workflowSlice = createSlice({
         }
       }
     },
+    // Stores a finished run's record; resumed runs keep their ID, so it replaces the paused record
     addExecution: (state, action: PayloadAction<WorkflowExecution>) => {
-      state.executions.push(action.payload)
+      const index = state.executions.findIndex(e => e.id === action.payload.id)
+      if (index !== -1) {
+        state.executions[index] = action.payload
+      } else {
+        state.executions.push(action.payload)
+      }
+    },
+    updateExecution: (state, action: PayloadAction<WorkflowExecution>) => {
+      const index = state.executions.findIndex(e => e.id === action.payload.id)
+      if (index !== -1) {
+        state.executions[index] = action.payload
+      } else {
+        state.executions.push(action.payload)
+      }
+    },
+    // A paused execution has nothing in flight, so cancelling it only updates the record
+    cancelPausedExecution: (state, action: PayloadAction<string>) => {
+      const records = [state.executions.find(e => e.id === action.payload), state.activeExecution]
+      for (const execution of records) {
+        if (execution?.id === action.payload && execution.status === 'paused') {
+          execution.status = 'cancelled'
+          execution.error = 'Execution cancelled'
+          execution.endTime = new Date()
+          delete execution.checkpoint
+        }
+      }
+    },
+    setActiveExecution: (state, action: PayloadAction<WorkflowExecution | null>) => {
+      state.activeExecution = action.payload
+    },
+    // Follows a running execution through the engine's events; addExecution stores the final record
+    recordExecutionEvent: (state, action: PayloadAction<ExecutionEvent>) => {
+      state.activeExecution = applyExecutionEvent(state.activeExecution, action.payload)
     },
     setLoading: (state, action: PayloadAction<boolean>) => {
       state.isLoading = action.payload
@@ -111,7 +174,10 @@ export const {
   addWorkflow,
   updateWorkflow,
   deleteWorkflow,
+  setWorkflowActive,
   setCurrentWorkflow,
+  updateCurrentWorkflowSettings,
+  updateCurrentWorkflowOutputs,
   addNodeToCurrentWorkflow,
   updateNodeInCurrentWorkflow,
   deleteNodeFromCurrentWorkflow,
@@ -119,6 +185,10 @@ export const {
   deleteConnectionFromCurrentWorkflow,
   updateNodePosition,
   addExecution,
+  updateExecution,
+  cancelPausedExecution,
+  setActiveExecution,
+  recordExecutionEvent,
   setLoading,
   setError,
 } = workflowSlice.actions
@@ -0,0 +1,254 @@
+import { describe, expect, it } from 'vitest';
+import { BaseNodeProcessor, WorkflowExecutionEngine } from './workflow-engine-core';
+import type { NodeConfig, NodeData, NodeExecutionContext, Workflow, WorkflowExecution } from './workflow-engine-core';
+import { REDACTED } from './engine/credentials';
+import { NodeRegistry } from './engine/node-registry';
+import { registerBuiltinNodes } from './engine/builtin-nodes';
+
+const registry = new NodeRegistry();
+registerBuiltinNodes(registry);
+registry.register({
+  type: 'test:step',
+  name: 'Step',
+  icon: '·',
+  color: '#000000',
+  description: 'Runs whatever the test gives it',
+  configSchema: [],
+  inputs: [{ name: 'input' }],
+  outputs: [{ name: 'output' }],
+  createDefaults: () => ({}),
+});
+
+class StepProcessor extends BaseNodeProcessor {
+  private step: (context: NodeExecutionContext) => NodeData | Promise<NodeData>;
+
+  constructor(config: NodeConfig, step: (context: NodeExecutionContext) => NodeData | Promise<NodeData>) {
+    super(config);
+    this.step = step;
+  }
+
+  async execute(context: NodeExecutionContext): Promise<NodeData> {
+    return this.step(context);
+  }
+}
+
+const node = (id: string, type: string, extra: object = {}): NodeConfig =>
+  ({ id, name: id, type, position: { x: 0, y: 0 }, enabled: true, ...extra }) as NodeConfig;
+
+const link = (from: string, to: string, sourceOutput = 'output', targetInput = 'input') => ({
+  id: `${from}-${to}`,
+  sourceNodeId: from,
+  targetNodeId: to,
+  sourceOutput,
+  targetInput,
+});
+
+const workflow = (
+  nodes: NodeConfig[],
+  connections: Workflow['connections'],
+  settings: Partial<Workflow['settings']> = {}
+): Workflow => ({
+  id: 'wf',
+  name: 'Test',
+  version: '1',
+  createdAt: new Date(),
+  updatedAt: new Date(),
+  isActive: false,
+  nodes: [node('trigger', 'trigger', { triggerType: 'manual' }), ...nodes],
+  connections,
+  settings: { errorHandling: 'stop', ...settings },
+});
+
+const engineWith = (steps: Record<string, (context: NodeExecutionContext) => NodeData | Promise<NodeData>>) => {
+  const engine = new WorkflowExecutionEngine({ registry });
+  for (const [id, step] of Object.entries(steps)) engine.registerProcessor(id, new StepProcessor(node(id, 'test:step'), step));
+  return engine;
+};
+
+const find = (execution: { nodeExecutions: NodeExecutionContext[] }, nodeId: string) =>
+  execution.nodeExecutions.find(exec => exec.nodeId === nodeId)!;
+
+describe('WorkflowExecutionEngine', () => {
+  it('runs nodes after their upstream nodes and passes outputs along connections', async () => {
+    const order: string[] = [];
+    const engine = engineWith({
+      a: ({ inputData }) => {
+        order.push('a');
+        return { output: { n: ((inputData.input as NodeData).n as number) + 1 } };
+      },
+      b: ({ inputData }) => {
+        order.push('b');
+        return { output: { n: ((inputData.input as NodeData).n as number) * 10 } };
+      },
+    });
+    const execution = await engine.executeWorkflow(
+      workflow([node('b', 'test:step'), node('a', 'test:step')], [link('trigger', 'a'), link('a', 'b')]),
+      { n: 1 }
+    );
+
+    expect(execution.status).toBe('completed');
+    expect(order).toEqual(['a', 'b']);
+    expect(find(execution, 'b').outputData).toEqual({ output: { n: 20 } });
+  });
+
+  it('retries a failing node and records every attempt', async () => {
+    let calls = 0;
+    const engine = engineWith({
+      flaky: () => {
+        if (++calls < 3) throw new Error(`failure ${calls}`);
+        return { output: 'ok' };
+      },
+    });
+    const execution = await engine.executeWorkflow(
+      workflow([node('flaky', 'test:step', { retryCount: 2, retryDelay: 0 })], [link('trigger', 'flaky')]),
+      {}
+    );
+
+    const flaky = find(execution, 'flaky');
+    expect(flaky.status).toBe('completed');
+    expect(flaky.attempts.map(attempt => [attempt.status, attempt.error])).toEqual([
+      ['failed', 'failure 1'],
+      ['failed', 'failure 2'],
+      ['completed', undefined],
+    ]);
+  });
+
+  it('stops at a node that keeps failing and does not run what follows', async () => {
+    const engine = engineWith({
+      broken: () => {
+        throw new Error('no luck');
+      },
+      after: () => ({ output: 'unreachable' }),
+    });
+    const execution = await engine.executeWorkflow(
+      workflow(
+        [node('broken', 'test:step', { retryCount: 1, retryDelay: 0 }), node('after', 'test:step')],
+        [link('trigger', 'broken'), link('broken', 'after')]
+      ),
+      {}
+    );
+
+    expect(execution.status).toBe('failed');
+    expect(find(execution, 'broken').attempts).toHaveLength(2);
+    expect(find(execution, 'after')?.status).not.toBe('completed');
+  });
+
+  it('runs a loop body once per item and collects the results in order', async () => {
+    const engine = engineWith({ double: ({ inputData }) => ({ output: (inputData.input as number) * 2 }) });
+    const execution = await engine.executeWorkflow(
+      workflow(
+        [
+          node('each', 'iterator', { itemsPath: 'input.rows', concurrency: 2 }),
+          node('double', 'test:step'),
+          node('gather', 'collector'),
+        ],
+        [link('trigger', 'each'), link('each', 'double', 'item'), link('double', 'gather')]
+      ),
+      { rows: [1, 2, 3] }
+    );
+
+    expect(execution.status).toBe('completed');
+    expect(find(execution, 'each').iterations?.map(record => record.status)).toEqual(['completed', 'completed', 'completed']);
+    expect(find(execution, 'gather').outputData).toEqual({ items: [2, 4, 6], count: 3 });
+  });
+
+  it('keeps loop iterations and other nodes within the workflow\'s maxConcurrency together', async () => {
+    let running = 0;
+    let peak = 0;
+    const track = async ({ inputData }: NodeExecutionContext) => {
+      peak = Math.max(peak, ++running);
+      await new Promise(resolve => setTimeout(resolve, 2));
+      running--;
+      return { output: inputData.input ?? null };
+    };
+    const engine = engineWith({ work: track, side: track, other: track });
+    const nodes = [
+      node('each', 'iterator', { itemsPath: 'input.rows', concurrency: 4 }),
+      node('work', 'test:step'),
+      node('gather', 'collector'),
+      node('side', 'test:step'),
+      node('other', 'test:step'),
+    ];
+    const connections = [
+      link('trigger', 'each'),
+      link('each', 'work', 'item'),
+      link('work', 'gather'),
+      link('trigger', 'side'),
+      link('trigger', 'other'),
+    ];
+
+    const execution = await engine.executeWorkflow(workflow(nodes, connections, { maxConcurrency: 2 }), { rows: [1, 2, 3, 4, 5] });
+    expect(execution.status).toBe('completed');
+    expect(find(execution, 'gather').outputData.items).toEqual([1, 2, 3, 4, 5]);
+    expect(peak).toBe(2);
+
+    peak = 0;
+    const single = await engine.executeWorkflow(workflow(nodes, connections, { maxConcurrency: 1 }), { rows: [1, 2, 3] });
+    expect(single.status).toBe('completed');
+    expect(peak).toBe(1);
+  });
+
+  it('feeds loop body nodes from nodes outside the loop', async () => {
+    const engine = engineWith({
+      rate: () => ({ output: 3 }),
+      scale: ({ inputData }) => ({ output: (inputData.input as number) * (inputData.factor as number) }),
+    });
+    const nodes = [
+      node('rate', 'test:step'),
+      node('each', 'iterator', { itemsPath: 'input.rows' }),
+      node('scale', 'test:step'),
+      node('gather', 'collector'),
+    ];
+    const connections = [
+      link('trigger', 'rate'),
+      link('trigger', 'each'),
+      link('each', 'scale', 'item'),
+      link('rate', 'scale', 'output', 'factor'),
+      link('scale', 'gather'),
+    ];
+
+    const execution = await engine.executeWorkflow(workflow(nodes, connections), { rows: [1, 2] });
+
+    expect(execution.status).toBe('completed');
+    expect(find(execution, 'gather').outputData.items).toEqual([3, 6]);
+  });
+
+  it('stops a loop at the first failing iteration unless errors are set to continue', async () => {
+    const steps = {
+      check: ({ inputData }: NodeExecutionContext) => {
+        if (inputData.input === 2) throw new Error('two is not allowed');
+        return { output: inputData.input };
+      },
+    };
+    const nodes = [node('each', 'iterator', { itemsPath: 'input.rows' }), node('check', 'test:step'), node('gather', 'collector')];
+    const connections = [link('trigger', 'each'), link('each', 'check', 'item'), link('check', 'gather')];
+
+    const stopped = await engineWith(steps).executeWorkflow(workflow(nodes, connections), { rows: [1, 2, 3] });
+    expect(find(stopped, 'each').iterations?.map(record => record.status)).toEqual(['completed', 'failed', 'skipped']);
+
+    const continued = await engineWith(steps).executeWorkflow(workflow(nodes, connections, { errorHandling: 'continue' }), {
+      rows: [1, 2, 3],
+    });
+    expect(find(continued, 'each').iterations?.map(record => record.status)).toEqual(['completed', 'failed', 'completed']);
+  });
+
+  it('masks what executions display but keeps the outputs retries continue from', async () => {
+    const engine = engineWith({
+      auth: ({ inputData }) => ({ output: ((inputData.input as NodeData).headers as NodeData).authorization }),
+      after: ({ inputData }) => ({ output: { got: inputData.input } }),
+    });
+    const stored: WorkflowExecution[] = [];
+    engine.onExecutionEnd(event => stored.push(event.execution));
+
+    const flow = workflow([node('auth', 'test:step'), node('after', 'test:step')], [link('trigger', 'auth'), link('auth', 'after')]);
+    await engine.executeWorkflow(flow, { headers: { authorization: 'Bearer abc' }, order: { api_key: 'k-1' } });
+
+    const [record] = stored;
+    expect(((find(record, 'auth').inputData.input as NodeData).headers as NodeData).authorization).toBe(REDACTED);
+    expect(find(record, 'auth').outputData.output).toBe('Bearer abc');
+    expect(record.triggerData).toEqual({ headers: { authorization: 'Bearer abc' }, order: { api_key: 'k-1' } });
+
+    const retried = await engine.retryFromNode(flow, record, 'after').result;
+    expect(find(retried, 'after').outputData.output).toEqual({ got: 'Bearer abc' });
+  });
+});
@@ -6,11 +6,89 @@
  * Users can build workflows visually using nodes that represent various automation tasks.
  */
 
+import {
+  getConnectionError,
+  getInputPorts,
+  getOutputPorts,
+  getPortDataType,
+  nodeRegistry,
+} from './engine/node-registry';
+import type { NodeRegistry, PortDefinition } from './engine/node-registry';
+import { ConcurrencyBudget, DagScheduler } from './engine/dag-scheduler';
+import {
+  DEFAULT_MAX_RETRIES,
+  DEFAULT_RETRY_DELAY,
+  DeadlineExceededError,
+  TimeoutError,
+  getBackoffDelay,
+  sleep,
+  withTimeout,
+} from './engine/retry';
+import { getLoopBody, toBatches } from './engine/loops';
+import { ExpressionError, buildExpressionScope, renderTemplateText, resolveConfigExpressions } from './engine/expressions';
+import type { ExpressionScope } from './engine/expressions';
+import { ExecutionCancelledError, ExecutionControl, withAbort } from './engine/execution-control';
+import { ExecutionEventEmitter, appendNodeLog, watchNodeLogs } from './engine/execution-events';
+import { getRetryStartNodeId } from './engine/replay';
+import { getDownstreamNodeIds, getUpstreamNodeIds } from './engine/graph';
+import { validateNodeConfig } from './engine/validation';
+import { MAX_SUBWORKFLOW_DEPTH, describeCallPath } from './engine/subworkflows';
+import { MemoryTableStorage, TableDatabase } from './engine/table-store';
+import { MemoryFileStore } from './engine/file-store';
+import type { FileStore } from './engine/file-store';
+import { OutboxTransport } from './engine/email-transport';
+import type { EmailTransport } from './engine/email-transport';
+import { CaptureProvider, ProviderAdapter } from './engine/notification-transport';
+import type { NotificationAdapters, NotificationLevel } from './engine/notification-transport';
+import { DiscordWebhookAdapter, SlackWebhookAdapter } from './engine/chat-webhooks';
+import { redactSecrets } from './engine/credentials';
+import type { Credential, CredentialType, CredentialVault, SmtpSettings } from './engine/credentials';
+import type { ValidationIssue } from './engine/validation';
+import type {
+  ExecutionEndEvent,
+  ExecutionEvent,
+  ExecutionEventListener,
+  ExecutionStartEvent,
+  NodeCompleteEvent,
+  NodeEventEmittedEvent,
+  NodeFailEvent,
+  NodeLogEvent,
+  NodeStartEvent,
+} from './engine/execution-events';
+
 // Core node types for the workflow automation platform
-export type NodeType = 'action' | 'trigger' | 'table' | 'page' | 'email' | 'invoice' | 'report' | 'notification';
+export type NodeType =
+  | 'action'
+  | 'trigger'
+  | 'table'
+  | 'page'
+  | 'email'
+  | 'invoice'
+  | 'report'
+  | 'notification'
+  | 'router'
+  | 'iterator'
+  | 'collector'
+  | 'subworkflow';
+
+// Namespaced type for node types shipped as plugins, e.g. 'acme:crm-lookup'
+export type CustomNodeType = `${string}:${string}`;
+
+// Any node type the registry can resolve
+export type NodeTypeId = NodeType | CustomNodeType;
 
 // Execution status for nodes and workflows
-export type ExecutionStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped';
+export type ExecutionStatus =
+  | 'pending'
+  | 'running'
+  | 'completed'
+  | 'failed'
+  | 'skipped'
+  | 'cancelled'
+  | 'paused';
+
+// Delay growth between retries of a failed node
+export type RetryBackoffStrategy = 'fixed' | 'exponential' | 'jitter';
 
 // Data types that can flow between nodes
 export type DataValue = string | number | boolean | object | null | undefined;
@@ -20,6 +98,12 @@ export interface NodeData {
   [key: string]: DataValue;
 }
 
+// A named event with its payload, announced by a node or by the application
+export interface NamedEvent {
+  name: string; // dot-separated, e.g. 'table.orders.created'
+  payload: NodeData;
+}
+
 // Connection between nodes representing data flow
 export interface NodeConnection {
   id: string;
@@ -33,81 +117,203 @@ export interface NodeConnection {
 // Base configuration for all node types
 export interface BaseNodeConfig {
   id: string;
-  type: NodeType;
+  type: NodeTypeId;
   name: string;
   description?: string;
   position: { x: number; y: number };
   enabled: boolean;
   retryCount?: number;
-  timeout?: number; // in milliseconds
+  retryBackoff?: RetryBackoffStrategy;
+  retryDelay?: number; // base delay between attempts in milliseconds
+  timeout?: number; // in milliseconds, per attempt
+  // Where branches join: 'all' runs only if every incoming branch was taken, 'any' if at least one was
+  mergeMode?: 'all' | 'any';
+  emitEvent?: string; // name of an event announced with the node's output once it completes
 }
 
 // Specific configurations for different node types
 export interface ActionNodeConfig extends BaseNodeConfig {
   type: 'action';
   apiEndpoint?: string;
-  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE' | 'HEAD';
   headers?: Record<string, string>;
-  payload?: NodeData;
+  queryParams?: NodeData;
+  bodyType?: 'json' | 'form' | 'raw'; // defaults to 'json'
+  payload?: NodeData; // body sent as JSON or form fields
+  rawBody?: string; // body sent as is when bodyType is 'raw'
+  authType?: 'none' | 'bearer' | 'basic' | 'apiKey' | 'credential';
+  credentialId?: string; // stored credential authenticating the request when authType is 'credential'
+  authToken?: string;
+  authUsername?: string;
+  authPassword?: string;
+  apiKeyName?: string; // header or query parameter carrying the key
+  apiKeyValue?: string;
+  apiKeyIn?: 'header' | 'query';
+  // 'fail' fails the node on a non-2xx status; 'output' passes the status on like any other
+  errorMode?: 'fail' | 'output';
+  responseType?: 'auto' | 'json' | 'text' | 'binary';
+  responseMapping?: Record<string, string>; // output port -> dot-separated path into the response body
 }
 
 export interface TriggerNodeConfig extends BaseNodeConfig {
   type: 'trigger';
   triggerType: 'webhook' | 'schedule' | 'event' | 'manual';
   schedule?: string; // cron expression for scheduled triggers
-  webhookUrl?: string;
-  eventSource?: string;
+  timeZone?: string; // IANA zone the schedule is read in; defaults to the local zone
+  webhookId?: string; // unique token in the path the webhook receiver listens on
+  webhookSecret?: string; // when set, requests must carry an HMAC-SHA256 signature of their body
+  // 'executionId' answers at once with the execution ID; 'sync' waits and sends the configured response
+  webhookResponseMode?: 'executionId' | 'sync';
+  webhookResponseStatus?: number;
+  webhookResponseBody?: string; // may use {{ }} expressions over the finished execution
+  eventSource?: string; // name of the event that starts the workflow; '*' matches one name segment
+  eventFilter?: RouterCondition[]; // all must hold on the event's payload
 }
 
+export type TableColumnType = 'string' | 'number' | 'boolean' | 'date';
+export type TableSchema = Record<string, TableColumnType>;
+
 export interface TableNodeConfig extends BaseNodeConfig {
   type: 'table';
   tableName: string;
   operation: 'create' | 'read' | 'update' | 'delete' | 'query';
-  schema?: Record<string, 'string' | 'number' | 'boolean' | 'date'>;
-  query?: string;
+  schema?: TableSchema; // when set, writes must match it; undeclared fields are rejected
+  query?: string; // see table-query.ts for the syntax
+  recordId?: string; // row read, updated or deleted; update and delete use the query when unset
+  allRows?: boolean; // lets update and delete touch every row when neither recordId nor query is set
+  values?: DataValue; // record(s) to create or fields to update; defaults to the node's input
 }
 
+// Published at routePath while its workflow is active; see engine/pages.ts for templates and forms
 export interface PageNodeConfig extends BaseNodeConfig {
   type: 'page';
   pageTitle: string;
-  template: string;
+  template: string; // the list view
   dataSources: string[]; // IDs of table nodes to bind data from
   routePath: string;
+  detailTemplate?: string; // shown at routePath/:recordId for a row of the first data source
+  formTable?: string; // ID of the table node the page's form writes to; no form when unset
+  formFields?: string[]; // columns the form edits, 'field as Label'; defaults to the table's schema
+  submitLabel?: string;
 }
 
 export interface EmailNodeConfig extends BaseNodeConfig {
   type: 'email';
-  recipients: string[];
+  recipients: string[]; // plain addresses or 'Name <address>'
+  cc?: string[];
+  bcc?: string[];
+  replyTo?: string;
+  from?: string; // defaults to the transport's sender
   subject: string;
   template: string;
-  attachments?: string[];
+  templateFormat?: 'html' | 'text'; // the other format is derived from it; defaults to 'html'
+  attachments?: string[]; // file IDs, or expressions yielding file references from other nodes
+  credentialId?: string; // stored SMTP credential to send through instead of the engine's mailer
+}
+
+export interface InvoiceLineItem {
+  description: string;
+  quantity: number;
+  unitPrice: number;
+  taxRate?: number; // percent, e.g. 19 for 19%
+  discount?: number; // percent taken off the line
 }
 
 export interface InvoiceNodeConfig extends BaseNodeConfig {
   type: 'invoice';
-  invoiceTemplate: string;
-  customerData: NodeData;
-  lineItems: Array<{
-    description: string;
-    quantity: number;
-    unitPrice: number;
-  }>;
+  invoiceTemplate: string; // layout: 'default' or 'compact'
+  currency?: string; // ISO 4217 code; defaults to 'USD'
+  locale?: string; // BCP 47 tag amounts and dates are written for; defaults to 'en-US'
+  customerData: NodeData; // name, address, email, taxId, ...
+  sellerData?: NodeData;
+  lineItems: InvoiceLineItem[] | string; // or an expression yielding the items
+  discountType?: 'none' | 'percent' | 'amount'; // invoice-wide discount, taken before tax
+  discountValue?: number;
+  numberPrefix?: string; // put before the sequence number; defaults to 'INV-'
+  dueInDays?: number;
+  notes?: string;
+}
+
+export type ReportAggregateFunction = 'count' | 'sum' | 'avg' | 'min' | 'max';
+
+export interface ReportAggregate {
+  field: string; // dot-separated path into each row; count without a field counts rows
+  function: ReportAggregateFunction;
 }
 
 export interface ReportNodeConfig extends BaseNodeConfig {
   type: 'report';
   reportType: 'pdf' | 'csv' | 'excel';
-  template: string;
-  dataSource: string; // ID of table node or data source
+  template: string; // 'default' lists the rows under their groups, 'summary' has one row per group
+  dataSource: string; // ID of a table node whose table is read; rows come from the input when unset
+  title?: string; // defaults to the node's name
+  query?: string; // filters and sorts the rows; see table-query.ts for the syntax
+  columns?: string[]; // fields to show, each optionally 'field as Label'; defaults to all but row IDs and timestamps
+  groupBy?: string;
+  aggregates?: ReportAggregate[]; // worked out per group and over all rows
+  fileName?: string; // without extension; defaults to the title
   emailRecipients?: string[];
+  emailSubject?: string; // defaults to the title
 }
 
 export interface NotificationNodeConfig extends BaseNodeConfig {
   type: 'notification';
   notificationType: 'push' | 'sms' | 'slack' | 'discord';
-  recipients: string[];
+  recipients: string[]; // webhook URLs for Slack and Discord, phone numbers for SMS, device tokens for push
+  title?: string;
   message: string;
-  channel?: string;
+  level?: NotificationLevel; // sets the accent colour in Slack and Discord; defaults to info
+  fields?: Record<string, DataValue>; // label to value, shown beside the message
+  channel?: string; // Slack channel to post in instead of the webhook's own; Discord thread ID
+  username?: string; // name to post as in Slack and Discord
+}
+
+export interface RouterCondition {
+  field: string; // dot-separated path into the node's input data
+  operator: 'equals' | 'notEquals' | 'contains' | 'greaterThan' | 'lessThan' | 'exists' | 'notExists' | 'matches';
+  value?: DataValue;
+}
+
+export interface RouterBranch {
+  port: string; // name of the output port activated when the branch matches
+  match: 'all' | 'any';
+  conditions: RouterCondition[];
+}
+
+// Output port activated when no branch matches
+export const ROUTER_FALLBACK_PORT = 'else';
+
+export interface RouterNodeConfig extends BaseNodeConfig {
+  type: 'router';
+  // 'first' behaves like if/else-if, 'all' like a switch that may activate several branches
+  routingMode: 'first' | 'all';
+  branches: RouterBranch[];
+}
+
+export interface IteratorNodeConfig extends BaseNodeConfig {
+  type: 'iterator';
+  itemsPath: string; // dot-separated path to the array in the node's input data
+  batchSize?: number; // items handed to each iteration; 1 passes single items
+  concurrency?: number; // iterations allowed to run at the same time; their nodes count towards maxConcurrency
+}
+
+// Gathers the per-iteration results of the loop it closes into an array
+export interface CollectorNodeConfig extends BaseNodeConfig {
+  type: 'collector';
+}
+
+// Runs another workflow as a child execution and hands back the outputs it declares
+export interface SubworkflowNodeConfig extends BaseNodeConfig {
+  type: 'subworkflow';
+  workflowId: string;
+  inputs?: NodeData; // trigger data of the child; defaults to the object on the input port
+  outputNames?: string[]; // the child's declared outputs, one output port each
+}
+
+// Configuration for plugin node types; fields are declared by the plugin's config schema
+export interface CustomNodeConfig extends BaseNodeConfig {
+  type: CustomNodeType;
+  [field: string]: unknown;
 }
 
 // Union type for all node configurations
@@ -119,7 +325,21 @@ export type NodeConfig =
   | EmailNodeConfig 
   | InvoiceNodeConfig 
   | ReportNodeConfig 
-  | NotificationNodeConfig;
+  | NotificationNodeConfig
+  | RouterNodeConfig
+  | IteratorNodeConfig
+  | CollectorNodeConfig
+  | SubworkflowNodeConfig
+  | CustomNodeConfig;
+
+// A single try of a node's processor
+export interface NodeExecutionAttempt {
+  attempt: number;
+  startTime: Date;
+  endTime: Date;
+  status: 'completed' | 'failed';
+  error?: string;
+}
 
 // Node execution context with runtime data
 export interface NodeExecutionContext {
@@ -133,6 +353,42 @@ export interface NodeExecutionContext {
   endTime?: Date;
   error?: string;
   logs: string[];
+  attempts: NodeExecutionAttempt[];
+  activeOutputs?: string[]; // set by routing processors; other output ports are not taken
+  skipReason?: string;
+  iterations?: IterationRecord[]; // set on iterator nodes
+  childExecutionId?: string; // set on sub-workflow nodes once their child execution has started
+}
+
+// One pass of an iterator's loop body over a single item or batch
+export interface IterationRecord {
+  index: number;
+  item: DataValue;
+  status: ExecutionStatus;
+  error?: string;
+  nodeExecutions: NodeExecutionContext[];
+}
+
+// Callback invoked whenever a node's execution context changes state
+export type NodeExecutionListener = (context: NodeExecutionContext) => void;
+
+// Options for a single workflow execution
+export interface ExecutionOptions {
+  onNodeUpdate?: NodeExecutionListener;
+  // Receives this execution's events; see subscribe() on the engine for all executions
+  onEvent?: ExecutionEventListener;
+  // Run nodes without a real processor through MockAIProcessor instead of failing them
+  simulation?: boolean;
+  // The trigger that fired; defaults to the workflow's only trigger, else its first manual one
+  triggerNodeId?: string;
+  // Workflows sub-workflow nodes may call, looked up by ID
+  workflows?: Workflow[];
+}
+
+// A value a workflow hands back to the sub-workflow nodes that call it
+export interface WorkflowOutput {
+  name: string;
+  value: string; // {{ }} template evaluated over the finished execution
 }
 
 // Workflow definition containing nodes and their connections
@@ -147,9 +403,13 @@ export interface Workflow {
   nodes: NodeConfig[];
   connections: NodeConnection[];
   variables?: NodeData; // Global workflow variables
+  outputs?: WorkflowOutput[]; // declared results when the workflow runs as a sub-workflow
   settings: {
-    maxExecutionTime?: number;
-    maxRetries?: number;
+    maxExecutionTime?: number; // in milliseconds
+    maxRetries?: number; // upper bound for node retries; default retry count in 'retry' mode
+    retryBackoff?: RetryBackoffStrategy; // default for nodes that don't set their own
+    retryDelay?: number;
+    maxConcurrency?: number; // nodes allowed to run at the same time, loop iterations included
     errorHandling: 'stop' | 'continue' | 'retry';
   };
 }
@@ -164,6 +424,85 @@ export interface WorkflowExecution {
   triggerData?: NodeData;
   nodeExecutions: NodeExecutionContext[];
   error?: string;
+  checkpoint?: ExecutionCheckpoint; // set while the execution is paused
+  origin?: ExecutionOrigin; // set on retries and replays of an earlier execution
+  triggerNodeId?: string; // the trigger that fired; only its downstream sub-graph runs
+  unreachableNodeIds?: string[]; // nodes the fired trigger cannot reach, which did not run
+  parent?: ExecutionParent; // set on executions started by a sub-workflow node
+}
+
+// The execution and sub-workflow node that started a child execution
+export interface ExecutionParent {
+  executionId: string;
+  workflowId: string;
+  nodeId: string;
+}
+
+// Links an execution to the recorded execution it was derived from
+export interface ExecutionOrigin {
+  executionId: string;
+  mode: 'retry' | 'replay';
+  nodeId?: string; // node a retry started from
+}
+
+// What a paused execution needs to resume without re-running nodes that already settled
+export interface ExecutionCheckpoint {
+  pausedAt: Date;
+  settledNodeIds: string[]; // completed, failed or skipped; their outputs stay in nodeExecutions
+  collected: Record<string, DataValue[]>; // loop results still waiting for their collector
+}
+
+// Controls for an execution started by startWorkflow or resumeExecution
+export interface ExecutionHandle {
+  executionId: string;
+  result: Promise<WorkflowExecution>;
+  // Aborts running nodes and settles the execution as 'cancelled'
+  cancel(): void;
+  // Lets running nodes finish, then settles the execution as 'paused'
+  pause(): void;
+  // Continues the execution once it has paused
+  resume(options?: ExecutionOptions): Promise<ExecutionHandle>;
+  // This execution's events, ending with executionEnd
+  events(): AsyncIterableIterator<ExecutionEvent>;
+}
+
+// A child execution together with the workflow it ran
+export interface ChildWorkflowResult {
+  workflow: Workflow;
+  execution: WorkflowExecution;
+}
+
+// Services the engine lends a processor for one attempt
+export interface NodeRuntime {
+  // The workflow being run, as it was when the execution started
+  workflow: Workflow;
+  // Runs another workflow as a child of this execution; cancelling the attempt cancels the child
+  runChildWorkflow(workflowId: string, triggerData: NodeData): Promise<ChildWorkflowResult>;
+  // Renders a deferred template field against the node's data, passing each value through escape()
+  renderTemplate(template: string, escape?: (text: string) => string): string;
+  // The engine's data store, read and written by Table nodes
+  tables: TableDatabase;
+  // Files produced by nodes, such as invoices and reports
+  files: FileStore;
+  mailer: EmailTransport;
+  notifications: NotificationAdapters;
+  // Values of a stored credential of one of the given types; fails when there is no vault or it is locked
+  resolveCredential(credentialId: string, types?: CredentialType[]): Promise<Credential>;
+  // Makes a transport for an SMTP server, where the engine can reach one
+  smtpTransport?: (settings: SmtpSettings) => EmailTransport;
+}
+
+// Services the engine gives node processors; each defaults to an in-memory implementation
+export interface EngineOptions {
+  registry?: NodeRegistry;
+  tables?: TableDatabase;
+  files?: FileStore;
+  mailer?: EmailTransport; // defaults to an outbox that keeps messages instead of sending them
+  // Slack and Discord default to posting to their webhooks; SMS and push to capturing messages instead of sending them
+  notifications?: Partial<NotificationAdapters>;
+  // Credentials nodes refer to by ID; their secret values are redacted from logs, errors and inputData
+  credentials?: CredentialVault;
+  smtpTransport?: (settings: SmtpSettings) => EmailTransport; // unset where mail servers cannot be reached
 }
 
 // Base class for node processors
@@ -174,10 +513,11 @@ export abstract class BaseNodeProcessor {
     this.config = config;
   }
 
-  abstract execute(context: NodeExecutionContext): Promise<NodeData>;
+  // `signal` aborts when the execution is cancelled or the attempt times out
+  abstract execute(context: NodeExecutionContext, signal?: AbortSignal, runtime?: NodeRuntime): Promise<NodeData>;
   
   protected log(context: NodeExecutionContext, message: string): void {
-    context.logs.push(`[${new Date().toISOString()}] ${message}`);
+    appendNodeLog(context, message);
   }
 
   protected validateInputs(context: NodeExecutionContext, requiredFields: string[]): boolean {
@@ -192,13 +532,27 @@ export abstract class BaseNodeProcessor {
 
 // Mock AI processor for testing and simulation
 export class MockAIProcessor extends BaseNodeProcessor {
-  async execute(context: NodeExecutionContext): Promise<NodeData> {
+  private outputs?: PortDefinition[];
+
+  // Given the node's output ports, the mock fills each one with a value of the port's type
+  constructor(config: NodeConfig, outputs?: PortDefinition[]) {
+    super(config);
+    this.outputs = outputs;
+  }
+
+  async execute(context: NodeExecutionContext, signal?: AbortSignal): Promise<NodeData> {
     this.log(context, `Executing mock AI process for node ${this.config.name}`);
     
     // Simulate processing time
-    await new Promise(resolve => setTimeout(resolve, Math.random() * 1000 + 500));
+    await sleep(Math.random() * 1000 + 500, signal);
     
-    // Mock different behaviors based on node type
+    const result = this.mockResult();
+    if (!this.outputs) return result;
+    return Object.fromEntries(this.outputs.map(port => [port.name, this.mockPortValue(port, result)]));
+  }
+
+  // Mock different behaviors based on node type
+  private mockResult(): NodeData {
     switch (this.config.type) {
       case 'action':
         return { success: true, data: `Mock API response for ${this.config.name}` };
@@ -212,18 +566,231 @@ export class MockAIProcessor extends BaseNodeProcessor {
         return { processed: true };
     }
   }
+
+  private mockPortValue(port: PortDefinition, result: NodeData): DataValue {
+    switch (getPortDataType(port)) {
+      case 'array':
+        return [result];
+      case 'number':
+        return (result.recordsAffected as number | undefined) ?? 1;
+      case 'string':
+        return `${port.name}_${Date.now()}`;
+      case 'boolean':
+        return true;
+      case 'file':
+        return { fileName: `${this.config.name}.pdf`, mimeType: 'application/pdf', size: 0 };
+      default:
+        return result;
+    }
+  }
+}
+
+// Returns what a node produced in a recorded execution instead of running it again
+export class ReplayProcessor extends BaseNodeProcessor {
+  private recorded?: NodeExecutionContext;
+  private sourceExecutionId: string;
+
+  constructor(config: NodeConfig, recorded: NodeExecutionContext | undefined, sourceExecutionId: string) {
+    super(config);
+    this.recorded = recorded;
+    this.sourceExecutionId = sourceExecutionId;
+  }
+
+  async execute(context: NodeExecutionContext): Promise<NodeData> {
+    if (!this.recorded) {
+      throw new Error(`Node ${this.config.name} has no recorded result in execution ${this.sourceExecutionId}`);
+    }
+    if (this.recorded.status === 'failed' || this.recorded.status === 'cancelled') {
+      throw new Error(this.recorded.error ?? `Node ${this.config.name} failed in execution ${this.sourceExecutionId}`);
+    }
+
+    this.log(context, `Replaying recorded output from execution ${this.sourceExecutionId}`);
+    if (this.recorded.activeOutputs) {
+      context.activeOutputs = [...this.recorded.activeOutputs];
+    }
+    return structuredClone(this.recorded.outputData);
+  }
+}
+
+// How a run starts from an earlier record, when it does
+interface RunSetup {
+  restore?: Omit<ExecutionCheckpoint, 'pausedAt'>; // nodes that keep their recorded results
+  resumed?: boolean;
+  replay?: WorkflowExecution; // recorded execution whose outputs every node returns
+  callStack?: string[]; // IDs of the workflows whose sub-workflow nodes led to this run
+}
+
+// State shared by the nodes of one execution; iterations run with their own copy
+interface ExecutionRun {
+  workflow: Workflow;
+  execution: WorkflowExecution;
+  options: ExecutionOptions;
+  deadline?: number;
+  loopNodes: Set<string>; // nodes run by an iterator rather than by this run's scheduler
+  budget: ConcurrencyBudget; // maxConcurrency slots, shared with the runs of loop iterations
+  collected: Map<string, DataValue[]>; // per-iteration results waiting for their collector
+  parent?: ExecutionRun; // the run that started this iteration, for expressions reading outer nodes
+  control: ExecutionControl;
+  settled: Set<string>; // nodes restored from a checkpoint, which must not run again
+  paused?: boolean; // set once a pause request has stopped the scheduler
+  iteration?: number; // index of the loop iteration this run belongs to
+  replay?: WorkflowExecution;
+  reachable: Set<string>; // nodes downstream of the fired trigger
+  callStack: string[]; // IDs of the calling workflows, ending with this one
 }
 
 // Workflow execution engine
 export class WorkflowExecutionEngine {
   private processors: Map<string, BaseNodeProcessor> = new Map();
+  private registry: NodeRegistry;
+  private emitter = new ExecutionEventEmitter();
+  private tables: TableDatabase;
+  private files: FileStore;
+  private mailer: EmailTransport;
+  private notifications: NotificationAdapters;
+  private credentials?: CredentialVault;
+  private smtpTransport?: (settings: SmtpSettings) => EmailTransport;
 
+  constructor(options: EngineOptions = {}) {
+    this.registry = options.registry ?? nodeRegistry;
+    this.tables = options.tables ?? new TableDatabase(new MemoryTableStorage());
+    this.files = options.files ?? new MemoryFileStore();
+    this.mailer = options.mailer ?? new OutboxTransport();
+    this.notifications = {
+      slack: new SlackWebhookAdapter(),
+      discord: new DiscordWebhookAdapter(),
+      sms: new ProviderAdapter('sms', new CaptureProvider()),
+      push: new ProviderAdapter('push', new CaptureProvider()),
+      ...options.notifications,
+    };
+    this.credentials = options.credentials;
+    this.smtpTransport = options.smtpTransport;
+  }
+
+  // Overrides the processor for a single node, taking precedence over its type's plugin
   registerProcessor(nodeId: string, processor: BaseNodeProcessor): void {
     this.processors.set(nodeId, processor);
   }
 
-  async executeWorkflow(workflow: Workflow, triggerData?: NodeData): Promise<WorkflowExecution> {
-    const execution: WorkflowExecution = {
+  // Listens to the events of every execution run by this engine; returns an unsubscribe function
+  subscribe(listener: ExecutionEventListener): () => void {
+    return this.emitter.subscribe(listener);
+  }
+
+  onExecutionStart(listener: ExecutionEventListener<ExecutionStartEvent>): () => void {
+    return this.emitter.on('executionStart', listener);
+  }
+
+  onNodeStart(listener: ExecutionEventListener<NodeStartEvent>): () => void {
+    return this.emitter.on('nodeStart', listener);
+  }
+
+  onNodeLog(listener: ExecutionEventListener<NodeLogEvent>): () => void {
+    return this.emitter.on('nodeLog', listener);
+  }
+
+  onNodeComplete(listener: ExecutionEventListener<NodeCompleteEvent>): () => void {
+    return this.emitter.on('nodeComplete', listener);
+  }
+
+  onNodeFail(listener: ExecutionEventListener<NodeFailEvent>): () => void {
+    return this.emitter.on('nodeFail', listener);
+  }
+
+  onExecutionEnd(listener: ExecutionEventListener<ExecutionEndEvent>): () => void {
+    return this.emitter.on('executionEnd', listener);
+  }
+
+  onEventEmitted(listener: ExecutionEventListener<NodeEventEmittedEvent>): () => void {
+    return this.emitter.on('eventEmitted', listener);
+  }
+
+  // Async iterator over the events of every execution; stop it with `break` or return()
+  events(): AsyncIterableIterator<ExecutionEvent> {
+    return this.emitter.stream();
+  }
+
+  async executeWorkflow(
+    workflow: Workflow,
+    triggerData?: NodeData,
+    options: ExecutionOptions = {}
+  ): Promise<WorkflowExecution> {
+    return this.startWorkflow(workflow, triggerData, options).result;
+  }
+
+  // Like executeWorkflow, but returns a handle to cancel or pause the execution while it runs
+  startWorkflow(workflow: Workflow, triggerData?: NodeData, options: ExecutionOptions = {}): ExecutionHandle {
+    return this.startRun(workflow, this.createExecution(workflow, triggerData), options);
+  }
+
+  // Continues a paused execution from its checkpoint under the same execution ID
+  resumeExecution(workflow: Workflow, execution: WorkflowExecution, options: ExecutionOptions = {}): ExecutionHandle {
+    if (execution.status !== 'paused' || !execution.checkpoint) {
+      throw new Error(`Execution ${execution.id} is not paused`);
+    }
+
+    // Stored records may be frozen (e.g. by the Redux store), so resume on a copy
+    const { checkpoint, ...resumed } = structuredClone(execution);
+    return this.startRun(workflow, { ...resumed, status: 'running' }, options, { restore: checkpoint, resumed: true });
+  }
+
+  // Runs `nodeId` and everything downstream of it again as a new execution; every other node
+  // keeps the result recorded in `execution`, so side effects upstream are not repeated
+  retryFromNode(
+    workflow: Workflow,
+    execution: WorkflowExecution,
+    nodeId: string,
+    options: ExecutionOptions = {}
+  ): ExecutionHandle {
+    if (execution.status === 'running' || execution.status === 'paused') {
+      throw new Error(`Execution ${execution.id} is still ${execution.status}`);
+    }
+    const node = workflow.nodes.find(n => n.id === nodeId);
+    if (!node) {
+      throw new Error(`Node ${nodeId} is not part of workflow ${workflow.name}`);
+    }
+
+    const startNodeId = getRetryStartNodeId(workflow, nodeId);
+    const rerun = getDownstreamNodeIds(workflow, startNodeId);
+
+    for (const upstreamId of getUpstreamNodeIds(workflow, startNodeId)) {
+      const upstream = workflow.nodes.find(n => n.id === upstreamId);
+      const recorded = execution.nodeExecutions.find(exec => exec.nodeId === upstreamId);
+      if (upstream?.enabled && recorded?.status !== 'completed' && recorded?.status !== 'skipped') {
+        throw new Error(
+          `Cannot retry from ${node.name}: upstream node ${upstream.name} did not complete in execution ${execution.id}`
+        );
+      }
+    }
+
+    const retry = this.createExecution(workflow, structuredClone(execution.triggerData));
+    retry.origin = { executionId: execution.id, mode: 'retry', nodeId: startNodeId };
+    retry.triggerNodeId = execution.triggerNodeId;
+    retry.nodeExecutions = execution.nodeExecutions
+      .filter(exec => !rerun.has(exec.nodeId))
+      .map(exec => {
+        const reused: NodeExecutionContext = { ...structuredClone(exec), executionId: retry.id };
+        this.log(reused, `Result reused from execution ${execution.id}`);
+        return reused;
+      });
+
+    return this.startRun(workflow, retry, options, {
+      restore: { settledNodeIds: retry.nodeExecutions.map(exec => exec.nodeId), collected: {} },
+    });
+  }
+
+  // Runs the whole workflow again, feeding every node the output it recorded in `execution`.
+  // Nothing real runs, which makes this safe for debugging routing and expressions.
+  replayExecution(workflow: Workflow, execution: WorkflowExecution, options: ExecutionOptions = {}): ExecutionHandle {
+    const replay = this.createExecution(workflow, structuredClone(execution.triggerData));
+    replay.origin = { executionId: execution.id, mode: 'replay' };
+    replay.triggerNodeId = execution.triggerNodeId;
+
+    return this.startRun(workflow, replay, options, { replay: structuredClone(execution) });
+  }
+
+  private createExecution(workflow: Workflow, triggerData?: NodeData): WorkflowExecution {
+    return {
       id: `exec_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       workflowId: workflow.id,
       status: 'running',
@@ -231,106 +798,751 @@ export class WorkflowExecutionEngine {
       triggerData,
       nodeExecutions: [],
     };
+  }
+
+  private startRun(
+    workflow: Workflow,
+    execution: WorkflowExecution,
+    options: ExecutionOptions,
+    setup: RunSetup = {}
+  ): ExecutionHandle {
+    const control = new ExecutionControl();
+    const { onEvent } = options;
+    const unsubscribe = onEvent
+      ? this.emitter.subscribe(event => {
+          if (event.executionId === execution.id) onEvent(event);
+        })
+      : undefined;
+    const result = this.runExecution(workflow, execution, options, control, setup);
+    if (unsubscribe) {
+      result.then(unsubscribe);
+    }
 
+    return {
+      executionId: execution.id,
+      result,
+      cancel: () => control.cancel(),
+      pause: () => control.pause(),
+      resume: async (resumeOptions = options) => this.resumeExecution(workflow, await result, resumeOptions),
+      events: () =>
+        this.emitter.stream(
+          event => event.executionId === execution.id,
+          event => event.type === 'executionEnd'
+        ),
+    };
+  }
+
+  private async runExecution(
+    workflow: Workflow,
+    execution: WorkflowExecution,
+    options: ExecutionOptions,
+    control: ExecutionControl,
+    { restore, resumed = false, replay, callStack = [] }: RunSetup
+  ): Promise<WorkflowExecution> {
+    // Start on the next tick so the caller can subscribe to the handle's events first
+    await Promise.resolve();
+
+    const run: ExecutionRun = {
+      workflow,
+      execution,
+      options,
+      // Time spent paused does not count towards the workflow's maximum execution time
+      deadline: workflow.settings.maxExecutionTime ? Date.now() + workflow.settings.maxExecutionTime : undefined,
+      loopNodes: new Set(),
+      budget: new ConcurrencyBudget(workflow.settings.maxConcurrency),
+      collected: new Map(Object.entries(restore?.collected ?? {})),
+      control,
+      settled: new Set(restore?.settledNodeIds),
+      replay,
+      reachable: new Set(),
+      callStack: [...callStack, workflow.id],
+    };
+
+    // Only the sub-graph of the trigger that fired runs
+    let triggerError: unknown;
     try {
-      // Find trigger nodes to start execution
-      const triggerNodes = workflow.nodes.filter(node => node.type === 'trigger');
-      
-      if (triggerNodes.length === 0) {
-        throw new Error('No trigger nodes found in workflow');
+      const trigger = this.resolveTrigger(workflow, options.triggerNodeId ?? execution.triggerNodeId);
+      execution.triggerNodeId = trigger.id;
+      run.reachable = getDownstreamNodeIds(workflow, trigger.id);
+      execution.unreachableNodeIds = workflow.nodes.map(node => node.id).filter(nodeId => !run.reachable.has(nodeId));
+    } catch (error) {
+      triggerError = error;
+    }
+
+    this.emitter.emit({
+      type: 'executionStart',
+      executionId: execution.id,
+      workflowId: workflow.id,
+      timestamp: new Date(),
+      execution: structuredClone(execution),
+      resumed,
+    });
+
+    try {
+      if (triggerError) throw triggerError;
+
+      await this.runGraph(workflow.nodes.map(node => node.id), run);
+
+      if (execution.status !== 'failed' && run.paused) {
+        execution.status = 'paused';
+        execution.checkpoint = {
+          pausedAt: new Date(),
+          settledNodeIds: execution.nodeExecutions.map(exec => exec.nodeId),
+          collected: Object.fromEntries(run.collected),
+        };
+      } else if (execution.status !== 'failed') {
+        execution.status = 'completed';
       }
+    } catch (error) {
+      execution.status = error instanceof ExecutionCancelledError ? 'cancelled' : 'failed';
+      execution.error = this.redact(error instanceof Error ? error.message : String(error));
+    }
 
-      // Execute nodes in topological order
-      const executionOrder = this.getExecutionOrder(workflow);
-      
-      for (const nodeId of executionOrder) {
+    if (execution.status === 'cancelled') {
+      this.cancelRunningNodes(run);
+    }
+    if (execution.status !== 'paused') {
+      execution.endTime = new Date();
+    }
+
+    this.emitter.emit({
+      type: 'executionEnd',
+      executionId: execution.id,
+      workflowId: workflow.id,
+      timestamp: new Date(),
+      status: execution.status,
+      execution: structuredClone(execution),
+    });
+    return execution;
+  }
+
+  private resolveTrigger(workflow: Workflow, triggerNodeId?: string): NodeConfig {
+    const triggers = workflow.nodes.filter(node => node.type === 'trigger');
+    if (triggers.length === 0) {
+      throw new Error('No trigger nodes found in workflow');
+    }
+
+    if (triggerNodeId) {
+      const trigger = triggers.find(node => node.id === triggerNodeId);
+      if (!trigger) throw new Error(`Trigger node ${triggerNodeId} not found in workflow`);
+      if (!trigger.enabled) throw new Error(`Trigger ${trigger.name} is disabled`);
+      return trigger;
+    }
+
+    const enabled = triggers.filter(node => node.enabled);
+    const manual = enabled.find(node => (node as TriggerNodeConfig).triggerType === 'manual');
+    const trigger = enabled.length === 1 ? enabled[0] : manual ?? enabled[0];
+    if (!trigger) throw new Error('All trigger nodes are disabled');
+    return trigger;
+  }
+
+  // Nodes abandoned mid-flight by a cancellation
+  private cancelRunningNodes(run: ExecutionRun): void {
+    for (const nodeContext of run.execution.nodeExecutions) {
+      if (nodeContext.status === 'running') {
+        nodeContext.status = 'cancelled';
+        nodeContext.error = 'Execution cancelled';
+        nodeContext.endTime = new Date();
+        this.notifyNode(nodeContext, run);
+      }
+    }
+  }
+
+  // Reports a change in a node's state to onNodeUpdate and as the matching event
+  private notifyNode(nodeContext: NodeExecutionContext, run: ExecutionRun): void {
+    this.redactNodeContext(nodeContext);
+    run.options.onNodeUpdate?.(nodeContext);
+
+    // Outputs stay whole: stored records are what retries, replays and resumes continue from
+    const context = structuredClone(nodeContext);
+    context.inputData = this.redact(context.inputData);
+
+    const base = {
+      executionId: run.execution.id,
+      workflowId: run.workflow.id,
+      timestamp: new Date(),
+      nodeId: nodeContext.nodeId,
+      nodeName: run.workflow.nodes.find(node => node.id === nodeContext.nodeId)?.name ?? nodeContext.nodeId,
+      iteration: run.iteration,
+      context,
+    };
+    switch (nodeContext.status) {
+      case 'running':
+        this.emitter.emit({ ...base, type: 'nodeStart' });
+        break;
+      case 'completed':
+      case 'skipped':
+        this.emitter.emit({ ...base, type: 'nodeComplete' });
+        break;
+      case 'failed':
+      case 'cancelled':
+        this.emitter.emit({ ...base, type: 'nodeFail', error: nodeContext.error ?? 'Unknown error' });
+        break;
+    }
+  }
+
+  // Starts each node once everything upstream of it has settled
+  private async runGraph(nodeIds: string[], run: ExecutionRun): Promise<void> {
+    const { workflow, execution } = run;
+    const scheduler = new DagScheduler(
+      nodeIds,
+      workflow.connections.map(conn => ({ from: conn.sourceNodeId, to: conn.targetNodeId })),
+      run.budget
+    );
+
+    const fail = (message: string) => {
+      execution.status = 'failed';
+      execution.error ??= message;
+      scheduler.stop();
+    };
+
+    try {
+      await scheduler.run(async nodeId => {
         const node = workflow.nodes.find(n => n.id === nodeId);
-        if (!node || !node.enabled) continue;
-
-        const nodeContext: NodeExecutionContext = {
-          nodeId: node.id,
-          workflowId: workflow.id,
-          executionId: execution.id,
-          inputData: this.getNodeInputData(node, workflow, execution),
-          outputData: {},
-          status: 'running',
-          startTime: new Date(),
-          logs: [],
-        };
+        if (!node || !run.reachable.has(nodeId) || run.loopNodes.has(nodeId) || run.settled.has(nodeId)) return;
 
-        try {
-          const processor = this.processors.get(nodeId) || new MockAIProcessor(node);
-          nodeContext.outputData = await processor.execute(nodeContext);
-          nodeContext.status = 'completed';
-          nodeContext.endTime = new Date();
-        } catch (error) {
-          nodeContext.status = 'failed';
-          nodeContext.error = error instanceof Error ? error.message : String(error);
-          nodeContext.endTime = new Date();
-          
-          if (workflow.settings.errorHandling === 'stop') {
-            execution.status = 'failed';
-            execution.error = `Node ${node.name} failed: ${nodeContext.error}`;
-            break;
+        // Pausing takes effect between nodes; a loop already in progress runs to the end
+        if (run.control.pausing && !run.parent) {
+          run.paused = true;
+          scheduler.stop();
+          return;
+        }
+
+        // A collector whose iterator ran always runs, even if no iteration reached it
+        const skipReason = !node.enabled
+          ? 'Node is disabled'
+          : run.collected.has(nodeId) ? undefined : this.getSkipReason(node, run);
+        if (skipReason) {
+          this.skipNode(node, run, skipReason);
+          return;
+        }
+
+        const nodeContext = await this.executeNode(node, run);
+        const stopOnFailure = workflow.settings.errorHandling !== 'continue';
+
+        if (nodeContext.status === 'failed' && stopOnFailure) {
+          // In 'retry' mode a node that is still failing after its last retry stops the workflow
+          fail(`Node ${node.name} failed: ${nodeContext.error}`);
+        } else if (nodeContext.status === 'completed' && node.type === 'iterator') {
+          // The loop body's nodes need slots of their own, so the iterator gives up its slot meanwhile
+          run.budget.release();
+          const failed = await this.runIterations(node, nodeContext, run).finally(() => run.budget.acquire());
+          if (failed && stopOnFailure) {
+            fail(`Node ${node.name} failed: ${nodeContext.error}`);
           }
         }
+      });
+    } finally {
+      // Record node executions in topological order, independent of completion timing
+      const rank = new Map(scheduler.executionOrder.map((nodeId, index) => [nodeId, index]));
+      execution.nodeExecutions.sort((a, b) => (rank.get(a.nodeId) ?? -1) - (rank.get(b.nodeId) ?? -1));
+    }
+  }
+
+  // Runs the loop body once per item (or batch); returns whether any iteration failed
+  private async runIterations(
+    iterator: IteratorNodeConfig,
+    iteratorContext: NodeExecutionContext,
+    run: ExecutionRun
+  ): Promise<boolean> {
+    const { workflow, execution } = run;
+    const body = getLoopBody(workflow, iterator.id);
+    const batches = toBatches(iteratorContext.outputData.items as DataValue[], iterator.batchSize);
+    const stopOnFailure = workflow.settings.errorHandling !== 'continue';
+    const records: IterationRecord[] = batches.map((item, index) => ({
+      index,
+      item,
+      status: 'pending',
+      nodeExecutions: [],
+    }));
+
+    body.nodeIds.forEach(nodeId => run.loopNodes.add(nodeId));
+    iteratorContext.iterations = records;
+
+    const iterationRuns: ExecutionRun[] = [];
+    const pool = new DagScheduler(records.map(record => String(record.index)), [], iterator.concurrency ?? 1);
+
+    await pool.run(async key => {
+      const record = records[Number(key)];
+      const iterationExecution: WorkflowExecution = {
+        ...execution,
+        status: 'running',
+        error: undefined,
+        nodeExecutions: [{ ...iteratorContext, outputData: { item: record.item, index: record.index } }],
+      };
+      const iterationRun: ExecutionRun = {
+        ...run,
+        execution: iterationExecution,
+        loopNodes: new Set(),
+        collected: new Map(),
+        parent: run,
+        settled: new Set(),
+        iteration: record.index,
+      };
+      iterationRuns[record.index] = iterationRun;
+
+      record.status = 'running';
+      await this.runGraph(body.nodeIds, iterationRun);
 
-        execution.nodeExecutions.push(nodeContext);
+      record.nodeExecutions = iterationExecution.nodeExecutions.slice(1);
+      const failedNode = record.nodeExecutions.find(exec => exec.status === 'failed');
+      record.status = failedNode ? 'failed' : 'completed';
+      record.error = iterationExecution.error ?? failedNode?.error;
+
+      if (failedNode && stopOnFailure) {
+        pool.stop();
       }
+    });
 
-      if (execution.status !== 'failed') {
-        execution.status = 'completed';
+    // Iterations that never started because an earlier one stopped the loop
+    records
+      .filter(record => record.status === 'pending')
+      .forEach(record => {
+        record.status = 'skipped';
+      });
+
+    for (const nodeId of body.nodeIds) {
+      const node = workflow.nodes.find(n => n.id === nodeId);
+      if (node) {
+        this.recordLoopNode(node, records, run);
+      }
+    }
+
+    for (const collectorId of body.collectorIds) {
+      const collector = workflow.nodes.find(n => n.id === collectorId)!;
+      run.collected.set(
+        collectorId,
+        iterationRuns
+          .filter(Boolean)
+          .map(iterationRun => this.getConnectionInputs(collector, iterationRun))
+          .filter(inputs => Object.values(inputs).some(value => value !== undefined))
+          .map(inputs => {
+            const values = Object.values(inputs);
+            return values.length === 1 ? values[0] : inputs;
+          })
+      );
+    }
+
+    const failed = records.filter(record => record.status === 'failed');
+    this.log(
+      iteratorContext,
+      `Ran ${records.length - records.filter(r => r.status === 'skipped').length} of ${records.length} iterations, ${failed.length} failed`
+    );
+    if (failed.length > 0) {
+      iteratorContext.status = 'failed';
+      iteratorContext.error = `Iteration ${failed[0].index} failed: ${failed[0].error}`;
+    }
+    iteratorContext.endTime = new Date();
+    this.notifyNode(iteratorContext, run);
+
+    return failed.length > 0;
+  }
+
+  // Summarises a loop body node across iterations; its outputs become arrays indexed by iteration
+  private recordLoopNode(node: NodeConfig, records: IterationRecord[], run: ExecutionRun): void {
+    const runs = records
+      .map(record => record.nodeExecutions.find(exec => exec.nodeId === node.id))
+      .filter((exec): exec is NodeExecutionContext => exec !== undefined);
+    const count = (status: ExecutionStatus) => runs.filter(exec => exec.status === status).length;
+    const failedIndexes = records
+      .filter(record => record.nodeExecutions.some(exec => exec.nodeId === node.id && exec.status === 'failed'))
+      .map(record => record.index);
+
+    const outputData: NodeData = {};
+    const ports = new Set(runs.flatMap(exec => Object.keys(exec.outputData)));
+    for (const port of ports) {
+      outputData[port] = records.map(record =>
+        record.nodeExecutions.find(exec => exec.nodeId === node.id)?.outputData[port]
+      );
+    }
+
+    let status: ExecutionStatus = 'skipped';
+    if (failedIndexes.length > 0) status = 'failed';
+    else if (count('completed') > 0) status = 'completed';
+
+    const nodeContext: NodeExecutionContext = {
+      nodeId: node.id,
+      workflowId: run.workflow.id,
+      executionId: run.execution.id,
+      inputData: {},
+      outputData,
+      status,
+      startTime: runs[0]?.startTime ?? new Date(),
+      endTime: new Date(),
+      logs: [],
+      attempts: [],
+    };
+    if (failedIndexes.length > 0) {
+      const firstError = runs.find(exec => exec.status === 'failed')?.error;
+      nodeContext.error = `Failed in iteration ${failedIndexes.join(', ')}: ${firstError}`;
+    }
+    if (status === 'skipped') {
+      nodeContext.skipReason = !node.enabled
+        ? 'Node is disabled'
+        : records.length === 0 ? 'The iterator had no items' : 'Not reached in any iteration';
+    }
+    this.log(
+      nodeContext,
+      `Ran in ${runs.length} iterations: ${count('completed')} completed, ${count('failed')} failed, ${count('skipped')} skipped`
+    );
+
+    run.execution.nodeExecutions.push(nodeContext);
+    this.notifyNode(nodeContext, run);
+  }
+
+  private async executeNode(node: NodeConfig, run: ExecutionRun): Promise<NodeExecutionContext> {
+    const { workflow, execution, deadline } = run;
+    const { onNodeUpdate } = run.options;
+    const { settings } = workflow;
+    // A replayed failure fails the same way every time, so retrying it only adds delay
+    const maxAttempts = run.replay ? 1 : 1 + this.getRetryLimit(node, workflow);
+    let failure: unknown;
+    let emitted: NamedEvent[] = [];
+    const nodeContext: NodeExecutionContext = {
+      nodeId: node.id,
+      workflowId: workflow.id,
+      executionId: execution.id,
+      inputData: this.getNodeInputData(node, run),
+      outputData: {},
+      status: 'running',
+      startTime: new Date(),
+      logs: [],
+      attempts: [],
+    };
+
+    execution.nodeExecutions.push(nodeContext);
+    this.notifyNode(nodeContext, run);
+    watchNodeLogs(nodeContext, message =>
+      this.emitter.emit({
+        type: 'nodeLog',
+        executionId: execution.id,
+        workflowId: workflow.id,
+        timestamp: new Date(),
+        nodeId: node.id,
+        nodeName: node.name,
+        iteration: run.iteration,
+        message: this.redact(message),
+      })
+    );
+
+    try {
+      const config = this.resolveConfig(node, nodeContext, run);
+      const processor = run.replay
+        ? new ReplayProcessor(config, this.findRecordedContext(node.id, run), run.replay.id)
+        : this.resolveProcessor(config, run.options);
+
+      for (let attempt = 1; ; attempt++) {
+        const startTime = new Date();
+        try {
+          nodeContext.outputData = await this.runAttempt(processor, nodeContext, node, run);
+          nodeContext.attempts.push({ attempt, startTime, endTime: new Date(), status: 'completed' });
+          break;
+        } catch (error) {
+          const message = error instanceof Error ? error.message : String(error);
+          nodeContext.attempts.push({ attempt, startTime, endTime: new Date(), status: 'failed', error: message });
+
+          const delay = getBackoffDelay(
+            node.retryBackoff ?? settings.retryBackoff ?? 'exponential',
+            node.retryDelay ?? settings.retryDelay ?? DEFAULT_RETRY_DELAY,
+            attempt
+          );
+          const outOfTime = error instanceof DeadlineExceededError || (deadline !== undefined && Date.now() + delay >= deadline);
+          if (attempt >= maxAttempts || outOfTime || error instanceof ExecutionCancelledError) {
+            throw error;
+          }
+
+          this.log(nodeContext, `Attempt ${attempt} of ${maxAttempts} failed: ${message}; retrying in ${delay}ms`);
+          this.redactNodeContext(nodeContext);
+          onNodeUpdate?.(nodeContext);
+          await sleep(delay, run.control.signal);
+        }
       }
+
+      nodeContext.status = 'completed';
+      // Replays reproduce recorded outputs and must not start other workflows again
+      if (!run.replay) emitted = this.getEmittedEvents(config, nodeContext.outputData);
     } catch (error) {
-      execution.status = 'failed';
-      execution.error = error instanceof Error ? error.message : String(error);
+      nodeContext.status = error instanceof ExecutionCancelledError ? 'cancelled' : 'failed';
+      nodeContext.error = error instanceof Error ? error.message : String(error);
+      failure = error;
     }
 
-    execution.endTime = new Date();
-    return execution;
+    nodeContext.endTime = new Date();
+    this.notifyNode(nodeContext, run);
+    for (const event of emitted) {
+      this.emitter.emit({
+        type: 'eventEmitted',
+        executionId: execution.id,
+        workflowId: workflow.id,
+        timestamp: new Date(),
+        nodeId: node.id,
+        nodeName: node.name,
+        iteration: run.iteration,
+        event: structuredClone(event),
+      });
+    }
+
+    // Running out of workflow time or being cancelled ends the execution whatever the error handling mode
+    if (failure instanceof DeadlineExceededError || failure instanceof ExecutionCancelledError) throw failure;
+    return nodeContext;
   }
 
-  private getExecutionOrder(workflow: Workflow): string[] {
-    // Simple topological sort implementation
-    // In a real system, you'd want a more robust algorithm
-    const visited = new Set<string>();
-    const order: string[] = [];
-    
-    const visit = (nodeId: string) => {
-      if (visited.has(nodeId)) return;
-      visited.add(nodeId);
-      
-      // Find nodes that this node depends on
-      const dependencies = workflow.connections
-        .filter(conn => conn.targetNodeId === nodeId)
-        .map(conn => conn.sourceNodeId);
-      
-      dependencies.forEach(visit);
-      order.push(nodeId);
+  // Events the plugin announces for the node's output, plus the one named in its config
+  private getEmittedEvents(config: NodeConfig, outputData: NodeData): NamedEvent[] {
+    const events = this.registry.get(config.type)?.emits?.(config, outputData) ?? [];
+    const name = config.emitEvent?.trim();
+    return name ? [...events, { name, payload: outputData }] : events;
+  }
+
+  // Loop body nodes may read nodes outside the loop, whose records live on the enclosing run
+  private findNodeContext(nodeId: string, run: ExecutionRun): NodeExecutionContext | undefined {
+    for (let current: ExecutionRun | undefined = run; current; current = current.parent) {
+      const context = current.execution.nodeExecutions.find(exec => exec.nodeId === nodeId);
+      if (context) return context;
+    }
+    return undefined;
+  }
+
+  // Explains why a node must not run: the branches leading to it were not taken, or the nodes
+  // feeding it were skipped or failed. Connections from outside the fired trigger's sub-graph
+  // are not part of this run and are ignored.
+  private getSkipReason(node: NodeConfig, run: ExecutionRun): string | undefined {
+    const { workflow } = run;
+    const incoming = workflow.connections.filter(
+      conn => conn.targetNodeId === node.id && run.reachable.has(conn.sourceNodeId)
+    );
+    if (incoming.length === 0) return undefined;
+
+    const inactive = incoming.filter(conn => {
+      const source = this.findNodeContext(conn.sourceNodeId, run);
+      if (!source) return false;
+      if (source.status === 'skipped' || source.status === 'failed' || source.status === 'cancelled') return true;
+      return source.activeOutputs !== undefined && !source.activeOutputs.includes(conn.sourceOutput);
+    });
+
+    if (inactive.length === 0) return undefined;
+    if (node.mergeMode === 'any' && inactive.length < incoming.length) return undefined;
+
+    const describe = (conn: NodeConnection) => {
+      const name = workflow.nodes.find(n => n.id === conn.sourceNodeId)?.name ?? conn.sourceNodeId;
+      const source = this.findNodeContext(conn.sourceNodeId, run);
+      if (source?.status === 'skipped') return `${name} was skipped`;
+      if (source?.status === 'failed' || source?.status === 'cancelled') return `${name} ${source.status}`;
+      return `${name} did not take '${conn.sourceOutput}'`;
+    };
+    return node.mergeMode === 'any'
+      ? `None of the incoming branches were taken (${inactive.map(describe).join('; ')})`
+      : `Branch not taken: ${inactive.map(describe).join('; ')}`;
+  }
+
+  private skipNode(node: NodeConfig, run: ExecutionRun, reason: string): void {
+    const { workflow, execution } = run;
+    const now = new Date();
+    const nodeContext: NodeExecutionContext = {
+      nodeId: node.id,
+      workflowId: workflow.id,
+      executionId: execution.id,
+      inputData: {},
+      outputData: {},
+      status: 'skipped',
+      startTime: now,
+      endTime: now,
+      logs: [],
+      attempts: [],
+      skipReason: reason,
+    };
+
+    this.log(nodeContext, `Skipped: ${reason}`);
+    execution.nodeExecutions.push(nodeContext);
+    this.notifyNode(nodeContext, run);
+  }
+
+  private async runAttempt(
+    processor: BaseNodeProcessor,
+    context: NodeExecutionContext,
+    node: NodeConfig,
+    run: ExecutionRun
+  ): Promise<NodeData> {
+    const { workflow, deadline, control } = run;
+    const remaining = deadline !== undefined ? deadline - Date.now() : undefined;
+
+    // Each attempt gets its own signal so a timed-out attempt can be aborted on its own
+    const attemptController = new AbortController();
+    const abortAttempt = () => attemptController.abort(control.signal.reason);
+    control.signal.addEventListener('abort', abortAttempt, { once: true });
+    const timedOut = (error: TimeoutError) => {
+      attemptController.abort(error);
+      return error;
+    };
+    const runtime = this.createNodeRuntime(context, node, run, attemptController.signal);
+    const result = withAbort(processor.execute(context, attemptController.signal, runtime), control.signal);
+
+    try {
+      // Whichever limit is closer decides how long this attempt may take
+      if (remaining !== undefined && (node.timeout === undefined || remaining < node.timeout)) {
+        return await withTimeout(result, remaining, () =>
+          timedOut(new DeadlineExceededError(`Workflow exceeded its maximum execution time of ${workflow.settings.maxExecutionTime}ms`))
+        );
+      }
+      return await withTimeout(result, node.timeout, () =>
+        timedOut(new TimeoutError(`Node ${node.name} timed out after ${node.timeout}ms`))
+      );
+    } finally {
+      control.signal.removeEventListener('abort', abortAttempt);
+    }
+  }
+
+
+  private createNodeRuntime(context: NodeExecutionContext, node: NodeConfig, run: ExecutionRun, signal: AbortSignal): NodeRuntime {
+    return {
+      workflow: run.workflow,
+      runChildWorkflow: async (workflowId, triggerData) => {
+        const workflows = run.options.workflows ?? [];
+        const child = workflows.find(workflow => workflow.id === workflowId);
+        if (!child) throw new Error(`Workflow ${workflowId} not found`);
+
+        if (run.callStack.includes(child.id)) {
+          throw new Error(`Sub-workflow cycle: ${describeCallPath(workflows, [...run.callStack, child.id])}`);
+        }
+        if (run.callStack.length > MAX_SUBWORKFLOW_DEPTH) {
+          throw new Error(`Sub-workflows are nested more than ${MAX_SUBWORKFLOW_DEPTH} deep`);
+        }
+
+        const execution: WorkflowExecution = {
+          ...this.createExecution(child, triggerData),
+          parent: { executionId: run.execution.id, workflowId: run.workflow.id, nodeId: node.id },
+        };
+        context.childExecutionId = execution.id;
+        this.log(context, `Running ${child.name} as child execution ${execution.id}`);
+
+        // The child is watched through the engine's events, not the parent's listeners
+        const { simulation } = run.options;
+        const handle = this.startRun(child, execution, { simulation, workflows }, { callStack: run.callStack });
+        const cancel = () => handle.cancel();
+        signal.addEventListener('abort', cancel, { once: true });
+        try {
+          return { workflow: child, execution: await handle.result };
+        } finally {
+          signal.removeEventListener('abort', cancel);
+        }
+      },
+      renderTemplate: (template, escape) => {
+        try {
+          return renderTemplateText(template, this.buildNodeScope(context, run), escape);
+        } catch (error) {
+          throw new ExpressionError(`Node '${node.name}': ${error instanceof Error ? error.message : String(error)}`);
+        }
+      },
+      tables: this.tables,
+      files: this.files,
+      mailer: this.mailer,
+      notifications: this.notifications,
+      resolveCredential: async (credentialId, types) => {
+        if (!this.credentials) throw new Error('This engine has no credentials vault');
+        return this.credentials.resolve(credentialId, types);
+      },
+      smtpTransport: this.smtpTransport,
     };
+  }
+
+  // Number of retries after the first attempt; maxRetries caps per-node retry counts
+  private getRetryLimit(node: NodeConfig, workflow: Workflow): number {
+    const { errorHandling, maxRetries } = workflow.settings;
+    const retries = node.retryCount ?? (errorHandling === 'retry' ? maxRetries ?? DEFAULT_MAX_RETRIES : 0);
+    return Math.max(0, maxRetries !== undefined ? Math.min(retries, maxRetries) : retries);
+  }
+
+  private log(context: NodeExecutionContext, message: string): void {
+    appendNodeLog(context, message);
+  }
+
+  // Replaces the secret values of unlocked credentials wherever they appear in a value, and masks
+  // sensitive headers
+  private redact<T>(value: T): T {
+    return redactSecrets(value, this.credentials?.getSecretValues() ?? []);
+  }
+
+  // Redacts a node's record in place. Its inputData is left alone while the node runs, since
+  // the processor reads it; outputData is what downstream nodes receive and is never changed.
+  private redactNodeContext(nodeContext: NodeExecutionContext): void {
+    nodeContext.logs = this.redact(nodeContext.logs);
+    nodeContext.attempts = this.redact(nodeContext.attempts);
+    if (nodeContext.error !== undefined) nodeContext.error = this.redact(nodeContext.error);
+    if (nodeContext.status !== 'running') nodeContext.inputData = this.redact(nodeContext.inputData);
+  }
+
+  // The node's context in the execution being replayed, from the matching loop iteration if inside one
+  private findRecordedContext(nodeId: string, run: ExecutionRun): NodeExecutionContext | undefined {
+    if (run.iteration === undefined || !run.parent) {
+      return run.replay?.nodeExecutions.find(exec => exec.nodeId === nodeId);
+    }
+
+    const iteratorId = run.execution.nodeExecutions[0].nodeId;
+    const iterator = this.findRecordedContext(iteratorId, run.parent);
+    return iterator?.iterations?.[run.iteration]?.nodeExecutions.find(exec => exec.nodeId === nodeId);
+  }
 
-    // Start with trigger nodes
-    workflow.nodes
-      .filter(node => node.type === 'trigger')
-      .forEach(node => visit(node.id));
+  // What expressions in the node's config can read, including the nodes of enclosing loops
+  private buildNodeScope(nodeContext: NodeExecutionContext, run: ExecutionRun): ExpressionScope {
+    const nodeExecutions: NodeExecutionContext[] = [];
+    for (let current: ExecutionRun | undefined = run; current; current = current.parent) {
+      nodeExecutions.push(...current.execution.nodeExecutions);
+    }
+    return buildExpressionScope(run.workflow, { ...run.execution, nodeExecutions }, nodeContext.inputData);
+  }
 
-    return order;
+  // Resolves `{{ }}` expressions in the node's config against this execution's data
+  private resolveConfig(node: NodeConfig, nodeContext: NodeExecutionContext, run: ExecutionRun): NodeConfig {
+    const scope = this.buildNodeScope(nodeContext, run);
+    const deferred = this.registry.get(node.type)?.configSchema.filter(field => field.deferred).map(field => field.key);
+    return resolveConfigExpressions(node, scope, deferred);
   }
 
-  private getNodeInputData(node: NodeConfig, workflow: Workflow, execution: WorkflowExecution): NodeData {
+  private resolveProcessor(node: NodeConfig, options: ExecutionOptions): BaseNodeProcessor {
+    const override = this.processors.get(node.id);
+    if (override) return override;
+
+    const plugin = this.registry.get(node.type);
+    if (plugin?.createProcessor) return plugin.createProcessor(node);
+
+    if (options.simulation) return new MockAIProcessor(node, plugin && getOutputPorts(plugin, node));
+
+    throw new Error(
+      plugin
+        ? `Node type '${node.type}' has no processor; run the workflow in simulation mode to mock it`
+        : `No plugin registered for node type '${node.type}'`
+    );
+  }
+
+  // Values delivered to the node through its incoming connections, keyed by input port. Sources
+  // outside the loop a node runs in are found on the enclosing runs.
+  private getConnectionInputs(node: NodeConfig, run: ExecutionRun): NodeData {
     const inputData: NodeData = {};
-    
-    // Get data from connected nodes
-    const incomingConnections = workflow.connections.filter(conn => conn.targetNodeId === node.id);
+    const incomingConnections = run.workflow.connections.filter(conn => conn.targetNodeId === node.id);
     
     for (const connection of incomingConnections) {
-      const sourceExecution = execution.nodeExecutions.find(exec => exec.nodeId === connection.sourceNodeId);
+      const sourceExecution = this.findNodeContext(connection.sourceNodeId, run);
       if (sourceExecution && sourceExecution.status === 'completed') {
         const sourceOutputValue = sourceExecution.outputData[connection.sourceOutput];
         inputData[connection.targetInput] = sourceOutputValue;
       }
     }
     
+    return inputData;
+  }
+
+  private getNodeInputData(node: NodeConfig, run: ExecutionRun): NodeData {
+    const { workflow, execution } = run;
+
+    // Get data from connected nodes
+    const inputData = this.getConnectionInputs(node, run);
+    
+    // Collectors receive the per-iteration results gathered by their iterator
+    const collected = run.collected.get(node.id);
+    if (collected) {
+      inputData.items = collected;
+    }
+    
     // Add workflow variables
     if (workflow.variables) {
       Object.assign(inputData, workflow.variables);
@@ -345,38 +1557,85 @@ export class WorkflowExecutionEngine {
   }
 }
 
+export interface ValidationOptions {
+  registry?: NodeRegistry;
+  workflows?: Workflow[]; // other workflows, for checks that span workflows
+}
+
+export interface WorkflowValidationResult {
+  isValid: boolean; // no issue of 'error' severity
+  errors: string[]; // messages of the 'error' issues
+  issues: ValidationIssue[];
+}
+
 // Utility functions for workflow management
 export class WorkflowUtils {
-  static validateWorkflow(workflow: Workflow): { isValid: boolean; errors: string[] } {
-    const errors: string[] = [];
+  static getNodeDuration(context: NodeExecutionContext): number | undefined {
+    if (!context.startTime || !context.endTime) return undefined;
+    return new Date(context.endTime).getTime() - new Date(context.startTime).getTime();
+  }
+
+  static formatDuration(ms: number): string {
+    return ms < 1000 ? `${ms}ms` : `${(ms / 1000).toFixed(1)}s`;
+  }
+
+  static validateWorkflow(workflow: Workflow, options: ValidationOptions = {}): WorkflowValidationResult {
+    const registry = options.registry ?? nodeRegistry;
+    const issues: ValidationIssue[] = [];
+    const error = (message: string, nodeId?: string) => issues.push({ severity: 'error', message, nodeId });
     
     // Check for at least one trigger node
     const triggerNodes = workflow.nodes.filter(node => node.type === 'trigger');
     if (triggerNodes.length === 0) {
-      errors.push('Workflow must have at least one trigger node');
+      error('Workflow must have at least one trigger node');
     }
     
     // Check for circular dependencies
     if (this.hasCircularDependencies(workflow)) {
-      errors.push('Workflow contains circular dependencies');
+      error('Workflow contains circular dependencies');
     }
-    
-    // Validate connections
+
+    // Validate connections: both ends must exist and their port types must match
     for (const connection of workflow.connections) {
-      const sourceNode = workflow.nodes.find(n => n.id === connection.sourceNodeId);
-      const targetNode = workflow.nodes.find(n => n.id === connection.targetNodeId);
-      
-      if (!sourceNode) {
-        errors.push(`Connection references non-existent source node: ${connection.sourceNodeId}`);
+      const message = getConnectionError(workflow, connection, registry);
+      if (message) {
+        const anchor = workflow.nodes.some(n => n.id === connection.targetNodeId)
+          ? connection.targetNodeId
+          : undefined;
+        error(message, anchor);
       }
-      if (!targetNode) {
-        errors.push(`Connection references non-existent target node: ${connection.targetNodeId}`);
+    }
+
+    // Nodes that no trigger leads to never run
+    const reachable = new Set(triggerNodes.flatMap(trigger => [...getDownstreamNodeIds(workflow, trigger.id)]));
+    const context = { workflow, workflows: options.workflows ?? [] };
+
+    for (const node of workflow.nodes) {
+      const plugin = registry.get(node.type);
+      if (!node.enabled) continue;
+
+      if (triggerNodes.length > 0 && !reachable.has(node.id)) {
+        issues.push({ severity: 'warning', nodeId: node.id, message: `${node.name} is not connected to a trigger and will never run` });
+      }
+
+      // Check that required inputs are connected
+      for (const port of plugin ? getInputPorts(plugin, node).filter(input => input.required) : []) {
+        const connected = workflow.connections.some(
+          conn => conn.targetNodeId === node.id && conn.targetInput === port.name
+        );
+        if (!connected) {
+          error(`${node.name}: required input '${port.label || port.name}' is not connected`, node.id);
+        }
       }
+
+      issues.push(...validateNodeConfig(node, context, registry));
     }
-    
+
+    const errors = issues.filter(issue => issue.severity === 'error').map(issue => issue.message);
     return {
       isValid: errors.length === 0,
       errors,
+      issues,
     };
   }
   